@@ -0,0 +1,274 @@
+/**
+ * API Route for Graph Diffs
+ * Analyzes two versions of a TypeScript file (e.g. a PR base and head) and
+ * returns one graph with added, removed and changed functions and calls marked
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateURL, fetchCodeFromURL, getFilenameFromURL } from '../../../src/lib/utils';
+import { parseTypeScriptCode } from '../../../src/lib/codeParser';
+import { analyzeSourceWithTypeChecker } from '../../../src/lib/typeCheckerAnalyzer';
+import { buildReactFlowGraph, withoutExternalModules } from '../../../src/lib/graphBuilder';
+import { flattenGroups } from '../../../src/lib/nodeGroups';
+import { diffGraphs } from '../../../src/lib/graphDiff';
+import type { GraphDiffSummary } from '../../../src/lib/graphDiff';
+import { checkRateLimit, getClientIP, withRateLimitHeaders } from '../../../src/lib/rateLimit';
+import type { AnalyzerBackend, GraphData } from '../../../src/types';
+
+interface DiffCodeRequest {
+  /** URL of the old version of the file */
+  baseUrl?: string;
+  /** URL of the new version of the file */
+  headUrl?: string;
+  /** Call resolution backend, defaults to 'babel' */
+  analyzer?: AnalyzerBackend;
+}
+
+interface DiffCodeSuccessResponse {
+  success: true;
+  data: {
+    nodes: GraphData['nodes'];
+    edges: GraphData['edges'];
+    metadata: {
+      fileName: string;
+      baseUrl: string;
+      headUrl: string;
+      totalFunctions: number;
+      totalCalls: number;
+      /** Imports and exports of the head version */
+      imports: string[];
+      exports: string[];
+      /** Added, removed and changed function and call counts */
+      diff: GraphDiffSummary;
+      fileSize?: number;
+      parseTime: number;
+      analyzer: AnalyzerBackend;
+    };
+  };
+}
+
+interface DiffCodeErrorResponse {
+  success: false;
+  error: string;
+  details?: unknown;
+}
+
+type DiffCodeResponse = DiffCodeSuccessResponse | DiffCodeErrorResponse;
+
+/**
+ * Result of analyzing one side of the diff
+ */
+type VersionAnalysis =
+  | { success: true; graph: GraphData; fileName: string; size?: number; imports: string[]; exports: string[] }
+  | { success: false; error: string; details?: unknown };
+
+/**
+ * POST /api/diff-code
+ * Analyzes the files at `baseUrl` and `headUrl` and returns their combined
+ * call graph. Nodes carry `diffStatus` ('added' | 'removed' | 'changed' |
+ * 'unchanged') and `diffChanges` in their data; edges carry `diffStatus`.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<DiffCodeResponse>> {
+  const rateLimit = await checkRateLimit(getClientIP(request));
+  if (!rateLimit.allowed) {
+    const response: NextResponse<DiffCodeResponse> = NextResponse.json(
+      {
+        success: false,
+        error: 'Rate limit exceeded. Please try again later.',
+      },
+      { status: 429 }
+    );
+    return withRateLimitHeaders(response, rateLimit);
+  }
+
+  return withRateLimitHeaders(await diffCode(request), rateLimit);
+}
+
+/**
+ * Compares the requested versions once the client is within its rate limit
+ */
+async function diffCode(request: NextRequest): Promise<NextResponse<DiffCodeResponse>> {
+  const startTime = Date.now();
+
+  try {
+    let body: DiffCodeRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid JSON in request body',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.baseUrl !== 'string' || typeof body.headUrl !== 'string' || !body.baseUrl || !body.headUrl) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'baseUrl and headUrl are required in request body',
+        },
+        { status: 400 }
+      );
+    }
+
+    const analyzer: AnalyzerBackend = body.analyzer === 'typescript' ? 'typescript' : 'babel';
+    const [base, head] = await Promise.all([
+      analyzeVersion(body.baseUrl, analyzer),
+      analyzeVersion(body.headUrl, analyzer),
+    ]);
+
+    if (!base.success) return versionError('base', base);
+    if (!head.success) return versionError('head', head);
+
+    const { graph, summary } = diffGraphs(base.graph, head.graph);
+
+    const response: DiffCodeSuccessResponse = {
+      success: true,
+      data: {
+        nodes: graph.nodes,
+        edges: graph.edges,
+        metadata: {
+          fileName: head.fileName,
+          baseUrl: body.baseUrl,
+          headUrl: body.headUrl,
+          totalFunctions: flattenGroups(graph.nodes).filter(node => node.type !== 'sectionHeader').length,
+          totalCalls: graph.edges.length,
+          imports: head.imports,
+          exports: head.exports,
+          diff: summary,
+          fileSize: head.size,
+          parseTime: Date.now() - startTime,
+          analyzer,
+        },
+      },
+    };
+
+    return NextResponse.json(response, { status: 200 });
+
+  } catch (error) {
+    console.error('Diff code API error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error occurred while comparing code',
+        details: process.env.NODE_ENV === 'development' ? error : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/diff-code
+ * Returns API information
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({
+    name: 'TypeScript Graph Diff API',
+    version: '1.0.0',
+    description: 'Compares the function call graphs of two versions of a TypeScript file',
+    endpoints: {
+      'POST /api/diff-code': {
+        description: 'Analyze two file URLs and return their combined, change-marked call graph',
+        body: {
+          baseUrl: 'string - URL of the old version of the file',
+          headUrl: 'string - URL of the new version of the file',
+          analyzer: "'babel' | 'typescript' - Call resolution backend (optional)",
+        },
+        response: {
+          success: 'boolean',
+          data: "GraphData - Nodes and edges with data.diffStatus ('added' | 'removed' | 'changed' | 'unchanged')",
+          error: 'string - Error message if failed',
+        },
+      },
+    },
+    limits: {
+      maxFileSize: '500KB',
+      supportedTypes: ['.ts', '.tsx'],
+    },
+  });
+}
+
+/**
+ * Fetches and parses one version of the file
+ * @param url - File URL
+ * @param analyzer - Call resolution backend
+ * @returns The version's call graph, or why it could not be built
+ */
+async function analyzeVersion(url: string, analyzer: AnalyzerBackend): Promise<VersionAnalysis> {
+  const urlValidation = validateURL(url);
+  if (!urlValidation.isValid) {
+    return { success: false, error: `Invalid URL: ${urlValidation.error}` };
+  }
+  if (urlValidation.isDirectory) {
+    return { success: false, error: 'Diffs compare single files, not repositories or directories' };
+  }
+
+  const fetchResult = await fetchCodeFromURL(url);
+  if (!fetchResult.success) {
+    return {
+      success: false,
+      error: fetchResult.error || 'Failed to fetch code',
+      details: { url: fetchResult.url, size: fetchResult.size },
+    };
+  }
+
+  const fileName = getFilenameFromURL(url);
+  const parseResult = analyzer === 'typescript'
+    ? await analyzeSourceWithTypeChecker(fetchResult.content!, { filename: fileName })
+    : await parseTypeScriptCode(fetchResult.content!, { filename: fileName });
+
+  // Recovered syntax errors only mark nodes; a file that yields nothing is rejected
+  const syntaxErrors = parseResult.errors.filter(error => error.type === 'syntax');
+  if (syntaxErrors.length > 0 && parseResult.functions.length === 0) {
+    return { success: false, error: 'Failed to parse TypeScript code', details: { errors: syntaxErrors, url } };
+  }
+
+  // A version without functions is valid: everything in the other version is added or removed
+  const { metadata } = parseResult;
+  return {
+    success: true,
+    // External modules are left out: the diff compares the analyzed functions and their calls
+    graph: withoutExternalModules(buildReactFlowGraph(parseResult)),
+    fileName,
+    size: fetchResult.size,
+    imports: metadata?.imports || [],
+    exports: metadata?.exports || [],
+  };
+}
+
+/**
+ * Builds the error response for a version that could not be analyzed
+ */
+function versionError(
+  side: 'base' | 'head',
+  version: Extract<VersionAnalysis, { success: false }>
+): NextResponse<DiffCodeErrorResponse> {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Failed to analyze ${side} version: ${version.error}`,
+      details: version.details,
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * OPTIONS handler for CORS preflight
+ */
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
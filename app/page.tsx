@@ -1,9 +1,17 @@
 'use client';
 
-import { useState, useCallback, Suspense } from 'react';
+import { useState, useCallback, useEffect, useRef, Suspense } from 'react';
 import dynamic from 'next/dynamic';
 import URLInput from '../src/components/URLInput';
-import { CodeFetchResult, AnalysisStatus, GraphData } from '../src/types';
+import CodeInput from '../src/components/CodeInput';
+import FileUpload from '../src/components/FileUpload';
+import CompareInput from '../src/components/CompareInput';
+import { analyzeInBrowser } from '../src/lib/browserAnalysis';
+import { isAbortError } from '../src/lib/analysisWorker';
+import { createPermalink, parsePermalink } from '../src/lib/permalink';
+import { ANALYSIS_STAGE_STATUS, describeProgress, readAnalysisStream } from '../src/lib/analysisStream';
+import type { GraphDiffSummary } from '../src/lib/graphDiff';
+import { CodeFetchResult, AnalysisProgress, AnalysisStatus, AnalyzerBackend, GraphData, ModuleSummary, ParseError, ProjectFile, ViewState } from '../src/types';
 
 // Dynamic import for FlowVisualizer to avoid SSR issues
 const FlowVisualizer = dynamic(
@@ -24,70 +32,274 @@ const FlowVisualizer = dynamic(
 interface ParseResult {
   nodes: GraphData['nodes'];
   edges: GraphData['edges'];
+  hierarchy?: GraphData;
   metadata: {
     fileName: string;
     totalFunctions: number;
     totalCalls: number;
     imports: string[];
     exports: string[];
+    /** Typed imports, exports and top-level declarations */
+    module?: ModuleSummary;
     fileSize?: number;
     parseTime: number;
+    fileCount?: number;
+    truncated?: boolean;
+    /** Change counts when two versions of a file were compared */
+    diff?: GraphDiffSummary;
+    /** Problems found while analyzing, e.g. syntax errors the parser skipped */
+    diagnostics?: ParseError[];
   };
 }
 
-export default function Home() {
-  const [analysisResult, setAnalysisResult] = useState<CodeFetchResult | null>(null);
+/**
+ * Body of a parse or diff API response
+ */
+type ParseResponse = { success: true; data: ParseResult } | { success: false; error: string };
+
+/**
+ * Source sent to the parse API (URL or pasted code) or the diff API (two URLs)
+ */
+type ParseRequestBody = { url: string } | { code: string; filename: string } | { baseUrl: string; headUrl: string };
+
+type InputMode = 'url' | 'paste' | 'upload' | 'compare';
+
+/**
+ * Whether a response comes from something other than the analysis API, e.g.
+ * the 404 page of a static deployment or a gateway error. The API answers
+ * with JSON even when it fails.
+ */
+const isApiUnavailable = (response: Response) =>
+  !response.ok && !(response.headers.get('content-type') || '').includes('json');
+
+/**
+ * Sends a parse request (URL or pasted source) or a diff request (two URLs)
+ * to the API. Parse requests stream their progress. Without a reachable API
+ * the analysis runs in the browser instead.
+ * @returns The API response, or the browser analysis shaped like one
+ */
+const fetchAnalysis = async (
+  body: ParseRequestBody,
+  backend: AnalyzerBackend,
+  signal: AbortSignal,
+  onProgress: (progress: AnalysisProgress) => void
+): Promise<ParseResponse> => {
+  const response = await fetch('baseUrl' in body ? '/api/diff-code' : '/api/parse-code?stream=ndjson', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...body, analyzer: backend }),
+    signal,
+  }).catch(error => {
+    if (isAbortError(error)) throw error;
+    return null;
+  });
+
+  return response && !isApiUnavailable(response)
+    ? (await readAnalysisStream<ParseResponse>(response, onProgress)).body
+    : analyzeInBrowser(body, backend, { signal, onProgress });
+};
+
+/**
+ * Drops a permalink from the address bar, e.g. when the analyzed source changes
+ */
+const clearPermalink = () => {
+  if (window.location.search) {
+    window.history.replaceState(null, '', window.location.pathname);
+  }
+};
+
+/**
+ * Reads the permalink the page was opened with
+ */
+const readPermalink = () => parsePermalink(window.location.search);
+
+function Home() {
+  // A permalink in the address bar restores the analyzed URL, the analyzer and the view
+  const [permalink] = useState(readPermalink);
+  const [inputMode, setInputMode] = useState<InputMode>('url');
+  const [analysisResult, setAnalysisResult] = useState<CodeFetchResult | null>(
+    permalink && { success: true, url: permalink.url }
+  );
+  const [sourceLabel, setSourceLabel] = useState<string>(permalink?.url ?? '');
   const [parseResult, setParseResult] = useState<ParseResult | null>(null);
-  const [analysisStatus, setAnalysisStatus] = useState<AnalysisStatus>('idle');
+  const [analysisStatus, setAnalysisStatus] = useState<AnalysisStatus>(permalink ? 'parsing' : 'idle');
+  // Latest step reported by a streamed parse, cleared once it finishes
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   const [parseError, setParseError] = useState<string | null>(null);
+  const [fileErrors, setFileErrors] = useState<ParseError[]>([]);
   const [showVisualization, setShowVisualization] = useState(false);
+  const [analyzer, setAnalyzer] = useState<AnalyzerBackend>(permalink?.analyzer ?? 'babel');
+  // Last reported view; restores the view when the visualization is reopened or a permalink is loaded
+  const [viewState, setViewState] = useState<Partial<ViewState> | undefined>(permalink?.view);
+  const permalinkLoadedRef = useRef(false);
+  // Cancels the running analysis, e.g. when a new one starts
+  const analysisControllerRef = useRef<AbortController | null>(null);
+
+  const startAnalysis = useCallback(() => {
+    analysisControllerRef.current?.abort();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    return controller;
+  }, []);
+
+  const handleProgress = useCallback((progress: AnalysisProgress) => {
+    setAnalysisProgress(progress);
+    setAnalysisStatus(ANALYSIS_STAGE_STATUS[progress.stage]);
+  }, []);
+
+  // Shows the graph of a finished parse or diff request, or why it failed
+  const showParseResponse = useCallback((parseData: ParseResponse) => {
+    setAnalysisProgress(null);
+    if (parseData.success) {
+      setParseResult(parseData.data);
+      setAnalysisStatus('complete');
+      setShowVisualization(true);
+    } else {
+      setParseError(parseData.error);
+      setAnalysisStatus('error');
+    }
+  }, []);
+
+  const showParseFailure = useCallback((error: unknown) => {
+    // A cancelled analysis was replaced or reset; its state is not ours to touch
+    if (isAbortError(error)) return;
+    setAnalysisProgress(null);
+    setParseError(error instanceof Error ? error.message : 'Failed to parse code');
+    setAnalysisStatus('error');
+  }, []);
+
+  const requestParse = useCallback(async (body: ParseRequestBody, backend: AnalyzerBackend = analyzer) => {
+    const controller = startAnalysis();
+    setAnalysisStatus('parsing');
+    setAnalysisProgress(null);
+    await fetchAnalysis(body, backend, controller.signal, handleProgress).then(showParseResponse, showParseFailure);
+  }, [analyzer, startAnalysis, handleProgress, showParseResponse, showParseFailure]);
 
   const handleAnalyze = useCallback(async (result: CodeFetchResult) => {
     setAnalysisResult(result);
+    setSourceLabel(result.url);
     setParseResult(null);
     setParseError(null);
+    setViewState(undefined);
+    clearPermalink();
 
-    if (result.success && result.content) {
+    // Repository/directory URLs carry no content; the API fetches their files
+    if (result.success) {
       // Call the parse API
-      try {
-        setAnalysisStatus('parsing');
-        
-        const response = await fetch('/api/parse-code', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            url: result.url,
-          }),
-        });
-
-        const parseData = await response.json();
-
-        if (parseData.success) {
-          setParseResult(parseData.data);
-          setAnalysisStatus('complete');
-          setShowVisualization(true);
-        } else {
-          setParseError(parseData.error);
-          setAnalysisStatus('error');
-        }
-      } catch (error) {
-        setParseError(error instanceof Error ? error.message : 'Failed to parse code');
+      await requestParse({ url: result.url });
+    }
+  }, [requestParse]);
+
+  const handleAnalyzeCode = useCallback(async (code: string, filename: string) => {
+    // Pasted code has no URL; the file name only labels the source
+    setAnalysisResult({ success: true, content: code, url: '', size: new Blob([code]).size });
+    setSourceLabel(`${filename} (pasted)`);
+    setParseResult(null);
+    setParseError(null);
+    setViewState(undefined);
+    clearPermalink();
+
+    await requestParse({ code, filename });
+  }, [requestParse]);
+
+  const handleCompare = useCallback(async (baseUrl: string, headUrl: string) => {
+    // The combined graph belongs to neither URL, so it gets no permalink
+    setAnalysisResult({ success: true, url: '' });
+    setSourceLabel(`${baseUrl} → ${headUrl}`);
+    setParseResult(null);
+    setParseError(null);
+    setViewState(undefined);
+    clearPermalink();
+
+    await requestParse({ baseUrl, headUrl });
+  }, [requestParse]);
+
+  const handleAnalyzeFiles = useCallback(async (files: ProjectFile[], label: string) => {
+    // Uploaded files are parsed in the browser so private code never leaves the machine
+    const totalSize = files.reduce((sum, file) => sum + new Blob([file.content]).size, 0);
+    setAnalysisResult({ success: true, url: '', size: totalSize });
+    setSourceLabel(label);
+    setParseResult(null);
+    setParseError(null);
+    setFileErrors([]);
+    setViewState(undefined);
+    clearPermalink();
+    setAnalysisStatus('parsing');
+    setAnalysisProgress(null);
+    const controller = startAnalysis();
+
+    try {
+      const outcome = await analyzeInBrowser({ files, label }, analyzer, {
+        signal: controller.signal,
+        onProgress: handleProgress,
+      });
+      setAnalysisProgress(null);
+
+      if (!outcome.success) {
+        setFileErrors((outcome.errors || []).filter(error => error.filePath));
+        setParseError(outcome.error);
         setAnalysisStatus('error');
+        return;
       }
+
+      setFileErrors((outcome.data.metadata.diagnostics || []).filter(error => error.filePath));
+      setParseResult(outcome.data);
+      setAnalysisStatus('complete');
+      setShowVisualization(true);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      setAnalysisProgress(null);
+      setParseError(error instanceof Error ? error.message : 'Failed to parse files');
+      setAnalysisStatus('error');
     }
-  }, []);
+  }, [analyzer, startAnalysis, handleProgress]);
+
+  // Opening a permalink re-runs the analysis of its URL once; the page starts out parsing it
+  useEffect(() => {
+    if (permalinkLoadedRef.current || !permalink) return;
+    permalinkLoadedRef.current = true;
+    fetchAnalysis({ url: permalink.url }, permalink.analyzer, startAnalysis().signal, handleProgress)
+      .then(showParseResponse, showParseFailure);
+  }, [permalink, startAnalysis, handleProgress, showParseResponse, showParseFailure]);
+
+  // Only URL sources can be shared; pasted and uploaded code is not part of the link
+  const permalinkUrl = analysisResult?.url;
+  const handleViewStateChange = useCallback((view: ViewState) => {
+    if (!permalinkUrl) return;
+    setViewState(view);
+    window.history.replaceState(null, '', createPermalink(window.location.pathname, {
+      url: permalinkUrl,
+      analyzer,
+      view,
+    }));
+  }, [permalinkUrl, analyzer]);
 
   const handleStatusChange = useCallback((status: AnalysisStatus) => {
     setAnalysisStatus(status);
   }, []);
 
+  // Stops the running analysis and returns to the input
+  const handleCancel = useCallback(() => {
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = null;
+    setAnalysisProgress(null);
+    setAnalysisStatus('idle');
+  }, []);
+
   const handleReset = useCallback(() => {
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = null;
     setAnalysisResult(null);
+    setSourceLabel('');
     setParseResult(null);
     setParseError(null);
+    setFileErrors([]);
+    setViewState(undefined);
+    clearPermalink();
     setAnalysisStatus('idle');
+    setAnalysisProgress(null);
     setShowVisualization(false);
   }, []);
 
@@ -112,11 +324,14 @@ export default function Home() {
               nodes: parseResult.nodes,
               edges: parseResult.edges
             }}
+            hierarchy={parseResult.hierarchy}
             metadata={{
               ...parseResult.metadata,
-              url: analysisResult?.url
+              url: analysisResult?.url || undefined
             }}
             onBackToAnalysis={handleBackToAnalysis}
+            initialView={viewState}
+            onViewStateChange={permalinkUrl ? handleViewStateChange : undefined}
           />
         </Suspense>
       </div>
@@ -132,7 +347,7 @@ export default function Home() {
             TypeScript Function Visualizer
           </h1>
           <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-            Paste a URL to a TypeScript file to visualize its function relationships as an interactive graph
+            Paste a URL to a TypeScript file, or the code itself, to visualize its function relationships as an interactive graph
           </p>
         </header>
 
@@ -141,19 +356,78 @@ export default function Home() {
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">How it works:</h2>
             <ol className="list-decimal list-inside space-y-2 text-gray-700">
-              <li>Paste a URL to a TypeScript (.ts) or TSX (.tsx) file</li>
+              <li>Paste a URL to a TypeScript (.ts) or TSX (.tsx) file, or paste the source code directly</li>
               <li>Click &ldquo;Analyze&rdquo; to fetch and parse the code</li>
               <li>Explore the interactive function graph visualization</li>
             </ol>
           </div>
         </div>
 
-        {/* URL Input */}
+        {/* Input Mode */}
+        <div className="max-w-4xl mx-auto mb-4 flex justify-center">
+          <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1 shadow-sm" role="tablist">
+            {([
+              { mode: 'url', label: 'From URL' },
+              { mode: 'paste', label: 'Paste Code' },
+              { mode: 'upload', label: 'Upload Files' },
+              { mode: 'compare', label: 'Compare Versions' },
+            ] as const).map(({ mode, label }) => (
+              <button
+                key={mode}
+                role="tab"
+                aria-selected={inputMode === mode}
+                onClick={() => setInputMode(mode)}
+                className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  inputMode === mode
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Source Input */}
         <div className="max-w-4xl mx-auto mb-8">
-          <URLInput
-            onAnalyze={handleAnalyze}
-            onStatusChange={handleStatusChange}
-          />
+          {inputMode === 'url' && (
+            <URLInput
+              onAnalyze={handleAnalyze}
+              onStatusChange={handleStatusChange}
+              progress={analysisProgress}
+            />
+          )}
+          {inputMode === 'paste' && (
+            <CodeInput
+              onAnalyze={handleAnalyzeCode}
+              onStatusChange={handleStatusChange}
+              disabled={analysisStatus === 'parsing'}
+            />
+          )}
+          {inputMode === 'compare' && (
+            <CompareInput
+              onCompare={handleCompare}
+              onStatusChange={handleStatusChange}
+              disabled={analysisStatus === 'parsing'}
+            />
+          )}
+          {inputMode === 'upload' && (
+            <FileUpload
+              onFilesLoaded={handleAnalyzeFiles}
+              onStatusChange={handleStatusChange}
+              disabled={analysisStatus === 'parsing'}
+            />
+          )}
+          <label className="mt-4 flex items-center justify-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={analyzer === 'typescript'}
+              onChange={(event) => setAnalyzer(event.target.checked ? 'typescript' : 'babel')}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Type-aware call resolution (slower; follows method calls, aliases and interface implementations)</span>
+          </label>
         </div>
 
         {/* Results Section */}
@@ -174,13 +448,15 @@ export default function Home() {
                 <div className="space-y-4">
                   <div className="flex items-center space-x-2 text-green-600">
                     <span className="text-green-500">✓</span>
-                    <span className="font-medium">Code fetched successfully</span>
+                    <span className="font-medium">
+                      {analysisResult.url ? 'Code fetched successfully' : 'Code loaded successfully'}
+                    </span>
                   </div>
                   
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                     <div className="bg-gray-50 p-3 rounded-lg">
                       <span className="font-medium text-gray-700">Source:</span>
-                      <p className="text-gray-600 break-all">{analysisResult.url}</p>
+                      <p className="text-gray-600 break-all">{sourceLabel}</p>
                     </div>
                     <div className="bg-gray-50 p-3 rounded-lg">
                       <span className="font-medium text-gray-700">Size:</span>
@@ -210,15 +486,41 @@ export default function Home() {
                   )}
 
                   {/* Parsing Results */}
-                  {analysisStatus === 'parsing' && (
-                    <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-                      <div className="flex items-center space-x-2">
-                        <div className="animate-spin h-5 w-5 border-2 border-blue-500 border-t-transparent rounded-full"></div>
-                        <span className="font-medium text-blue-700">Parsing TypeScript code...</span>
+                  {(analysisStatus === 'parsing' || analysisProgress) && (
+                    <div className="mt-6 p-4 bg-blue-50 rounded-lg" role="status">
+                      <div className="flex items-center justify-between space-x-2">
+                        <div className="flex items-center space-x-2">
+                          <div className="animate-spin h-5 w-5 border-2 border-blue-500 border-t-transparent rounded-full"></div>
+                          <span className="font-medium text-blue-700">
+                            {analysisProgress ? describeProgress(analysisProgress) : 'Parsing TypeScript code...'}
+                          </span>
+                        </div>
+                        <button
+                          onClick={handleCancel}
+                          className="text-sm text-blue-700 hover:text-blue-900 underline"
+                        >
+                          Cancel
+                        </button>
                       </div>
                     </div>
                   )}
 
+                  {fileErrors.length > 0 && (
+                    <div className="mt-6 p-4 bg-amber-50 rounded-lg">
+                      <p className="font-medium text-amber-700">
+                        {fileErrors.length} file(s) could not be fully analyzed
+                      </p>
+                      <ul className="mt-2 space-y-1 text-sm text-amber-700">
+                        {fileErrors.map((error, index) => (
+                          <li key={`${error.filePath}-${index}`} className="break-all">
+                            <span className="font-mono">{error.filePath}</span>
+                            {error.line !== undefined && `:${error.line}`}: {error.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {parseError && (
                     <div className="mt-6 p-4 bg-red-50 rounded-lg">
                       <div className="flex items-center space-x-2 text-red-600">
@@ -263,6 +565,39 @@ export default function Home() {
                             <p className="text-orange-600 text-lg font-bold">{parseResult.metadata.exports.length}</p>
                           </div>
                         </div>
+                        {parseResult.metadata.diff && (
+                          <p className="mt-3 text-sm text-gray-600">
+                            Compared versions: {parseResult.metadata.diff.functions.added} added,{' '}
+                            {parseResult.metadata.diff.functions.removed} removed and{' '}
+                            {parseResult.metadata.diff.functions.changed} changed functions;{' '}
+                            {parseResult.metadata.diff.calls.added} added and {parseResult.metadata.diff.calls.removed} removed calls
+                          </p>
+                        )}
+                        {parseResult.metadata.diagnostics && parseResult.metadata.diagnostics.length > 0 && (
+                          <div className="mt-3 p-3 bg-amber-50 rounded-lg text-sm text-amber-700">
+                            <p className="font-medium">
+                              {parseResult.metadata.diagnostics.length} problem(s) in the source were skipped; functions containing them are marked ⚠ in the graph
+                            </p>
+                            <ul className="mt-2 space-y-1">
+                              {parseResult.metadata.diagnostics.map((diagnostic, index) => (
+                                <li key={`${diagnostic.filePath}-${diagnostic.line}-${index}`} className="break-all">
+                                  {diagnostic.filePath && <span className="font-mono">{diagnostic.filePath}</span>}
+                                  {diagnostic.line !== undefined && <span className="font-mono">{diagnostic.filePath ? ':' : 'Line '}{diagnostic.line}</span>}
+                                  {(diagnostic.filePath || diagnostic.line !== undefined) && ': '}
+                                  {diagnostic.message}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {parseResult.metadata.fileCount !== undefined && (
+                          <p className="mt-3 text-sm text-gray-600">
+                            {parseResult.metadata.fileCount} files analyzed
+                            {parseResult.metadata.truncated && (
+                              <span className="text-amber-600"> (file limit reached, remaining files were skipped)</span>
+                            )}
+                          </p>
+                        )}
                       </div>
 
                       {/* Function List */}
@@ -388,3 +723,7 @@ export default function Home() {
     </div>
   );
 }
+
+// The page state starts from the permalink in the address bar, which the server
+// cannot see, so the page is rendered in the browser only
+export default dynamic(() => Promise.resolve(Home), { ssr: false });
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for Diff Code API Route
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+
+jest.mock('../../../lib/utils', () => ({
+  validateURL: jest.fn(),
+  fetchCodeFromURL: jest.fn(),
+  getFilenameFromURL: jest.fn(),
+}));
+
+jest.mock('../../../lib/typeCheckerAnalyzer', () => ({
+  analyzeSourceWithTypeChecker: jest.fn(),
+}));
+
+jest.mock('../../../lib/codeParser', () => ({
+  parseTypeScriptCode: jest.fn(),
+}));
+
+import { validateURL, fetchCodeFromURL, getFilenameFromURL } from '../../../lib/utils';
+import { parseTypeScriptCode } from '../../../lib/codeParser';
+import type { FunctionData, ParsedCodeResult } from '../../../types';
+
+const mockValidateURL = validateURL as jest.MockedFunction<typeof validateURL>;
+const mockFetchCodeFromURL = fetchCodeFromURL as jest.MockedFunction<typeof fetchCodeFromURL>;
+const mockGetFilenameFromURL = getFilenameFromURL as jest.MockedFunction<typeof getFilenameFromURL>;
+const mockParseTypeScriptCode = parseTypeScriptCode as jest.MockedFunction<typeof parseTypeScriptCode>;
+
+const BASE_URL = 'https://github.com/acme/app/blob/main/src/api.ts';
+const HEAD_URL = 'https://github.com/acme/app/blob/feature/src/api.ts';
+
+const fn = (name: string): FunctionData => ({
+  name,
+  parameters: [],
+  returnType: 'void',
+  location: { startLine: 1, endLine: 3, startColumn: 0, endColumn: 1 },
+});
+
+// Each URL fetches its own "source", which the parser mock maps to a result
+const versions: Record<string, ParsedCodeResult> = {
+  [BASE_URL]: {
+    functions: [fn('main'), fn('legacy')],
+    calls: [{ caller: 'main', callee: 'legacy', lineNumber: 2 }],
+    errors: [],
+  },
+  [HEAD_URL]: {
+    functions: [fn('main'), fn('fetchUser')],
+    calls: [{ caller: 'main', callee: 'fetchUser', lineNumber: 2 }],
+    errors: [],
+  },
+};
+
+const createRequest = (body: unknown, ip: string) => new NextRequest('http://localhost:3000/api/diff-code', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'x-forwarded-for': ip },
+  body: JSON.stringify(body),
+});
+
+describe('POST /api/diff-code', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockValidateURL.mockReturnValue({ isValid: true });
+    mockFetchCodeFromURL.mockImplementation(async url => ({ success: true, content: url, url, size: 100 }));
+    mockParseTypeScriptCode.mockImplementation(async source => versions[source]);
+    mockGetFilenameFromURL.mockReturnValue('api.ts');
+  });
+
+  it('should return the combined graph with change markers', async () => {
+    const response = await POST(createRequest({ baseUrl: BASE_URL, headUrl: HEAD_URL }, '10.0.1.1'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.success).toBe(true);
+
+    const statuses = Object.fromEntries(data.data.nodes.map((node: { data: { label: string; diffStatus: string } }) => [node.data.label, node.data.diffStatus]));
+    expect(statuses).toMatchObject({ main: 'unchanged', fetchUser: 'added', legacy: 'removed' });
+    expect(data.data.metadata.diff).toEqual({
+      functions: { added: 1, removed: 1, changed: 0, unchanged: 1 },
+      calls: { added: 1, removed: 1, unchanged: 0 },
+    });
+    expect(data.data.metadata.fileName).toBe('api.ts');
+    expect(mockParseTypeScriptCode).toHaveBeenCalledWith(BASE_URL, { filename: 'api.ts' });
+    expect(mockParseTypeScriptCode).toHaveBeenCalledWith(HEAD_URL, { filename: 'api.ts' });
+    expect(response.headers.get('RateLimit-Limit')).toBe('10');
+    expect(response.headers.get('RateLimit-Remaining')).toBe('9');
+  });
+
+  it('should require both URLs', async () => {
+    const response = await POST(createRequest({ baseUrl: BASE_URL }, '10.0.1.2'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('baseUrl and headUrl are required in request body');
+  });
+
+  it('should report which version failed', async () => {
+    mockFetchCodeFromURL.mockImplementation(async url => url === HEAD_URL
+      ? { success: false, error: 'HTTP 404: Not Found', url }
+      : { success: true, content: url, url, size: 100 });
+
+    const response = await POST(createRequest({ baseUrl: BASE_URL, headUrl: HEAD_URL }, '10.0.1.3'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Failed to analyze head version: HTTP 404: Not Found');
+  });
+
+  it('should block clients over the rate limit', async () => {
+    for (let i = 0; i < 10; i++) {
+      await POST(createRequest({ baseUrl: BASE_URL }, '10.0.1.5'));
+    }
+
+    const response = await POST(createRequest({ baseUrl: BASE_URL, headUrl: HEAD_URL }, '10.0.1.5'));
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(mockFetchCodeFromURL).not.toHaveBeenCalled();
+  });
+
+  it('should reject repository URLs', async () => {
+    mockValidateURL.mockReturnValue({ isValid: true, isDirectory: true });
+
+    const response = await POST(createRequest({ baseUrl: BASE_URL, headUrl: HEAD_URL }, '10.0.1.4'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('single files');
+    expect(mockFetchCodeFromURL).not.toHaveBeenCalled();
+  });
+});
@@ -1,16 +1,43 @@
 /**
  * API Route for TypeScript Code Parsing
- * Handles requests to parse TypeScript code from URLs
+ * Handles requests to parse TypeScript code from URLs or pasted source
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { validateURL, fetchCodeFromURL, getFilenameFromURL } from '../../../lib/utils';
+import {
+  validateURL,
+  getFilenameFromURL,
+  validateSourceCode,
+  parseGitHubDirectoryURL
+} from '../../../lib/utils';
 import { parseTypeScriptCode } from '../../../lib/codeParser';
-import { buildReactFlowGraph } from '../../../lib/graphBuilder';
-import type { GraphData } from '../../../types';
+import { parseTypeScriptProject } from '../../../lib/projectAnalyzer';
+import { fetchRepositoryFiles } from '../../../lib/repoFetcher';
+import { analyzeWithTypeChecker, analyzeSourceWithTypeChecker } from '../../../lib/typeCheckerAnalyzer';
+import { buildReactFlowGraph, buildClassHierarchyGraph } from '../../../lib/graphBuilder';
+import { exportGraphAsDiagram, isDiagramFormat, DIAGRAM_FORMATS } from '../../../lib/graphExport';
+import { checkRateLimit, getClientIP, getRateLimiter, withRateLimitHeaders } from '../../../lib/rateLimit';
+import { analyzeWithCache, fetchCodeWithCache, getAnalysisCache, hashContent } from '../../../lib/analysisCache';
+import type { CacheStatus } from '../../../lib/analysisCache';
+import { createAnalysisStream, ANALYSIS_STREAM_CONTENT_TYPE } from '../../../lib/analysisStream';
+import type { ProgressReporter } from '../../../lib/analysisStream';
+import type { AnalyzerBackend, GraphData, ModuleSummary, ParseError, ParsedCodeResult, ProjectFile } from '../../../types';
 
 interface ParseCodeRequest {
-  url: string;
+  /** URL of the TypeScript file to fetch */
+  url?: string;
+  /** Raw source code to analyze instead of fetching a URL */
+  code?: string;
+  /** Optional file name for pasted code, used to pick TS or TSX parsing */
+  filename?: string;
+  /** Globs selecting files for repository/directory URLs */
+  include?: string[];
+  /** Globs excluding files for repository/directory URLs */
+  exclude?: string[];
+  /** Maximum number of files to analyze for repository/directory URLs */
+  maxFiles?: number;
+  /** Call resolution backend, defaults to 'babel' */
+  analyzer?: AnalyzerBackend;
 }
 
 interface ParseCodeSuccessResponse {
@@ -18,14 +45,28 @@ interface ParseCodeSuccessResponse {
   data: {
     nodes: GraphData['nodes'];
     edges: GraphData['edges'];
+    /** Class and interface hierarchy, present when the code declares any */
+    hierarchy?: GraphData;
     metadata: {
       fileName: string;
       totalFunctions: number;
       totalCalls: number;
       imports: string[];
       exports: string[];
+      /** Typed imports, exports and top-level declarations */
+      module?: ModuleSummary;
       fileSize?: number;
       parseTime: number;
+      /** Number of analyzed files (repository/directory URLs) */
+      fileCount?: number;
+      /** Whether the file cap left matching files out (repository/directory URLs) */
+      truncated?: boolean;
+      /** Backend that resolved the calls */
+      analyzer: AnalyzerBackend;
+      /** Whether the fetched source and the parse result came from the server cache (single files) */
+      cache?: { source?: CacheStatus; analysis: CacheStatus };
+      /** Problems found while analyzing, e.g. recovered syntax errors; function nodes carry the ones inside them as `diagnostics` */
+      diagnostics?: ParseError[];
     };
   };
 }
@@ -38,28 +79,94 @@ interface ParseCodeErrorResponse {
 
 type ParseCodeResponse = ParseCodeSuccessResponse | ParseCodeErrorResponse;
 
-// Rate limiting storage (in production, use Redis or similar)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX = 10; // 10 requests per minute
+// File name reported for pasted code when the client does not supply one
+const PASTED_CODE_FILENAME = 'pasted-code.ts';
+
+// Upper bound on files analyzed for a single repository/directory URL
+const MAX_REPOSITORY_FILES = 200;
 
 /**
  * POST /api/parse-code
- * Parses TypeScript code from a URL and returns graph data
+ * Parses TypeScript code from a URL (`{ url }`) or from pasted source
+ * (`{ code, filename? }`) and returns graph data. GitHub repository and
+ * directory URLs are expanded into their TypeScript files and analyzed
+ * as one multi-file graph. `?format=mermaid` or `?format=dot` returns the
+ * call graph as diagram source instead of JSON. `?stream=ndjson` streams
+ * progress events followed by the JSON response as newline-delimited JSON.
  */
 export async function POST(request: NextRequest): Promise<NextResponse<ParseCodeResponse>> {
+  const rateLimit = await checkRateLimit(getClientIP(request));
+  if (!rateLimit.allowed) {
+    const response: NextResponse<ParseCodeResponse> = NextResponse.json(
+      {
+        success: false,
+        error: 'Rate limit exceeded. Please try again later.',
+      },
+      { status: 429 }
+    );
+    return withRateLimitHeaders(response, rateLimit);
+  }
+
+  if (request.nextUrl.searchParams.get('stream') === 'ndjson') {
+    return withRateLimitHeaders(streamParseCode(request), rateLimit);
+  }
+
+  return withRateLimitHeaders(await parseCode(request), rateLimit);
+}
+
+/**
+ * Streams the progress of a parse followed by its JSON response. The HTTP
+ * status is always 200 once streaming starts; the result event carries the
+ * status of the analysis.
+ */
+function streamParseCode(request: NextRequest): NextResponse<ParseCodeResponse> {
+  const format = request.nextUrl.searchParams.get('format');
+  if (format !== null && format !== 'json') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Streaming returns JSON graph data only; omit format or use json.',
+      },
+      { status: 400 }
+    );
+  }
+
+  const stream = createAnalysisStream(async report => {
+    const response = await parseCode(request, report);
+    return { status: response.status, body: (await response.json()) as ParseCodeResponse };
+  });
+
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': `${ANALYSIS_STREAM_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+/**
+ * Parses the request body once the client is within its rate limit
+ * @param report - Receives progress events, for streamed responses
+ */
+async function parseCode(
+  request: NextRequest,
+  report: ProgressReporter = () => undefined
+): Promise<NextResponse<ParseCodeResponse>> {
   const startTime = Date.now();
 
   try {
-    // Check rate limiting
-    const clientIP = getClientIP(request);
-    if (!checkRateLimit(clientIP)) {
+    report({ stage: 'validating' });
+
+    // Optional text diagram format; JSON graph data is the default
+    const format = request.nextUrl.searchParams.get('format');
+    if (format !== null && format !== 'json' && !isDiagramFormat(format)) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Rate limit exceeded. Please try again later.',
+          error: `Unsupported format "${format}". Use json, ${Object.keys(DIAGRAM_FORMATS).join(' or ')}.`,
         },
-        { status: 429 }
+        { status: 400 }
       );
     }
 
@@ -77,51 +184,147 @@ export async function POST(request: NextRequest): Promise<NextResponse<ParseCode
       );
     }
 
-    // Validate request
-    if (!body.url || typeof body.url !== 'string') {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'URL is required in request body',
-        },
-        { status: 400 }
-      );
-    }
+    const analyzer: AnalyzerBackend = body.analyzer === 'typescript' ? 'typescript' : 'babel';
+    let parseResult: ParsedCodeResult;
+    let fileName: string;
+    let fileSize: number | undefined;
+    let fileCount: number | undefined;
+    let truncated: boolean | undefined;
+    let cacheInfo: ParseCodeSuccessResponse['data']['metadata']['cache'];
+    const cache = getAnalysisCache();
 
-    // Validate URL format
-    const urlValidation = validateURL(body.url);
-    if (!urlValidation.isValid) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Invalid URL: ${urlValidation.error}`,
-        },
-        { status: 400 }
+    if (body.code !== undefined) {
+      // Pasted source: validate the text directly, no fetching involved
+      const codeValidation = validateSourceCode(body.code, body.filename);
+      if (!codeValidation.isValid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Invalid source code: ${codeValidation.error}`,
+          },
+          { status: 400 }
+        );
+      }
+
+      fileName = body.filename || PASTED_CODE_FILENAME;
+      fileSize = new TextEncoder().encode(body.code).length;
+      const code = body.code;
+      report({ stage: 'parsing' });
+      const analysis = await analyzeWithCache(
+        { content: code, analyzer, filename: body.filename },
+        () => analyzer === 'typescript'
+          ? analyzeSourceWithTypeChecker(code, { filename: body.filename, onProgress: report })
+          : parseTypeScriptCode(code, { filename: body.filename, onProgress: report }),
+        cache
       );
-    }
+      parseResult = analysis.result;
+      cacheInfo = analysis.status && { analysis: analysis.status };
+    } else {
+      // Validate request
+      if (!body.url || typeof body.url !== 'string') {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'URL is required in request body',
+          },
+          { status: 400 }
+        );
+      }
 
-    // Fetch code from URL
-    const fetchResult = await fetchCodeFromURL(body.url);
-    if (!fetchResult.success) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Failed to fetch code: ${fetchResult.error}`,
-          details: {
-            url: fetchResult.url,
-            size: fetchResult.size,
+      // Validate URL format
+      const urlValidation = validateURL(body.url);
+      if (!urlValidation.isValid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Invalid URL: ${urlValidation.error}`,
           },
-        },
-        { status: 400 }
-      );
-    }
+          { status: 400 }
+        );
+      }
+
+      if (urlValidation.isDirectory) {
+        // Repository or directory: expand into files and analyze them together
+        report({ stage: 'fetching' });
+        const repoResult = await fetchRepositoryFiles(body.url, {
+          include: toStringArray(body.include),
+          exclude: toStringArray(body.exclude),
+          maxFiles: clampFileCount(body.maxFiles),
+          token: process.env.GITHUB_TOKEN,
+        });
+        if (!repoResult.success) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Failed to fetch repository: ${repoResult.error}`,
+              details: {
+                url: repoResult.url,
+                ref: repoResult.ref,
+              },
+            },
+            { status: 400 }
+          );
+        }
 
-    // Parse TypeScript code
-    const parseResult = await parseTypeScriptCode(fetchResult.content!);
+        const directory = parseGitHubDirectoryURL(body.url)!;
+        fileName = `${directory.owner}/${directory.repo}${directory.path ? `/${directory.path}` : ''}`;
+        fileSize = repoResult.size;
+        fileCount = repoResult.files!.length;
+        truncated = repoResult.truncated;
+        report({ stage: 'fetching', files: fileCount, bytes: fileSize });
+        report({ stage: 'parsing', files: fileCount });
+        // Keyed by the resolved ref and the file hashes, so a moved branch is analyzed again
+        const files = repoResult.files!;
+        const analysis = await analyzeWithCache(
+          { content: describeProjectFiles(files), analyzer, url: `${body.url}@${repoResult.ref ?? ''}` },
+          () => analyzer === 'typescript' ? analyzeWithTypeChecker(files) : parseTypeScriptProject(files),
+          cache
+        );
+        parseResult = analysis.result;
+        cacheInfo = analysis.status && { analysis: analysis.status };
+      } else {
+        // Fetch code from URL, or reuse a recent copy
+        report({ stage: 'fetching' });
+        const { result: fetchResult, status: sourceStatus } = await fetchCodeWithCache(body.url, cache, {
+          onDownloadProgress: (bytes, totalBytes) => report({ stage: 'fetching', bytes, totalBytes }),
+        });
+        if (!fetchResult.success) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Failed to fetch code: ${fetchResult.error}`,
+              details: {
+                url: fetchResult.url,
+                size: fetchResult.size,
+              },
+            },
+            { status: 400 }
+          );
+        }
+
+        const content = fetchResult.content!;
+        fileName = getFilenameFromURL(body.url);
+        fileSize = fetchResult.size;
+        report({ stage: 'parsing' });
+        const analysis = await analyzeWithCache(
+          { content, analyzer, url: fetchResult.url },
+          () => analyzer === 'typescript'
+            ? analyzeSourceWithTypeChecker(content, { filename: fileName, onProgress: report })
+            : parseTypeScriptCode(content, { filename: fileName, onProgress: report }),
+          cache
+        );
+        parseResult = analysis.result;
+        cacheInfo = analysis.status && {
+          ...(sourceStatus && { source: sourceStatus }),
+          analysis: analysis.status,
+        };
+      }
+    }
     
-    // Check for critical parse errors
+    // Check for critical parse errors: a file that could not be recovered at all
+    // (a multi-file analysis tolerates broken files)
     const syntaxErrors = parseResult.errors.filter(error => error.type === 'syntax');
-    if (syntaxErrors.length > 0) {
+    if (syntaxErrors.length > 0 && parseResult.functions.length === 0 && fileCount === undefined) {
       return NextResponse.json(
         {
           success: false,
@@ -151,17 +354,30 @@ export async function POST(request: NextRequest): Promise<NextResponse<ParseCode
     }
 
     // Build React Flow graph
+    report({ stage: 'layout', functions: parseResult.functions.length, calls: parseResult.calls.length });
     const graphData = buildReactFlowGraph(parseResult);
 
+    if (isDiagramFormat(format)) {
+      return new NextResponse(exportGraphAsDiagram(graphData, format, { title: fileName }), {
+        status: 200,
+        headers: { 'Content-Type': `${DIAGRAM_FORMATS[format].mimeType}; charset=utf-8` },
+      });
+    }
+
     // Prepare metadata
     const metadata = {
-      fileName: getFilenameFromURL(body.url),
+      fileName,
       totalFunctions: parseResult.functions.length,
       totalCalls: parseResult.calls.length,
-      imports: (parseResult as any).metadata?.imports || [],
-      exports: (parseResult as any).metadata?.exports || [],
-      fileSize: fetchResult.size,
+      imports: parseResult.metadata?.imports || [],
+      exports: parseResult.metadata?.exports || [],
+      ...(parseResult.metadata?.module && { module: parseResult.metadata.module }),
+      fileSize,
       parseTime: Date.now() - startTime,
+      ...(fileCount !== undefined && { fileCount, truncated }),
+      analyzer,
+      ...(cacheInfo && { cache: cacheInfo }),
+      ...(parseResult.errors.length > 0 && { diagnostics: parseResult.errors }),
     };
 
     // Return success response
@@ -170,6 +386,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<ParseCode
       data: {
         nodes: graphData.nodes,
         edges: graphData.edges,
+        ...(parseResult.classes && parseResult.classes.length > 0 && {
+          hierarchy: buildClassHierarchyGraph(parseResult),
+        }),
         metadata,
       },
     };
@@ -195,15 +414,27 @@ export async function POST(request: NextRequest): Promise<NextResponse<ParseCode
  * Returns API information
  */
 export async function GET(): Promise<NextResponse> {
+  const rateLimitOptions = getRateLimiter().options;
+
   return NextResponse.json({
     name: 'TypeScript Code Parser API',
     version: '1.0.0',
-    description: 'Parses TypeScript files from URLs and returns function relationship graphs',
+    description: 'Parses TypeScript files from URLs or pasted source and returns function relationship graphs',
     endpoints: {
       'POST /api/parse-code': {
-        description: 'Parse TypeScript code from URL',
+        description: 'Parse TypeScript code from a URL or from pasted source',
+        query: {
+          format: "'json' | 'mermaid' | 'dot' - Response format; mermaid and dot return the call graph as diagram source (optional)",
+          stream: "'ndjson' - Stream progress events ({ type: 'progress', progress }) and then the response ({ type: 'result', status, body }) as newline-delimited JSON (optional)",
+        },
         body: {
-          url: 'string - URL to TypeScript file',
+          url: 'string - URL to a TypeScript file, GitHub repository or GitHub directory (tree) URL',
+          code: 'string - Source code to parse instead of a URL (optional)',
+          filename: 'string - File name for pasted code, .ts or .tsx (optional)',
+          include: 'string[] - Globs selecting files for repository URLs (optional)',
+          exclude: 'string[] - Globs excluding files for repository URLs (optional)',
+          maxFiles: `number - File cap for repository URLs, at most ${MAX_REPOSITORY_FILES} (optional)`,
+          analyzer: "'babel' | 'typescript' - Call resolution backend; 'typescript' uses the type checker (optional)",
         },
         response: {
           success: 'boolean',
@@ -214,64 +445,39 @@ export async function GET(): Promise<NextResponse> {
     },
     limits: {
       maxFileSize: '500KB',
-      rateLimit: `${RATE_LIMIT_MAX} requests per ${RATE_LIMIT_WINDOW / 1000}s`,
+      maxRepositoryFiles: MAX_REPOSITORY_FILES,
+      rateLimit: `${rateLimitOptions.limit} requests per ${rateLimitOptions.window / 1000}s (RateLimit-* response headers)`,
+      cache: 'File sources and parse results, and repository parse results, are cached; metadata.cache reports hits',
       supportedTypes: ['.ts', '.tsx'],
     },
   });
 }
 
 /**
- * Gets client IP address for rate limiting
+ * Lists the paths and content hashes of project files in path order
  */
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  if (realIP) {
-    return realIP;
-  }
-  
-  // Fallback for development
-  return 'unknown';
+function describeProjectFiles(files: ProjectFile[]): string {
+  return files
+    .map(file => `${file.path}:${hashContent(file.content)}`)
+    .sort()
+    .join('\n');
 }
 
 /**
- * Checks and updates rate limit for a client
+ * Keeps only the string entries of a glob list from the request body
  */
-function checkRateLimit(clientIP: string): boolean {
-  const now = Date.now();
-  const clientData = rateLimitMap.get(clientIP);
-  
-  if (!clientData) {
-    // First request from this IP
-    rateLimitMap.set(clientIP, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW,
-    });
-    return true;
-  }
-  
-  if (now > clientData.resetTime) {
-    // Reset window
-    rateLimitMap.set(clientIP, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW,
-    });
-    return true;
-  }
-  
-  if (clientData.count >= RATE_LIMIT_MAX) {
-    // Rate limit exceeded
-    return false;
-  }
-  
-  // Increment count
-  clientData.count += 1;
-  return true;
+function toStringArray(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const strings = value.filter((item): item is string => typeof item === 'string' && item.length > 0);
+  return strings.length > 0 ? strings : undefined;
+}
+
+/**
+ * Clamps the requested repository file cap to the server maximum
+ */
+function clampFileCount(value: unknown): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return Math.max(1, Math.min(Math.floor(value), MAX_REPOSITORY_FILES));
 }
 
 /**
@@ -0,0 +1,197 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for CLI Module
+ */
+
+import { parseCliArgs, resolveFiles, runCli, walkDirectory, EXIT_CODES } from './analyze';
+import type { CliIO } from './analyze';
+
+/**
+ * In-memory file system with captured console output
+ */
+const createIO = (files: Record<string, string>) => {
+  const output = { stdout: '', stderr: '', written: {} as Record<string, string> };
+  const isFile = (path: string) => Object.prototype.hasOwnProperty.call(files, path);
+  const isDirectoryPath = (path: string) => path === '.' || Object.keys(files).some(file => file.startsWith(`${path}/`));
+
+  const io: CliIO = {
+    readFile: async path => {
+      if (!isFile(path)) throw new Error(`ENOENT: no such file, open '${path}'`);
+      return files[path];
+    },
+    writeFile: async (path, content) => {
+      output.written[path] = content;
+    },
+    listFiles: async directory => Object.keys(files).filter(file => directory === '.' || file.startsWith(`${directory}/`)),
+    isDirectory: async path => isFile(path) ? false : isDirectoryPath(path) ? true : null,
+    stdout: text => {
+      output.stdout += text;
+    },
+    stderr: text => {
+      output.stderr += text;
+    },
+  };
+
+  return { io, output };
+};
+
+const sources = {
+  'src/parser.ts': `
+    export function parse(input: string) {
+      if (input.length > 0) {
+        return visit(input);
+      }
+      return null;
+    }
+    function visit(node: string): string {
+      return node ? visitChildren(node) : '';
+    }
+    function visitChildren(node: string): string {
+      return visit(node.slice(1));
+    }
+  `,
+  'src/util.ts': `export function noop() {}`,
+  'src/util.test.ts': `it('works', () => {});`,
+  'README.md': '# Readme',
+};
+
+describe('parseCliArgs', () => {
+  it('should parse formats and thresholds', () => {
+    const result = parseCliArgs(['src/**/*.ts', '--graph', 'dot', '--report', 'markdown', '--max-complexity', '10', '--max-cycles', '0']);
+
+    expect(result).toEqual({
+      success: true,
+      options: expect.objectContaining({
+        patterns: ['src/**/*.ts'],
+        graph: 'dot',
+        report: 'markdown',
+        analyzer: 'babel',
+        thresholds: { maxComplexity: 10, maxCycles: 0 },
+      }),
+    });
+  });
+
+  it('should skip the graph when only a report is requested', () => {
+    const result = parseCliArgs(['a.ts', '--report', 'json']);
+
+    expect(result.success && result.options.graph).toBeNull();
+  });
+
+  it('should reject unknown formats, invalid numbers and missing inputs', () => {
+    expect(parseCliArgs(['a.ts', '--graph', 'png'])).toEqual({ success: false, error: expect.stringContaining('png') });
+    expect(parseCliArgs(['a.ts', '--max-complexity', 'high'])).toEqual({
+      success: false,
+      error: '--max-complexity must be a non-negative number',
+    });
+    expect(parseCliArgs([])).toEqual({ success: false, error: 'No input files given' });
+    expect(parseCliArgs(['a.ts', '--unknown']).success).toBe(false);
+  });
+});
+
+describe('resolveFiles', () => {
+  it('should expand globs and directories into TypeScript files', async () => {
+    const { io } = createIO(sources);
+
+    await expect(resolveFiles(['src/**/*.ts', 'src'], io)).resolves.toEqual({
+      success: true,
+      files: ['src/parser.ts', 'src/util.test.ts', 'src/util.ts'],
+    });
+    await expect(resolveFiles(['./src/parser.ts'], io)).resolves.toEqual({ success: true, files: ['src/parser.ts'] });
+  });
+
+  it('should fail when a pattern matches no TypeScript file', async () => {
+    const { io } = createIO(sources);
+
+    await expect(resolveFiles(['lib/**/*.ts'], io)).resolves.toEqual({
+      success: false,
+      error: 'No TypeScript files match "lib/**/*.ts"',
+    });
+  });
+});
+
+describe('walkDirectory', () => {
+  it('should skip dependency and hidden directories', async () => {
+    const tree: Record<string, Array<{ name: string; isDirectory: boolean }>> = {
+      '.': [
+        { name: 'index.ts', isDirectory: false },
+        { name: 'node_modules', isDirectory: true },
+        { name: '.git', isDirectory: true },
+        { name: 'src', isDirectory: true },
+      ],
+      src: [{ name: 'a.ts', isDirectory: false }],
+    };
+
+    await expect(walkDirectory('.', async path => tree[path])).resolves.toEqual(['index.ts', 'src/a.ts']);
+  });
+});
+
+describe('runCli', () => {
+  it('should write the graph as Mermaid to stdout', async () => {
+    const { io, output } = createIO(sources);
+
+    const exitCode = await runCli(['src/parser.ts', '--graph', 'mermaid'], io);
+
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(output.stdout).toContain('flowchart TD');
+    expect(output.stdout).toContain('visitChildren');
+  });
+
+  it('should write the graph and report to files', async () => {
+    const { io, output } = createIO(sources);
+
+    const exitCode = await runCli(['src/*.ts', '-o', 'graph.json', '--report', 'json', '--report-output', 'report.json'], io);
+
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(output.stdout).toBe('');
+    expect(JSON.parse(output.written['graph.json']).nodes.length).toBeGreaterThan(0);
+    expect(JSON.parse(output.written['report.json']).files).toEqual(['src/parser.ts', 'src/util.test.ts', 'src/util.ts']);
+  });
+
+  it('should exit with 1 when a threshold is exceeded', async () => {
+    const { io, output } = createIO(sources);
+
+    const exitCode = await runCli(['src/parser.ts', '--report', 'markdown', '--max-cycles', '0'], io);
+
+    expect(exitCode).toBe(EXIT_CODES.thresholdsExceeded);
+    expect(output.stdout).toContain('## Threshold Violations');
+    expect(output.stderr).toContain('1 circular call chains found (max 0)');
+  });
+
+  it('should fail on cycles that are not in the baseline', async () => {
+    const { io, output } = createIO({
+      ...sources,
+      'baseline.json': JSON.stringify({ files: [], cycles: [], functions: [] }),
+    });
+
+    const exitCode = await runCli(['src/parser.ts', '--graph', 'none', '--baseline', 'baseline.json'], io);
+
+    expect(exitCode).toBe(EXIT_CODES.thresholdsExceeded);
+    expect(output.stderr).toContain('New circular call chain: visit, visitChildren');
+  });
+
+  it('should exit with 2 on usage and parse errors', async () => {
+    const usage = createIO(sources);
+    expect(await runCli(['--graph', 'png', 'src/parser.ts'], usage.io)).toBe(EXIT_CODES.error);
+    expect(usage.output.stderr).toContain('Usage: code-visualizer');
+
+    const broken = createIO({ 'src/broken.ts': 'function (' });
+    expect(await runCli(['src/broken.ts'], broken.io)).toBe(EXIT_CODES.error);
+    expect(broken.output.stderr).toContain('Failed to parse src/broken.ts');
+  });
+
+  it('should analyze a single file with recovered syntax errors and warn about them', async () => {
+    const { io, output } = createIO({
+      'src/partial.ts': 'export function ok() { helper(); }\nfunction helper() {}\nconst broken = ;\n',
+    });
+
+    const exitCode = await runCli(['src/partial.ts'], io);
+
+    expect(exitCode).toBe(EXIT_CODES.success);
+    expect(JSON.parse(output.stdout).nodes.length).toBeGreaterThan(0);
+    expect(output.stderr).toMatch(/^Warning: /);
+    expect(output.stderr).not.toContain('Failed to parse');
+  });
+});
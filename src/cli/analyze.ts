@@ -0,0 +1,355 @@
+/**
+ * CLI Module
+ * Headless entry point for CI: analyzes local TypeScript files or globs, writes
+ * the call graph (JSON, DOT or Mermaid) and a stats report (JSON or Markdown),
+ * and fails when configured thresholds are exceeded.
+ */
+
+import { parseArgs } from 'util';
+import { parseTypeScriptCode } from '../lib/codeParser';
+import { parseTypeScriptProject } from '../lib/projectAnalyzer';
+import { analyzeWithTypeChecker, analyzeSourceWithTypeChecker } from '../lib/typeCheckerAnalyzer';
+import { buildReactFlowGraph } from '../lib/graphBuilder';
+import { exportGraphAsDiagram, isDiagramFormat } from '../lib/graphExport';
+import type { DiagramFormat } from '../lib/graphExport';
+import { isSupportedFile, matchGlob } from '../lib/utils';
+import { checkThresholds, createReport, formatReport } from './report';
+import type { AnalysisReport, ReportFormat, ReportThresholds } from './report';
+import type { AnalyzerBackend, ParsedCodeResult } from '../types';
+
+/**
+ * File system and console access, injectable for tests
+ */
+export interface CliIO {
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  /** Lists the files below a directory as forward-slash paths prefixed with the directory */
+  listFiles: (directory: string) => Promise<string[]>;
+  /** Returns whether a path is a directory, or null when it does not exist */
+  isDirectory: (path: string) => Promise<boolean | null>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/**
+ * Parsed command-line options
+ */
+export interface CliOptions {
+  /** Files, directories or glob patterns to analyze */
+  patterns: string[];
+  /** Graph output format, or null to skip the graph */
+  graph: 'json' | DiagramFormat | null;
+  /** Graph output file, stdout when unset */
+  output?: string;
+  /** Report format, or null to skip the report */
+  report: ReportFormat | null;
+  /** Report output file, stdout when unset */
+  reportOutput?: string;
+  analyzer: AnalyzerBackend;
+  thresholds: ReportThresholds;
+  /** JSON report of an earlier run; cycles not in it fail the run */
+  baseline?: string;
+  help: boolean;
+}
+
+/**
+ * Process exit codes
+ */
+export const EXIT_CODES = {
+  success: 0,
+  thresholdsExceeded: 1,
+  error: 2,
+} as const;
+
+export const CLI_USAGE = `Usage: code-visualizer [options] <file|directory|glob>...
+
+Analyzes TypeScript files and writes their call graph and a stats report.
+
+Output:
+  --graph <format>         Graph format: json, dot, mermaid or none (default: json,
+                           or none when --report is given without --output)
+  -o, --output <file>      Write the graph to a file instead of stdout
+  --report <format>        Stats report format: json or markdown
+  --report-output <file>   Write the report to a file instead of stdout
+  --analyzer <backend>     Call resolution: babel (default) or typescript
+
+Thresholds (exit code 1 when exceeded):
+  --max-complexity <n>     Highest cyclomatic complexity allowed per function
+  --max-cognitive <n>      Highest cognitive complexity allowed per function
+  --max-cycles <n>         Most circular call chains allowed
+  --min-score <n>          Lowest efficiency score allowed (0-100)
+  --baseline <file>        JSON report of an earlier run; new cycles fail the run
+
+  -h, --help               Show this help
+
+Examples:
+  code-visualizer src/lib/codeParser.ts --graph mermaid
+  code-visualizer "src/**/*.ts" --report markdown --max-complexity 15 --max-cycles 0`;
+
+/**
+ * Directories skipped while expanding directories and globs
+ */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', '.next', 'build', 'coverage']);
+
+/**
+ * Parses command-line arguments
+ * @param argv - Arguments after the script name
+ * @returns Options, or the usage error
+ */
+export function parseCliArgs(argv: string[]): { success: true; options: CliOptions } | { success: false; error: string } {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        graph: { type: 'string' },
+        output: { type: 'string', short: 'o' },
+        report: { type: 'string' },
+        'report-output': { type: 'string' },
+        analyzer: { type: 'string' },
+        'max-complexity': { type: 'string' },
+        'max-cognitive': { type: 'string' },
+        'max-cycles': { type: 'string' },
+        'min-score': { type: 'string' },
+        baseline: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const { values, positionals } = parsed;
+  const help = Boolean(values.help);
+  if (!help && positionals.length === 0) {
+    return { success: false, error: 'No input files given' };
+  }
+
+  const graph = values.graph ?? (values.report && !values.output ? 'none' : 'json');
+  if (graph !== 'json' && graph !== 'none' && !isDiagramFormat(graph)) {
+    return { success: false, error: `Unknown graph format "${graph}" (expected json, dot, mermaid or none)` };
+  }
+
+  const report = values.report;
+  if (report !== undefined && report !== 'json' && report !== 'markdown') {
+    return { success: false, error: `Unknown report format "${report}" (expected json or markdown)` };
+  }
+
+  const analyzer = values.analyzer ?? 'babel';
+  if (analyzer !== 'babel' && analyzer !== 'typescript') {
+    return { success: false, error: `Unknown analyzer "${analyzer}" (expected babel or typescript)` };
+  }
+
+  const thresholds: ReportThresholds = {};
+  const thresholdFlags = {
+    'max-complexity': 'maxComplexity',
+    'max-cognitive': 'maxCognitive',
+    'max-cycles': 'maxCycles',
+    'min-score': 'minScore',
+  } as const;
+  for (const [flag, key] of Object.entries(thresholdFlags) as Array<[keyof typeof thresholdFlags, keyof ReportThresholds]>) {
+    const value = values[flag];
+    if (value === undefined) continue;
+    const limit = Number(value);
+    if (value.trim() === '' || !Number.isFinite(limit) || limit < 0) {
+      return { success: false, error: `--${flag} must be a non-negative number` };
+    }
+    thresholds[key] = limit;
+  }
+
+  return {
+    success: true,
+    options: {
+      patterns: positionals,
+      graph: graph === 'none' ? null : graph,
+      output: values.output,
+      report: report ?? null,
+      reportOutput: values['report-output'],
+      analyzer,
+      thresholds,
+      baseline: values.baseline,
+      help,
+    },
+  };
+}
+
+/**
+ * Expands files, directories and glob patterns into TypeScript file paths
+ * @param patterns - Paths or glob patterns such as `src/**` or `*.tsx`
+ * @param io - File system access
+ * @returns Sorted, de-duplicated file paths, or the pattern that matched nothing
+ */
+export async function resolveFiles(
+  patterns: string[],
+  io: CliIO
+): Promise<{ success: true; files: string[] } | { success: false; error: string }> {
+  const files = new Set<string>();
+
+  for (const rawPattern of patterns) {
+    const pattern = rawPattern.replace(/\\/g, '/').replace(/^\.\//, '');
+    const matches: string[] = [];
+
+    if (/[*?{]/.test(pattern)) {
+      // Walk from the directory before the first wildcard segment
+      const segments = pattern.split('/');
+      const firstGlob = segments.findIndex(segment => /[*?{]/.test(segment));
+      const root = segments.slice(0, firstGlob).join('/') || '.';
+      if (await io.isDirectory(root)) {
+        const candidates = await io.listFiles(root);
+        matches.push(...candidates
+          .map(path => path.replace(/^\.\//, ''))
+          .filter(path => matchGlob(path, pattern)));
+      }
+    } else {
+      const isDirectory = await io.isDirectory(pattern);
+      if (isDirectory === true) {
+        matches.push(...(await io.listFiles(pattern)).map(path => path.replace(/^\.\//, '')));
+      } else if (isDirectory === false) {
+        matches.push(pattern);
+      }
+    }
+
+    const supported = matches.filter(isSupportedFile);
+    if (supported.length === 0) {
+      return { success: false, error: `No TypeScript files match "${rawPattern}"` };
+    }
+    supported.forEach(file => files.add(file));
+  }
+
+  return { success: true, files: Array.from(files).sort() };
+}
+
+/**
+ * Runs the CLI
+ * @param argv - Arguments after the script name
+ * @param io - File system and console access
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  const parsed = parseCliArgs(argv);
+  if (!parsed.success) {
+    io.stderr(`Error: ${parsed.error}\n\n${CLI_USAGE}\n`);
+    return EXIT_CODES.error;
+  }
+
+  const { options } = parsed;
+  if (options.help) {
+    io.stdout(`${CLI_USAGE}\n`);
+    return EXIT_CODES.success;
+  }
+
+  try {
+    const resolved = await resolveFiles(options.patterns, io);
+    if (!resolved.success) {
+      io.stderr(`Error: ${resolved.error}\n`);
+      return EXIT_CODES.error;
+    }
+
+    let baseline: AnalysisReport | undefined;
+    if (options.baseline) {
+      baseline = JSON.parse(await io.readFile(options.baseline)) as AnalysisReport;
+      if (!Array.isArray(baseline?.cycles)) {
+        io.stderr(`Error: ${options.baseline} is not a JSON report\n`);
+        return EXIT_CODES.error;
+      }
+    }
+
+    const { files } = resolved;
+    const parseResult = await analyzeFiles(files, options.analyzer, io);
+
+    // A single file that could not be recovered at all has nothing to show; recovered
+    // syntax errors are reported as warnings, and in projects the other files still count
+    const syntaxErrors = parseResult.errors.filter(error => error.type === 'syntax');
+    if (syntaxErrors.length > 0 && files.length === 1 && parseResult.functions.length === 0) {
+      io.stderr(`Error: Failed to parse ${files[0]}: ${syntaxErrors[0].message}\n`);
+      return EXIT_CODES.error;
+    }
+    parseResult.errors.forEach(error => {
+      const location = [error.filePath, error.line].filter(part => part !== undefined).join(':');
+      io.stderr(`Warning: ${location ? `${location}: ` : ''}${error.message}\n`);
+    });
+
+    const graph = buildReactFlowGraph(parseResult);
+    const report = createReport(graph, files);
+    const violations = checkThresholds(report, options.thresholds, baseline);
+
+    if (options.graph) {
+      const graphText = options.graph === 'json'
+        ? JSON.stringify(graph, null, 2)
+        : exportGraphAsDiagram(graph, options.graph, { title: files.length === 1 ? files[0] : undefined });
+      await writeOutput(graphText, options.output, io);
+    }
+
+    if (options.report) {
+      await writeOutput(formatReport(report, options.report, violations), options.reportOutput, io);
+    }
+
+    if (violations.length > 0) {
+      io.stderr(`${violations.length} threshold${violations.length === 1 ? '' : 's'} exceeded:\n`);
+      violations.forEach(violation => io.stderr(`  ${violation.message}\n`));
+      return EXIT_CODES.thresholdsExceeded;
+    }
+
+    return EXIT_CODES.success;
+  } catch (error) {
+    io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_CODES.error;
+  }
+}
+
+/**
+ * Parses the files, linking calls across files when there are several
+ */
+async function analyzeFiles(files: string[], analyzer: AnalyzerBackend, io: CliIO): Promise<ParsedCodeResult> {
+  const projectFiles = await Promise.all(files.map(async path => ({ path, content: await io.readFile(path) })));
+
+  if (projectFiles.length === 1) {
+    const [{ path, content }] = projectFiles;
+    return analyzer === 'typescript'
+      ? analyzeSourceWithTypeChecker(content, { filename: path })
+      : parseTypeScriptCode(content, { filename: path });
+  }
+
+  return analyzer === 'typescript'
+    ? analyzeWithTypeChecker(projectFiles)
+    : parseTypeScriptProject(projectFiles);
+}
+
+/**
+ * Writes output to a file, or stdout when no file is given
+ */
+async function writeOutput(text: string, path: string | undefined, io: CliIO): Promise<void> {
+  const content = text.endsWith('\n') ? text : `${text}\n`;
+  if (path) {
+    await io.writeFile(path, content);
+  } else {
+    io.stdout(content);
+  }
+}
+
+/**
+ * Lists files below a directory, skipping dependency and build output folders
+ * @param directory - Directory to walk
+ * @param readDirectory - Returns the entries of a directory
+ * @returns Forward-slash file paths prefixed with the directory
+ */
+export async function walkDirectory(
+  directory: string,
+  readDirectory: (path: string) => Promise<Array<{ name: string; isDirectory: boolean }>>
+): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readDirectory(directory);
+
+  for (const entry of entries) {
+    const path = directory === '.' ? entry.name : `${directory.replace(/\/$/, '')}/${entry.name}`;
+    if (entry.isDirectory) {
+      if (IGNORED_DIRECTORIES.has(entry.name) || entry.name.startsWith('.')) continue;
+      files.push(...await walkDirectory(path, readDirectory));
+    } else {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,33 @@
+#!/usr/bin/env node
+/**
+ * CLI Entry Point
+ * Runs the analyzer against the local file system; see `runCli` for the options.
+ */
+
+import { promises as fs } from 'fs';
+import { runCli, walkDirectory } from './analyze';
+import type { CliIO } from './analyze';
+
+const nodeIO: CliIO = {
+  readFile: path => fs.readFile(path, 'utf8'),
+  writeFile: (path, content) => fs.writeFile(path, content, 'utf8'),
+  listFiles: directory => walkDirectory(directory, async path =>
+    (await fs.readdir(path, { withFileTypes: true })).map(entry => ({
+      name: entry.name,
+      isDirectory: entry.isDirectory(),
+    }))
+  ),
+  isDirectory: async path => {
+    try {
+      return (await fs.stat(path)).isDirectory();
+    } catch {
+      return null;
+    }
+  },
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+runCli(process.argv.slice(2), nodeIO).then(exitCode => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for CLI Report
+ */
+
+import { createReport, checkThresholds, formatReport } from './report';
+import { buildReactFlowGraph } from '../lib/graphBuilder';
+import type { FunctionData, FunctionCall } from '../types';
+
+const fn = (name: string, cyclomatic: number, cognitive = 0): FunctionData => ({
+  name,
+  parameters: [],
+  returnType: 'void',
+  location: { startLine: 1, endLine: 3, startColumn: 0, endColumn: 1 },
+  metrics: { cyclomatic, cognitive, maxNesting: 0, linesOfCode: 3, returnPoints: 1 },
+});
+
+const call = (caller: string, callee: string): FunctionCall => ({ caller, callee, lineNumber: 2 });
+
+const graph = buildReactFlowGraph({
+  functions: [fn('main', 2), fn('parse', 12, 20), fn('visit', 4), fn('visitChildren', 3)],
+  calls: [call('main', 'parse'), call('parse', 'visit'), call('visit', 'visitChildren'), call('visitChildren', 'visit')],
+  errors: [],
+});
+
+describe('createReport', () => {
+  it('should summarize stats, cycles and functions by complexity', () => {
+    const report = createReport(graph, ['src/parser.ts']);
+
+    expect(report.files).toEqual(['src/parser.ts']);
+    expect(report.stats.totalFunctions).toBe(4);
+    expect(report.stats.totalCalls).toBe(4);
+    expect(report.stats.mostConnected).toEqual({ name: 'visit', connections: 3 });
+    expect(report.cycles).toEqual([{ kind: 'mutual', functions: ['visit', 'visitChildren'] }]);
+    expect(report.functions.map(entry => entry.name)).toEqual(['parse', 'visit', 'visitChildren', 'main']);
+  });
+});
+
+describe('checkThresholds', () => {
+  const report = createReport(graph, ['src/parser.ts']);
+
+  it('should pass when no threshold is exceeded', () => {
+    expect(checkThresholds(report, { maxComplexity: 12, maxCognitive: 20, maxCycles: 1 })).toEqual([]);
+  });
+
+  it('should report each function over the complexity limits', () => {
+    const violations = checkThresholds(report, { maxComplexity: 3, maxCognitive: 10, maxCycles: 0 });
+
+    expect(violations.map(violation => violation.rule)).toEqual([
+      'max-complexity',
+      'max-complexity',
+      'max-cognitive',
+      'max-cycles',
+    ]);
+    expect(violations[0].message).toBe('parse has cyclomatic complexity 12 (max 3)');
+  });
+
+  it('should only fail on cycles missing from the baseline', () => {
+    const baseline = createReport(graph, ['src/parser.ts']);
+    expect(checkThresholds(report, {}, baseline)).toEqual([]);
+
+    const violations = checkThresholds(report, {}, { ...baseline, cycles: [] });
+    expect(violations).toEqual([
+      { rule: 'new-cycle', message: 'New circular call chain: visit, visitChildren' },
+    ]);
+  });
+});
+
+describe('formatReport', () => {
+  const report = createReport(graph, ['src/parser.ts']);
+  const violations = checkThresholds(report, { maxComplexity: 10 });
+
+  it('should include violations in the JSON report', () => {
+    const json = JSON.parse(formatReport(report, 'json', violations));
+
+    expect(json.stats.totalFunctions).toBe(4);
+    expect(json.violations).toHaveLength(1);
+  });
+
+  it('should render Markdown tables and sections', () => {
+    const markdown = formatReport(report, 'markdown', violations);
+
+    expect(markdown).toContain('| Functions | 4 |');
+    expect(markdown).toContain('| `parse` | 12 | 20 | 0 |');
+    expect(markdown).toContain('- Circular: `visit`, `visitChildren`');
+    expect(markdown).toContain('- **max-complexity**: parse has cyclomatic complexity 12 (max 10)');
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * CLI Report Module
+ * Turns a call graph into a serializable analysis report, checks it against
+ * CI thresholds and formats it as JSON or Markdown.
+ */
+
+import type { Node } from '@xyflow/react';
+import { getFunctionKey, withoutExternalModules } from '../lib/graphBuilder';
+import { computeGraphStats } from '../lib/graphStats';
+import { flattenGroups } from '../lib/nodeGroups';
+import type { GraphStats } from '../lib/graphStats';
+import type { ComplexityMetrics, GraphData } from '../types';
+
+/**
+ * Report formats the CLI can write
+ */
+export type ReportFormat = 'json' | 'markdown';
+
+/**
+ * One analyzed function
+ */
+export interface FunctionReport {
+  /** Function name, qualified with its file in multi-file analysis (`src/a.ts#load`) */
+  name: string;
+  line?: number;
+  cyclomatic?: number;
+  cognitive?: number;
+  maxNesting?: number;
+}
+
+/**
+ * A recursive function or a group of mutually recursive functions
+ */
+export interface CycleReport {
+  kind: 'recursive' | 'mutual';
+  /** Qualified function names, sorted */
+  functions: string[];
+}
+
+/**
+ * Serializable analysis report
+ */
+export interface AnalysisReport {
+  files: string[];
+  /** Stats panel metrics; node lists are reduced to counts and names */
+  stats: Omit<GraphStats, 'cycles' | 'duplicateNames' | 'mostConnected'> & {
+    duplicateNames: Array<{ name: string; count: number }>;
+    mostConnected: { name: string; connections: number } | null;
+  };
+  cycles: CycleReport[];
+  /** Functions, most complex first */
+  functions: FunctionReport[];
+}
+
+/**
+ * Limits that fail the CLI run when exceeded
+ */
+export interface ReportThresholds {
+  /** Highest cyclomatic complexity allowed for any function */
+  maxComplexity?: number;
+  /** Highest cognitive complexity allowed for any function */
+  maxCognitive?: number;
+  /** Most circular call chains (mutual recursion) allowed */
+  maxCycles?: number;
+  /** Lowest efficiency score allowed */
+  minScore?: number;
+}
+
+/**
+ * A threshold the report does not meet
+ */
+export interface ThresholdViolation {
+  rule: 'max-complexity' | 'max-cognitive' | 'max-cycles' | 'min-score' | 'new-cycle';
+  message: string;
+}
+
+/**
+ * Number of functions listed in the Markdown report
+ */
+const MARKDOWN_FUNCTION_LIMIT = 10;
+
+/**
+ * Builds the analysis report for a call graph
+ * @param graph - Graph built by `buildReactFlowGraph`
+ * @param files - Analyzed file paths
+ * @returns Report with stats, cycles and per-function metrics
+ */
+export function createReport(graph: GraphData, files: string[]): AnalysisReport {
+  // External modules are dependencies, not functions of the analyzed code
+  const callGraph = withoutExternalModules(graph);
+  const nodes = flattenGroups(callGraph.nodes).filter(node => node.type !== 'sectionHeader');
+  const stats = computeGraphStats(nodes, callGraph.edges);
+  const names = new Map(nodes.map(node => [node.id, getQualifiedName(node)]));
+  const nameOf = (nodeId: string) => names.get(nodeId) || nodeId;
+
+  const { cycles, duplicateNames, mostConnected, ...counts } = stats;
+
+  const functions: FunctionReport[] = nodes
+    .map(node => {
+      const data = node.data as { metrics?: ComplexityMetrics; location?: { startLine: number } };
+      return {
+        name: nameOf(node.id),
+        line: data.location?.startLine,
+        cyclomatic: data.metrics?.cyclomatic,
+        cognitive: data.metrics?.cognitive,
+        maxNesting: data.metrics?.maxNesting,
+      };
+    })
+    .sort((a, b) => (b.cyclomatic ?? 0) - (a.cyclomatic ?? 0) || (b.cognitive ?? 0) - (a.cognitive ?? 0));
+
+  return {
+    files,
+    stats: {
+      ...counts,
+      duplicateNames: duplicateNames.map(({ name, count }) => ({ name, count })),
+      mostConnected: mostConnected.nodeId
+        ? { name: nameOf(mostConnected.nodeId), connections: mostConnected.total }
+        : null,
+    },
+    cycles: cycles.map(cycle => ({
+      kind: cycle.kind,
+      functions: cycle.nodeIds.map(nameOf).sort(),
+    })),
+    functions,
+  };
+}
+
+/**
+ * Checks a report against thresholds
+ * @param report - Report to check
+ * @param thresholds - Limits to enforce; unset limits are skipped
+ * @param baseline - Earlier report; cycles missing from it count as new
+ * @returns Violations, empty when every threshold is met
+ */
+export function checkThresholds(
+  report: AnalysisReport,
+  thresholds: ReportThresholds,
+  baseline?: AnalysisReport
+): ThresholdViolation[] {
+  const violations: ThresholdViolation[] = [];
+  const { maxComplexity, maxCognitive, maxCycles, minScore } = thresholds;
+
+  if (maxComplexity !== undefined) {
+    report.functions
+      .filter(fn => (fn.cyclomatic ?? 0) > maxComplexity)
+      .forEach(fn => violations.push({
+        rule: 'max-complexity',
+        message: `${fn.name} has cyclomatic complexity ${fn.cyclomatic} (max ${maxComplexity})`,
+      }));
+  }
+
+  if (maxCognitive !== undefined) {
+    report.functions
+      .filter(fn => (fn.cognitive ?? 0) > maxCognitive)
+      .forEach(fn => violations.push({
+        rule: 'max-cognitive',
+        message: `${fn.name} has cognitive complexity ${fn.cognitive} (max ${maxCognitive})`,
+      }));
+  }
+
+  const mutualCycles = report.cycles.filter(cycle => cycle.kind === 'mutual');
+  if (maxCycles !== undefined && mutualCycles.length > maxCycles) {
+    violations.push({
+      rule: 'max-cycles',
+      message: `${mutualCycles.length} circular call chains found (max ${maxCycles})`,
+    });
+  }
+
+  if (minScore !== undefined && report.stats.efficiencyScore < minScore) {
+    violations.push({
+      rule: 'min-score',
+      message: `Efficiency score ${report.stats.efficiencyScore}% is below ${minScore}%`,
+    });
+  }
+
+  if (baseline) {
+    const cycleKey = (cycle: CycleReport) => cycle.functions.join('|');
+    const knownCycles = new Set(baseline.cycles.map(cycleKey));
+    report.cycles
+      .filter(cycle => !knownCycles.has(cycleKey(cycle)))
+      .forEach(cycle => violations.push({
+        rule: 'new-cycle',
+        message: cycle.kind === 'mutual'
+          ? `New circular call chain: ${cycle.functions.join(', ')}`
+          : `New recursive function: ${cycle.functions[0]}`,
+      }));
+  }
+
+  return violations;
+}
+
+/**
+ * Formats a report
+ * @param report - Report to format
+ * @param format - Output format
+ * @param violations - Threshold violations to include
+ * @returns JSON or Markdown text
+ */
+export function formatReport(
+  report: AnalysisReport,
+  format: ReportFormat,
+  violations: ThresholdViolation[] = []
+): string {
+  return format === 'markdown'
+    ? formatReportAsMarkdown(report, violations)
+    : JSON.stringify({ ...report, violations }, null, 2);
+}
+
+/**
+ * Formats a report as Markdown, e.g. for a pull request comment
+ * @param report - Report to format
+ * @param violations - Threshold violations to include
+ * @returns Markdown text
+ */
+export function formatReportAsMarkdown(report: AnalysisReport, violations: ThresholdViolation[] = []): string {
+  const { stats } = report;
+  const lines: string[] = [
+    '# Code Analysis Report',
+    '',
+    `${report.files.length} file${report.files.length === 1 ? '' : 's'} analyzed.`,
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    `| Functions | ${stats.totalFunctions} |`,
+    `| Calls | ${stats.totalCalls} |`,
+    `| Exported | ${stats.exported} |`,
+    `| Async | ${stats.async} |`,
+    `| Isolated | ${stats.isolated} |`,
+    `| Average parameters | ${stats.avgParams} |`,
+    ...(stats.hasMetrics
+      ? [`| Average complexity | ${stats.avgCyclomatic} cyclomatic, ${stats.avgCognitive} cognitive |`]
+      : []),
+    `| Max call depth | ${stats.maxCallDepth} |`,
+    `| High complexity | ${stats.complex} |`,
+    `| Potential dead code | ${stats.potentialDeadCode} |`,
+    `| Duplicate names | ${stats.duplicateNames.length} |`,
+    `| Efficiency score | ${stats.efficiencyScore}% |`,
+  ];
+
+  const measured = report.functions.filter(fn => fn.cyclomatic !== undefined).slice(0, MARKDOWN_FUNCTION_LIMIT);
+  if (measured.length > 0) {
+    lines.push(
+      '',
+      '## Most Complex Functions',
+      '',
+      '| Function | Cyclomatic | Cognitive | Max nesting |',
+      '| --- | --- | --- | --- |',
+      ...measured.map(fn => `| \`${fn.name}\` | ${fn.cyclomatic} | ${fn.cognitive} | ${fn.maxNesting} |`)
+    );
+  }
+
+  if (report.cycles.length > 0) {
+    lines.push(
+      '',
+      '## Recursion & Call Cycles',
+      '',
+      ...report.cycles.map(cycle => cycle.kind === 'mutual'
+        ? `- Circular: ${cycle.functions.map(name => `\`${name}\``).join(', ')}`
+        : `- Recursive: \`${cycle.functions[0]}\``)
+    );
+  }
+
+  if (violations.length > 0) {
+    lines.push(
+      '',
+      '## Threshold Violations',
+      '',
+      ...violations.map(violation => `- **${violation.rule}**: ${violation.message}`)
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Function name, qualified with its file in multi-file graphs
+ */
+function getQualifiedName(node: Node): string {
+  const data = node.data as { label?: string; filePath?: string };
+  return getFunctionKey(data.label || node.id, data.filePath);
+}
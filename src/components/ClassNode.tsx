@@ -0,0 +1,129 @@
+'use client';
+
+import React, { memo } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { Box, Layers, FileText } from 'lucide-react';
+
+interface ClassNodeData extends Record<string, unknown> {
+  label: string;
+  kind: 'class' | 'interface';
+  methods?: string[];
+  properties?: string[];
+  isExported?: boolean;
+  isAbstract?: boolean;
+  isExternal?: boolean;
+  filePath?: string;
+  location?: {
+    startLine: number;
+    endLine: number;
+  };
+}
+
+interface ClassNodeProps extends NodeProps {
+  data: ClassNodeData;
+}
+
+/**
+ * Maximum number of members listed before collapsing into a count
+ */
+const MAX_LISTED_MEMBERS = 8;
+
+/**
+ * Class hierarchy node: a class or interface with its members.
+ * Derived types connect from the bottom handle to the top handle of their base.
+ */
+const ClassNode: React.FC<ClassNodeProps> = ({ data, selected = false }) => {
+  const {
+    label,
+    kind,
+    methods = [],
+    properties = [],
+    isExported = false,
+    isAbstract = false,
+    isExternal = false,
+    filePath,
+    location,
+  } = data;
+
+  const isInterface = kind === 'interface';
+  const colors = isExternal
+    ? 'bg-gray-50 dark:bg-gray-900 border-gray-300 dark:border-gray-600 border-dashed text-gray-500 dark:text-gray-400'
+    : isInterface
+      ? 'bg-teal-50 dark:bg-teal-950 border-teal-300 dark:border-teal-700 text-teal-900 dark:text-teal-100'
+      : 'bg-blue-50 dark:bg-blue-950 border-blue-300 dark:border-blue-700 text-blue-900 dark:text-blue-100';
+
+  const members = [
+    ...properties.map(name => ({ name, isMethod: false })),
+    ...methods.map(name => ({ name, isMethod: true })),
+  ];
+
+  return (
+    <div
+      className={`
+        ${colors}
+        border-2 rounded-lg shadow-md hover:shadow-lg transition-shadow
+        ${selected ? 'ring-2 ring-blue-500 ring-offset-2' : ''}
+        min-w-[220px] max-w-[320px]
+      `}
+    >
+      {/* Base types this one derives from sit above */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        className="!w-3 !h-3 !bg-blue-500 !border-2 !border-white"
+      />
+
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-current/20 flex items-center justify-between space-x-2">
+        <div className="flex items-center space-x-2 min-w-0">
+          {isInterface ? <Layers className="w-4 h-4 flex-shrink-0" /> : <Box className="w-4 h-4 flex-shrink-0" />}
+          <span className={`font-semibold text-sm truncate ${isAbstract ? 'italic' : ''}`}>{label}</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <span className="px-2 py-0.5 text-xs rounded bg-white/70 dark:bg-black/30">
+            {isAbstract ? 'abstract' : kind}
+          </span>
+          {isExported && (
+            <span className="px-2 py-0.5 text-xs bg-green-600 text-white rounded">export</span>
+          )}
+        </div>
+      </div>
+
+      {/* Members */}
+      {isExternal ? (
+        <div className="px-3 py-2 text-xs italic">Not part of the analyzed code</div>
+      ) : (
+        <div className="px-3 py-2 space-y-0.5 font-mono text-xs">
+          {members.length === 0 && <div className="italic text-gray-500">No members</div>}
+          {members.slice(0, MAX_LISTED_MEMBERS).map(member => (
+            <div key={`${member.isMethod ? 'm' : 'p'}-${member.name}`} className="truncate">
+              {member.isMethod ? `${member.name}()` : member.name}
+            </div>
+          ))}
+          {members.length > MAX_LISTED_MEMBERS && (
+            <div className="text-gray-500">+{members.length - MAX_LISTED_MEMBERS} more</div>
+          )}
+        </div>
+      )}
+
+      {/* Source location */}
+      {!isExternal && (filePath || location) && (
+        <div className="px-3 py-1 border-t border-current/20 flex items-center space-x-1 text-xs opacity-75">
+          <FileText className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">
+            {filePath}{filePath && location ? ':' : ''}{location ? location.startLine : ''}
+          </span>
+        </div>
+      )}
+
+      {/* Derived types connect from below */}
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        className="!w-3 !h-3 !bg-blue-500 !border-2 !border-white"
+      />
+    </div>
+  );
+};
+
+export default memo(ClassNode);
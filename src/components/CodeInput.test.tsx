@@ -0,0 +1,67 @@
+/**
+ * Tests for CodeInput component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import CodeInput from './CodeInput';
+
+describe('CodeInput Component', () => {
+  const mockOnAnalyze = jest.fn();
+  const mockOnStatusChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render code area, file name field and analyze button', () => {
+    render(<CodeInput />);
+
+    expect(screen.getByLabelText(/typescript source code/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/file name/i)).toHaveValue('snippet.ts');
+    expect(screen.getByRole('button', { name: /analyze pasted typescript code/i })).toBeDisabled();
+  });
+
+  it('should call onAnalyze with the code and file name', async () => {
+    const user = userEvent.setup();
+    render(<CodeInput onAnalyze={mockOnAnalyze} onStatusChange={mockOnStatusChange} />);
+
+    const fileName = screen.getByLabelText(/file name/i);
+    await user.clear(fileName);
+    await user.type(fileName, 'App.tsx');
+    fireEvent.change(screen.getByLabelText(/typescript source code/i), {
+      target: { value: 'function App() {}' },
+    });
+    await user.click(screen.getByRole('button', { name: /analyze pasted typescript code/i }));
+
+    expect(mockOnStatusChange).toHaveBeenCalledWith('validating');
+    expect(mockOnAnalyze).toHaveBeenCalledWith('function App() {}', 'App.tsx');
+  });
+
+  it('should show an error for unsupported file names', async () => {
+    const user = userEvent.setup();
+    render(<CodeInput onAnalyze={mockOnAnalyze} onStatusChange={mockOnStatusChange} />);
+
+    const fileName = screen.getByLabelText(/file name/i);
+    await user.clear(fileName);
+    await user.type(fileName, 'script.js');
+    fireEvent.change(screen.getByLabelText(/typescript source code/i), {
+      target: { value: 'function run() {}' },
+    });
+    await user.click(screen.getByRole('button', { name: /analyze pasted typescript code/i }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/unsupported file type/i);
+    expect(mockOnStatusChange).toHaveBeenCalledWith('error');
+    expect(mockOnAnalyze).not.toHaveBeenCalled();
+  });
+
+  it('should analyze on Ctrl+Enter', () => {
+    render(<CodeInput onAnalyze={mockOnAnalyze} initialCode="const a = () => 1;" />);
+
+    fireEvent.keyDown(screen.getByLabelText(/typescript source code/i), { key: 'Enter', ctrlKey: true });
+
+    expect(mockOnAnalyze).toHaveBeenCalledWith('const a = () => 1;', 'snippet.ts');
+  });
+});
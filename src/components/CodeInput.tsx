@@ -0,0 +1,143 @@
+'use client';
+
+/**
+ * CodeInput Component
+ * Provides interface for users to paste TypeScript source code for analysis
+ */
+
+import { useState, useCallback } from 'react';
+import { validateSourceCode } from '../lib/utils';
+import { AnalysisStatus } from '../types';
+
+export interface CodeInputProps {
+  /** Callback fired with the pasted code and file name when analysis should begin */
+  onAnalyze?: (code: string, filename: string) => void;
+  /** Callback fired when analysis status changes */
+  onStatusChange?: (status: AnalysisStatus) => void;
+  /** Whether the component is disabled */
+  disabled?: boolean;
+  /** Initial code value */
+  initialCode?: string;
+  /** Initial file name value */
+  initialFilename?: string;
+  /** Custom class name */
+  className?: string;
+}
+
+/**
+ * CodeInput component for pasting TypeScript source that has no public URL
+ */
+export default function CodeInput({
+  onAnalyze,
+  onStatusChange,
+  disabled = false,
+  initialCode = '',
+  initialFilename = 'snippet.ts',
+  className = ''
+}: CodeInputProps) {
+  const [code, setCode] = useState(initialCode);
+  const [filename, setFilename] = useState(initialFilename);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Handles the analyze button click
+   */
+  const handleAnalyze = useCallback(() => {
+    onStatusChange?.('validating');
+
+    const validation = validateSourceCode(code, filename.trim());
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid source code');
+      onStatusChange?.('error');
+      return;
+    }
+
+    setError(null);
+    onAnalyze?.(code, filename.trim());
+  }, [code, filename, onAnalyze, onStatusChange]);
+
+  /**
+   * Handles Ctrl/Cmd+Enter in the code area
+   */
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey) && !disabled) {
+      event.preventDefault();
+      handleAnalyze();
+    }
+  }, [disabled, handleAnalyze]);
+
+  const isAnalyzeDisabled = disabled || !code.trim() || !filename.trim();
+
+  return (
+    <div className={`w-full max-w-2xl mx-auto space-y-4 ${className}`}>
+      {/* File Name Field */}
+      <div className="space-y-2">
+        <label
+          htmlFor="code-filename"
+          className="block text-sm font-medium text-gray-700"
+        >
+          File Name
+        </label>
+        <input
+          id="code-filename"
+          type="text"
+          value={filename}
+          onChange={(event) => setFilename(event.target.value)}
+          disabled={disabled}
+          placeholder="snippet.ts or Component.tsx"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-500 font-mono text-sm transition-colors"
+        />
+      </div>
+
+      {/* Code Field */}
+      <div className="space-y-2">
+        <label
+          htmlFor="code-input"
+          className="block text-sm font-medium text-gray-700"
+        >
+          TypeScript Source Code
+        </label>
+        <textarea
+          id="code-input"
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled}
+          rows={14}
+          spellCheck={false}
+          placeholder={'function greet(name: string) {\n  return format(name);\n}'}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-500 font-mono text-sm transition-colors"
+          aria-describedby={error ? 'code-error' : undefined}
+        />
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div
+          id="code-error"
+          className="text-sm text-red-600 flex items-center space-x-2"
+          role="alert"
+        >
+          <span className="text-red-500">⚠</span>
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Analyze Button */}
+      <button
+        onClick={handleAnalyze}
+        disabled={isAnalyzeDisabled}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-3 px-6 rounded-lg transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        aria-label="Analyze pasted TypeScript code"
+      >
+        {disabled ? 'Analyzing...' : 'Analyze'}
+      </button>
+
+      {/* Help Text */}
+      <p className="text-sm text-gray-500">
+        Use a <code>.tsx</code> file name for code containing JSX. Press Ctrl+Enter to analyze.
+        Maximum size: 500KB. Pasted code is sent only to this app&apos;s parse API.
+      </p>
+    </div>
+  );
+}
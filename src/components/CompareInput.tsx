@@ -0,0 +1,139 @@
+'use client';
+
+/**
+ * CompareInput Component
+ * Provides interface for users to pick two versions of a TypeScript file to compare
+ */
+
+import { useState, useCallback } from 'react';
+import { validateURL } from '../lib/utils';
+import { AnalysisStatus } from '../types';
+
+export interface CompareInputProps {
+  /** Callback fired with the old and new file URLs when the comparison should begin */
+  onCompare?: (baseUrl: string, headUrl: string) => void;
+  /** Callback fired when analysis status changes */
+  onStatusChange?: (status: AnalysisStatus) => void;
+  /** Whether the component is disabled */
+  disabled?: boolean;
+  /** Custom class name */
+  className?: string;
+}
+
+/**
+ * Checks that a URL points at a single file
+ * @returns Error message, or null when the URL can be compared
+ */
+const getFileUrlError = (url: string): string | null => {
+  const validation = validateURL(url);
+  if (!validation.isValid) return validation.error || 'Invalid URL';
+  if (validation.isDirectory) return 'Only single files can be compared';
+  return null;
+};
+
+/**
+ * CompareInput component for diffing a file at two refs, such as a PR base and head
+ */
+export default function CompareInput({
+  onCompare,
+  onStatusChange,
+  disabled = false,
+  className = ''
+}: CompareInputProps) {
+  const [baseUrl, setBaseUrl] = useState('');
+  const [headUrl, setHeadUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Handles the compare button click
+   */
+  const handleCompare = useCallback(() => {
+    onStatusChange?.('validating');
+
+    const baseError = getFileUrlError(baseUrl.trim());
+    const headError = getFileUrlError(headUrl.trim());
+    if (baseError || headError) {
+      setError(baseError ? `Base: ${baseError}` : `Head: ${headError}`);
+      onStatusChange?.('error');
+      return;
+    }
+
+    setError(null);
+    onCompare?.(baseUrl.trim(), headUrl.trim());
+  }, [baseUrl, headUrl, onCompare, onStatusChange]);
+
+  const isCompareDisabled = disabled || !baseUrl.trim() || !headUrl.trim();
+
+  const inputClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-500 font-mono text-sm transition-colors';
+
+  return (
+    <div className={`w-full max-w-2xl mx-auto space-y-4 ${className}`}>
+      {/* Base URL Field */}
+      <div className="space-y-2">
+        <label
+          htmlFor="compare-base-url"
+          className="block text-sm font-medium text-gray-700"
+        >
+          Base Version URL
+        </label>
+        <input
+          id="compare-base-url"
+          type="url"
+          value={baseUrl}
+          onChange={(event) => setBaseUrl(event.target.value)}
+          disabled={disabled}
+          placeholder="https://github.com/owner/repo/blob/main/src/file.ts"
+          className={inputClassName}
+        />
+      </div>
+
+      {/* Head URL Field */}
+      <div className="space-y-2">
+        <label
+          htmlFor="compare-head-url"
+          className="block text-sm font-medium text-gray-700"
+        >
+          Head Version URL
+        </label>
+        <input
+          id="compare-head-url"
+          type="url"
+          value={headUrl}
+          onChange={(event) => setHeadUrl(event.target.value)}
+          disabled={disabled}
+          placeholder="https://github.com/owner/repo/blob/feature-branch/src/file.ts"
+          className={inputClassName}
+          aria-describedby={error ? 'compare-error' : undefined}
+        />
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div
+          id="compare-error"
+          className="text-sm text-red-600 flex items-center space-x-2"
+          role="alert"
+        >
+          <span className="text-red-500">⚠</span>
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Compare Button */}
+      <button
+        onClick={handleCompare}
+        disabled={isCompareDisabled}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-3 px-6 rounded-lg transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        aria-label="Compare the two file versions"
+      >
+        {disabled ? 'Comparing...' : 'Compare'}
+      </button>
+
+      {/* Help Text */}
+      <p className="text-sm text-gray-500">
+        Use the same file at two refs, e.g. a pull request&apos;s base and head branches. Added, removed
+        and changed functions and calls are color-coded in the graph.
+      </p>
+    </div>
+  );
+}
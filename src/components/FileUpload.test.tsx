@@ -0,0 +1,128 @@
+/**
+ * Tests for FileUpload component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import FileUpload from './FileUpload';
+
+/**
+ * Creates a file as a folder picker reports it, with its path below the chosen folder
+ */
+const createFile = (path: string, content = 'export function run() {}') => {
+  const file = new File([content], path.split('/').pop()!);
+  if (path.includes('/')) {
+    Object.defineProperty(file, 'webkitRelativePath', { value: path });
+  }
+  return file;
+};
+
+// jsdom's files have no text(); read them with a FileReader instead
+if (typeof (Blob.prototype as Partial<Blob>).text !== 'function') {
+  Object.defineProperty(Blob.prototype, 'text', {
+    configurable: true,
+    value(this: Blob) {
+      return new Promise<string>(resolve => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(this);
+      });
+    },
+  });
+}
+
+describe('FileUpload Component', () => {
+  const mockOnFilesLoaded = jest.fn();
+  const mockOnStatusChange = jest.fn();
+
+  const renderUpload = () => render(
+    <FileUpload onFilesLoaded={mockOnFilesLoaded} onStatusChange={mockOnStatusChange} />
+  );
+
+  const selectFiles = (files: File[]) => {
+    fireEvent.change(screen.getByLabelText(/choose a folder/i), { target: { files } });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should load TypeScript files with their relative paths and a folder label', async () => {
+    renderUpload();
+
+    selectFiles([
+      createFile('my-app/src/index.ts'),
+      createFile('my-app/src/App.tsx'),
+      createFile('my-app/README.md', '# Readme'),
+      createFile('my-app/node_modules/lib/index.ts'),
+      createFile('my-app/dist/index.ts'),
+    ]);
+
+    await waitFor(() => expect(mockOnFilesLoaded).toHaveBeenCalledTimes(1));
+    const [files, label] = mockOnFilesLoaded.mock.calls[0];
+    expect(files.map((file: { path: string }) => file.path)).toEqual(['my-app/src/index.ts', 'my-app/src/App.tsx']);
+    expect(files[0].content).toBe('export function run() {}');
+    expect(label).toBe('my-app (2 files)');
+    expect(mockOnStatusChange).toHaveBeenCalledWith('fetching');
+  });
+
+  it('should label a single file with its name', async () => {
+    renderUpload();
+
+    selectFiles([createFile('utils.ts')]);
+
+    await waitFor(() => expect(mockOnFilesLoaded).toHaveBeenCalledWith([
+      { path: 'utils.ts', content: 'export function run() {}' },
+    ], 'utils.ts'));
+  });
+
+  it('should skip files larger than 500KB and say so', async () => {
+    renderUpload();
+
+    selectFiles([createFile('small.ts'), createFile('big.ts', 'x'.repeat(500 * 1024 + 1))]);
+
+    await waitFor(() => expect(mockOnFilesLoaded).toHaveBeenCalled());
+    expect(mockOnFilesLoaded.mock.calls[0][0]).toHaveLength(1);
+    expect(screen.getByText('Skipped 1 file(s) larger than 500KB')).toBeInTheDocument();
+  });
+
+  it('should load at most 500 files', async () => {
+    renderUpload();
+
+    selectFiles(Array.from({ length: 501 }, (_, index) => createFile(`src/file${index}.ts`)));
+
+    await waitFor(() => expect(mockOnFilesLoaded).toHaveBeenCalled());
+    expect(mockOnFilesLoaded.mock.calls[0][0]).toHaveLength(500);
+    expect(screen.getByText('Only the first 500 of 501 files were loaded')).toBeInTheDocument();
+  });
+
+  it('should report a selection without TypeScript files', async () => {
+    renderUpload();
+
+    selectFiles([createFile('docs/README.md', '# Readme'), createFile('node_modules/lib/index.ts')]);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('No .ts or .tsx files found in the selection');
+    expect(mockOnStatusChange).toHaveBeenCalledWith('error');
+    expect(mockOnFilesLoaded).not.toHaveBeenCalled();
+  });
+
+  it('should report dropped entries that cannot be read', async () => {
+    renderUpload();
+    const entry = {
+      isFile: true,
+      isDirectory: false,
+      name: 'secret.ts',
+      fullPath: '/secret.ts',
+      file: (_resolve: (file: File) => void, reject: (error: Error) => void) => reject(new Error('Permission denied')),
+    };
+
+    fireEvent.drop(screen.getByTestId('file-drop-zone'), {
+      dataTransfer: { items: [{ webkitGetAsEntry: () => entry }], files: [] },
+    });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Permission denied');
+    expect(mockOnStatusChange).toHaveBeenCalledWith('error');
+    expect(mockOnFilesLoaded).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,318 @@
+'use client';
+
+/**
+ * FileUpload Component
+ * Lets users drop or pick local TypeScript files and folders for analysis.
+ * Files are read in the browser and never uploaded to a server.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Upload, FolderOpen, FileCode } from 'lucide-react';
+import { isSupportedFile } from '../lib/utils';
+import { normalizePath } from '../lib/projectAnalyzer';
+import { AnalysisStatus, ProjectFile } from '../types';
+
+/**
+ * Maximum number of files read from a single upload
+ */
+const MAX_UPLOAD_FILES = 500;
+
+/**
+ * Maximum size of a single file (500KB, same as the URL fetcher)
+ */
+const MAX_UPLOAD_FILE_SIZE = 500 * 1024;
+
+/**
+ * Directories skipped when reading dropped or picked folders
+ */
+const IGNORED_DIRECTORIES = ['node_modules', '.git', '.next', 'dist', 'build', 'coverage'];
+
+export interface FileUploadProps {
+  /** Callback fired with the loaded files and a short label describing them */
+  onFilesLoaded?: (files: ProjectFile[], label: string) => void;
+  /** Callback fired when analysis status changes */
+  onStatusChange?: (status: AnalysisStatus) => void;
+  /** Whether the component is disabled */
+  disabled?: boolean;
+  /** Custom class name */
+  className?: string;
+}
+
+/**
+ * A browser file paired with its project-relative path
+ */
+interface PendingFile {
+  file: File;
+  path: string;
+}
+
+/**
+ * FileUpload component for drag-and-drop and file-picker uploads of .ts/.tsx files
+ */
+export default function FileUpload({
+  onFilesLoaded,
+  onStatusChange,
+  disabled = false,
+  className = ''
+}: FileUploadProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // `webkitdirectory` is not part of React's input attribute types
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  /**
+   * Filters, reads and reports a batch of selected files
+   */
+  const loadFiles = useCallback(async (pending: PendingFile[]) => {
+    setError(null);
+    setNotice(null);
+
+    const candidates = pending.filter(({ path }) => isSupportedFile(path) && !isIgnoredPath(path));
+    if (candidates.length === 0) {
+      setError('No .ts or .tsx files found in the selection');
+      onStatusChange?.('error');
+      return;
+    }
+
+    setIsReading(true);
+    onStatusChange?.('fetching');
+
+    try {
+      const skipped: string[] = [];
+      const accepted = candidates.filter(({ file, path }) => {
+        if (file.size > MAX_UPLOAD_FILE_SIZE) {
+          skipped.push(path);
+          return false;
+        }
+        return true;
+      });
+
+      const limited = accepted.slice(0, MAX_UPLOAD_FILES);
+      const files: ProjectFile[] = await Promise.all(
+        limited.map(async ({ file, path }) => ({ path, content: await file.text() }))
+      );
+
+      const notices: string[] = [];
+      if (skipped.length > 0) {
+        notices.push(`Skipped ${skipped.length} file(s) larger than 500KB`);
+      }
+      if (accepted.length > limited.length) {
+        notices.push(`Only the first ${MAX_UPLOAD_FILES} of ${accepted.length} files were loaded`);
+      }
+      setNotice(notices.length > 0 ? notices.join('. ') : null);
+
+      if (files.length === 0) {
+        setError('All selected files are larger than 500KB');
+        onStatusChange?.('error');
+        return;
+      }
+
+      onFilesLoaded?.(files, describeUpload(files));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read files');
+      onStatusChange?.('error');
+    } finally {
+      setIsReading(false);
+    }
+  }, [onFilesLoaded, onStatusChange]);
+
+  /**
+   * Handles files chosen with the file or folder picker
+   */
+  const handleInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []).map(file => ({
+      file,
+      path: normalizePath(file.webkitRelativePath || file.name),
+    }));
+    // Allow re-selecting the same files later
+    event.target.value = '';
+    loadFiles(selected);
+  }, [loadFiles]);
+
+  /**
+   * Handles files and folders dropped onto the drop zone
+   */
+  const handleDrop = useCallback(async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (disabled || isReading) return;
+
+    const entries = Array.from(event.dataTransfer.items || [])
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+    if (entries.length > 0) {
+      let pending: PendingFile[];
+      try {
+        pending = (await Promise.all(entries.map(readEntry))).flat();
+      } catch (err) {
+        // Unreadable entries, e.g. folders the browser was not allowed to open
+        setError(err instanceof Error ? err.message : 'Failed to read the dropped files');
+        onStatusChange?.('error');
+        return;
+      }
+      loadFiles(pending);
+    } else {
+      // Browsers without entry support only expose flat file lists
+      loadFiles(Array.from(event.dataTransfer.files).map(file => ({ file, path: file.name })));
+    }
+  }, [disabled, isReading, loadFiles, onStatusChange]);
+
+  const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (!disabled) setIsDragging(true);
+  }, [disabled]);
+
+  const handleDragLeave = useCallback(() => {
+    setIsDragging(false);
+  }, []);
+
+  const isBusy = disabled || isReading;
+
+  return (
+    <div className={`w-full max-w-2xl mx-auto space-y-4 ${className}`}>
+      {/* Drop Zone */}
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+          isDragging
+            ? 'border-blue-500 bg-blue-50'
+            : 'border-gray-300 bg-white hover:border-gray-400'
+        } ${isBusy ? 'opacity-60' : ''}`}
+        data-testid="file-drop-zone"
+      >
+        <Upload className="w-10 h-10 mx-auto text-gray-400 mb-3" />
+        <p className="text-gray-700 font-medium">
+          {isReading ? 'Reading files...' : 'Drop .ts/.tsx files or folders here'}
+        </p>
+        <p className="text-sm text-gray-500 mt-1">or</p>
+        <div className="mt-3 flex justify-center space-x-3">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-sm rounded-lg transition-colors"
+          >
+            <FileCode className="w-4 h-4" />
+            <span>Choose Files</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => folderInputRef.current?.click()}
+            disabled={isBusy}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 disabled:bg-gray-50 text-gray-700 text-sm rounded-lg transition-colors"
+          >
+            <FolderOpen className="w-4 h-4" />
+            <span>Choose Folder</span>
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ts,.tsx"
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+          aria-label="Choose TypeScript files"
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+          aria-label="Choose a folder"
+        />
+      </div>
+
+      {/* Notice */}
+      {notice && !error && (
+        <div className="text-sm text-amber-600">{notice}</div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="text-sm text-red-600 flex items-center space-x-2"
+          role="alert"
+        >
+          <span className="text-red-500">⚠</span>
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Help Text */}
+      <p className="text-sm text-gray-500">
+        Files are parsed in your browser and never leave your machine. Folders keep their
+        relative paths, and imports between the uploaded files are linked in the graph.
+        Dependency and build output folders such as node_modules are ignored.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Recursively reads a dropped file system entry into files with relative paths
+ * @param entry - Dropped file or directory entry
+ * @returns Files found under the entry
+ */
+async function readEntry(entry: FileSystemEntry): Promise<PendingFile[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ file, path: normalizePath(entry.fullPath || file.name) }];
+  }
+
+  if (entry.isDirectory) {
+    if (IGNORED_DIRECTORIES.includes(entry.name)) return [];
+
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+
+    // readEntries returns results in batches until an empty batch
+    let batch: FileSystemEntry[];
+    do {
+      batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      children.push(...batch);
+    } while (batch.length > 0);
+
+    return (await Promise.all(children.map(readEntry))).flat();
+  }
+
+  return [];
+}
+
+/**
+ * Checks whether a path lies inside an ignored directory
+ * @param path - Project-relative file path
+ * @returns True if any directory segment is ignored
+ */
+function isIgnoredPath(path: string): boolean {
+  return path.split('/').slice(0, -1).some(segment => IGNORED_DIRECTORIES.includes(segment));
+}
+
+/**
+ * Builds a short label for an upload, e.g. `my-app (12 files)` or `utils.ts`
+ * @param files - Loaded files
+ * @returns Human readable label
+ */
+function describeUpload(files: ProjectFile[]): string {
+  if (files.length === 1) return files[0].path;
+
+  const roots = new Set(files.map(file => file.path.split('/')[0]));
+  const root = roots.size === 1 && files.every(file => file.path.includes('/'))
+    ? Array.from(roots)[0]
+    : 'Uploaded files';
+
+  return `${root} (${files.length} files)`;
+}
@@ -17,15 +17,21 @@ import {
   X,
   ArrowLeft,
   PanelLeftClose,
-  PanelLeftOpen
+  PanelLeftOpen,
+  GitBranch,
+  Network,
+  Link2,
+  Check
 } from 'lucide-react';
+import type { DiagramFormat } from '../lib/graphExport';
+import type { FilterOptions } from '../types';
 
 interface FlowToolbarProps {
   onZoomIn: () => void;
   onZoomOut: () => void;
   onFitView: () => void;
   onResetLayout: () => void;
-  onExportImage: (format: 'png' | 'svg') => void;
+  onExport: (format: 'png' | 'svg' | DiagramFormat) => void;
   onToggleMinimap: () => void;
   onToggleCodePreview: () => void;
   onToggleLeftSidebar: () => void;
@@ -33,39 +39,38 @@ interface FlowToolbarProps {
   onFilterChange: (filters: FilterOptions) => void;
   onSearchChange: (query: string) => void;
   onBackToAnalysis?: () => void;
+  /** Copies a shareable link to the current view; the button is hidden when omitted */
+  onCopyLink?: () => Promise<void>;
+  /** Switches between the call graph and the class hierarchy; the toggle is hidden when omitted */
+  onViewModeChange?: (mode: 'calls' | 'hierarchy') => void;
+  viewMode?: 'calls' | 'hierarchy';
   showMinimap: boolean;
   showCodePreview: boolean;
   isLeftSidebarVisible: boolean;
   layoutDirection: 'TB' | 'LR' | 'BT' | 'RL' | 'CONNECTED';
   filters: FilterOptions;
+  searchQuery: string;
+  /** Upper bound of the complexity sliders, usually the highest complexity in the graph */
+  maxComplexityLimit?: number;
   isExporting?: boolean;
 }
 
-interface FilterOptions {
-  showExported: boolean;
-  showAsync: boolean;
-  showMethods: boolean;
-  hideIsolated: boolean;
-  minComplexity: number;
-  maxComplexity: number;
-  // Function type visibility filters
-  functionTypes: {
-    exported: boolean;
-    async: boolean;
-    methods: boolean;
-    useCallback: boolean;
-    useEffect: boolean;
-    jsxHandlers: boolean;
-    regular: boolean;
-  };
-}
+/**
+ * Export formats offered in the export menu
+ */
+const EXPORT_FORMATS: { format: 'png' | 'svg' | DiagramFormat; label: string }[] = [
+  { format: 'png', label: 'PNG image' },
+  { format: 'svg', label: 'SVG (vector)' },
+  { format: 'mermaid', label: 'Mermaid' },
+  { format: 'dot', label: 'Graphviz DOT' },
+];
 
 const FlowToolbar: React.FC<FlowToolbarProps> = ({
   onZoomIn,
   onZoomOut,
   onFitView,
   onResetLayout,
-  onExportImage,
+  onExport,
   onToggleMinimap,
   onToggleCodePreview,
   onToggleLeftSidebar,
@@ -73,21 +78,34 @@ const FlowToolbar: React.FC<FlowToolbarProps> = ({
   onFilterChange,
   onSearchChange,
   onBackToAnalysis,
+  onCopyLink,
+  onViewModeChange,
+  viewMode = 'calls',
   showMinimap,
   showCodePreview,
   isLeftSidebarVisible,
   layoutDirection,
   filters,
+  searchQuery,
+  maxComplexityLimit = 10,
   isExporting = false
 }) => {
-  const [searchQuery, setSearchQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const [showLayoutControls, setShowLayoutControls] = useState(false);
 
-  const handleSearchChange = useCallback((query: string) => {
-    setSearchQuery(query);
-    onSearchChange(query);
-  }, [onSearchChange]);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const handleCopyLink = useCallback(async () => {
+    if (!onCopyLink) return;
+    try {
+      await onCopyLink();
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy link failed:', error);
+    }
+  }, [onCopyLink]);
 
   const handleFilterChange = useCallback((newFilters: Partial<FilterOptions>) => {
     onFilterChange({ ...filters, ...newFilters });
@@ -114,6 +132,36 @@ const FlowToolbar: React.FC<FlowToolbarProps> = ({
               <span className="text-sm font-medium">Back</span>
             </button>
           )}
+
+          {/* View Mode */}
+          {onViewModeChange && (
+            <div className="flex items-center bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden" role="tablist">
+              <button
+                role="tab"
+                aria-selected={viewMode === 'calls'}
+                onClick={() => onViewModeChange('calls')}
+                className={`flex items-center space-x-1 px-3 py-2 text-sm transition-colors ${
+                  viewMode === 'calls' ? 'bg-blue-600 text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+                title="Function call graph"
+              >
+                <Network className="w-4 h-4" />
+                <span>Calls</span>
+              </button>
+              <button
+                role="tab"
+                aria-selected={viewMode === 'hierarchy'}
+                onClick={() => onViewModeChange('hierarchy')}
+                className={`flex items-center space-x-1 px-3 py-2 text-sm transition-colors ${
+                  viewMode === 'hierarchy' ? 'bg-blue-600 text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+                title="Class and interface hierarchy"
+              >
+                <GitBranch className="w-4 h-4" />
+                <span>Classes</span>
+              </button>
+            </div>
+          )}
           
           <div className="flex items-center bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden">
             <button
@@ -171,12 +219,12 @@ const FlowToolbar: React.FC<FlowToolbarProps> = ({
               type="text"
               placeholder="Search functions..."
               value={searchQuery}
-              onChange={(e) => handleSearchChange(e.target.value)}
+              onChange={(e) => onSearchChange(e.target.value)}
               className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
             {searchQuery && (
               <button
-                onClick={() => handleSearchChange('')}
+                onClick={() => onSearchChange('')}
                 className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
               >
                 <X className="w-4 h-4" />
@@ -261,6 +309,16 @@ const FlowToolbar: React.FC<FlowToolbarProps> = ({
                       />
                       <span className="text-gray-700 dark:text-gray-300">Hide isolated nodes</span>
                     </label>
+
+                    <label className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={filters.hideExternal ?? false}
+                        onChange={(e) => handleFilterChange({ hideExternal: e.target.checked })}
+                        className="rounded"
+                      />
+                      <span className="text-gray-700 dark:text-gray-300">Hide external modules</span>
+                    </label>
                   </div>
                   
                   <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
@@ -361,7 +419,7 @@ const FlowToolbar: React.FC<FlowToolbarProps> = ({
                   
                   <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
                     <label className="block text-sm text-gray-700 dark:text-gray-300 mb-2">
-                      Complexity Range: {filters.minComplexity} - {filters.maxComplexity}
+                      Cyclomatic Complexity: {filters.minComplexity} - {filters.maxComplexity}
                     </label>
                     <div className="space-y-2">
                       <div>
@@ -369,7 +427,7 @@ const FlowToolbar: React.FC<FlowToolbarProps> = ({
                         <input
                           type="range"
                           min="1"
-                          max="10"
+                          max={maxComplexityLimit}
                           value={filters.minComplexity}
                           onChange={(e) => handleFilterChange({ minComplexity: Number(e.target.value) })}
                           className="w-full"
@@ -380,7 +438,7 @@ const FlowToolbar: React.FC<FlowToolbarProps> = ({
                         <input
                           type="range"
                           min="1"
-                          max="10"
+                          max={maxComplexityLimit}
                           value={filters.maxComplexity}
                           onChange={(e) => handleFilterChange({ maxComplexity: Number(e.target.value) })}
                           className="w-full"
@@ -420,6 +478,52 @@ const FlowToolbar: React.FC<FlowToolbarProps> = ({
             </button>
           </div>
 
+          {/* Share */}
+          {onCopyLink && (
+            <button
+              onClick={handleCopyLink}
+              className="flex items-center space-x-2 px-3 py-2 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              title="Copy a link that reopens this view"
+            >
+              {linkCopied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+              <span className="text-sm">{linkCopied ? 'Copied' : 'Copy Link'}</span>
+            </button>
+          )}
+
+          {/* Export */}
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={isExporting}
+              className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+                showExportMenu
+                  ? 'bg-gray-200 dark:bg-gray-600 text-black dark:text-white'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
+              title="Export"
+            >
+              <Download className="w-4 h-4" />
+              <span className="text-sm">{isExporting ? 'Exporting...' : 'Export'}</span>
+            </button>
+
+            {showExportMenu && (
+              <div className="absolute top-full right-0 mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10 py-1 w-40">
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    onClick={() => {
+                      setShowExportMenu(false);
+                      onExport(format);
+                    }}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
         </div>
       </div>
     </div>
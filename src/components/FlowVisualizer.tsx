@@ -16,19 +16,36 @@ import {
   MarkerType
 } from '@xyflow/react';
 import html2canvas from 'html2canvas';
+import { Crosshair, X } from 'lucide-react';
 
 import FunctionNode from './FunctionNode';
+import ClassNode from './ClassNode';
+import ModuleNode from './ModuleNode';
+import GroupNode from './GroupNode';
 import SectionHeader from './SectionHeader';
 import FlowToolbar from './FlowToolbar';
 import NodeDetailsPanel from './NodeDetailsPanel';
 import StatsPanel from './StatsPanel';
 import LayoutControls from './LayoutControls';
-
-import { layoutNodes, createMatrixLayout, createConnectedLayout } from '../lib/layoutEngine';
-import type { GraphData } from '../types';
+import PathFinderPanel from './PathFinderPanel';
+import ImportsExportsPanel from './ImportsExportsPanel';
+
+import { isAbortError } from '../lib/analysisWorker';
+import { getAnalysisClient } from '../lib/browserAnalysis';
+import { exportGraphToSVG } from '../lib/svgExport';
+import { exportGraphAsDiagram, isDiagramFormat, DIAGRAM_FORMATS } from '../lib/graphExport';
+import type { DiagramFormat } from '../lib/graphExport';
+import { findCallNeighborhood } from '../lib/callPaths';
+import { withoutExternalModules } from '../lib/graphBuilder';
+import { collapseGroups, flattenGroups, getAbsolutePosition, isGroupNode, GROUP_NODE_TYPE } from '../lib/nodeGroups';
+import { DIFF_COLORS } from '../lib/graphDiff';
+import type { GraphDiffSummary } from '../lib/graphDiff';
+import type { FilterOptions, FocusOptions, GraphData, ModuleSummary, ViewState } from '../types';
 
 interface FlowVisualizerProps {
   data: GraphData;
+  /** Class hierarchy graph; enables the Calls/Classes view toggle when it has nodes */
+  hierarchy?: GraphData;
   metadata?: {
     fileName?: string;
     fileSize?: number;
@@ -36,33 +53,25 @@ interface FlowVisualizerProps {
     totalCalls?: number;
     imports?: string[];
     exports?: string[];
+    /** Typed imports, exports and declarations; enables the Imports & Exports panel */
+    module?: ModuleSummary;
     parseTime?: number;
     url?: string;
+    /** Change counts when the graph compares two versions of a file */
+    diff?: GraphDiffSummary;
   };
   onBackToAnalysis?: () => void;
-}
-
-interface FilterOptions {
-  showExported: boolean;
-  showAsync: boolean;
-  showMethods: boolean;
-  hideIsolated: boolean;
-  minComplexity: number;
-  maxComplexity: number;
-  // Function type visibility filters
-  functionTypes: {
-    exported: boolean;
-    async: boolean;
-    methods: boolean;
-    useCallback: boolean;
-    useEffect: boolean;
-    jsxHandlers: boolean;
-    regular: boolean;
-  };
+  /** View state to start from, e.g. decoded from a permalink */
+  initialView?: Partial<ViewState>;
+  /** Reports view changes so the page can keep a permalink up to date; also enables Copy Link */
+  onViewStateChange?: (view: ViewState) => void;
 }
 
 const nodeTypes = {
   function: FunctionNode,
+  class: ClassNode,
+  module: ModuleNode,
+  [GROUP_NODE_TYPE]: GroupNode,
   sectionHeader: SectionHeader,
 };
 
@@ -72,35 +81,29 @@ const defaultEdgeOptions = {
   style: { strokeWidth: 2 },
 };
 
-// Helper function to apply the correct layout based on type
-const applyLayoutByType = (
-  nodes: Node[], 
-  edges: Edge[], 
-  layoutType: 'dagre' | 'force' | 'circular' | 'grid',
-  layoutDirection: 'TB' | 'LR' | 'BT' | 'RL' | 'CONNECTED',
-  spacing: { nodeSpacing: number; rankSeparation: number; edgeSeparation: number }
-): Node[] => {
-  // Handle connected layout specially
-  if (layoutDirection === 'CONNECTED') {
-    return createConnectedLayout(nodes, edges);
-  }
-  
-  switch (layoutType) {
-    case 'grid':
-      return createMatrixLayout(nodes, edges, 4); // 4 columns per row to accommodate wider async functions
-    case 'dagre':
-    default:
-      return layoutNodes(nodes, edges, {
-        direction: layoutDirection as 'TB' | 'LR' | 'BT' | 'RL',
-        nodeWidth: spacing.nodeSpacing,
-        nodeHeight: 80,
-        rankSep: spacing.rankSeparation,
-        nodeSep: spacing.nodeSpacing,
-      });
-  }
+// Quiet period before a re-layout, so dragging a spacing slider lays out once
+const LAYOUT_DEBOUNCE_MS = 150;
+
+/**
+ * Triggers a browser download of generated text content
+ */
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
-const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata, onBackToAnalysis }) => {
+const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({
+  data,
+  hierarchy,
+  metadata,
+  onBackToAnalysis,
+  initialView,
+  onViewStateChange,
+}) => {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const { fitView, getViewport, setViewport } = useReactFlow();
   
@@ -108,17 +111,27 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
   const [nodes, setNodes, onNodesChange] = useNodesState([] as Node[]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([] as Edge[]);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
+  const selectedNodeId = selectedNode?.id;
   const [highlightedNodes, setHighlightedNodes] = useState<string[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
+  // Set by the path finder: only these edges stay visible, instead of every edge touching a highlighted node
+  const [highlightedEdges, setHighlightedEdges] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState(initialView?.searchQuery ?? '');
+  const [focus, setFocus] = useState<FocusOptions | null>(initialView?.focus ?? null);
   const [showMinimap, setShowMinimap] = useState(true);
   const [showCodePreview, setShowCodePreview] = useState(false);
   const [showDetailsPanel, setShowDetailsPanel] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [viewMode, setViewMode] = useState<'calls' | 'hierarchy'>(initialView?.viewMode ?? 'calls');
+  const [viewport, setCurrentViewport] = useState(initialView?.viewport);
+  const hasHierarchy = Boolean(hierarchy && hierarchy.nodes.length > 0);
+  const isHierarchyView = viewMode === 'hierarchy' && hasHierarchy;
+  // Focus follows calls, so it only applies to the call graph and while its function exists
+  const activeFocus = focus && !isHierarchyView && nodes.some(node => node.id === focus.nodeId) ? focus : null;
   
   // Layout state
-  const [layoutDirection, setLayoutDirection] = useState<'TB' | 'LR' | 'BT' | 'RL' | 'CONNECTED'>('TB');
-  const [layoutType, setLayoutType] = useState<'dagre' | 'force' | 'circular' | 'grid'>('grid');
-  const [spacing, setSpacing] = useState({
+  const [layoutDirection, setLayoutDirection] = useState<'TB' | 'LR' | 'BT' | 'RL' | 'CONNECTED'>(initialView?.layoutDirection ?? 'TB');
+  const [layoutType, setLayoutType] = useState<'dagre' | 'force' | 'circular' | 'radial' | 'grid'>(initialView?.layoutType ?? 'grid');
+  const [spacing, setSpacing] = useState(initialView?.spacing ?? {
     nodeSpacing: 100,
     rankSeparation: 150,
     edgeSeparation: 20,
@@ -129,13 +142,15 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
   const [leftSidebarWidth, setLeftSidebarWidth] = useState(320); // Default width (w-80 = 320px)
   const [isResizingLeftSidebar, setIsResizingLeftSidebar] = useState(false);
   const [isLeftSidebarVisible, setIsLeftSidebarVisible] = useState(true);
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
   
   // Filter state
-  const [filters, setFilters] = useState<FilterOptions>({
+  const [filters, setFilters] = useState<FilterOptions>(initialView?.filters ?? {
     showExported: false,
     showAsync: false,
     showMethods: false,
     hideIsolated: false,
+    hideExternal: false,
     minComplexity: 1,
     maxComplexity: 10,
     // Function type visibility filters (all enabled by default)
@@ -150,25 +165,131 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
     },
   });
 
-  // Initialize nodes and edges
+  // Layouts run in the analysis worker; starting one cancels the one still running.
+  // Resolves to null when the layout was cancelled.
+  const layoutControllerRef = useRef<AbortController | null>(null);
+  const [isLayingOut, setIsLayingOut] = useState(false);
+  const layoutView = useCallback(async (viewNodes: Node[], viewEdges: Edge[], focusNodeId?: string): Promise<Node[] | null> => {
+    layoutControllerRef.current?.abort();
+    const controller = new AbortController();
+    layoutControllerRef.current = controller;
+    setIsLayingOut(true);
+
+    try {
+      return await getAnalysisClient().layout({
+        nodes: viewNodes,
+        edges: viewEdges,
+        viewMode: isHierarchyView ? 'hierarchy' : 'calls',
+        settings: { layoutType, layoutDirection, spacing, focusNodeId },
+      }, { signal: controller.signal });
+    } catch (error) {
+      if (isAbortError(error)) return null;
+      throw error;
+    } finally {
+      if (layoutControllerRef.current === controller) {
+        layoutControllerRef.current = null;
+        setIsLayingOut(false);
+      }
+    }
+  }, [isHierarchyView, layoutType, layoutDirection, spacing]);
+
+  // A layout still running when the visualizer closes is not needed any more
+  useEffect(() => () => layoutControllerRef.current?.abort(), []);
+
+  // Selection, highlights and viewport of the initial view are restored once, on the first layout
+  const pendingViewRef = useRef(initialView);
+  const restoredSelectionRef = useRef<string | undefined>(undefined);
+  const restoredFiltersRef = useRef(Boolean(initialView?.filters));
+
+  // Latest layout and graph, read by the effects below without re-running them
+  const layoutViewRef = useRef(layoutView);
+  const currentGraphRef = useRef({ nodes, edges, selectedNodeId });
+  const centersSelectionRef = useRef(false);
+  useEffect(() => {
+    layoutViewRef.current = layoutView;
+    currentGraphRef.current = { nodes, edges, selectedNodeId };
+    centersSelectionRef.current = layoutType === 'radial' && layoutDirection !== 'CONNECTED' && !isHierarchyView;
+  });
+
+  // Initialize nodes and edges whenever the graph or the view changes; this resets
+  // the selection and highlights (or restores those of the initial view)
   useEffect(() => {
-    if (data.nodes && data.edges) {
+    const viewData = isHierarchyView ? hierarchy! : data;
+    if (!viewData.nodes || !viewData.edges) return;
+
+    const timer = setTimeout(async () => {
+      const pendingView = pendingViewRef.current;
+
       // Apply layout to initial data
-      const layoutedNodes = applyLayoutByType(data.nodes, data.edges, layoutType, layoutDirection, spacing);
+      const layoutedNodes = await layoutViewRef.current(viewData.nodes, viewData.edges, pendingView?.selectedNodeId);
+      if (!layoutedNodes) return;
+      pendingViewRef.current = undefined;
+      const restoredNode = pendingView?.selectedNodeId
+        ? layoutedNodes.find(node => node.id === pendingView.selectedNodeId)
+        : undefined;
       
       setNodes(layoutedNodes);
-      setEdges(data.edges);
+      setEdges(viewData.edges);
+      setSelectedNode(restoredNode || null);
+      setShowDetailsPanel(Boolean(restoredNode));
+      setHighlightedNodes(pendingView?.highlightedNodes || []);
+      setHighlightedEdges(pendingView?.highlightedEdges || []);
+      restoredSelectionRef.current = restoredNode?.id;
       
-      // Fit view after a short delay
+      // Restore the shared viewport, or fit view after a short delay
+      const restoredViewport = pendingView?.viewport;
       setTimeout(() => {
-        fitView({ duration: 800 });
+        if (restoredViewport) {
+          setViewport(restoredViewport);
+        } else {
+          fitView({ duration: 800 });
+        }
       }, 100);
+    }, LAYOUT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [data, hierarchy, isHierarchyView, setNodes, setEdges, fitView, setViewport]);
+
+  // Layout changes reposition the current graph after a quiet period; the selection
+  // and highlights are kept, and a radial layout stays centered on the selection
+  useEffect(() => {
+    if (currentGraphRef.current.nodes.length === 0) return;
+
+    const timer = setTimeout(async () => {
+      const { nodes: currentNodes, edges: currentEdges, selectedNodeId: focusNodeId } = currentGraphRef.current;
+      const layoutedNodes = await layoutViewRef.current(currentNodes, currentEdges, focusNodeId);
+      if (!layoutedNodes) return;
+      setNodes(layoutedNodes);
+      setTimeout(() => fitView({ duration: 800 }), 100);
+    }, LAYOUT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [layoutType, layoutDirection, spacing, setNodes, fitView]);
+
+  // Complexity sliders span the most complex function so no node is hidden by default
+  const maxComplexityLimit = useMemo(() => (data.nodes || []).reduce(
+    (limit, node) => Math.max(limit, Number((node.data as { complexity?: number }).complexity) || 0),
+    10
+  ), [data]);
+
+  useEffect(() => {
+    // Filters restored from a permalink keep their complexity range
+    if (restoredFiltersRef.current) {
+      restoredFiltersRef.current = false;
+      return;
     }
-  }, [data, layoutType, layoutDirection, spacing, setNodes, setEdges, fitView]);
+    setFilters(prev => ({
+      ...prev,
+      minComplexity: Math.min(prev.minComplexity, maxComplexityLimit),
+      maxComplexity: maxComplexityLimit,
+    }));
+  }, [maxComplexityLimit]);
 
   // Apply filters
   const filteredData = useMemo(() => {
-    let filteredNodes = nodes;
+    // External modules are dependencies rather than functions: function filters skip them
+    const moduleNodes = filters.hideExternal ? [] : nodes.filter(node => node.type === 'module');
+    // Class and file groups only frame their members, so they are not filtered themselves
+    const groupNodes = nodes.filter(isGroupNode);
+    let filteredNodes = nodes.filter(node => node.type !== 'module' && !isGroupNode(node));
     let filteredEdges = edges;
 
     // Apply search filter
@@ -179,6 +300,15 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
       );
     }
 
+    // Function filters do not apply to class and interface nodes
+    if (isHierarchyView) {
+      const nodeIds = new Set(filteredNodes.map(node => node.id));
+      return {
+        nodes: filteredNodes,
+        edges: filteredEdges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target)),
+      };
+    }
+
     // Apply type filters
     if (filters.showExported) {
       filteredNodes = filteredNodes.filter(node => (node.data as any).isExported);
@@ -232,12 +362,25 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
       return true;
     });
 
-    // Filter edges to only include connections between visible nodes
+    // Filter edges to only include connections between visible nodes;
+    // a module stays visible while one of its callers does
+    const functionIds = new Set(filteredNodes.map(node => node.id));
+    const calledModuleIds = new Set(filteredEdges
+      .filter(edge => functionIds.has(edge.source))
+      .map(edge => edge.target));
+    filteredNodes = [...filteredNodes, ...moduleNodes.filter(node => calledModuleIds.has(node.id))];
     const nodeIds = new Set(filteredNodes.map(node => node.id));
     filteredEdges = filteredEdges.filter(edge =>
       nodeIds.has(edge.source) && nodeIds.has(edge.target)
     );
 
+    // Focus mode keeps only the callers and/or callees reachable from the focused function
+    if (activeFocus) {
+      const neighborhood = findCallNeighborhood(filteredEdges, activeFocus.nodeId, activeFocus.direction, activeFocus.depth);
+      filteredNodes = filteredNodes.filter(node => neighborhood.has(node.id));
+      filteredEdges = filteredEdges.filter(edge => neighborhood.has(edge.source) && neighborhood.has(edge.target));
+    }
+
     // Hide isolated nodes if requested
     if (filters.hideIsolated) {
       const connectedNodeIds = new Set([
@@ -247,35 +390,62 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
       filteredNodes = filteredNodes.filter(node => connectedNodeIds.has(node.id));
     }
 
+    // A group stays visible while one of its members does; parents must precede their members
+    const visibleGroupIds = new Set<string>();
+    const groupById = new Map(groupNodes.map(node => [node.id, node]));
+    filteredNodes.forEach(node => {
+      for (let parentId = node.parentId; parentId; parentId = groupById.get(parentId)?.parentId) {
+        visibleGroupIds.add(parentId);
+      }
+    });
+    filteredNodes = [...groupNodes.filter(node => visibleGroupIds.has(node.id)), ...filteredNodes];
+
     return { nodes: filteredNodes, edges: filteredEdges };
-  }, [nodes, edges, searchQuery, filters]);
+  }, [nodes, edges, searchQuery, filters, isHierarchyView, activeFocus]);
+
+  // Statistics describe the analyzed functions, so external modules are left out
+  const callGraph = useMemo(() => withoutExternalModules({ nodes: flattenGroups(nodes), edges }), [nodes, edges]);
 
-  // Apply highlighting
+  const handleToggleGroup = useCallback((groupId: string) => {
+    setCollapsedGroups(prev => prev.includes(groupId)
+      ? prev.filter(id => id !== groupId)
+      : [...prev, groupId]);
+  }, []);
+
+  // Collapse groups, then apply highlighting
   const displayData = useMemo(() => {
     const highlightedSet = new Set(highlightedNodes);
+    const highlightedEdgeSet = new Set(highlightedEdges);
+    const collapsed = collapseGroups(filteredData.nodes, filteredData.edges, new Set(collapsedGroups));
     
-    const highlightedNodesData = filteredData.nodes.map(node => ({
-      ...node,
-      style: {
-        ...node.style,
-        opacity: highlightedNodes.length > 0 ? (highlightedSet.has(node.id) ? 1 : 0.3) : 1,
-      },
-    }));
-
-    const highlightedEdgesData = filteredData.edges.map(edge => ({
+    const highlightedNodesData = collapsed.nodes.map(node => (isGroupNode(node)
+      ? { ...node, data: { ...node.data, onToggleCollapse: handleToggleGroup } }
+      : {
+        ...node,
+        style: {
+          ...node.style,
+          opacity: highlightedNodes.length > 0 ? (highlightedSet.has(node.id) ? 1 : 0.3) : 1,
+        },
+      }));
+
+    const highlightedEdgesData = collapsed.edges.map(edge => ({
       ...edge,
       style: {
         ...edge.style,
-        opacity: highlightedNodes.length > 0 ? 
+        opacity: highlightedEdges.length > 0
+          ? (highlightedEdgeSet.has(edge.id) ? 1 : 0.1)
+          : highlightedNodes.length > 0 ? 
           (highlightedSet.has(edge.source) || highlightedSet.has(edge.target) ? 1 : 0.2) : 1,
       },
     }));
 
     return { nodes: highlightedNodesData, edges: highlightedEdgesData };
-  }, [filteredData, highlightedNodes]);
+  }, [filteredData, highlightedNodes, highlightedEdges, collapsedGroups, handleToggleGroup]);
 
   // Event handlers
   const handleNodeClick = useCallback((event: React.MouseEvent, node: Node) => {
+    // Groups have no details of their own; their header toggles them instead
+    if (isGroupNode(node)) return;
     setSelectedNode(node);
     setShowDetailsPanel(true);
     // Automatically switch to code tab if the node has source code available
@@ -286,8 +456,22 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
     setSelectedNode(null);
     setShowDetailsPanel(false);
     setHighlightedNodes([]);
+    setHighlightedEdges([]);
+  }, []);
+
+  // Highlights from the stats panel and the details panel dim nodes only
+  const handleHighlightNodes = useCallback((nodeIds: string[]) => {
+    setHighlightedNodes(nodeIds);
+    setHighlightedEdges([]);
   }, []);
 
+  const handleHighlightPath = useCallback((nodeIds: string[], edgeIds: string[]) => {
+    setHighlightedNodes(nodeIds);
+    setHighlightedEdges(edgeIds);
+  }, []);
+
+  const handleClearHighlight = useCallback(() => handleHighlightNodes([]), [handleHighlightNodes]);
+
   const handleHighlightConnections = useCallback((nodeId: string) => {
     const connectedNodes = new Set([nodeId]);
     
@@ -297,17 +481,30 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
       if (edge.target === nodeId) connectedNodes.add(edge.source);
     });
     
-    setHighlightedNodes(Array.from(connectedNodes));
-  }, [edges]);
+    handleHighlightNodes(Array.from(connectedNodes));
+  }, [edges, handleHighlightNodes]);
+
+  // Focus changes the visible subgraph, so the view is refitted to it
+  const handleFocusChange = useCallback((nextFocus: FocusOptions | null) => {
+    setFocus(nextFocus);
+    setTimeout(() => fitView({ duration: 800, padding: 0.2 }), 100);
+  }, [fitView]);
 
   const handleNavigateToNode = useCallback((nodeId: string) => {
     const node = nodes.find(n => n.id === nodeId);
     if (node) {
       setSelectedNode(node);
-      setViewport({ x: -node.position.x + 400, y: -node.position.y + 300, zoom: 1 });
+      const position = getAbsolutePosition(node, nodes);
+      setViewport({ x: -position.x + 400, y: -position.y + 300, zoom: 1 });
     }
   }, [nodes, setViewport]);
 
+  // Exports link into the call graph: select the node, open its details and center it
+  const handleSelectExport = useCallback((nodeId: string) => {
+    handleNavigateToNode(nodeId);
+    setShowDetailsPanel(true);
+  }, [handleNavigateToNode]);
+
   const handleZoomIn = useCallback(() => {
     const viewport = getViewport();
     setViewport({ ...viewport, zoom: Math.min(viewport.zoom * 1.2, 2) });
@@ -345,26 +542,79 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
     }
   }, [fitView, displayData.nodes]);
 
-  const handleResetLayout = useCallback(() => {
+  const handleApplyLayout = useCallback(async () => {
+    const layoutedNodes = await layoutView(nodes, edges, selectedNodeId);
+    if (!layoutedNodes) return;
+    setNodes(layoutedNodes);
+    setTimeout(() => fitView({ duration: 800 }), 100);
+  }, [nodes, edges, layoutView, selectedNodeId, setNodes, fitView]);
+
+  const handleResetLayout = useCallback(async () => {
     if (autoLayout) {
-      const layoutedNodes = applyLayoutByType(nodes, edges, layoutType, layoutDirection, spacing);
-      setNodes(layoutedNodes);
-      setTimeout(() => fitView({ duration: 800 }), 100);
+      await handleApplyLayout();
     }
-  }, [nodes, edges, layoutType, layoutDirection, spacing, autoLayout, setNodes, fitView]);
+  }, [autoLayout, handleApplyLayout]);
 
-  const handleApplyLayout = useCallback(() => {
-    const layoutedNodes = applyLayoutByType(nodes, edges, layoutType, layoutDirection, spacing);
-    setNodes(layoutedNodes);
-    setTimeout(() => fitView({ duration: 800 }), 100);
-  }, [nodes, edges, layoutType, layoutDirection, spacing, setNodes, fitView]);
+  // The radial layout follows the selection: the clicked function moves to the center.
+  // Layout changes are re-centered by the relayout above, so only a new selection runs this.
+  useEffect(() => {
+    // A restored selection was already laid out at the center of the restored viewport
+    if (selectedNodeId && restoredSelectionRef.current === selectedNodeId) {
+      restoredSelectionRef.current = undefined;
+      return;
+    }
+    if (!centersSelectionRef.current || !selectedNodeId) return;
+
+    // A selection changed again before the layout finished no longer applies it
+    let isCurrent = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const { nodes: currentNodes, edges: currentEdges } = currentGraphRef.current;
+    void layoutViewRef.current(currentNodes, currentEdges, selectedNodeId).then(layoutedNodes => {
+      if (!layoutedNodes || !isCurrent) return;
+      setNodes(layoutedNodes);
+      timer = setTimeout(() => fitView({ duration: 800 }), 100);
+    });
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [selectedNodeId, setNodes, fitView]);
+
+  // Report the view so the page can keep the permalink in the address bar current
+  useEffect(() => {
+    onViewStateChange?.({
+      layoutType,
+      layoutDirection,
+      spacing,
+      filters,
+      searchQuery,
+      viewMode,
+      selectedNodeId,
+      highlightedNodes,
+      highlightedEdges,
+      focus: activeFocus ?? undefined,
+      viewport,
+    });
+  }, [onViewStateChange, layoutType, layoutDirection, spacing, filters, searchQuery, viewMode, selectedNodeId, highlightedNodes, highlightedEdges, activeFocus, viewport]);
+
+  // The page keeps the address bar in sync with the view, so the current URL is the permalink
+  const handleCopyLink = useCallback(async () => {
+    await navigator.clipboard.writeText(window.location.href);
+  }, []);
 
-  const handleExportImage = useCallback(async (format: 'png' | 'svg') => {
+  const handleExport = useCallback(async (format: 'png' | 'svg' | DiagramFormat) => {
     if (!reactFlowWrapper.current) return;
     
     setIsExporting(true);
     try {
-      if (format === 'png') {
+      if (isDiagramFormat(format)) {
+        const { extension, mimeType } = DIAGRAM_FORMATS[format];
+        const diagram = exportGraphAsDiagram(filteredData, format, {
+          title: metadata?.fileName,
+          direction: layoutDirection === 'CONNECTED' ? 'TB' : layoutDirection,
+        });
+        downloadFile(diagram, `function-graph-${Date.now()}.${extension}`, mimeType);
+      } else if (format === 'png') {
         const canvas = await html2canvas(reactFlowWrapper.current, {
           backgroundColor: '#ffffff',
           scale: 2,
@@ -375,14 +625,17 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
         link.download = `function-graph-${Date.now()}.png`;
         link.href = canvas.toDataURL();
         link.click();
+      } else {
+        // Vector export is rendered from the graph data, independent of the viewport
+        const svg = exportGraphToSVG(filteredData.nodes, filteredData.edges, { title: metadata?.fileName });
+        downloadFile(svg, `function-graph-${Date.now()}.svg`, 'image/svg+xml');
       }
-      // SVG export would need additional implementation
     } catch (error) {
       console.error('Export failed:', error);
     } finally {
       setIsExporting(false);
     }
-  }, []);
+  }, [filteredData, metadata?.fileName, layoutDirection]);
 
   // Left sidebar resize functionality
   const handleLeftSidebarMouseDown = useCallback((e: React.MouseEvent) => {
@@ -433,7 +686,7 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
         onZoomOut={handleZoomOut}
         onFitView={handleFitView}
         onResetLayout={handleResetLayout}
-        onExportImage={handleExportImage}
+        onExport={handleExport}
         onToggleMinimap={() => setShowMinimap(!showMinimap)}
         onToggleCodePreview={() => setShowCodePreview(!showCodePreview)}
         onToggleLeftSidebar={toggleLeftSidebar}
@@ -441,11 +694,16 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
         onFilterChange={setFilters}
         onSearchChange={setSearchQuery}
         onBackToAnalysis={onBackToAnalysis}
+        onCopyLink={onViewStateChange ? handleCopyLink : undefined}
+        onViewModeChange={hasHierarchy ? setViewMode : undefined}
+        viewMode={isHierarchyView ? 'hierarchy' : 'calls'}
         showMinimap={showMinimap}
         showCodePreview={showCodePreview}
         isLeftSidebarVisible={isLeftSidebarVisible}
         layoutDirection={layoutDirection}
         filters={filters}
+        searchQuery={searchQuery}
+        maxComplexityLimit={maxComplexityLimit}
         isExporting={isExporting}
       />
 
@@ -471,12 +729,31 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
           <div className="p-4 space-y-6">
             {/* Stats Panel */}
             <StatsPanel
-              nodes={nodes}
-              edges={edges}
+              nodes={callGraph.nodes}
+              edges={callGraph.edges}
               metadata={metadata}
-              onHighlightNodes={setHighlightedNodes}
+              onHighlightNodes={handleHighlightNodes}
+              onHighlightCycle={handleHighlightPath}
+            />
+
+            {/* Path Finder */}
+            <PathFinderPanel
+              nodes={filteredData.nodes}
+              edges={filteredData.edges}
+              selectedNodeId={selectedNodeId}
+              onHighlightPath={handleHighlightPath}
+              onClearHighlight={handleClearHighlight}
             />
             
+            {/* Imports & Exports */}
+            {metadata?.module && !isHierarchyView && (
+              <ImportsExportsPanel
+                module={metadata.module}
+                nodes={nodes}
+                onSelectNode={handleSelectExport}
+              />
+            )}
+
             {/* Layout Controls */}
             <LayoutControls
               layoutType={layoutType}
@@ -503,6 +780,7 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
             onEdgesChange={onEdgesChange}
             onNodeClick={handleNodeClick}
             onPaneClick={handlePaneClick}
+            onMoveEnd={(_, movedViewport) => setCurrentViewport(movedViewport)}
             nodeTypes={nodeTypes}
             defaultEdgeOptions={defaultEdgeOptions}
             connectionLineType={ConnectionLineType.SmoothStep}
@@ -535,6 +813,10 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
                     // Color-code nodes by type for better navigation
                     const data = node.data as any;
                     if (data.isHeader) return 'transparent'; // Hide section headers in minimap
+                    if (data.diffStatus && data.diffStatus !== 'unchanged') return DIFF_COLORS[data.diffStatus as keyof typeof DIFF_COLORS];
+                    if (node.type === 'class') return data.kind === 'interface' ? '#0d9488' : '#2563eb';
+                    if (node.type === 'module') return '#d1d5db'; // Light gray for external modules
+                    if (isGroupNode(node)) return '#f3f4f6'; // Faint frame for class and file groups
                     if (data.isAsync) return '#8b5cf6'; // Purple for async
                     if (data.isExported) return '#10b981'; // Green for exported
                     if (data.category === 'method') return '#3b82f6'; // Blue for methods
@@ -601,6 +883,54 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
             )}
           </ReactFlow>
 
+          <div className="absolute top-4 left-4 z-10 space-y-2">
+            {/* Graph diff legend */}
+            {metadata?.diff && (
+              <div className="flex items-center space-x-3 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-xs text-gray-700 dark:text-gray-300">
+                {([
+                  ['added', `${metadata.diff.functions.added} added`],
+                  ['removed', `${metadata.diff.functions.removed} removed`],
+                  ['changed', `${metadata.diff.functions.changed} changed`],
+                ] as const).map(([status, text]) => (
+                  <span key={status} className="flex items-center space-x-1">
+                    <span className="w-3 h-3 rounded" style={{ backgroundColor: DIFF_COLORS[status] }}></span>
+                    <span>{text}</span>
+                  </span>
+                ))}
+                <span className="text-gray-500 dark:text-gray-400">
+                  Calls +{metadata.diff.calls.added} / -{metadata.diff.calls.removed}
+                </span>
+              </div>
+            )}
+
+            {/* Layout progress, while the worker positions the nodes */}
+            {isLayingOut && (
+              <div className="flex items-center space-x-2 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-sm text-gray-700 dark:text-gray-300" role="status">
+                <div className="animate-spin h-4 w-4 border-2 border-blue-500 border-t-transparent rounded-full"></div>
+                <span>Laying out graph...</span>
+              </div>
+            )}
+
+            {/* Focus mode indicator */}
+            {activeFocus && (
+              <div className="flex items-center space-x-2 px-3 py-2 bg-indigo-50 dark:bg-indigo-900 border border-indigo-200 dark:border-indigo-700 rounded-lg shadow-lg text-sm text-indigo-800 dark:text-indigo-200">
+                <Crosshair className="w-4 h-4" />
+                <span>
+                  {activeFocus.direction === 'upstream' ? 'Callers' : activeFocus.direction === 'downstream' ? 'Callees' : 'Callers and callees'} of{' '}
+                  <strong>{String((nodes.find(node => node.id === activeFocus.nodeId)?.data as { label?: string } | undefined)?.label ?? activeFocus.nodeId)}</strong>
+                  {' '}· {activeFocus.depth > 0 ? `depth ${activeFocus.depth}` : 'all levels'} · {filteredData.nodes.filter(node => !isGroupNode(node)).length} functions
+                </span>
+                <button
+                  onClick={() => handleFocusChange(null)}
+                  className="p-1 hover:bg-indigo-100 dark:hover:bg-indigo-800 rounded transition-colors"
+                  title="Exit focus mode"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+
           {/* Loading overlay */}
           {isExporting && (
             <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -620,6 +950,8 @@ const FlowVisualizerContent: React.FC<FlowVisualizerProps> = ({ data, metadata,
             selectedNode={selectedNode}
             onClose={() => setShowDetailsPanel(false)}
             onHighlightConnections={handleHighlightConnections}
+            focus={activeFocus}
+            onFocusChange={isHierarchyView ? undefined : handleFocusChange}
             onNavigateToNode={handleNavigateToNode}
             allNodes={nodes}
             allEdges={edges}
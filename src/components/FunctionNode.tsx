@@ -13,7 +13,9 @@ import {
   Clipboard,
   X
 } from 'lucide-react';
-import type { FunctionParameter } from '../types';
+import type { ComplexityMetrics, FunctionParameter, ParseError } from '../types';
+import { DIFF_COLORS } from '../lib/graphDiff';
+import type { FunctionChange } from '../lib/graphDiff';
 
 interface FunctionNodeData extends Record<string, unknown> {
   label: string;
@@ -23,6 +25,16 @@ interface FunctionNodeData extends Record<string, unknown> {
   isExported?: boolean;
   isDefaultExport?: boolean;
   complexity?: number;
+  isComplex?: boolean;
+  metrics?: ComplexityMetrics;
+  /** Set when the function calls itself ('recursive') or is part of a call cycle ('mutual') */
+  recursion?: 'recursive' | 'mutual';
+  /** Syntax errors the parser recovered from inside the function */
+  diagnostics?: ParseError[];
+  /** Set in graph diffs: how the function differs between the compared versions */
+  diffStatus?: 'added' | 'removed' | 'changed' | 'unchanged';
+  /** What changed, for 'changed' functions */
+  diffChanges?: FunctionChange[];
   category?: 'function' | 'method' | 'arrow' | 'async';
   location?: {
     startLine: number;
@@ -30,6 +42,7 @@ interface FunctionNodeData extends Record<string, unknown> {
     startColumn?: number;
     endColumn?: number;
   };
+  filePath?: string;
   codePreview?: string;
   documentation?: string;
   calls?: string[];
@@ -127,8 +140,15 @@ const FunctionNode: React.FC<FunctionNodeProps> = ({
     isExported = false,
     isDefaultExport = false,
     complexity = 1,
+    isComplex = false,
+    metrics,
+    recursion,
+    diagnostics = [],
+    diffStatus,
+    diffChanges = [],
     category = 'function',
     location,
+    filePath,
     codePreview,
     documentation,
     calls = [],
@@ -206,7 +226,10 @@ const FunctionNode: React.FC<FunctionNodeProps> = ({
     let badgeWidth = 0;
     if (isAsync) badgeWidth += 120; // Extra width for async functions
     if (isExported) badgeWidth += 100;
-    if (complexity && complexity > 3) badgeWidth += 100;
+    if (isComplex) badgeWidth += 100;
+    if (recursion) badgeWidth += 100;
+    if (diagnostics.length > 0) badgeWidth += 80;
+    if (diffStatus && diffStatus !== 'unchanged') badgeWidth += 100;
     
     // Extra width specifically for async functions to accommodate longer names
     const asyncExtraWidth = isAsync ? 80 : 0;
@@ -236,7 +259,12 @@ const FunctionNode: React.FC<FunctionNodeProps> = ({
         minHeight: `${nodeHeight}px`,
         maxWidth: `${nodeWidth}px`,
         maxHeight: `${nodeHeight}px`,
-        boxSizing: 'border-box'
+        boxSizing: 'border-box',
+        // Diff status rings the whole node so it stays visible when zoomed out
+        ...(diffStatus && diffStatus !== 'unchanged' && {
+          boxShadow: `0 0 0 4px ${DIFF_COLORS[diffStatus]}`,
+          opacity: diffStatus === 'removed' ? 0.75 : undefined,
+        }),
       }}
     >
       {/* Top Handle - Functions that call this one */}
@@ -281,11 +309,44 @@ const FunctionNode: React.FC<FunctionNodeProps> = ({
               {isDefaultExport ? 'default' : 'export'}
             </span>
           )}
-          {complexity && complexity > 3 && (
-            <span className="px-2 py-1 text-xs bg-orange-600 text-white rounded">
+          {isComplex && (
+            <span
+              className="px-2 py-1 text-xs bg-orange-600 text-white rounded"
+              title={metrics
+                ? `Cyclomatic ${metrics.cyclomatic}, cognitive ${metrics.cognitive}, nesting ${metrics.maxNesting}`
+                : `Complexity ${complexity}`}
+            >
               complex
             </span>
           )}
+          {recursion && (
+            <span
+              className="px-2 py-1 text-xs bg-rose-600 text-white rounded"
+              title={recursion === 'mutual' ? 'Part of a call cycle with other functions' : 'Calls itself'}
+            >
+              {recursion === 'mutual' ? 'cycle' : 'recursive'}
+            </span>
+          )}
+          {diagnostics.length > 0 && (
+            <span
+              className="px-2 py-1 text-xs bg-amber-500 text-white rounded"
+              title={diagnostics
+                .map(diagnostic => `${diagnostic.line !== undefined ? `Line ${diagnostic.line}: ` : ''}${diagnostic.message}`)
+                .join('\n')}
+              aria-label={`${diagnostics.length} syntax error${diagnostics.length === 1 ? '' : 's'}`}
+            >
+              ⚠ {diagnostics.length}
+            </span>
+          )}
+          {diffStatus && diffStatus !== 'unchanged' && (
+            <span
+              className="px-2 py-1 text-xs text-white rounded"
+              style={{ backgroundColor: DIFF_COLORS[diffStatus] }}
+              title={diffStatus === 'changed' ? `Changed: ${diffChanges.join(', ')}` : `${diffStatus === 'added' ? 'Added' : 'Removed'} in the compared version`}
+            >
+              {diffStatus}
+            </span>
+          )}
           
           {/* Expand/Collapse button */}
           <button
@@ -384,6 +445,9 @@ const FunctionNode: React.FC<FunctionNodeProps> = ({
           {/* Location Info */}
           {location && (
             <div className="text-xs text-gray-600 dark:text-gray-400">
+              {filePath && (
+                <div className="font-mono truncate" title={filePath}>{filePath}</div>
+              )}
               Lines: {location.startLine}-{location.endLine}
             </div>
           )}
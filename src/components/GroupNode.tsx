@@ -0,0 +1,77 @@
+'use client';
+
+import React, { memo } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { Box, FileCode, ChevronDown, ChevronRight } from 'lucide-react';
+import type { GroupNodeData } from '../lib/nodeGroups';
+
+interface GroupNodeProps extends NodeProps {
+  data: GroupNodeData & {
+    /** Collapses or expands the group */
+    onToggleCollapse?: (groupId: string) => void;
+  };
+}
+
+/**
+ * Container for the methods of a class or the functions of a file. Expanded
+ * it frames its members; collapsed it stands in for them and receives their edges.
+ */
+const GroupNode: React.FC<GroupNodeProps> = ({ id, data, selected = false }) => {
+  const { label, kind, count, collapsed = false, onToggleCollapse } = data;
+
+  const colors = kind === 'class'
+    ? 'bg-purple-50/60 dark:bg-purple-950/40 border-purple-300 dark:border-purple-700 text-purple-900 dark:text-purple-100'
+    : 'bg-gray-50/60 dark:bg-gray-900/40 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200';
+
+  return (
+    <div
+      className={`
+        w-full h-full rounded-xl border-2 border-dashed ${colors}
+        ${collapsed ? 'shadow-md' : ''}
+        ${selected ? 'ring-2 ring-blue-500 ring-offset-2' : ''}
+      `}
+    >
+      {/* Edges of collapsed members end here */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        className="!w-3 !h-3 !bg-gray-400 !border-2 !border-white"
+        style={{ visibility: collapsed ? 'visible' : 'hidden' }}
+      />
+
+      {/* Header */}
+      <div className="px-4 py-3 flex items-center justify-between space-x-2">
+        <div className="flex items-center space-x-2 min-w-0">
+          {kind === 'class' ? <Box className="w-4 h-4 flex-shrink-0" /> : <FileCode className="w-4 h-4 flex-shrink-0" />}
+          <span className="font-semibold text-sm font-mono truncate">{label}</span>
+          <span className="text-xs opacity-70 flex-shrink-0">
+            {count} function{count === 1 ? '' : 's'}
+          </span>
+        </div>
+        {onToggleCollapse && (
+          <button
+            onClick={(event) => {
+              // Collapsing should not select the group
+              event.stopPropagation();
+              onToggleCollapse(id);
+            }}
+            className="nodrag p-1 rounded bg-white/70 dark:bg-black/30 hover:bg-white dark:hover:bg-black/50"
+            title={collapsed ? 'Expand group' : 'Collapse group'}
+          >
+            {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+        )}
+      </div>
+
+      {/* Edges from collapsed members start here */}
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        className="!w-3 !h-3 !bg-gray-400 !border-2 !border-white"
+        style={{ visibility: collapsed ? 'visible' : 'hidden' }}
+      />
+    </div>
+  );
+};
+
+export default memo(GroupNode);
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import type { Node } from '@xyflow/react';
+import { ArrowRightLeft, ChevronDown, ChevronRight } from 'lucide-react';
+import { findDeclarationNode } from '../lib/graphBuilder';
+import type { ExportKind, ModuleSummary } from '../types';
+
+interface ImportsExportsPanelProps {
+  /** Typed imports, exports and declarations of the analyzed code */
+  module: ModuleSummary;
+  /** Function nodes exported symbols are linked to */
+  nodes: Node[];
+  /** Selects and centers the node of a clicked export */
+  onSelectNode: (nodeId: string) => void;
+}
+
+const KIND_STYLES: Record<ExportKind, string> = {
+  function: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  class: 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300',
+  type: 'bg-teal-100 text-teal-700 dark:bg-teal-900 dark:text-teal-300',
+  const: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  default: 'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300',
+  're-export': 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300',
+};
+
+/**
+ * Lists what the analyzed code imports and exports. Exported functions and
+ * classes link to their node in the graph.
+ */
+const ImportsExportsPanel: React.FC<ImportsExportsPanelProps> = ({ module, nodes, onSelectNode }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  // Re-exports live in another file, so only local declarations are linked
+  const exportEntries = useMemo(() => module.exports.map(entry => ({
+    entry,
+    node: entry.kind !== 're-export' && entry.localName
+      ? findDeclarationNode(nodes, entry.localName, entry.filePath)
+      : undefined,
+  })), [module.exports, nodes]);
+
+  const withFile = (label: string, filePath?: string) => filePath ? `${label} (${filePath})` : label;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg">
+
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-teal-100 dark:bg-teal-900 rounded-lg">
+            <ArrowRightLeft className="w-5 h-5 text-teal-600 dark:text-teal-400" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">Imports &amp; Exports</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {module.imports.length} imports · {module.exports.length} exports · {module.declarations.length} declarations
+            </p>
+          </div>
+        </div>
+
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+        >
+          {isExpanded ? (
+            <ChevronDown className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          )}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="p-4 space-y-4">
+          {/* Exports */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Exports</h4>
+            {exportEntries.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Nothing is exported.</p>
+            ) : (
+              <ul className="space-y-1 max-h-64 overflow-y-auto">
+                {exportEntries.map(({ entry, node }, index) => (
+                  <li key={`${entry.filePath ?? ''}:${entry.name}:${index}`} className="flex items-center justify-between gap-2 text-xs">
+                    {node ? (
+                      <button
+                        onClick={() => onSelectNode(node.id)}
+                        className="font-mono text-left text-blue-600 dark:text-blue-400 hover:underline truncate"
+                        title="Show in graph"
+                      >
+                        {withFile(entry.name, entry.filePath)}
+                      </button>
+                    ) : (
+                      <span className="font-mono text-gray-700 dark:text-gray-300 truncate">
+                        {withFile(entry.source ? `${entry.name} from '${entry.source}'` : entry.name, entry.filePath)}
+                      </span>
+                    )}
+                    <span className={`px-1.5 py-0.5 rounded ${KIND_STYLES[entry.kind]}`}>{entry.kind}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Imports */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Imports</h4>
+            {module.imports.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Nothing is imported.</p>
+            ) : (
+              <ul className="space-y-2 max-h-64 overflow-y-auto">
+                {module.imports.map((entry, index) => (
+                  <li key={`${entry.filePath ?? ''}:${entry.source}:${index}`} className="text-xs">
+                    <div className="font-mono text-gray-900 dark:text-gray-100 truncate">
+                      {withFile(`'${entry.source}'`, entry.filePath)}
+                      {entry.typeOnly && <span className="ml-2 text-teal-600 dark:text-teal-400">type</span>}
+                    </div>
+                    {entry.specifiers.length > 0 && (
+                      <div className="font-mono text-gray-600 dark:text-gray-400 truncate">
+                        {entry.specifiers.map(spec => {
+                          const name = spec.importedName === spec.localName ? spec.localName : `${spec.importedName} as ${spec.localName}`;
+                          return spec.typeOnly && !entry.typeOnly ? `type ${name}` : name;
+                        }).join(', ')}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportsExportsPanel;
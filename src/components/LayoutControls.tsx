@@ -12,12 +12,13 @@ import {
   GitBranch,
   Circle,
   Zap,
+  Target,
   ChevronDown,
   ChevronRight
 } from 'lucide-react';
 
 interface LayoutControlsProps {
-  layoutType: 'dagre' | 'force' | 'circular' | 'grid';
+  layoutType: 'dagre' | 'force' | 'circular' | 'radial' | 'grid';
   layoutDirection: 'TB' | 'LR' | 'BT' | 'RL' | 'CONNECTED';
   spacing: {
     nodeSpacing: number;
@@ -25,7 +26,7 @@ interface LayoutControlsProps {
     edgeSeparation: number;
   };
   autoLayout: boolean;
-  onLayoutTypeChange: (type: 'dagre' | 'force' | 'circular' | 'grid') => void;
+  onLayoutTypeChange: (type: 'dagre' | 'force' | 'circular' | 'radial' | 'grid') => void;
   onLayoutDirectionChange: (direction: 'TB' | 'LR' | 'BT' | 'RL' | 'CONNECTED') => void;
   onSpacingChange: (spacing: { nodeSpacing: number; rankSeparation: number; edgeSeparation: number }) => void;
   onAutoLayoutToggle: (enabled: boolean) => void;
@@ -69,6 +70,13 @@ const LayoutControls: React.FC<LayoutControlsProps> = ({
       icon: Circle,
       color: 'green'
     },
+    {
+      id: 'radial',
+      label: 'Radial',
+      description: 'Selected function centered, callers and callees on rings',
+      icon: Target,
+      color: 'blue'
+    },
     {
       id: 'grid',
       label: 'Grid',
@@ -0,0 +1,76 @@
+'use client';
+
+import React, { memo, useState } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { Package, FileCode, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ModuleNodeData extends Record<string, unknown> {
+  /** Package name, or the specifier of a relative module */
+  label: string;
+  /** Imported members the analyzed functions call */
+  members?: string[];
+  callCount?: number;
+  isRelative?: boolean;
+}
+
+interface ModuleNodeProps extends NodeProps {
+  data: ModuleNodeData;
+}
+
+/**
+ * External dependency node: an imported package or module that was not
+ * analyzed. Collapsed it shows the call count; expanded it lists the members used.
+ */
+const ModuleNode: React.FC<ModuleNodeProps> = ({ data, selected = false }) => {
+  const { label, members = [], callCount = 0, isRelative = false } = data;
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div
+      className={`
+        bg-gray-50 dark:bg-gray-900 border-2 border-dashed border-gray-400 dark:border-gray-500
+        text-gray-700 dark:text-gray-300 rounded-lg shadow-md hover:shadow-lg transition-shadow
+        ${selected ? 'ring-2 ring-blue-500 ring-offset-2' : ''}
+        min-w-[180px] max-w-[280px]
+      `}
+    >
+      {/* Callers connect from above */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        className="!w-3 !h-3 !bg-gray-400 !border-2 !border-white"
+      />
+
+      {/* Header */}
+      <div className="px-3 py-2 flex items-center justify-between space-x-2">
+        <div className="flex items-center space-x-2 min-w-0">
+          {isRelative ? <FileCode className="w-4 h-4 flex-shrink-0" /> : <Package className="w-4 h-4 flex-shrink-0" />}
+          <span className="font-semibold text-sm font-mono truncate">{label}</span>
+        </div>
+        <button
+          onClick={(event) => {
+            // Toggling the member list should not select the node
+            event.stopPropagation();
+            setIsExpanded(!isExpanded);
+          }}
+          className="nodrag flex items-center space-x-1 px-1.5 py-0.5 text-xs rounded bg-white/70 dark:bg-black/30 hover:bg-white dark:hover:bg-black/50"
+          title={isExpanded ? 'Hide used members' : 'Show used members'}
+        >
+          <span>{callCount} call{callCount === 1 ? '' : 's'}</span>
+          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        </button>
+      </div>
+
+      {/* Members */}
+      {isExpanded && (
+        <div className="px-3 py-2 border-t border-current/20 space-y-0.5 font-mono text-xs">
+          {members.map(member => (
+            <div key={member} className="truncate">{member}()</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(ModuleNode);
@@ -15,24 +15,42 @@ import {
   PhoneCall,
   MapPin,
   Code2,
-  Info
+  Info,
+  Crosshair
 } from 'lucide-react';
 import type { Node } from '@xyflow/react';
+import { parseGitHubDirectoryURL } from '../lib/utils';
+import type { FocusOptions } from '../types';
 
 interface NodeDetailsPanelProps {
   selectedNode: Node | null;
   onClose: () => void;
   onHighlightConnections: (nodeId: string) => void;
+  /** Active focus mode, if any */
+  focus?: FocusOptions | null;
+  /** Enters, updates or (with null) exits focus mode; focus controls are hidden without it */
+  onFocusChange?: (focus: FocusOptions | null) => void;
   onNavigateToNode: (nodeId: string) => void;
   allNodes: Node[];
   allEdges: any[];
   sourceUrl?: string;
 }
 
+const FOCUS_DIRECTIONS: { id: FocusOptions['direction']; label: string }[] = [
+  { id: 'upstream', label: 'Callers' },
+  { id: 'both', label: 'Both' },
+  { id: 'downstream', label: 'Callees' },
+];
+
+// 0 shows every level
+const FOCUS_DEPTHS = [1, 2, 3, 5, 0];
+
 const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
   selectedNode,
   onClose,
   onHighlightConnections,
+  focus,
+  onFocusChange,
   onNavigateToNode,
   allNodes,
   allEdges,
@@ -42,6 +60,8 @@ const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
   const [codeExpanded, setCodeExpanded] = useState(false);
   const [panelWidth, setPanelWidth] = useState(384); // Default width (w-96 = 384px)
   const [isResizing, setIsResizing] = useState(false);
+  const [focusDirection, setFocusDirection] = useState<FocusOptions['direction']>('both');
+  const [focusDepth, setFocusDepth] = useState(2);
 
   // Automatically switch to code tab if the selected node has source code
   useEffect(() => {
@@ -99,6 +119,13 @@ const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
       ? `#L${startLine}`
       : `#L${startLine}-L${endLine}`;
     
+    // Files from a repository or directory analysis link to their own blob view
+    const filePath = (selectedNode.data as { filePath?: string }).filePath;
+    const directory = filePath ? parseGitHubDirectoryURL(sourceUrl) : null;
+    if (directory) {
+      return `https://github.com/${directory.owner}/${directory.repo}/blob/${directory.ref || 'HEAD'}/${filePath}${lineFragment}`;
+    }
+
     // Handle different GitHub URL formats
     if (sourceUrl.includes('github.com') || sourceUrl.includes('githubusercontent.com')) {
       // Raw GitHub URLs from githubusercontent.com: convert to blob view
@@ -278,7 +305,7 @@ const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
                     {data.isDefaultExport ? 'default export' : 'exported'}
                   </span>
                 )}
-                {data.complexity > 3 && (
+                {data.isComplex && (
                   <span className="px-2 py-1 text-xs bg-orange-100 dark:bg-orange-900 text-orange-700 dark:text-orange-300 rounded">
                     complex
                   </span>
@@ -373,6 +400,65 @@ const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
               </div>
             </div>
 
+            {/* Focus Mode */}
+            {onFocusChange && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3">
+                  Focus Mode
+                </h3>
+                <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+                  Show only the functions this one reaches through calls and hide the rest.
+                </p>
+                <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden mb-3">
+                  {FOCUS_DIRECTIONS.map(direction => (
+                    <button
+                      key={direction.id}
+                      onClick={() => setFocusDirection(direction.id)}
+                      className={`flex-1 px-3 py-1.5 text-sm transition-colors ${
+                        focusDirection === direction.id
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {direction.label}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300 mb-3">
+                  <span>Depth</span>
+                  <select
+                    value={focusDepth}
+                    onChange={(e) => setFocusDepth(Number(e.target.value))}
+                    className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  >
+                    {FOCUS_DEPTHS.map(depth => (
+                      <option key={depth} value={depth}>
+                        {depth === 0 ? 'All levels' : `${depth} call${depth === 1 ? '' : 's'} away`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => onFocusChange({ nodeId: selectedNode.id, direction: focusDirection, depth: focusDepth })}
+                    className="flex items-center space-x-2 px-3 py-2 bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-300 rounded-lg hover:bg-indigo-200 dark:hover:bg-indigo-800 transition-colors text-sm"
+                  >
+                    <Crosshair className="w-4 h-4" />
+                    <span>{focus?.nodeId === selectedNode.id ? 'Update Focus' : 'Focus'}</span>
+                  </button>
+                  {focus && (
+                    <button
+                      onClick={() => onFocusChange(null)}
+                      className="flex items-center space-x-2 px-3 py-2 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors text-sm"
+                    >
+                      <X className="w-4 h-4" />
+                      <span>Exit Focus</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Parameters */}
             {data.parameters && data.parameters.length > 0 && (
               <div>
@@ -432,6 +518,12 @@ const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
                   }`}
                   onClick={hasClickableUrl() ? handleOpenInGitHub : undefined}
                 >
+                  {data.filePath && (
+                    <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 mb-1">
+                      <FileText className="w-4 h-4 flex-shrink-0" />
+                      <span className="font-mono break-all">{data.filePath}</span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
                       <MapPin className="w-4 h-4" />
@@ -497,6 +589,29 @@ const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
                 </div>
               </div>
             </div>
+
+            {/* Complexity metrics */}
+            {data.metrics && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3">
+                  Complexity
+                </h3>
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  {[
+                    ['Cyclomatic', data.metrics.cyclomatic],
+                    ['Cognitive', data.metrics.cognitive],
+                    ['Max nesting', data.metrics.maxNesting],
+                    ['Lines of code', data.metrics.linesOfCode],
+                    ['Return points', data.metrics.returnPoints],
+                  ].map(([label, value]) => (
+                    <div key={label} className="flex justify-between">
+                      <dt className="text-gray-600 dark:text-gray-400">{label}</dt>
+                      <dd className="font-mono text-gray-900 dark:text-gray-100">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useState, useMemo, useCallback } from 'react';
+import type { Node, Edge } from '@xyflow/react';
+import { Route, ChevronDown, ChevronRight, ArrowLeftRight, X } from 'lucide-react';
+import { findCallPaths, getPathEdgeIds } from '../lib/callPaths';
+import { isGroupNode } from '../lib/nodeGroups';
+import type { CallPathResult } from '../lib/callPaths';
+
+interface PathFinderPanelProps {
+  /** Nodes that can be picked as the start or end of a path */
+  nodes: Node[];
+  edges: Edge[];
+  /** Currently selected node, offered as the default source */
+  selectedNodeId?: string;
+  /** Highlights the nodes and edges of the shown paths */
+  onHighlightPath: (nodeIds: string[], edgeIds: string[]) => void;
+  onClearHighlight: () => void;
+}
+
+const PATH_LIMITS = [1, 5, 10, 25];
+
+/**
+ * Finds how one function ends up calling another: lists the call paths between
+ * two picked functions, shortest first, and highlights them in the graph.
+ */
+const PathFinderPanel: React.FC<PathFinderPanelProps> = ({
+  nodes,
+  edges,
+  selectedNodeId,
+  onHighlightPath,
+  onClearHighlight,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [sourceId, setSourceId] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [maxPaths, setMaxPaths] = useState(10);
+  const [result, setResult] = useState<CallPathResult | null>(null);
+  const [activePath, setActivePath] = useState<number | null>(null);
+
+  // Section headers and groups are layout decoration, not functions
+  const options = useMemo(() => nodes
+    .filter(node => node.type !== 'sectionHeader' && !isGroupNode(node))
+    .map(node => {
+      const data = node.data as { label?: string; filePath?: string };
+      const label = data.label || node.id;
+      return { id: node.id, label: data.filePath ? `${label} (${data.filePath})` : label };
+    })
+    .sort((a, b) => a.label.localeCompare(b.label)), [nodes]);
+
+  const labels = useMemo(() => new Map(options.map(option => [option.id, option.label])), [options]);
+
+  // Start from the selected function unless a source was picked already
+  const fromId = sourceId || selectedNodeId || '';
+
+  const showPaths = useCallback((paths: string[][]) => {
+    if (paths.length === 0) {
+      onClearHighlight();
+      return;
+    }
+    const nodeIds = Array.from(new Set(paths.flat()));
+    onHighlightPath(nodeIds, getPathEdgeIds(edges, paths));
+  }, [edges, onHighlightPath, onClearHighlight]);
+
+  const handleFind = useCallback(() => {
+    if (!fromId || !targetId) return;
+    const found = findCallPaths(edges, fromId, targetId, { maxPaths });
+    setResult(found);
+    setActivePath(null);
+    showPaths(found.paths);
+  }, [edges, fromId, targetId, maxPaths, showPaths]);
+
+  const handleSelectPath = useCallback((index: number) => {
+    if (!result) return;
+    const next = activePath === index ? null : index;
+    setActivePath(next);
+    showPaths(next === null ? result.paths : [result.paths[next]]);
+  }, [result, activePath, showPaths]);
+
+  const handleSwap = useCallback(() => {
+    setSourceId(targetId);
+    setTargetId(fromId);
+    setResult(null);
+  }, [fromId, targetId]);
+
+  const handleClear = useCallback(() => {
+    setResult(null);
+    setActivePath(null);
+    onClearHighlight();
+  }, [onClearHighlight]);
+
+  const selectClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg">
+
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-amber-100 dark:bg-amber-900 rounded-lg">
+            <Route className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">Find Call Path</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">How one function reaches another</p>
+          </div>
+        </div>
+
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+        >
+          {isExpanded ? (
+            <ChevronDown className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          )}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="p-4 space-y-4">
+          <div className="space-y-2">
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              From
+              <select
+                value={fromId}
+                onChange={(e) => { setSourceId(e.target.value); setResult(null); }}
+                className={`mt-1 ${selectClassName}`}
+              >
+                <option value="">Select a function</option>
+                {options.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <div className="flex justify-center">
+              <button
+                onClick={handleSwap}
+                className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                title="Swap source and target"
+              >
+                <ArrowLeftRight className="w-4 h-4 rotate-90" />
+              </button>
+            </div>
+
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              To
+              <select
+                value={targetId}
+                onChange={(e) => { setTargetId(e.target.value); setResult(null); }}
+                className={`mt-1 ${selectClassName}`}
+              >
+                <option value="">Select a function</option>
+                {options.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+              <span>Show up to</span>
+              <select
+                value={maxPaths}
+                onChange={(e) => setMaxPaths(Number(e.target.value))}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              >
+                {PATH_LIMITS.map(limit => (
+                  <option key={limit} value={limit}>{limit === 1 ? 'shortest path' : `${limit} shortest paths`}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              onClick={handleFind}
+              disabled={!fromId || !targetId || fromId === targetId}
+              className="flex-1 px-3 py-2 text-sm bg-amber-600 hover:bg-amber-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Find Paths
+            </button>
+            {result && (
+              <button
+                onClick={handleClear}
+                className="px-3 py-2 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
+                title="Clear path highlight"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {/* Results */}
+          {result && (
+            result.paths.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {labels.get(fromId)} never calls {labels.get(targetId)} in the visible graph.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {result.paths.length} path{result.paths.length === 1 ? '' : 's'}
+                  {result.truncated && ' (more exist)'} · click a path to show it alone
+                </p>
+                <ol className="space-y-1 max-h-64 overflow-y-auto">
+                  {result.paths.map((path, index) => (
+                    <li key={path.join('>')}>
+                      <button
+                        onClick={() => handleSelectPath(index)}
+                        className={`w-full text-left px-2 py-1.5 rounded text-xs font-mono transition-colors ${
+                          activePath === index
+                            ? 'bg-amber-100 dark:bg-amber-900 text-amber-900 dark:text-amber-100'
+                            : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300'
+                        }`}
+                      >
+                        {path.map(id => labels.get(id) || id).join(' → ')}
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PathFinderPanel;
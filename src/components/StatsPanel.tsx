@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   BarChart3,
   Users,
@@ -14,9 +14,15 @@ import {
   Target,
   GitBranch,
   Award,
-  Clipboard
+  Clipboard,
+  Repeat
 } from 'lucide-react';
 import type { Node, Edge } from '@xyflow/react';
+import { HIGH_CYCLOMATIC_COMPLEXITY, HIGH_COGNITIVE_COMPLEXITY } from '../lib/complexityMetrics';
+import { getCycleEdgeIds } from '../lib/graphAnalysis';
+import type { CallCycle } from '../lib/graphAnalysis';
+import { computeGraphStats, MAX_NESTING_DEPTH } from '../lib/graphStats';
+import type { GraphStats } from '../lib/graphStats';
 
 interface StatsPanelProps {
   nodes: Node[];
@@ -32,119 +38,12 @@ interface StatsPanelProps {
     url?: string;
   };
   onHighlightNodes: (nodeIds: string[]) => void;
+  /** Highlights the functions of a call cycle and the calls between them */
+  onHighlightCycle: (nodeIds: string[], edgeIds: string[]) => void;
 }
 
-// Helper functions for advanced analysis
-const findDuplicateNames = (nodes: Node[]) => {
-  const nameCount: Record<string, Node[]> = {};
-  nodes.forEach(node => {
-    const name = (node.data as any).label || '';
-    const cleanName = name.split('(')[0].trim(); // Remove parameters from name
-    if (!nameCount[cleanName]) nameCount[cleanName] = [];
-    nameCount[cleanName].push(node);
-  });
-  
-  return Object.entries(nameCount)
-    .filter(([, nodesList]) => nodesList.length > 1)
-    .map(([name, nodesList]) => ({ name, count: nodesList.length, nodes: nodesList }));
-};
-
-const findSimilarFunctions = (nodes: Node[]) => {
-  const similarGroups: Array<{ similarity: number; nodes: Node[] }> = [];
-  
-  for (let i = 0; i < nodes.length; i++) {
-    for (let j = i + 1; j < nodes.length; j++) {
-      const node1 = nodes[i];
-      const node2 = nodes[j];
-      
-      const params1 = (node1.data as any).parameters || [];
-      const params2 = (node2.data as any).parameters || [];
-      const name1 = (node1.data as any).label || '';
-      const name2 = (node2.data as any).label || '';
-      
-      // Check parameter similarity
-      const paramSimilarity = calculateParameterSimilarity(params1, params2);
-      const nameSimilarity = calculateNameSimilarity(name1, name2);
-      
-      const overallSimilarity = (paramSimilarity + nameSimilarity) / 2;
-      
-      if (overallSimilarity > 0.7) {
-        similarGroups.push({ similarity: overallSimilarity, nodes: [node1, node2] });
-      }
-    }
-  }
-  
-  return similarGroups;
-};
-
-const calculateParameterSimilarity = (params1: any[], params2: any[]) => {
-  if (params1.length === 0 && params2.length === 0) return 1;
-  if (params1.length === 0 || params2.length === 0) return 0;
-  
-  const maxLength = Math.max(params1.length, params2.length);
-  const minLength = Math.min(params1.length, params2.length);
-  
-  // Basic similarity based on parameter count and types
-  const lengthSimilarity = minLength / maxLength;
-  
-  let typeSimilarity = 0;
-  for (let i = 0; i < minLength; i++) {
-    if (params1[i]?.type === params2[i]?.type) {
-      typeSimilarity += 1;
-    }
-  }
-  typeSimilarity /= minLength;
-  
-  return (lengthSimilarity + typeSimilarity) / 2;
-};
-
-const calculateNameSimilarity = (name1: string, name2: string) => {
-  // Simple string similarity using longest common subsequence
-  const lcs = (s1: string, s2: string): number => {
-    const dp: number[][] = Array(s1.length + 1).fill(null).map(() => Array(s2.length + 1).fill(0));
-    
-    for (let i = 1; i <= s1.length; i++) {
-      for (let j = 1; j <= s2.length; j++) {
-        if (s1[i - 1] === s2[j - 1]) {
-          dp[i][j] = dp[i - 1][j - 1] + 1;
-        } else {
-          dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-        }
-      }
-    }
-    return dp[s1.length][s2.length];
-  };
-  
-  const maxLength = Math.max(name1.length, name2.length);
-  return maxLength > 0 ? lcs(name1, name2) / maxLength : 0;
-};
-
-const calculateEfficiencyScore = (metrics: {
-  totalFunctions: number;
-  isolated: number;
-  complex: number;
-  duplicates: number;
-  longParams: number;
-  deepNested: number;
-  deadCode: number;
-}) => {
-  if (metrics.totalFunctions === 0) return 100;
-  
-  let score = 100;
-  
-  // Deduct points for various issues
-  score -= (metrics.isolated / metrics.totalFunctions) * 20; // Isolated functions
-  score -= (metrics.complex / metrics.totalFunctions) * 15; // Complex functions
-  score -= (metrics.duplicates / metrics.totalFunctions) * 25; // Duplicate names
-  score -= (metrics.longParams / metrics.totalFunctions) * 10; // Long parameter lists
-  score -= (metrics.deepNested / metrics.totalFunctions) * 15; // Deeply nested functions
-  score -= (metrics.deadCode / metrics.totalFunctions) * 30; // Dead code
-  
-  return Math.max(0, Math.round(score));
-};
-
 // Generate Claude Code prompts for fixing issues
-const generateClaudePrompts = (stats: any, nodes: Node[], edges: Edge[]) => {
+const generateClaudePrompts = (stats: GraphStats, nodes: Node[], edges: Edge[]) => {
   const prompts: Array<{ title: string; prompt: string; priority: 'high' | 'medium' | 'low' }> = [];
 
   // Dead code removal with improved detection
@@ -264,7 +163,14 @@ Can you help me refactor these complex functions to improve maintainability?`
     prompts.push({
       title: "Fix Circular Dependencies",
       priority: 'high',
-      prompt: `My codebase has circular dependencies which can cause runtime issues and make testing difficult. Please help me:
+      prompt: `My codebase has circular dependencies which can cause runtime issues and make testing difficult. The functions in each cycle are:
+
+${stats.cycles
+  .filter(cycle => cycle.kind === 'mutual')
+  .map(cycle => `- ${cycle.nodeIds.map(nodeId => (nodes.find(node => node.id === nodeId)?.data as { label?: string } | undefined)?.label || nodeId).join(', ')}`)
+  .join('\n')}
+
+Please help me:
 
 1. Identify all circular dependency chains in the code
 2. Analyze the dependencies to understand the relationships
@@ -326,219 +232,13 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
   nodes,
   edges,
   metadata,
-  onHighlightNodes
+  onHighlightNodes,
+  onHighlightCycle
 }) => {
+  const [activeCycle, setActiveCycle] = useState<string | null>(null);
   
   // Calculate comprehensive statistics
-  const stats = useMemo(() => {
-    const totalFunctions = nodes.length;
-    const totalCalls = edges.length;
-    
-    // Function type breakdown
-    const exported = nodes.filter(node => (node.data as any).isExported).length;
-    const async = nodes.filter(node => (node.data as any).isAsync).length;
-    const methods = nodes.filter(node => (node.data as any).category === 'method').length;
-    const complex = nodes.filter(node => ((node.data as any).complexity || 0) > 3).length;
-    
-    // Connection analysis
-    const connectionCounts = nodes.map(node => {
-      const inbound = edges.filter(edge => edge.target === node.id).length;
-      const outbound = edges.filter(edge => edge.source === node.id).length;
-      return { nodeId: node.id, total: inbound + outbound, inbound, outbound };
-    });
-    
-    const isolated = connectionCounts.filter(c => c.total === 0).length;
-    const mostConnected = connectionCounts.reduce(
-      (max, current) => current.total > max.total ? current : max,
-      { nodeId: '', total: 0, inbound: 0, outbound: 0 }
-    );
-    
-    // Calculate average parameters per function
-    const avgParams = totalFunctions > 0 
-      ? nodes.reduce((sum, node) => sum + ((node.data as any).parameters?.length || 0), 0) / totalFunctions
-      : 0;
-    
-    // Find circular dependencies (simplified detection)
-    const hasCircularDeps = edges.some(edge => 
-      edges.some(otherEdge => 
-        edge.source === otherEdge.target && edge.target === otherEdge.source
-      )
-    );
-    
-    // Calculate call chain depth (simplified BFS)
-    const calculateMaxDepth = () => {
-      if (totalFunctions === 0) return 0;
-      
-      let maxDepth = 0;
-      nodes.forEach(startNode => {
-        const visited = new Set<string>();
-        const queue: Array<{ nodeId: string; depth: number }> = [{ nodeId: startNode.id, depth: 0 }];
-        
-        while (queue.length > 0) {
-          const { nodeId, depth } = queue.shift()!;
-          
-          if (visited.has(nodeId)) continue;
-          visited.add(nodeId);
-          
-          maxDepth = Math.max(maxDepth, depth);
-          
-          // Add connected nodes to queue
-          edges
-            .filter(edge => edge.source === nodeId)
-            .forEach(edge => {
-              if (!visited.has(edge.target)) {
-                queue.push({ nodeId: edge.target, depth: depth + 1 });
-              }
-            });
-        }
-      });
-      
-      return maxDepth;
-    };
-    
-    const maxCallDepth = calculateMaxDepth();
-    
-    // Advanced efficiency analysis
-    const duplicateNames = findDuplicateNames(nodes);
-    const longParameterFunctions = nodes.filter(node => ((node.data as any).parameters?.length || 0) > 5);
-    const deeplyNestedFunctions = nodes.filter(node => {
-      const complexity = (node.data as any).complexity || 0;
-      return complexity > 5;
-    });
-    
-    // Performance analysis
-    const syncInAsyncContext = nodes.filter(node => {
-      const label = (node.data as any).label || '';
-      const isAsync = (node.data as any).isAsync;
-      // Check for potential sync operations in async functions
-      return isAsync && (label.includes('sync') || label.includes('Sync'));
-    });
-    
-    // Memory efficiency analysis
-    const possibleMemoryLeaks = edges.filter(edge => {
-      const sourceNode = nodes.find(n => n.id === edge.source);
-      const targetNode = nodes.find(n => n.id === edge.target);
-      // Look for event listeners that might not be cleaned up
-      const sourceLabel = (sourceNode?.data as any)?.label || '';
-      const targetLabel = (targetNode?.data as any)?.label || '';
-      return sourceLabel.includes('addEventListener') && !targetLabel.includes('removeEventListener');
-    });
-    
-    // Code reuse opportunities
-    const similarFunctions = findSimilarFunctions(nodes);
-    
-    // Improved dead code detection with better heuristics
-    const potentialDeadCode = nodes.filter(node => {
-      const isIsolated = connectionCounts.find(c => c.nodeId === node.id)?.total === 0;
-      const isExported = (node.data as any).isExported;
-      const label = (node.data as any).label || '';
-      const functionName = label.split('(')[0].trim();
-      
-      // Skip if exported
-      if (isExported) return false;
-      
-      // Skip entry points
-      const isEntryPoint = /^(main|index|App|_app|_document)$/i.test(functionName) ||
-                          label.includes('main') || 
-                          label.includes('index') ||
-                          label.includes('App');
-      if (isEntryPoint) return false;
-      
-      // Skip React hooks (they are used by React internally)
-      const isReactHook = /^use[A-Z]/.test(functionName) ||
-                         label.includes('(useCallback)') ||
-                         label.includes('(useEffect)') ||
-                         label.includes('(useMemo)') ||
-                         label.includes('(useState)') ||
-                         label.includes('(useReducer)') ||
-                         label.includes('(useContext)') ||
-                         label.includes('(useRef)');
-      if (isReactHook) return false;
-      
-      // Skip event handlers (commonly passed as props/callbacks)
-      const isEventHandler = /^(on[A-Z]|handle[A-Z])/.test(functionName) ||
-                            functionName.includes('Handler') ||
-                            functionName.includes('Callback') ||
-                            functionName.includes('onClick') ||
-                            functionName.includes('onChange') ||
-                            functionName.includes('onSubmit') ||
-                            functionName.includes('onLoad');
-      if (isEventHandler) return false;
-      
-      // Skip render functions and component helpers
-      const isRenderFunction = /^(render[A-Z]|get[A-Z]|create[A-Z])/.test(functionName) ||
-                              functionName.includes('Component') ||
-                              functionName.includes('Element') ||
-                              label.includes('JSX');
-      if (isRenderFunction) return false;
-      
-      // Skip utility functions commonly used in JSX or as callbacks
-      const isUtilityFunction = /^(format|parse|validate|transform|convert|map|filter|reduce)/.test(functionName.toLowerCase());
-      if (isUtilityFunction) return false;
-      
-      // Skip functions that look like they might be used as callbacks
-      // (functions with common callback patterns)
-      const isLikelyCallback = functionName.length <= 20 && // Short functions often callbacks
-                              (/^[a-z]/.test(functionName) || // camelCase functions
-                               functionName.includes('_') ||  // snake_case functions
-                               /[A-Z]$/.test(functionName));  // functions ending in caps
-      if (isLikelyCallback && functionName.length <= 15) return false;
-      
-      // Skip lifecycle methods and setup functions
-      const isLifecycleOrSetup = /^(init|setup|mount|unmount|destroy|cleanup|dispose)/.test(functionName.toLowerCase()) ||
-                                functionName.includes('componentDidMount') ||
-                                functionName.includes('componentWillUnmount');
-      if (isLifecycleOrSetup) return false;
-      
-      // Skip test functions
-      const isTestFunction = /^(test|describe|it|expect|before|after)/.test(functionName.toLowerCase()) ||
-                            functionName.includes('Test') ||
-                            functionName.includes('Spec');
-      if (isTestFunction) return false;
-      
-      // Skip configuration or constant functions
-      const isConfigFunction = /^(config|constant|default|initial)/.test(functionName.toLowerCase()) ||
-                              functionName.includes('Config') ||
-                              functionName.includes('Constant') ||
-                              functionName.includes('Default');
-      if (isConfigFunction) return false;
-      
-      // Only flag as potential dead code if it's truly isolated AND doesn't match common patterns
-      return isIsolated;
-    });
-    
-    return {
-      totalFunctions,
-      totalCalls,
-      exported,
-      async,
-      methods,
-      complex,
-      isolated,
-      avgParams: Math.round(avgParams * 10) / 10,
-      mostConnected,
-      hasCircularDeps,
-      maxCallDepth,
-      // Efficiency metrics
-      duplicateNames,
-      longParameterFunctions: longParameterFunctions.length,
-      deeplyNestedFunctions: deeplyNestedFunctions.length,
-      syncInAsyncContext: syncInAsyncContext.length,
-      possibleMemoryLeaks: possibleMemoryLeaks.length,
-      similarFunctions: similarFunctions.length,
-      potentialDeadCode: potentialDeadCode.length,
-      // Efficiency score (0-100)
-      efficiencyScore: calculateEfficiencyScore({
-        totalFunctions,
-        isolated,
-        complex,
-        duplicates: duplicateNames.length,
-        longParams: longParameterFunctions.length,
-        deepNested: deeplyNestedFunctions.length,
-        deadCode: potentialDeadCode.length
-      })
-    };
-  }, [nodes, edges]);
+  const stats = useMemo(() => computeGraphStats(nodes, edges), [nodes, edges]);
   
   // Generate Claude Code prompts based on the analysis
   const claudePrompts = useMemo(() => {
@@ -548,6 +248,19 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
   // Helper function to get node by ID
   const getNodeById = (nodeId: string) => nodes.find(node => node.id === nodeId);
   const mostConnectedNode = getNodeById(stats.mostConnected.nodeId);
+  const getLabel = (nodeId: string) => (getNodeById(nodeId)?.data as { label?: string } | undefined)?.label || nodeId;
+
+  // Clicking the highlighted cycle again clears the highlight
+  const handleSelectCycle = (cycle: CallCycle) => {
+    const key = cycle.nodeIds.join('|');
+    if (activeCycle === key) {
+      setActiveCycle(null);
+      onHighlightNodes([]);
+      return;
+    }
+    setActiveCycle(key);
+    onHighlightCycle(cycle.nodeIds, getCycleEdgeIds(edges, cycle));
+  };
   
   // Stat card component
   const StatCard: React.FC<{
@@ -705,6 +418,16 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
           description="Average parameters per function"
         />
         
+        {stats.hasMetrics && (
+          <StatCard
+            title="Avg Complexity"
+            value={stats.avgCyclomatic}
+            icon={BarChart3}
+            color="orange"
+            description={`Cyclomatic per function (cognitive ${stats.avgCognitive})`}
+          />
+        )}
+        
         <StatCard
           title="Max Call Depth"
           value={stats.maxCallDepth}
@@ -718,10 +441,10 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
           value={stats.complex}
           icon={AlertCircle}
           color="orange"
-          description="Functions with high complexity"
+          description={`Cyclomatic > ${HIGH_CYCLOMATIC_COMPLEXITY} or cognitive > ${HIGH_COGNITIVE_COMPLEXITY}`}
           clickable
           onClick={() => {
-            const complexNodes = nodes.filter(node => ((node.data as any).complexity || 0) > 3).map(node => node.id);
+            const complexNodes = nodes.filter(node => (node.data as any).isComplex).map(node => node.id);
             onHighlightNodes(complexNodes);
           }}
         />
@@ -782,7 +505,7 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
             value={stats.deeplyNestedFunctions}
             icon={GitBranch}
             color="red"
-            description="High complexity functions"
+            description={`Control flow nested more than ${MAX_NESTING_DEPTH} levels`}
           />
           
           <StatCard
@@ -835,6 +558,40 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
         </div>
       </div>
 
+      {/* Recursion & Call Cycles */}
+      {stats.cycles.length > 0 && (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1 flex items-center">
+            <Repeat className="w-5 h-5 text-rose-500 mr-2" />
+            Recursion & Call Cycles
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            Click a cycle to highlight it in the graph.
+          </p>
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {stats.cycles.map(cycle => (
+              <li key={cycle.nodeIds.join('|')}>
+                <button
+                  onClick={() => handleSelectCycle(cycle)}
+                  className={`w-full text-left p-2 rounded-lg border text-sm transition-colors ${
+                    activeCycle === cycle.nodeIds.join('|')
+                      ? 'bg-rose-50 dark:bg-rose-900 border-rose-300 dark:border-rose-700'
+                      : 'bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span className="inline-block px-2 py-0.5 mr-2 text-xs bg-rose-600 text-white rounded">
+                    {cycle.kind === 'mutual' ? `${cycle.nodeIds.length} functions` : 'recursive'}
+                  </span>
+                  <span className="font-mono text-xs text-gray-800 dark:text-gray-200">
+                    {cycle.nodeIds.map(getLabel).join(', ')}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Enhanced Issues & Recommendations */}
       {(stats.hasCircularDeps || stats.isolated > 0 || stats.complex > 0 || 
         stats.duplicateNames.length > 0 || stats.potentialDeadCode > 0 || 
@@ -852,7 +609,9 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
                 <div className="flex items-start space-x-2 text-sm text-black dark:text-white">
                   <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
                   <div>
-                    <div className="font-medium">Circular Dependencies Detected</div>
+                    <div className="font-medium">
+                      {stats.cycles.filter(cycle => cycle.kind === 'mutual').length} Circular Call Chains Detected
+                    </div>
                     <div className="text-xs mt-1 text-gray-700 dark:text-gray-300">
                       Critical: This can cause infinite loops and make testing difficult. Consider using dependency injection or refactoring to break cycles.
                     </div>
@@ -5,6 +5,7 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
 import URLInput from './URLInput';
 import { validateURL, fetchCodeFromURL } from '../lib/utils';
 import type { CodeFetchResult } from '../types';
@@ -276,6 +277,13 @@ describe('URLInput Component', () => {
         expect(button).toHaveTextContent(/validating|fetching/i);
       });
     });
+
+    it('should render server-side analysis progress', () => {
+      render(<URLInput progress={{ stage: 'calls', functions: 12 }} />);
+
+      expect(screen.getByRole('status')).toHaveTextContent('Extracting calls between 12 functions...');
+      expect(screen.getByRole('button')).toHaveTextContent('Parsing...');
+    });
   });
 
   describe('Disabled State', () => {
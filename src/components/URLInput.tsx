@@ -7,13 +7,16 @@
 
 import { useState, useCallback } from 'react';
 import { validateURL, fetchCodeFromURL, getFilenameFromURL, isGitHubURL, isGistURL } from '../lib/utils';
-import { AnalysisStatus, CodeFetchResult } from '../types';
+import { ANALYSIS_STAGE_STATUS, describeProgress } from '../lib/analysisStream';
+import { AnalysisProgress, AnalysisStatus, CodeFetchResult } from '../types';
 
 export interface URLInputProps {
   /** Callback fired when analysis should begin */
   onAnalyze?: (result: CodeFetchResult) => void;
   /** Callback fired when analysis status changes */
   onStatusChange?: (status: AnalysisStatus) => void;
+  /** Progress of the server-side analysis started by `onAnalyze` */
+  progress?: AnalysisProgress | null;
   /** Whether the component is disabled */
   disabled?: boolean;
   /** Initial URL value */
@@ -28,6 +31,7 @@ export interface URLInputProps {
 export default function URLInput({ 
   onAnalyze, 
   onStatusChange,
+  progress,
   disabled = false,
   initialUrl = '',
   className = ''
@@ -62,6 +66,12 @@ export default function URLInput({
       return false;
     }
 
+    if (validation.isDirectory) {
+      setValidationMessage('✓ Valid GitHub repository/directory URL - all TypeScript files will be analyzed');
+      setError(null);
+      return true;
+    }
+
     // Provide helpful information about the URL
     let message = '✓ Valid TypeScript file URL';
     if (isGitHubURL(inputUrl)) {
@@ -107,6 +117,13 @@ export default function URLInput({
         return;
       }
 
+      // Repositories and directories are expanded and fetched by the parse API
+      if (validateURL(url).isDirectory) {
+        updateStatus('complete');
+        onAnalyze?.({ success: true, url: url.trim() });
+        return;
+      }
+
       updateStatus('fetching');
       
       // Fetch the code
@@ -144,7 +161,8 @@ export default function URLInput({
    * Gets the appropriate button text based on current status
    */
   const getButtonText = () => {
-    switch (status) {
+    // While the server analyzes the fetched file its progress drives the button
+    switch (progress ? ANALYSIS_STAGE_STATUS[progress.stage] : status) {
       case 'validating':
         return 'Validating...';
       case 'fetching':
@@ -205,6 +223,17 @@ export default function URLInput({
         </div>
       )}
 
+      {/* Analysis Progress */}
+      {progress && !error && (
+        <div 
+          id="url-progress"
+          className="text-sm text-blue-600 flex items-center space-x-2"
+          role="status"
+        >
+          <span>{describeProgress(progress)}</span>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div 
@@ -235,6 +264,7 @@ export default function URLInput({
           <li>GitHub file URLs (automatically converted to raw)</li>
           <li>GitHub Gist URLs</li>
           <li>Direct links to .ts or .tsx files</li>
+          <li>GitHub repository or folder URLs (github.com/owner/repo/tree/branch/path)</li>
         </ul>
         <p className="text-xs text-gray-400 mt-2">
           Maximum file size: 500KB. CORS restrictions may apply to some URLs.
@@ -0,0 +1,14 @@
+/**
+ * Analysis Worker
+ * Web Worker entry point: answers the analysis and layout requests an
+ * AnalysisClient posts to it
+ */
+
+import { handleWorkerRequest } from './analysisWorker';
+import type { WorkerRequest, WorkerResponse } from './analysisWorker';
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  void handleWorkerRequest(event.data, (response: WorkerResponse) => scope.postMessage(response));
+};
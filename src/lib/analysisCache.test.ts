@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for Analysis Cache
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  analyzeWithCache,
+  createAnalysisCache,
+  createFileCacheStore,
+  createMemoryCacheStore,
+  fetchCodeWithCache,
+} from './analysisCache';
+import type { CacheEntry } from './analysisCache';
+import type { ParsedCodeResult } from '../types';
+
+jest.mock('./utils', () => ({
+  fetchCodeFromURL: jest.fn(),
+}));
+
+import { fetchCodeFromURL } from './utils';
+
+const mockFetchCodeFromURL = fetchCodeFromURL as jest.MockedFunction<typeof fetchCodeFromURL>;
+
+const FILE_URL = 'https://raw.githubusercontent.com/acme/app/main/src/api.ts';
+
+const entry = <T>(value: T, size = 10, expiresAt = Date.now() + 60_000): CacheEntry<T> => ({ value, size, expiresAt });
+
+const parsed = (name: string): ParsedCodeResult => ({
+  functions: [{ name, parameters: [], returnType: 'void', location: { startLine: 1, endLine: 1, startColumn: 0, endColumn: 1 } }],
+  calls: [],
+  errors: [],
+});
+
+describe('createMemoryCacheStore', () => {
+  it('should evict the least recently used entries over the limits', async () => {
+    const store = createMemoryCacheStore({ maxEntries: 2, maxSize: 100 });
+    await store.set('a', entry('A'));
+    await store.set('b', entry('B'));
+    await store.get('a');
+    await store.set('c', entry('C'));
+
+    expect(await store.get('b')).toBeUndefined();
+    expect((await store.get('a'))?.value).toBe('A');
+
+    await store.set('big', entry('D', 95));
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('c')).toBeUndefined();
+    expect((await store.get('big'))?.value).toBe('D');
+  });
+
+  it('should drop expired entries and hand out copies', async () => {
+    const store = createMemoryCacheStore();
+    await store.set('old', entry('stale', 10, Date.now() - 1));
+    expect(await store.get('old')).toBeUndefined();
+
+    await store.set('list', entry(['a']));
+    (await store.get<string[]>('list'))!.value.push('b');
+    expect((await store.get('list'))?.value).toEqual(['a']);
+  });
+});
+
+describe('createFileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across store instances', async () => {
+    await createFileCacheStore(directory).set('key', entry({ answer: 42 }));
+
+    expect((await createFileCacheStore(directory).get('key'))?.value).toEqual({ answer: 42 });
+  });
+
+  it('should remove expired entries and prune to the entry limit', async () => {
+    const store = createFileCacheStore(directory, { maxEntries: 2 });
+    await store.set('expired', entry('x', 10, Date.now() - 1));
+    expect(await store.get('expired')).toBeUndefined();
+
+    await store.set('a', entry('A'));
+    await store.set('b', entry('B'));
+    await store.set('c', entry('C'));
+
+    expect(await fs.readdir(directory)).toHaveLength(2);
+  });
+});
+
+describe('fetchCodeWithCache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should reuse a fresh source and revalidate a stale one with its ETag', async () => {
+    const cache = createAnalysisCache({ maxAge: 1000 });
+    mockFetchCodeFromURL.mockResolvedValueOnce({ success: true, content: 'code', url: FILE_URL, size: 4, etag: '"v1"' });
+
+    expect((await fetchCodeWithCache(FILE_URL, cache)).status).toBe('miss');
+    const hit = await fetchCodeWithCache(FILE_URL, cache);
+    expect(hit).toEqual({ result: expect.objectContaining({ success: true, content: 'code' }), status: 'hit' });
+    expect(mockFetchCodeFromURL).toHaveBeenCalledTimes(1);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 5000);
+    mockFetchCodeFromURL.mockResolvedValueOnce({ success: true, notModified: true, url: FILE_URL, etag: '"v1"' });
+
+    const revalidated = await fetchCodeWithCache(FILE_URL, cache);
+    expect(revalidated.status).toBe('revalidated');
+    expect(revalidated.result.content).toBe('code');
+    expect(mockFetchCodeFromURL).toHaveBeenLastCalledWith(FILE_URL, { etag: '"v1"' });
+
+    jest.restoreAllMocks();
+  });
+
+  it('should not cache failed fetches', async () => {
+    const cache = createAnalysisCache();
+    mockFetchCodeFromURL.mockResolvedValue({ success: false, error: 'File not found (404). Please check the FILE_URL.', url: FILE_URL });
+
+    await fetchCodeWithCache(FILE_URL, cache);
+    const second = await fetchCodeWithCache(FILE_URL, cache);
+
+    expect(second.status).toBeUndefined();
+    expect(mockFetchCodeFromURL).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('analyzeWithCache', () => {
+  it('should reparse only when the content changes', async () => {
+    const cache = createAnalysisCache();
+    const analyze = jest.fn(async () => parsed('main'));
+
+    expect((await analyzeWithCache({ content: 'v1', analyzer: 'babel', url: FILE_URL }, analyze, cache)).status).toBe('miss');
+    const hit = await analyzeWithCache({ content: 'v1', analyzer: 'babel', url: FILE_URL }, analyze, cache);
+    expect(hit.status).toBe('hit');
+    expect(hit.result.functions[0].name).toBe('main');
+
+    await analyzeWithCache({ content: 'v2', analyzer: 'babel', url: FILE_URL }, analyze, cache);
+    await analyzeWithCache({ content: 'v1', analyzer: 'typescript', url: FILE_URL }, analyze, cache);
+    expect(analyze).toHaveBeenCalledTimes(3);
+  });
+
+  it('should always parse without a cache', async () => {
+    const analyze = jest.fn(async () => parsed('main'));
+
+    const result = await analyzeWithCache({ content: 'v1', analyzer: 'babel' }, analyze, null);
+
+    expect(result.status).toBeUndefined();
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Analysis Cache Module
+ * Caches fetched source files and their parse results on the server, so a file
+ * analyzed moments ago is neither fetched nor parsed again. Sources are
+ * revalidated with their ETag once they are older than `maxAge`, and parse
+ * results are keyed by the content hash, so a changed file is always reparsed.
+ * Stores are pluggable: in memory by default, or a directory on disk.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fetchCodeFromURL } from './utils';
+import type { AnalyzerBackend, CodeFetchOptions, CodeFetchResult, ParsedCodeResult } from '../types';
+
+/**
+ * A cached value with its eviction data
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Approximate size in bytes, used for size-based eviction */
+  size: number;
+  /** Epoch milliseconds after which the entry is dropped */
+  expiresAt: number;
+}
+
+/**
+ * Pluggable cache storage. Stores drop expired entries on read and evict the
+ * least recently used entries when their limits are exceeded.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Capacity of a cache store
+ */
+export interface CacheStoreLimits {
+  /** Maximum number of entries */
+  maxEntries: number;
+  /** Maximum total size of all entries in bytes */
+  maxSize: number;
+}
+
+export const DEFAULT_CACHE_STORE_LIMITS: CacheStoreLimits = {
+  maxEntries: 500,
+  maxSize: 50 * 1024 * 1024, // 50MB
+};
+
+/**
+ * Whether a cached result was reused: 'hit' skipped the work, 'revalidated'
+ * confirmed a cached source with a conditional request, 'miss' did the work
+ */
+export type CacheStatus = 'hit' | 'revalidated' | 'miss';
+
+/**
+ * Cache settings
+ */
+export interface AnalysisCache {
+  store: CacheStore;
+  /** Milliseconds an entry is kept */
+  ttl: number;
+  /** Milliseconds a fetched source is reused before it is revalidated */
+  maxAge: number;
+}
+
+export const DEFAULT_ANALYSIS_CACHE_OPTIONS = {
+  ttl: 60 * 60 * 1000, // 1 hour
+  maxAge: 60 * 1000, // 1 minute
+};
+
+/**
+ * A fetched source file as cached
+ */
+interface CachedSource {
+  content: string;
+  url: string;
+  size?: number;
+  etag?: string;
+  fetchedAt: number;
+}
+
+/**
+ * Cache shared by the API routes, created from the environment on first use
+ */
+let sharedCache: AnalysisCache | null | undefined;
+
+/**
+ * Creates an in-memory store that evicts the least recently used entries.
+ * Values are copied in and out, so callers never share cached objects.
+ * @param limits - Entry count and total size limits
+ * @returns Memory-backed store
+ */
+export function createMemoryCacheStore(limits: Partial<CacheStoreLimits> = {}): CacheStore {
+  const { maxEntries, maxSize } = { ...DEFAULT_CACHE_STORE_LIMITS, ...limits };
+  // Map iteration follows insertion order, so re-inserting on read keeps the oldest entry first
+  const entries = new Map<string, CacheEntry>();
+  let totalSize = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    totalSize -= entry.size;
+    entries.delete(key);
+  };
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return structuredClone(entry) as CacheEntry<T>;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      remove(key);
+      if (entry.size > maxSize) return;
+      entries.set(key, structuredClone(entry));
+      totalSize += entry.size;
+
+      for (const oldestKey of entries.keys()) {
+        if (entries.size <= maxEntries && totalSize <= maxSize) break;
+        remove(oldestKey);
+      }
+    },
+
+    async delete(key: string) {
+      remove(key);
+    },
+  };
+}
+
+/**
+ * Creates a store that keeps one JSON file per entry in a directory, so the
+ * cache survives restarts and can be shared by server instances on one host.
+ * Reading an entry touches its file; the least recently touched files are evicted.
+ * @param directory - Cache directory, created when missing
+ * @param limits - Entry count and total size limits
+ * @returns File-system-backed store
+ */
+export function createFileCacheStore(directory: string, limits: Partial<CacheStoreLimits> = {}): CacheStore {
+  const { maxEntries, maxSize } = { ...DEFAULT_CACHE_STORE_LIMITS, ...limits };
+  const fileFor = (key: string) => path.join(directory, `${hashContent(key)}.json`);
+
+  const prune = async () => {
+    const names = (await fs.readdir(directory)).filter(name => name.endsWith('.json'));
+    const files = await Promise.all(names.map(async name => {
+      const filePath = path.join(directory, name);
+      const stats = await fs.stat(filePath).catch(() => null);
+      return { filePath, size: stats?.size ?? 0, touchedAt: stats?.mtimeMs ?? 0 };
+    }));
+
+    files.sort((a, b) => a.touchedAt - b.touchedAt);
+    let count = files.length;
+    let totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files) {
+      if (count <= maxEntries && totalSize <= maxSize) break;
+      await fs.rm(file.filePath, { force: true });
+      count--;
+      totalSize -= file.size;
+    }
+  };
+
+  return {
+    async get<T>(key: string) {
+      const filePath = fileFor(key);
+      let entry: CacheEntry<T>;
+      try {
+        entry = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      } catch {
+        return undefined;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        await fs.rm(filePath, { force: true });
+        return undefined;
+      }
+      const now = new Date();
+      await fs.utimes(filePath, now, now).catch(() => undefined);
+      return entry;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      if (entry.size > maxSize) return;
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(fileFor(key), JSON.stringify(entry), 'utf8');
+      await prune();
+    },
+
+    async delete(key: string) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Creates cache settings
+ * @param options - Store (in memory by default), TTL and source max age
+ * @returns Cache settings
+ */
+export function createAnalysisCache(options: Partial<AnalysisCache> = {}): AnalysisCache {
+  return {
+    store: options.store ?? createMemoryCacheStore(),
+    ttl: options.ttl ?? DEFAULT_ANALYSIS_CACHE_OPTIONS.ttl,
+    maxAge: options.maxAge ?? DEFAULT_ANALYSIS_CACHE_OPTIONS.maxAge,
+  };
+}
+
+/**
+ * Returns the cache shared by the API routes, configured by environment variables:
+ * - `ANALYSIS_CACHE`: `memory` (default), `fs` or `off`
+ * - `ANALYSIS_CACHE_DIR`: directory of the `fs` store (defaults to the OS temp directory)
+ * - `ANALYSIS_CACHE_TTL`: seconds an entry is kept
+ * - `ANALYSIS_CACHE_MAX_SIZE`: total size limit in megabytes
+ * @returns Shared cache, or null when caching is off
+ */
+export function getAnalysisCache(): AnalysisCache | null {
+  if (sharedCache !== undefined) return sharedCache;
+
+  const mode = process.env.ANALYSIS_CACHE || 'memory';
+  if (mode === 'off') {
+    sharedCache = null;
+    return sharedCache;
+  }
+
+  const ttlSeconds = Number(process.env.ANALYSIS_CACHE_TTL);
+  const maxSizeMB = Number(process.env.ANALYSIS_CACHE_MAX_SIZE);
+  const limits: Partial<CacheStoreLimits> = maxSizeMB > 0 ? { maxSize: maxSizeMB * 1024 * 1024 } : {};
+
+  sharedCache = createAnalysisCache({
+    store: mode === 'fs'
+      ? createFileCacheStore(process.env.ANALYSIS_CACHE_DIR || path.join(os.tmpdir(), 'code-visualizer-cache'), limits)
+      : createMemoryCacheStore(limits),
+    ...(ttlSeconds > 0 && { ttl: ttlSeconds * 1000 }),
+  });
+  return sharedCache;
+}
+
+/**
+ * Fetches a source file through the cache. A source younger than `maxAge` is
+ * reused as is; an older one is revalidated with its ETag when it has one.
+ * Failed fetches are not cached.
+ * @param url - File URL
+ * @param cache - Cache settings, or null to always fetch
+ * @param options - Download progress callback
+ * @returns Fetch result and cache status (undefined without a cache)
+ */
+export async function fetchCodeWithCache(
+  url: string,
+  cache: AnalysisCache | null,
+  options: Pick<CodeFetchOptions, 'onDownloadProgress'> = {}
+): Promise<{ result: CodeFetchResult; status?: CacheStatus }> {
+  if (!cache) {
+    return { result: await fetchCodeFromURL(url, options) };
+  }
+
+  const key = `source:${url}`;
+  const cached = (await readEntry<CachedSource>(cache, key))?.value;
+  if (cached && Date.now() - cached.fetchedAt < cache.maxAge) {
+    return { result: toFetchResult(cached), status: 'hit' };
+  }
+
+  const result = await fetchCodeFromURL(url, { ...options, etag: cached?.etag });
+  if (!result.success) {
+    return { result };
+  }
+
+  if (result.notModified && cached) {
+    const revalidated = { ...cached, etag: result.etag || cached.etag, fetchedAt: Date.now() };
+    await writeEntry(cache, key, revalidated);
+    return { result: toFetchResult(revalidated), status: 'revalidated' };
+  }
+
+  await writeEntry<CachedSource>(cache, key, {
+    content: result.content!,
+    url: result.url,
+    size: result.size,
+    etag: result.etag,
+    fetchedAt: Date.now(),
+  });
+  return { result, status: 'miss' };
+}
+
+/**
+ * Parses source through the cache. Results are keyed by analyzer, origin
+ * (URL or file name) and content hash.
+ * @param source - Source text, its origin and the analyzer backend
+ * @param analyze - Parses the source on a cache miss
+ * @param cache - Cache settings, or null to always parse
+ * @returns Parse result and cache status (undefined without a cache)
+ */
+export async function analyzeWithCache(
+  source: { content: string; analyzer: AnalyzerBackend; url?: string; filename?: string },
+  analyze: () => Promise<ParsedCodeResult>,
+  cache: AnalysisCache | null
+): Promise<{ result: ParsedCodeResult; status?: CacheStatus }> {
+  if (!cache) {
+    return { result: await analyze() };
+  }
+
+  const origin = source.url ?? source.filename ?? '';
+  const key = `analysis:${source.analyzer}:${origin}:${hashContent(source.content)}`;
+  const cached = await readEntry<ParsedCodeResult>(cache, key);
+  if (cached) {
+    return { result: cached.value, status: 'hit' };
+  }
+
+  const result = await analyze();
+  await writeEntry(cache, key, result);
+  return { result, status: 'miss' };
+}
+
+/**
+ * Hashes text with SHA-256
+ * @param content - Text to hash
+ * @returns Hex digest
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function toFetchResult(source: CachedSource): CodeFetchResult {
+  return { success: true, content: source.content, url: source.url, size: source.size, etag: source.etag };
+}
+
+/**
+ * Reads an entry, treating store failures as misses so a broken cache never fails a request
+ */
+async function readEntry<T>(cache: AnalysisCache, key: string): Promise<CacheEntry<T> | undefined> {
+  try {
+    return await cache.store.get<T>(key);
+  } catch (error) {
+    console.warn('Analysis cache read failed:', error);
+    return undefined;
+  }
+}
+
+async function writeEntry<T>(cache: AnalysisCache, key: string, value: T): Promise<void> {
+  try {
+    await cache.store.set(key, {
+      value,
+      size: JSON.stringify(value).length,
+      expiresAt: Date.now() + cache.ttl,
+    });
+  } catch (error) {
+    console.warn('Analysis cache write failed:', error);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for streamed analysis progress
+ */
+
+import {
+  createAnalysisStream,
+  readAnalysisStream,
+  describeProgress,
+  ANALYSIS_STREAM_CONTENT_TYPE,
+} from './analysisStream';
+import type { AnalysisProgress } from '../types';
+
+const toResponse = (stream: ReadableStream<Uint8Array>) =>
+  new Response(stream, { headers: { 'Content-Type': `${ANALYSIS_STREAM_CONTENT_TYPE}; charset=utf-8` } });
+
+describe('createAnalysisStream', () => {
+  it('should write progress events followed by the result, one JSON object per line', async () => {
+    const stream = createAnalysisStream(async report => {
+      report({ stage: 'validating' });
+      report({ stage: 'calls', functions: 3, calls: 2 });
+      return { status: 200, body: { success: true } };
+    });
+
+    const lines = (await toResponse(stream).text()).trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines).toEqual([
+      { type: 'progress', progress: { stage: 'validating' } },
+      { type: 'progress', progress: { stage: 'calls', functions: 3, calls: 2 } },
+      { type: 'result', status: 200, body: { success: true } },
+    ]);
+  });
+
+  it('should end with an error result when the analysis throws', async () => {
+    const stream = createAnalysisStream(async () => {
+      throw new Error('boom');
+    });
+
+    const { status, body } = await readAnalysisStream(toResponse(stream));
+
+    expect(status).toBe(500);
+    expect(body).toEqual({ success: false, error: 'boom' });
+  });
+});
+
+describe('readAnalysisStream', () => {
+  it('should report progress and resolve to the result', async () => {
+    const progress: AnalysisProgress[] = [];
+    const stream = createAnalysisStream(async report => {
+      report({ stage: 'fetching', bytes: 512, totalBytes: 1024 });
+      report({ stage: 'layout', functions: 4, calls: 5 });
+      return { status: 400, body: { success: false, error: 'No functions found' } };
+    });
+
+    const result = await readAnalysisStream(toResponse(stream), event => progress.push(event));
+
+    expect(progress.map(event => event.stage)).toEqual(['fetching', 'layout']);
+    expect(result).toEqual({ status: 400, body: { success: false, error: 'No functions found' } });
+  });
+
+  it('should reassemble events split across chunks', async () => {
+    const encoder = new TextEncoder();
+    const text = '{"type":"progress","progress":{"stage":"parsing"}}\n{"type":"result","status":200,"body":{"ok":1}}';
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(text.slice(0, 20)));
+        controller.enqueue(encoder.encode(text.slice(20, 70)));
+        controller.enqueue(encoder.encode(text.slice(70)));
+        controller.close();
+      },
+    });
+    const onProgress = jest.fn();
+
+    const result = await readAnalysisStream(toResponse(stream), onProgress);
+
+    expect(onProgress).toHaveBeenCalledWith({ stage: 'parsing' });
+    expect(result).toEqual({ status: 200, body: { ok: 1 } });
+  });
+
+  it('should read plain JSON responses', async () => {
+    const response = new Response(JSON.stringify({ success: false, error: 'Rate limit exceeded' }), {
+      status: 429,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    await expect(readAnalysisStream(response)).resolves.toEqual({
+      status: 429,
+      body: { success: false, error: 'Rate limit exceeded' },
+    });
+  });
+
+  it('should fail when the stream ends without a result', async () => {
+    const response = toResponse(new ReadableStream({ start: controller => controller.close() }));
+
+    await expect(readAnalysisStream(response)).rejects.toThrow('Analysis stream ended without a result');
+  });
+});
+
+describe('describeProgress', () => {
+  it('should describe each stage with its counts', () => {
+    expect(describeProgress({ stage: 'fetching', bytes: 1536, totalBytes: 3072 })).toBe(
+      'Fetching source... 1.5 KB of 3 KB received'
+    );
+    expect(describeProgress({ stage: 'parsing', files: 8 })).toBe('Parsing 8 files...');
+    expect(describeProgress({ stage: 'calls', functions: 5, calls: 7 })).toBe('Extracted 5 functions and 7 calls');
+    expect(describeProgress({ stage: 'layout', functions: 5, calls: 7 })).toBe('Laying out 5 functions and 7 calls...');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Analysis Stream Module
+ * Progress of a long analysis sent as newline-delimited JSON (NDJSON): one
+ * `progress` event per step, then a single `result` event carrying the
+ * response the non-streaming endpoint would have returned. Shared by the
+ * parse API (writing) and the page (reading).
+ */
+
+import { formatBytes } from './utils';
+import type { AnalysisProgress, AnalysisStage, AnalysisStatus } from '../types';
+
+/**
+ * Content type of a streamed analysis
+ */
+export const ANALYSIS_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Status shown for each stage; the extraction steps all belong to parsing
+ */
+export const ANALYSIS_STAGE_STATUS: Record<AnalysisStage, AnalysisStatus> = {
+  validating: 'validating',
+  fetching: 'fetching',
+  parsing: 'parsing',
+  functions: 'parsing',
+  calls: 'parsing',
+  layout: 'parsing',
+};
+
+/**
+ * One line of a streamed analysis
+ */
+export type AnalysisStreamEvent<T = unknown> =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; status: number; body: T };
+
+/**
+ * Receives progress events while an analysis runs
+ */
+export type ProgressReporter = (progress: AnalysisProgress) => void;
+
+/**
+ * Runs an analysis and streams its progress followed by its result. Events
+ * reported after the result is written are dropped.
+ * @param run - Analysis reporting its progress and resolving to the HTTP status and body
+ * @returns NDJSON byte stream
+ */
+export function createAnalysisStream<T>(
+  run: (report: ProgressReporter) => Promise<{ status: number; body: T }>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (event: AnalysisStreamEvent<T>) => {
+        if (!closed) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const { status, body } = await run(progress => write({ type: 'progress', progress }));
+        write({ type: 'result', status, body });
+      } catch (error) {
+        write({
+          type: 'result',
+          status: 500,
+          body: { success: false, error: error instanceof Error ? error.message : 'Analysis failed' } as T,
+        });
+      }
+      closed = true;
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Reads an analysis response, streamed or not. Plain JSON responses (e.g. a
+ * rate limit rejection sent before streaming began) resolve to their body.
+ * @param response - Fetch response of the parse API
+ * @param onProgress - Called for each progress event
+ * @returns HTTP status and body of the analysis result
+ */
+export async function readAnalysisStream<T>(
+  response: Response,
+  onProgress?: ProgressReporter
+): Promise<{ status: number; body: T }> {
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes(ANALYSIS_STREAM_CONTENT_TYPE) || !response.body) {
+    return { status: response.status, body: await response.json() };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let result: { status: number; body: T } | undefined;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as AnalysisStreamEvent<T>;
+    if (event.type === 'progress') {
+      onProgress?.(event.progress);
+    } else {
+      result = { status: event.status, body: event.body };
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop()!;
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered + decoder.decode());
+
+  if (!result) {
+    throw new Error('Analysis stream ended without a result');
+  }
+  return result;
+}
+
+/**
+ * Describes a progress event for display
+ * @param progress - Latest progress event
+ * @returns Human-readable step with the counts known so far
+ */
+export function describeProgress(progress: AnalysisProgress): string {
+  switch (progress.stage) {
+    case 'validating':
+      return 'Validating request...';
+    case 'fetching':
+      if (progress.files !== undefined) return `Fetched ${progress.files} files`;
+      if (progress.bytes === undefined) return 'Fetching source...';
+      return `Fetching source... ${formatBytes(progress.bytes)}${
+        progress.totalBytes ? ` of ${formatBytes(progress.totalBytes)}` : ''
+      } received`;
+    case 'parsing':
+      return progress.files !== undefined ? `Parsing ${progress.files} files...` : 'Parsing TypeScript code...';
+    case 'functions':
+      return 'Extracting functions...';
+    case 'calls':
+      return progress.calls !== undefined
+        ? `Extracted ${progress.functions} functions and ${progress.calls} calls`
+        : `Extracting calls between ${progress.functions} functions...`;
+    case 'layout':
+      return `Laying out ${progress.functions} functions and ${progress.calls} calls...`;
+  }
+}
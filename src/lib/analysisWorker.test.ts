@@ -0,0 +1,164 @@
+/**
+ * Tests for Analysis Worker
+ */
+
+import type { Node } from '@xyflow/react';
+import {
+  createAnalysisClient,
+  handleWorkerRequest,
+  isAbortError,
+  runAnalysis,
+  runLayout,
+} from './analysisWorker';
+import type { LayoutJob, WorkerRequest, WorkerResponse } from './analysisWorker';
+
+const SOURCE = `
+  export function main() { return helper(); }
+  function helper() { return 1; }
+`;
+
+const LAYOUT_SETTINGS: LayoutJob['settings'] = {
+  layoutType: 'dagre',
+  layoutDirection: 'TB',
+  spacing: { nodeSpacing: 200, rankSeparation: 150, edgeSeparation: 10 },
+};
+
+// Stand-in for a Web Worker; `respond` decides whether it answers its messages
+const createFakeWorker = (respond: boolean) => {
+  const worker = {
+    onmessage: null as ((event: MessageEvent<WorkerResponse>) => void) | null,
+    onerror: null as (() => void) | null,
+    postMessage: jest.fn((request: WorkerRequest) => {
+      if (respond) {
+        void handleWorkerRequest(request, response => worker.onmessage?.({ data: response } as MessageEvent<WorkerResponse>));
+      }
+    }),
+    terminate: jest.fn(),
+  };
+  return worker;
+};
+
+describe('runAnalysis', () => {
+  it('should build the call graph and metadata of a single file', async () => {
+    const progress = jest.fn();
+    const outcome = await runAnalysis({ code: SOURCE, filename: 'main.ts' }, 'babel', progress);
+
+    expect(outcome.success).toBe(true);
+    if (!outcome.success) return;
+    expect(outcome.data.nodes.map(node => node.data.label)).toEqual(expect.arrayContaining(['main', 'helper']));
+    expect(outcome.data.edges).toHaveLength(1);
+    expect(outcome.data.metadata).toMatchObject({ totalFunctions: 2, totalCalls: 1, exports: ['main'] });
+    expect(progress).toHaveBeenCalledWith({ stage: 'parsing' });
+    expect(progress).toHaveBeenLastCalledWith({ stage: 'layout', functions: 2, calls: 1 });
+  });
+
+  it('should analyze several files as a project', async () => {
+    const outcome = await runAnalysis({
+      files: [
+        { path: 'a.ts', content: "import { b } from './b';\nexport function a() { b(); }" },
+        { path: 'b.ts', content: 'export function b() {}' },
+      ],
+    }, 'babel');
+
+    expect(outcome.success && outcome.data.edges).toHaveLength(1);
+  });
+
+  it('should reject sources without functions and unrecoverable files', async () => {
+    const empty = await runAnalysis({ code: 'const x = 1;' }, 'babel');
+    const broken = await runAnalysis({ code: '{{{' }, 'babel');
+
+    expect(empty).toMatchObject({ success: false, error: 'No functions found in the provided TypeScript file' });
+    expect(broken).toMatchObject({ success: false, error: 'Failed to parse TypeScript code' });
+  });
+});
+
+describe('runLayout', () => {
+  const nodes: Node[] = [
+    { id: 'a', position: { x: 0, y: 0 }, data: { label: 'a' } },
+    { id: 'b', position: { x: 0, y: 0 }, data: { label: 'b' } },
+  ];
+  const edges = [{ id: 'a-b', source: 'a', target: 'b' }];
+
+  it('should lay out calls top-down and the class hierarchy bottom-up', () => {
+    const calls = runLayout({ nodes, edges, viewMode: 'calls', settings: LAYOUT_SETTINGS });
+    const hierarchy = runLayout({ nodes, edges, viewMode: 'hierarchy', settings: LAYOUT_SETTINGS });
+
+    expect(calls[0].position.y).toBeLessThan(calls[1].position.y);
+    expect(hierarchy[0].position.y).toBeGreaterThan(hierarchy[1].position.y);
+  });
+});
+
+describe('createAnalysisClient', () => {
+  it('should run requests in place without a worker', async () => {
+    const client = createAnalysisClient();
+    const onProgress = jest.fn();
+
+    const outcome = await client.analyze({ code: SOURCE }, 'babel', { onProgress });
+
+    expect(outcome.success).toBe(true);
+    expect(onProgress).toHaveBeenCalled();
+  });
+
+  it('should post requests to the worker and resolve with its result', async () => {
+    const worker = createFakeWorker(true);
+    const client = createAnalysisClient(() => worker as unknown as Worker);
+
+    const nodes = await client.layout({
+      nodes: [{ id: 'a', position: { x: 0, y: 0 }, data: { label: 'a' } }],
+      edges: [],
+      viewMode: 'calls',
+      settings: LAYOUT_SETTINGS,
+    });
+
+    expect(worker.postMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'layout' }));
+    expect(nodes).toHaveLength(1);
+  });
+
+  it('should terminate a busy worker when its request is cancelled', async () => {
+    const workers = [createFakeWorker(false), createFakeWorker(true)];
+    const createWorker = jest.fn((): Worker => workers[createWorker.mock.calls.length - 1] as unknown as Worker);
+    const client = createAnalysisClient(createWorker);
+    const controller = new AbortController();
+
+    const cancelled = client.analyze({ code: SOURCE }, 'babel', { signal: controller.signal });
+    controller.abort();
+
+    const error = await cancelled.catch(reason => reason);
+    expect(isAbortError(error)).toBe(true);
+    expect(workers[0].terminate).toHaveBeenCalled();
+
+    // The next request gets a fresh worker
+    await expect(client.analyze({ code: SOURCE }, 'babel')).resolves.toMatchObject({ success: true });
+    expect(createWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject requests whose signal is already aborted', async () => {
+    const client = createAnalysisClient();
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await client.analyze({ code: SOURCE }, 'babel', { signal: controller.signal }).catch(reason => reason);
+
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it('should finish requests in place when the worker fails to load', async () => {
+    const worker = createFakeWorker(false);
+    const client = createAnalysisClient(() => worker as unknown as Worker);
+
+    const outcome = client.analyze({ code: SOURCE }, 'babel');
+    worker.onerror?.();
+
+    await expect(outcome).resolves.toMatchObject({ success: true });
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  it('should cancel pending requests when disposed', async () => {
+    const client = createAnalysisClient(() => createFakeWorker(false) as unknown as Worker);
+
+    const pending = client.analyze({ code: SOURCE }, 'babel');
+    client.dispose();
+
+    expect(isAbortError(await pending.catch(reason => reason))).toBe(true);
+  });
+});
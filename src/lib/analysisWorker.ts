@@ -0,0 +1,357 @@
+/**
+ * Analysis Worker Module
+ * Runs parsing, graph building and layout off the main thread. Callers talk
+ * to a Web Worker through an AnalysisClient whose requests can be cancelled;
+ * where workers are unavailable the same code runs on the calling thread.
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import { parseTypeScriptCode } from './codeParser';
+import { parseTypeScriptProject } from './projectAnalyzer';
+import { buildReactFlowGraph, buildClassHierarchyGraph } from './graphBuilder';
+import { applyLayout, layoutNodes } from './layoutEngine';
+import type { LayoutSettings } from './layoutEngine';
+import type {
+  AnalysisProgress,
+  AnalyzerBackend,
+  GraphData,
+  ModuleSummary,
+  ParseError,
+  ParsedCodeResult,
+  ProjectFile,
+  ViewState,
+} from '../types';
+
+/**
+ * Source to analyze: a single file, or files analyzed together as a project
+ */
+export type AnalysisInput = { code: string; filename?: string } | { files: ProjectFile[] };
+
+/**
+ * Graph and metadata of an analyzed source
+ */
+export interface AnalysisOutput {
+  nodes: GraphData['nodes'];
+  edges: GraphData['edges'];
+  /** Class and interface hierarchy, present when the code declares any */
+  hierarchy?: GraphData;
+  metadata: {
+    totalFunctions: number;
+    totalCalls: number;
+    imports: string[];
+    exports: string[];
+    module?: ModuleSummary;
+    /** Problems found while analyzing, e.g. recovered syntax errors */
+    diagnostics?: ParseError[];
+  };
+}
+
+/**
+ * Result of an analysis: the graph, or why none could be built
+ */
+export type AnalysisOutcome =
+  | { success: true; data: AnalysisOutput }
+  | { success: false; error: string; errors: ParseError[] };
+
+/**
+ * Nodes to position and the layout to position them with
+ */
+export interface LayoutJob {
+  nodes: Node[];
+  edges: Edge[];
+  /** The class hierarchy always reads bottom-up and ignores the layout settings */
+  viewMode: ViewState['viewMode'];
+  settings: LayoutSettings;
+}
+
+/**
+ * Message posted to the worker
+ */
+export type WorkerRequest =
+  | { id: number; type: 'analyze'; input: AnalysisInput; analyzer: AnalyzerBackend }
+  | { id: number; type: 'layout'; job: LayoutJob };
+
+/**
+ * Message posted back by the worker; a request ends with a result or an error
+ */
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: AnalysisProgress }
+  | { id: number; type: 'result'; result: AnalysisOutcome | Node[] }
+  | { id: number; type: 'error'; error: string };
+
+/**
+ * Options of a single client request
+ */
+export interface AnalysisRequestOptions {
+  /** Cancels the request; it then rejects with an AbortError */
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/**
+ * Runs analysis and layout requests, in a worker when possible
+ */
+export interface AnalysisClient {
+  analyze(input: AnalysisInput, analyzer: AnalyzerBackend, options?: AnalysisRequestOptions): Promise<AnalysisOutcome>;
+  layout(job: LayoutJob, options?: Omit<AnalysisRequestOptions, 'onProgress'>): Promise<Node[]>;
+  /** Stops the worker and cancels all pending requests */
+  dispose(): void;
+}
+
+/**
+ * Parses a source and builds its call graph and class hierarchy, the same
+ * way the parse API does
+ * @param input - Single file or project files
+ * @param analyzer - Call resolution backend
+ * @param onProgress - Receives the parser's progress events
+ * @returns Graph data, or an error when no function could be extracted
+ */
+export async function runAnalysis(
+  input: AnalysisInput,
+  analyzer: AnalyzerBackend,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<AnalysisOutcome> {
+  const isProject = 'files' in input;
+  onProgress?.({ stage: 'parsing', ...(isProject && { files: input.files.length }) });
+  const parseResult = await parseInput(input, analyzer, onProgress);
+
+  // A single file that could not be recovered at all is rejected; a project tolerates broken files
+  const syntaxErrors = parseResult.errors.filter(error => error.type === 'syntax');
+  if (!isProject && syntaxErrors.length > 0 && parseResult.functions.length === 0) {
+    return { success: false, error: 'Failed to parse TypeScript code', errors: parseResult.errors };
+  }
+
+  if (parseResult.functions.length === 0) {
+    return {
+      success: false,
+      error: isProject
+        ? parseResult.errors[0]?.message || 'No functions found in the provided TypeScript files'
+        : 'No functions found in the provided TypeScript file',
+      errors: parseResult.errors,
+    };
+  }
+
+  onProgress?.({ stage: 'layout', functions: parseResult.functions.length, calls: parseResult.calls.length });
+  const graphData = buildReactFlowGraph(parseResult);
+
+  return {
+    success: true,
+    data: {
+      nodes: graphData.nodes,
+      edges: graphData.edges,
+      ...(parseResult.classes && parseResult.classes.length > 0 && {
+        hierarchy: buildClassHierarchyGraph(parseResult),
+      }),
+      metadata: {
+        totalFunctions: parseResult.functions.length,
+        totalCalls: parseResult.calls.length,
+        imports: parseResult.metadata?.imports || [],
+        exports: parseResult.metadata?.exports || [],
+        ...(parseResult.metadata?.module && { module: parseResult.metadata.module }),
+        ...(parseResult.errors.length > 0 && { diagnostics: parseResult.errors }),
+      },
+    },
+  };
+}
+
+/**
+ * Positions the nodes of a call graph or class hierarchy
+ * @param job - Nodes, edges, view and layout settings
+ * @returns Positioned nodes
+ */
+export function runLayout(job: LayoutJob): Node[] {
+  return job.viewMode === 'hierarchy'
+    ? layoutNodes(job.nodes, job.edges, { direction: 'BT' })
+    : applyLayout(job.nodes, job.edges, job.settings);
+}
+
+/**
+ * Handles one request inside the worker (or in place) and posts its
+ * progress and result
+ * @param request - Request posted by a client
+ * @param post - Sends a response back to the client
+ */
+export async function handleWorkerRequest(
+  request: WorkerRequest,
+  post: (response: WorkerResponse) => void
+): Promise<void> {
+  try {
+    const result = request.type === 'analyze'
+      ? await runAnalysis(request.input, request.analyzer, progress => post({ id: request.id, type: 'progress', progress }))
+      : runLayout(request.job);
+    post({ id: request.id, type: 'result', result });
+  } catch (error) {
+    post({ id: request.id, type: 'error', error: error instanceof Error ? error.message : 'Analysis failed' });
+  }
+}
+
+/**
+ * Whether an error is the cancellation of a request (or of a fetch)
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+/**
+ * Creates a client that runs requests in a worker. A running task cannot be
+ * interrupted, so cancelling it terminates the worker; the next request
+ * starts a fresh one. When no worker can be created, or its script fails to
+ * load, requests run on the calling thread instead.
+ * @param createWorker - Starts the analysis worker; omit to always run in place
+ * @returns Analysis client
+ */
+export function createAnalysisClient(createWorker?: () => Worker): AnalysisClient {
+  let worker: Worker | null = null;
+  let runsInPlace = !createWorker;
+  let nextId = 1;
+  const pending = new Map<number, PendingRequest>();
+
+  const settle = (response: WorkerResponse) => {
+    const entry = pending.get(response.id);
+    if (!entry) return;
+    if (response.type === 'progress') {
+      entry.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'result') {
+      entry.resolve(response.result);
+    } else {
+      entry.reject(new Error(response.error));
+    }
+  };
+
+  const runInPlace = (entry: PendingRequest) => {
+    entry.inWorker = false;
+    // Deferred so that a request is never finished before its caller could cancel it
+    setTimeout(() => {
+      if (pending.has(entry.request.id)) void handleWorkerRequest(entry.request, settle);
+    }, 0);
+  };
+
+  const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const getWorker = (): Worker | null => {
+    if (runsInPlace) return null;
+    if (worker) return worker;
+    try {
+      worker = createWorker!();
+    } catch {
+      runsInPlace = true;
+      return null;
+    }
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => settle(event.data);
+    worker.onerror = () => {
+      // The worker script failed to load or crashed: finish its requests in place
+      runsInPlace = true;
+      stopWorker();
+      pending.forEach(entry => {
+        if (entry.inWorker) runInPlace(entry);
+      });
+    };
+    return worker;
+  };
+
+  const dispatch = (entry: PendingRequest) => {
+    const target = getWorker();
+    if (target) {
+      entry.inWorker = true;
+      target.postMessage(entry.request);
+    } else {
+      runInPlace(entry);
+    }
+  };
+
+  const cancel = (id: number) => {
+    const entry = pending.get(id);
+    if (!entry) return;
+    pending.delete(id);
+    entry.reject(createAbortError());
+    if (!entry.inWorker) return;
+
+    // The worker may be busy with the cancelled task: replace it and re-send what it still owed
+    stopWorker();
+    pending.forEach(other => {
+      if (other.inWorker) dispatch(other);
+    });
+  };
+
+  const send = <T>(request: DistributiveOmit<WorkerRequest, 'id'>, options: AnalysisRequestOptions = {}) =>
+    new Promise<T>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const id = nextId++;
+      const entry: PendingRequest = {
+        request: { ...request, id } as WorkerRequest,
+        resolve: result => resolve(result as T),
+        reject,
+        onProgress: options.onProgress,
+        inWorker: false,
+      };
+      pending.set(id, entry);
+      options.signal?.addEventListener('abort', () => cancel(id), { once: true });
+      dispatch(entry);
+    });
+
+  return {
+    analyze: (input, analyzer, options) => send<AnalysisOutcome>({ type: 'analyze', input, analyzer }, options),
+    layout: (job, options) => send<Node[]>({ type: 'layout', job }, options),
+    dispose: () => {
+      stopWorker();
+      const entries = Array.from(pending.values());
+      pending.clear();
+      entries.forEach(entry => entry.reject(createAbortError()));
+    },
+  };
+}
+
+/**
+ * Request waiting for its worker response
+ */
+interface PendingRequest {
+  request: WorkerRequest;
+  resolve: (result: AnalysisOutcome | Node[]) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+  /** Whether the request was posted to the worker rather than run in place */
+  inWorker: boolean;
+}
+
+/**
+ * Omit that keeps the members of a union apart
+ */
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Parses a single file or a project with the chosen backend. The compiler is
+ * large, so it is only loaded when type-aware resolution is requested.
+ */
+async function parseInput(
+  input: AnalysisInput,
+  analyzer: AnalyzerBackend,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<ParsedCodeResult> {
+  if ('files' in input) {
+    return analyzer === 'typescript'
+      ? (await import('./typeCheckerAnalyzer')).analyzeWithTypeChecker(input.files)
+      : parseTypeScriptProject(input.files);
+  }
+  return analyzer === 'typescript'
+    ? (await import('./typeCheckerAnalyzer')).analyzeSourceWithTypeChecker(input.code, { filename: input.filename, onProgress })
+    : parseTypeScriptCode(input.code, { filename: input.filename, onProgress });
+}
+
+/**
+ * Error a cancelled request rejects with, named like the one of an aborted fetch
+ */
+function createAbortError(): Error {
+  const error = new Error('The request was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
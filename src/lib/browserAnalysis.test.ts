@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for Browser Analysis
+ */
+
+import { analyzeInBrowser } from './browserAnalysis';
+import { isAbortError } from './analysisWorker';
+import { fetchCodeFromURL } from './utils';
+import { fetchRepositoryFiles } from './repoFetcher';
+import type { CodeFetchOptions, CodeFetchResult, RepositoryFetchResult } from '../types';
+
+jest.mock('./utils', () => ({
+  ...jest.requireActual('./utils'),
+  fetchCodeFromURL: jest.fn(),
+}));
+
+jest.mock('./repoFetcher', () => ({
+  fetchRepositoryFiles: jest.fn(),
+}));
+
+const mockFetchCodeFromURL = fetchCodeFromURL as jest.MockedFunction<typeof fetchCodeFromURL>;
+const mockFetchRepositoryFiles = fetchRepositoryFiles as jest.MockedFunction<typeof fetchRepositoryFiles>;
+
+const SOURCE = 'export function main() { return helper(); }\nfunction helper() { return 1; }';
+
+// Download that only ends once it is cancelled, reported as a failure like an aborted axios request
+const pendingUntilAborted = <T extends CodeFetchResult | RepositoryFetchResult>(url: string, signal?: AbortSignal) =>
+  new Promise<T>(resolve => {
+    const cancel = () => resolve({ success: false, error: 'canceled', url } as T);
+    if (signal?.aborted) cancel();
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+describe('analyzeInBrowser', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fetch and analyze a single file', async () => {
+    mockFetchCodeFromURL.mockResolvedValue({ success: true, content: SOURCE, url: 'https://example.com/main.ts', size: 80 });
+
+    const outcome = await analyzeInBrowser({ url: 'https://example.com/main.ts' }, 'babel');
+
+    expect(outcome.success).toBe(true);
+    expect(outcome.success && outcome.data.metadata).toMatchObject({ fileName: 'main.ts', totalFunctions: 2, fileSize: 80 });
+  });
+
+  it('should cancel a file download when the analysis is cancelled', async () => {
+    const controller = new AbortController();
+    mockFetchCodeFromURL.mockImplementation((url: string, options?: CodeFetchOptions) =>
+      pendingUntilAborted<CodeFetchResult>(url, options?.signal));
+
+    const outcome = analyzeInBrowser({ url: 'https://example.com/main.ts' }, 'babel', {
+      signal: controller.signal,
+      onProgress: progress => {
+        if (progress.stage === 'fetching') controller.abort();
+      },
+    });
+
+    expect(isAbortError(await outcome.catch(reason => reason))).toBe(true);
+    expect(mockFetchCodeFromURL).toHaveBeenCalledWith('https://example.com/main.ts', expect.objectContaining({ signal: controller.signal }));
+  });
+
+  it('should cancel repository and compared downloads', async () => {
+    const controller = new AbortController();
+    mockFetchRepositoryFiles.mockImplementation((url, options) =>
+      pendingUntilAborted<RepositoryFetchResult>(url, options?.signal));
+    mockFetchCodeFromURL.mockImplementation((url: string, options?: CodeFetchOptions) =>
+      pendingUntilAborted<CodeFetchResult>(url, options?.signal));
+
+    const repository = analyzeInBrowser({ url: 'https://github.com/acme/app' }, 'babel', { signal: controller.signal });
+    const comparison = analyzeInBrowser(
+      { baseUrl: 'https://example.com/v1/main.ts', headUrl: 'https://example.com/v2/main.ts' },
+      'babel',
+      { signal: controller.signal }
+    );
+    controller.abort();
+
+    expect(isAbortError(await repository.catch(reason => reason))).toBe(true);
+    expect(isAbortError(await comparison.catch(reason => reason))).toBe(true);
+    expect(mockFetchRepositoryFiles).toHaveBeenCalledWith('https://github.com/acme/app', { signal: controller.signal });
+    expect(mockFetchCodeFromURL).toHaveBeenCalledTimes(2);
+  });
+});
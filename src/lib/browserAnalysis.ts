@@ -0,0 +1,237 @@
+/**
+ * Browser Analysis Module
+ * Analyzes sources entirely in the browser: code is fetched from the page
+ * and parsed in the analysis Web Worker. Used for uploaded files and
+ * whenever the parse API cannot be reached.
+ */
+
+import { createAnalysisClient } from './analysisWorker';
+import type { AnalysisClient, AnalysisOutcome, AnalysisOutput, AnalysisRequestOptions } from './analysisWorker';
+import { validateURL, fetchCodeFromURL, getFilenameFromURL, parseGitHubDirectoryURL } from './utils';
+import { fetchRepositoryFiles } from './repoFetcher';
+import { withoutExternalModules } from './graphBuilder';
+import { diffGraphs } from './graphDiff';
+import type { GraphDiffSummary } from './graphDiff';
+import type { AnalyzerBackend, ParseError, ProjectFile } from '../types';
+
+/**
+ * Source to analyze, as the page collects it
+ */
+export type BrowserAnalysisRequest =
+  | { url: string }
+  | { code: string; filename: string }
+  | { files: ProjectFile[]; label: string }
+  | { baseUrl: string; headUrl: string };
+
+/**
+ * Graph and metadata shaped like a parse API response
+ */
+export interface BrowserAnalysisResult extends AnalysisOutput {
+  metadata: AnalysisOutput['metadata'] & {
+    fileName: string;
+    fileSize?: number;
+    parseTime: number;
+    /** Number of analyzed files (repository/directory URLs) */
+    fileCount?: number;
+    truncated?: boolean;
+    /** Change counts when two versions of a file were compared */
+    diff?: GraphDiffSummary;
+  };
+}
+
+/**
+ * Result of a browser analysis: the graph, or why none could be built
+ */
+export type BrowserAnalysisOutcome =
+  | { success: true; data: BrowserAnalysisResult }
+  | { success: false; error: string; errors?: ParseError[] };
+
+let sharedClient: AnalysisClient | null = null;
+
+/**
+ * Gets the analysis client of the page, starting its worker on first use
+ * @returns Client shared by the page and the visualizer
+ */
+export function getAnalysisClient(): AnalysisClient {
+  if (!sharedClient) {
+    sharedClient = createAnalysisClient(typeof Worker === 'undefined'
+      ? undefined
+      : () => new Worker(new URL('./analysis.worker.ts', import.meta.url)));
+  }
+  return sharedClient;
+}
+
+/**
+ * Fetches (for URLs) and analyzes a source without the parse API
+ * @param request - URL, pasted code, uploaded files or two URLs to compare
+ * @param analyzer - Call resolution backend
+ * @param options - Cancellation signal and progress callback
+ * @returns Graph data, or an error message; rejects with an AbortError when cancelled
+ */
+export async function analyzeInBrowser(
+  request: BrowserAnalysisRequest,
+  analyzer: AnalyzerBackend,
+  options: AnalysisRequestOptions = {}
+): Promise<BrowserAnalysisOutcome> {
+  const startTime = Date.now();
+  const client = getAnalysisClient();
+
+  if ('baseUrl' in request) {
+    return compareInBrowser(request.baseUrl, request.headUrl, analyzer, options, startTime);
+  }
+
+  if ('files' in request) {
+    const outcome = await client.analyze({ files: request.files }, analyzer, options);
+    return withSource(outcome, {
+      fileName: request.label,
+      fileSize: request.files.reduce((sum, file) => sum + new Blob([file.content]).size, 0),
+      parseTime: Date.now() - startTime,
+    });
+  }
+
+  if ('code' in request) {
+    const outcome = await client.analyze({ code: request.code, filename: request.filename }, analyzer, options);
+    return withSource(outcome, {
+      fileName: request.filename,
+      fileSize: new Blob([request.code]).size,
+      parseTime: Date.now() - startTime,
+    });
+  }
+
+  const validation = validateURL(request.url);
+  if (!validation.isValid) {
+    return { success: false, error: `Invalid URL: ${validation.error}` };
+  }
+
+  options.onProgress?.({ stage: 'fetching' });
+  if (validation.isDirectory) {
+    // Repository or directory: expand into files and analyze them together
+    const repoResult = await fetchRepositoryFiles(request.url, { signal: options.signal });
+    // The fetch helpers report a cancelled download as a failure; reject like a cancelled analysis instead
+    options.signal?.throwIfAborted();
+    if (!repoResult.success) {
+      return { success: false, error: `Failed to fetch repository: ${repoResult.error}` };
+    }
+
+    const directory = parseGitHubDirectoryURL(request.url)!;
+    const outcome = await client.analyze({ files: repoResult.files! }, analyzer, options);
+    return withSource(outcome, {
+      fileName: `${directory.owner}/${directory.repo}${directory.path ? `/${directory.path}` : ''}`,
+      fileSize: repoResult.size,
+      parseTime: Date.now() - startTime,
+      fileCount: repoResult.files!.length,
+      truncated: repoResult.truncated,
+    });
+  }
+
+  const fetchResult = await fetchCodeFromURL(request.url, {
+    onDownloadProgress: (bytes, totalBytes) => options.onProgress?.({ stage: 'fetching', bytes, totalBytes }),
+    signal: options.signal,
+  });
+  options.signal?.throwIfAborted();
+  if (!fetchResult.success) {
+    return { success: false, error: `Failed to fetch code: ${fetchResult.error}` };
+  }
+
+  const fileName = getFilenameFromURL(request.url);
+  const outcome = await client.analyze({ code: fetchResult.content!, filename: fileName }, analyzer, options);
+  return withSource(outcome, {
+    fileName,
+    fileSize: fetchResult.size,
+    parseTime: Date.now() - startTime,
+  });
+}
+
+/**
+ * Adds the source's name, size and timing to a successful analysis
+ */
+function withSource(
+  outcome: AnalysisOutcome,
+  source: Omit<BrowserAnalysisResult['metadata'], keyof AnalysisOutput['metadata']>
+): BrowserAnalysisOutcome {
+  if (!outcome.success) return outcome;
+  return {
+    success: true,
+    data: { ...outcome.data, metadata: { ...outcome.data.metadata, ...source } },
+  };
+}
+
+/**
+ * Analyzes two versions of a file and combines their call graphs, like the
+ * diff API
+ */
+async function compareInBrowser(
+  baseUrl: string,
+  headUrl: string,
+  analyzer: AnalyzerBackend,
+  options: AnalysisRequestOptions,
+  startTime: number
+): Promise<BrowserAnalysisOutcome> {
+  const [base, head] = await Promise.all([
+    analyzeVersion(baseUrl, analyzer, options),
+    analyzeVersion(headUrl, analyzer, options),
+  ]);
+  if (!base.success) return { success: false, error: `Failed to analyze base version: ${base.error}` };
+  if (!head.success) return { success: false, error: `Failed to analyze head version: ${head.error}` };
+
+  // External modules are left out: the diff compares the analyzed functions and their calls
+  const { graph, summary } = diffGraphs(
+    withoutExternalModules(base.data),
+    withoutExternalModules(head.data)
+  );
+
+  return {
+    success: true,
+    data: {
+      nodes: graph.nodes,
+      edges: graph.edges,
+      metadata: {
+        fileName: head.data.metadata.fileName,
+        totalFunctions: graph.nodes.length,
+        totalCalls: graph.edges.length,
+        imports: head.data.metadata.imports,
+        exports: head.data.metadata.exports,
+        diff: summary,
+        fileSize: head.data.metadata.fileSize,
+        parseTime: Date.now() - startTime,
+      },
+    },
+  };
+}
+
+/**
+ * Fetches and analyzes one version of a compared file
+ */
+async function analyzeVersion(
+  url: string,
+  analyzer: AnalyzerBackend,
+  options: AnalysisRequestOptions
+): Promise<BrowserAnalysisOutcome> {
+  const validation = validateURL(url);
+  if (!validation.isValid) {
+    return { success: false, error: `Invalid URL: ${validation.error}` };
+  }
+  if (validation.isDirectory) {
+    return { success: false, error: 'Diffs compare single files, not repositories or directories' };
+  }
+
+  const fetchResult = await fetchCodeFromURL(url, { signal: options.signal });
+  options.signal?.throwIfAborted();
+  if (!fetchResult.success) {
+    return { success: false, error: fetchResult.error || 'Failed to fetch code' };
+  }
+
+  const fileName = getFilenameFromURL(url);
+  const outcome = await getAnalysisClient().analyze({ code: fetchResult.content!, filename: fileName }, analyzer, { signal: options.signal });
+  const source = { fileName, fileSize: fetchResult.size, parseTime: 0 };
+
+  // Only a file that could not be parsed is rejected; a version without
+  // functions is valid: everything in the other version is added or removed
+  if (!outcome.success && !outcome.errors.some(error => error.type === 'syntax')) {
+    return {
+      success: true,
+      data: { nodes: [], edges: [], metadata: { totalFunctions: 0, totalCalls: 0, imports: [], exports: [], ...source } },
+    };
+  }
+  return withSource(outcome, source);
+}
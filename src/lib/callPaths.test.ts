@@ -0,0 +1,111 @@
+/**
+ * Tests for Call Paths
+ */
+
+import type { Edge } from '@xyflow/react';
+import { findCallNeighborhood, findCallPaths, getPathEdgeIds } from './callPaths';
+
+// Builds edges from "a>b" strings
+const createEdges = (...pairs: string[]): Edge[] => pairs.map(pair => {
+  const [source, target] = pair.split('>');
+  return { id: `${source}-${target}`, source, target };
+});
+
+describe('findCallPaths', () => {
+  it('should list every path from source to target, shortest first', () => {
+    // handleSubmit -> validate -> fetchUser, handleSubmit -> save -> api -> fetchUser, handleSubmit -> fetchUser
+    const edges = createEdges(
+      'handleSubmit>validate',
+      'validate>fetchUser',
+      'handleSubmit>save',
+      'save>api',
+      'api>fetchUser',
+      'handleSubmit>fetchUser',
+      'fetchUser>log'
+    );
+
+    const result = findCallPaths(edges, 'handleSubmit', 'fetchUser');
+
+    expect(result.truncated).toBe(false);
+    expect(result.paths).toEqual([
+      ['handleSubmit', 'fetchUser'],
+      ['handleSubmit', 'validate', 'fetchUser'],
+      ['handleSubmit', 'save', 'api', 'fetchUser'],
+    ]);
+  });
+
+  it('should follow call direction', () => {
+    const edges = createEdges('a>b', 'b>c');
+
+    expect(findCallPaths(edges, 'c', 'a').paths).toEqual([]);
+    expect(findCallPaths(edges, 'a', 'c').paths).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('should not revisit functions in cycles', () => {
+    const edges = createEdges('a>b', 'b>a', 'b>c', 'c>b', 'c>d', 'a>a');
+
+    expect(findCallPaths(edges, 'a', 'd').paths).toEqual([['a', 'b', 'c', 'd']]);
+  });
+
+  it('should return the shortest N paths and report truncation', () => {
+    // Four parallel two-call paths and one three-call path
+    const edges = createEdges(
+      's>a', 'a>t',
+      's>b', 'b>t',
+      's>c', 'c>t',
+      's>d', 'd>e', 'e>t'
+    );
+
+    const shortest = findCallPaths(edges, 's', 't', { maxPaths: 1 });
+    expect(shortest.paths).toEqual([['s', 'a', 't']]);
+    expect(shortest.truncated).toBe(true);
+
+    const all = findCallPaths(edges, 's', 't', { maxPaths: 4 });
+    expect(all.paths).toHaveLength(4);
+    expect(all.paths[3]).toEqual(['s', 'd', 'e', 't']);
+    expect(all.truncated).toBe(false);
+  });
+
+  it('should skip paths longer than the length limit', () => {
+    const edges = createEdges('a>b', 'b>c', 'c>d', 'a>d');
+
+    expect(findCallPaths(edges, 'a', 'd', { maxLength: 2 }).paths).toEqual([['a', 'd']]);
+  });
+
+  it('should return nothing for a function and itself', () => {
+    expect(findCallPaths(createEdges('a>a'), 'a', 'a')).toEqual({ paths: [], truncated: false });
+  });
+});
+
+describe('getPathEdgeIds', () => {
+  it('should collect the edges along the paths', () => {
+    const edges = createEdges('a>b', 'b>c', 'a>c', 'c>a');
+
+    expect(getPathEdgeIds(edges, [['a', 'b', 'c']])).toEqual(['a-b', 'b-c']);
+    expect(getPathEdgeIds(edges, [['a', 'c'], ['a', 'b', 'c']]).sort()).toEqual(['a-b', 'a-c', 'b-c']);
+  });
+});
+
+describe('findCallNeighborhood', () => {
+  // main -> load -> parse -> tokenize, main -> render, test -> parse
+  const edges = createEdges('main>load', 'load>parse', 'parse>tokenize', 'main>render', 'test>parse');
+
+  it('should follow callees or callers up to the depth', () => {
+    expect(Object.fromEntries(findCallNeighborhood(edges, 'load', 'downstream', 1))).toEqual({ load: 0, parse: 1 });
+    expect(Object.fromEntries(findCallNeighborhood(edges, 'parse', 'upstream', 2))).toEqual({ parse: 0, load: 1, test: 1, main: 2 });
+  });
+
+  it('should walk both directions without picking up siblings', () => {
+    const both = findCallNeighborhood(edges, 'load', 'both', 0);
+
+    expect(Array.from(both.keys()).sort()).toEqual(['load', 'main', 'parse', 'tokenize']);
+    expect(both.has('render')).toBe(false);
+    expect(both.has('test')).toBe(false);
+  });
+
+  it('should treat depth 0 as unlimited and stop at cycles', () => {
+    const cyclic = createEdges('a>b', 'b>c', 'c>a', 'c>d');
+
+    expect(Object.fromEntries(findCallNeighborhood(cyclic, 'a', 'downstream', 0))).toEqual({ a: 0, b: 1, c: 2, d: 3 });
+  });
+});
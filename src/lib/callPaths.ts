@@ -0,0 +1,204 @@
+/**
+ * Call Paths Module
+ * Finds the call chains leading from one function to another, shortest first,
+ * and the functions reachable from one function through calls.
+ */
+
+import type { Edge } from '@xyflow/react';
+import type { FocusOptions } from '../types';
+
+/**
+ * Options for the path search
+ */
+export interface CallPathOptions {
+  /** Maximum number of paths to return */
+  maxPaths: number;
+  /** Longest path searched, in calls */
+  maxLength: number;
+}
+
+export const DEFAULT_CALL_PATH_OPTIONS: CallPathOptions = {
+  maxPaths: 10,
+  maxLength: 12,
+};
+
+/**
+ * Result of a path search
+ */
+export interface CallPathResult {
+  /** Paths as node ID sequences from source to target, shortest first */
+  paths: string[][];
+  /** Whether more paths exist than were returned */
+  truncated: boolean;
+}
+
+// Upper bound on search steps so dense graphs cannot freeze the UI
+const MAX_SEARCH_STEPS = 200000;
+
+/**
+ * Finds simple call paths (no function visited twice) from a source to a target.
+ * Paths are returned in order of length, so the first path is a shortest one.
+ * @param edges - Call edges (source calls target)
+ * @param sourceId - Node ID of the calling function
+ * @param targetId - Node ID of the function that is eventually called
+ * @param options - Path count and length limits
+ * @returns Paths found, shortest first
+ */
+export function findCallPaths(
+  edges: Edge[],
+  sourceId: string,
+  targetId: string,
+  options: Partial<CallPathOptions> = {}
+): CallPathResult {
+  const { maxPaths, maxLength } = { ...DEFAULT_CALL_PATH_OPTIONS, ...options };
+  if (sourceId === targetId || maxPaths <= 0) {
+    return { paths: [], truncated: false };
+  }
+
+  const callees = new Map<string, string[]>();
+  const callers = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    addUnique(callees, edge.source, edge.target);
+    addUnique(callers, edge.target, edge.source);
+  });
+
+  // Calls remaining to the target from each function that can reach it
+  const distanceToTarget = new Map<string, number>([[targetId, 0]]);
+  const queue = [targetId];
+  for (let index = 0; index < queue.length; index++) {
+    const current = queue[index];
+    (callers.get(current) || []).forEach(caller => {
+      if (!distanceToTarget.has(caller)) {
+        distanceToTarget.set(caller, distanceToTarget.get(current)! + 1);
+        queue.push(caller);
+      }
+    });
+  }
+
+  const shortest = distanceToTarget.get(sourceId);
+  if (shortest === undefined) {
+    return { paths: [], truncated: false };
+  }
+
+  // One more path than requested tells whether the result was cut short
+  const paths: string[][] = [];
+  let steps = 0;
+  let budgetExceeded = false;
+  const visited = new Set<string>([sourceId]);
+  const path = [sourceId];
+
+  const search = (current: string, length: number): void => {
+    if (paths.length > maxPaths || budgetExceeded) return;
+    if (++steps > MAX_SEARCH_STEPS) {
+      budgetExceeded = true;
+      return;
+    }
+    if (current === targetId) {
+      if (path.length - 1 === length) paths.push([...path]);
+      return;
+    }
+
+    (callees.get(current) || []).forEach(callee => {
+      const remaining = distanceToTarget.get(callee);
+      // Only follow calls that can still reach the target within the length
+      if (remaining === undefined || visited.has(callee) || path.length + remaining > length) return;
+      visited.add(callee);
+      path.push(callee);
+      search(callee, length);
+      path.pop();
+      visited.delete(callee);
+    });
+  };
+
+  // Iterative deepening returns paths grouped by length, shortest first
+  const longest = Math.min(maxLength, distanceToTarget.size - 1);
+  for (let length = shortest; length <= longest && paths.length <= maxPaths && !budgetExceeded; length++) {
+    search(sourceId, length);
+  }
+
+  return {
+    paths: paths.slice(0, maxPaths),
+    truncated: paths.length > maxPaths || budgetExceeded,
+  };
+}
+
+/**
+ * Collects the IDs of the edges along the given paths
+ * @param edges - Call edges
+ * @param paths - Node ID sequences
+ * @returns Edge IDs connecting consecutive nodes of any path
+ */
+export function getPathEdgeIds(edges: Edge[], paths: string[][]): string[] {
+  const steps = new Set<string>();
+  paths.forEach(path => {
+    for (let index = 1; index < path.length; index++) {
+      steps.add(`${path[index - 1]}\u0000${path[index]}`);
+    }
+  });
+
+  return edges
+    .filter(edge => steps.has(`${edge.source}\u0000${edge.target}`))
+    .map(edge => edge.id);
+}
+
+/**
+ * Finds the transitive callers and/or callees of a function
+ * @param edges - Call edges (source calls target)
+ * @param nodeId - Node ID of the focused function
+ * @param direction - 'upstream' for callers, 'downstream' for callees, or both
+ * @param depth - Maximum number of calls away from the function; 0 means no limit
+ * @returns Node IDs mapped to their distance in calls, including the function itself at 0
+ */
+export function findCallNeighborhood(
+  edges: Edge[],
+  nodeId: string,
+  direction: FocusOptions['direction'],
+  depth: number
+): Map<string, number> {
+  const callees = new Map<string, string[]>();
+  const callers = new Map<string, string[]>();
+  edges.forEach(edge => {
+    addUnique(callees, edge.source, edge.target);
+    addUnique(callers, edge.target, edge.source);
+  });
+
+  const distances = new Map<string, number>([[nodeId, 0]]);
+  const maxDepth = depth > 0 ? depth : Infinity;
+
+  // Callers and callees are walked separately, so "both" does not pick up
+  // siblings (other callees of a caller)
+  const walk = (neighbors: Map<string, string[]>) => {
+    const seen = new Map<string, number>([[nodeId, 0]]);
+    const queue = [nodeId];
+    for (let index = 0; index < queue.length; index++) {
+      const current = queue[index];
+      const distance = seen.get(current)!;
+      if (distance >= maxDepth) continue;
+      (neighbors.get(current) || []).forEach(neighbor => {
+        if (seen.has(neighbor)) return;
+        seen.set(neighbor, distance + 1);
+        queue.push(neighbor);
+      });
+    }
+    seen.forEach((distance, id) => {
+      distances.set(id, Math.min(distance, distances.get(id) ?? Infinity));
+    });
+  };
+
+  if (direction !== 'downstream') walk(callers);
+  if (direction !== 'upstream') walk(callees);
+  return distances;
+}
+
+/**
+ * Adds a value to a map of lists unless it is already listed
+ */
+function addUnique(map: Map<string, string[]>, key: string, value: string): void {
+  const list = map.get(key);
+  if (!list) {
+    map.set(key, [value]);
+  } else if (!list.includes(value)) {
+    list.push(value);
+  }
+}
@@ -39,6 +39,18 @@ describe('parseTypeScriptCode', () => {
       expect(result.functions[1].name).toBe('add');
     });
 
+    it('should report progress after each extraction step', async () => {
+      const onProgress = jest.fn();
+
+      await parseTypeScriptCode('function a() { b(); }\nfunction b() {}', { onProgress });
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { stage: 'functions' },
+        { stage: 'calls', functions: 2 },
+        { stage: 'calls', functions: 2, calls: 1 },
+      ]);
+    });
+
     it('should handle empty input', async () => {
       const result = await parseTypeScriptCode('');
       expect(result.errors).toHaveLength(1);
@@ -224,6 +236,36 @@ describe('parseTypeScriptCode', () => {
       expect(calls.some(c => c.caller === 'outer' && c.callee === 'inner')).toBe(true);
       expect(calls.some(c => c.caller === 'inner' && c.callee === 'target')).toBe(true);
     });
+
+    it('should extract calls into imported modules as external calls', async () => {
+      const code = `
+        import axios from 'axios';
+        import { useState } from 'react';
+        import * as fs from 'node:fs';
+        import { format } from './utils';
+        export function load() {
+          return axios.get('/items');
+        }
+        function Counter() {
+          const [count] = useState(0);
+          return fs.readFileSync(format(count));
+        }
+        function shadowed(format: (value: number) => string) {
+          return format(1);
+        }
+        axios.get('/top-level');
+      `;
+
+      const result = await parseTypeScriptCode(code);
+
+      expect(result.calls).toHaveLength(0);
+      expect(result.externalCalls!.map(call => [call.caller, call.module, call.callee])).toEqual([
+        ['load', 'axios', 'get'],
+        ['Counter', 'react', 'useState'],
+        ['Counter', 'node:fs', 'readFileSync'],
+        ['Counter', './utils', 'format'],
+      ]);
+    });
   });
 
   describe('Import/Export extraction', () => {
@@ -240,13 +282,173 @@ describe('parseTypeScriptCode', () => {
       `;
 
       const result = await parseTypeScriptCode(code);
-      const metadata = (result as any).metadata;
+      const metadata = result.metadata!;
 
       expect(metadata.imports).toContain('./helper');
       expect(metadata.imports).toContain('react');
       expect(metadata.exports).toContain('exported1');
       expect(metadata.exports).toContain('exported2');
     });
+
+    it('should summarize import specifiers and type-only imports', async () => {
+      const code = `
+        import React, { useState, type FC } from 'react';
+        import type { Config } from './config';
+        import * as path from 'path';
+        import './styles.css';
+      `;
+
+      const { imports } = (await parseTypeScriptCode(code)).metadata!.module;
+
+      expect(imports).toEqual([
+        {
+          source: 'react',
+          typeOnly: false,
+          specifiers: [
+            { importedName: 'default', localName: 'React', typeOnly: false },
+            { importedName: 'useState', localName: 'useState', typeOnly: false },
+            { importedName: 'FC', localName: 'FC', typeOnly: true },
+          ],
+        },
+        { source: './config', typeOnly: true, specifiers: [{ importedName: 'Config', localName: 'Config', typeOnly: true }] },
+        { source: 'path', typeOnly: false, specifiers: [{ importedName: '*', localName: 'path', typeOnly: false }] },
+        { source: './styles.css', typeOnly: false, specifiers: [] },
+      ]);
+    });
+
+    it('should classify exports by kind and list top-level declarations', async () => {
+      const code = `
+        import { shared } from './shared';
+        export function run(): void {}
+        export const double = (x: number) => x * 2;
+        export const LIMIT = 10;
+        export class Service {}
+        export interface Options {}
+        export type Mode = 'a' | 'b';
+        export enum Level { Low }
+        export { helper as assist, shared };
+        export { other } from './other';
+        export * from './all';
+        export default Service;
+        function helper() {}
+        let counter = 0;
+      `;
+
+      const { exports, declarations } = (await parseTypeScriptCode(code)).metadata!.module;
+
+      expect(exports.map(entry => [entry.name, entry.kind])).toEqual([
+        ['run', 'function'],
+        ['double', 'function'],
+        ['LIMIT', 'const'],
+        ['Service', 'class'],
+        ['Options', 'type'],
+        ['Mode', 'type'],
+        ['Level', 'const'],
+        ['other', 're-export'],
+        ['*', 're-export'],
+        ['default', 'default'],
+        ['assist', 'function'],
+        ['shared', 're-export'],
+      ]);
+      expect(exports).toContainEqual({ name: 'default', kind: 'default', localName: 'Service' });
+      expect(exports).toContainEqual({ name: 'other', kind: 're-export', localName: 'other', source: './other' });
+      expect(declarations.map(entry => [entry.name, entry.kind, entry.exported])).toEqual([
+        ['run', 'function', true],
+        ['double', 'variable', true],
+        ['LIMIT', 'variable', true],
+        ['Service', 'class', true],
+        ['Options', 'interface', true],
+        ['Mode', 'type', true],
+        ['Level', 'enum', true],
+        ['helper', 'function', true],
+        ['counter', 'variable', false],
+      ]);
+      expect(declarations.find(entry => entry.name === 'counter')?.line).toBe(15);
+    });
+  });
+
+  describe('Complexity metrics', () => {
+    it('should attach metrics to every extracted function', async () => {
+      const code = `
+        export function pick(values: number[]) {
+          for (const value of values) {
+            if (value > 0) return value;
+          }
+          return 0;
+        }
+        const double = (x: number) => x * 2;
+      `;
+
+      const result = await parseTypeScriptCode(code);
+      const pick = result.functions.find(f => f.name === 'pick')!;
+      const double = result.functions.find(f => f.name === 'double')!;
+
+      expect(pick.metrics).toEqual({
+        cyclomatic: 3,
+        cognitive: 3,
+        maxNesting: 2,
+        linesOfCode: 6,
+        returnPoints: 2,
+      });
+      expect(double.metrics).toMatchObject({ cyclomatic: 1, returnPoints: 1, linesOfCode: 1 });
+    });
+  });
+
+  describe('Class extraction', () => {
+    it('should extract classes with their heritage and members', async () => {
+      const code = `
+        interface Named { name: string; }
+        interface Shape extends Named { area(): number; }
+
+        /** Base for all shapes */
+        export abstract class Base implements Shape {
+          name = 'base';
+          #id = 1;
+          abstract area(): number;
+          describe() { return this.name; }
+        }
+
+        class Circle extends Base implements Shape, Named {
+          radius = 1;
+          area() { return 3 * this.radius; }
+        }
+      `;
+
+      const result = await parseTypeScriptCode(code);
+      const classes = result.classes!;
+
+      expect(classes.map(c => `${c.kind}:${c.name}`)).toEqual([
+        'interface:Named',
+        'interface:Shape',
+        'class:Base',
+        'class:Circle',
+      ]);
+
+      const shape = classes.find(c => c.name === 'Shape')!;
+      expect(shape.extends).toEqual([{ name: 'Named' }]);
+      expect(shape.methods).toEqual(['Shape.area']);
+
+      const base = classes.find(c => c.name === 'Base')!;
+      expect(base).toMatchObject({
+        exported: true,
+        abstract: true,
+        documentation: 'Base for all shapes',
+        implements: [{ name: 'Shape' }],
+        properties: ['name', '#id'],
+        methods: ['Base.area', 'Base.describe'],
+      });
+
+      const circle = classes.find(c => c.name === 'Circle')!;
+      expect(circle.extends).toEqual([{ name: 'Base' }]);
+      expect(circle.implements).toEqual([{ name: 'Shape' }, { name: 'Named' }]);
+      expect(circle.location.startLine).toBe(13);
+    });
+
+    it('should read qualified base class names', async () => {
+      const result = await parseTypeScriptCode('class View extends React.Component {}');
+
+      expect(result.classes![0].extends).toEqual([{ name: 'React.Component' }]);
+    });
   });
 
   describe('Error handling', () => {
@@ -269,6 +471,84 @@ describe('parseTypeScriptCode', () => {
       expect(result.errors[0].line).toBeDefined();
       expect(result.errors[0].column).toBeDefined();
     });
+
+    it('should keep the functions of a file with recoverable errors', async () => {
+      const code = [
+        'function first() { await load(); second(); }',
+        'function second() {',
+        '  let value = 1;',
+        '  let value = 2;',
+        '}',
+      ].join('\n');
+      const result = await parseTypeScriptCode(code);
+
+      expect(result.functions.map(f => f.name)).toEqual(['first', 'second']);
+      expect(result.calls).toEqual([expect.objectContaining({ caller: 'first', callee: 'second' })]);
+      expect(result.errors).toEqual([
+        {
+          type: 'syntax',
+          message: "'await' is only allowed within async functions and at the top levels of modules.",
+          line: 1,
+          column: 19,
+        },
+        expect.objectContaining({ type: 'syntax', message: expect.stringContaining("'value' has already been declared"), line: 4 }),
+      ]);
+    });
+
+    it('should skip unparseable lines and analyze the rest of the file', async () => {
+      const code = [
+        'function valid() { helper(); }',
+        'function broken(x: number {',
+        '  return x;',
+        '}',
+        'function helper() {}',
+      ].join('\n');
+      const result = await parseTypeScriptCode(code);
+
+      expect(result.functions.map(f => f.name)).toEqual(['valid', 'helper']);
+      expect(result.calls).toEqual([expect.objectContaining({ caller: 'valid', callee: 'helper' })]);
+      expect(result.errors.map(error => [error.type, error.line])).toEqual([['syntax', 2], ['syntax', 4]]);
+      expect(result.functions[1].location.startLine).toBe(5);
+    });
+  });
+
+  describe('Filename option', () => {
+    it('should parse angle-bracket type assertions in .ts files', async () => {
+      const code = `
+        function toNumber(value: unknown): number {
+          return <number>value;
+        }
+      `;
+      const result = await parseTypeScriptCode(code, { filename: 'convert.ts' });
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.functions.map(f => f.name)).toEqual(['toNumber']);
+    });
+
+    it('should parse JSX in .tsx files', async () => {
+      const code = `
+        export function Greeting({ name }: { name: string }) {
+          return <span>{format(name)}</span>;
+        }
+        function format(name: string) {
+          return name.trim();
+        }
+      `;
+      const result = await parseTypeScriptCode(code, { filename: 'Greeting.tsx' });
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.calls).toEqual([
+        expect.objectContaining({ caller: 'Greeting', callee: 'format' }),
+      ]);
+    });
+
+    it('should report JSX in .ts files as a syntax error', async () => {
+      const code = 'export function View() { return <div />; }';
+      const result = await parseTypeScriptCode(code, { filename: 'view.ts' });
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe('syntax');
+    });
   });
 
   describe('Fixture files', () => {
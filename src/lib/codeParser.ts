@@ -4,14 +4,25 @@
  */
 
 import { parse } from '@babel/parser';
+import type { ParseError as BabelParseError, ParseResult } from '@babel/parser';
 import traverse from '@babel/traverse';
 import * as t from '@babel/types';
+import { calculateComplexityMetrics } from './complexityMetrics';
 import type { 
   FunctionData, 
   FunctionCall, 
   ParsedCodeResult, 
   ParseError, 
-  FunctionParameter 
+  FunctionParameter,
+  ImportBinding,
+  ExportBinding,
+  ExternalCall,
+  ExportKind,
+  ModuleDeclaration,
+  ModuleSummary,
+  ClassData,
+  ComplexityMetrics,
+  AnalysisProgress
 } from '../types';
 
 /**
@@ -36,14 +47,40 @@ const PARSER_CONFIG = {
   allowImportExportEverywhere: true,
   allowReturnOutsideFunction: true,
   allowUndeclaredExports: true,
+  errorRecovery: true,
 };
 
+/**
+ * Most unparseable lines skipped before a file is reported as unparseable
+ */
+const MAX_SKIPPED_LINES = 20;
+
+/**
+ * AST of a possibly broken file with the problems found while parsing it
+ */
+export interface RecoveredAST {
+  ast: t.File;
+  /** Errors Babel recovered from and lines skipped to get past fatal ones, by position */
+  errors: ParseError[];
+}
+
+/**
+ * Options for parsing a single source file
+ */
+export interface ParseOptions {
+  /** File name used to choose TS or TSX parsing (e.g. `Button.tsx`) */
+  filename?: string;
+  /** Called after each extraction step with the counts so far */
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
 /**
  * Parses TypeScript code and extracts function information and relationships
  * @param code - TypeScript source code string
+ * @param options - Parsing options
  * @returns Parsed code result with functions, calls, and any errors
  */
-export async function parseTypeScriptCode(code: string): Promise<ParsedCodeResult> {
+export async function parseTypeScriptCode(code: string, options: ParseOptions = {}): Promise<ParsedCodeResult> {
   const result: ParsedCodeResult = {
     functions: [],
     calls: [],
@@ -68,83 +105,186 @@ export async function parseTypeScriptCode(code: string): Promise<ParsedCodeResul
       return result;
     }
 
-    // Parse code into AST with fallback strategies
-    let ast;
-    try {
-      // First attempt: Full TypeScript + JSX
-      ast = parse(code, PARSER_CONFIG as any);
-    } catch (firstError) {
-      try {
-        // Second attempt: TypeScript only (no JSX)
-        ast = parse(code, {
-          ...PARSER_CONFIG,
-          plugins: PARSER_CONFIG.plugins.filter(p => p !== 'jsx'),
-        } as any);
-      } catch (secondError) {
-        // Third attempt: Minimal configuration
-        ast = parse(code, {
-          sourceType: 'module',
-          plugins: ['typescript'],
-          strictMode: false,
-          allowImportExportEverywhere: true,
-          allowReturnOutsideFunction: true,
-          allowUndeclaredExports: true,
-        } as any);
-      }
-    }
+    // Parse code into AST with fallback strategies, keeping what parses of a broken file
+    const { ast, errors } = parseASTWithRecovery(code, options.filename);
+    result.errors.push(...errors);
+    await reportProgress(options, { stage: 'functions' });
     
     // Extract functions
     const functions = extractFunctions(ast, code);
     result.functions = functions;
+    await reportProgress(options, { stage: 'calls', functions: functions.length });
 
     // Extract function calls
     const functionNames = functions.map(f => f.name);
     result.calls = extractFunctionCalls(ast, functionNames);
+    await reportProgress(options, { stage: 'calls', functions: functions.length, calls: result.calls.length });
+
+    // Calls into imported modules become external dependency nodes
+    result.externalCalls = extractExternalCalls(ast, functions, extractModuleBindings(ast).imports);
+
+    // Extract classes and interfaces
+    result.classes = extractClasses(ast, code);
 
     // Extract imports and exports for context
     const { imports, exports } = extractImportsAndExports(ast);
     
     // Add metadata
-    (result as any).metadata = {
+    result.metadata = {
       totalFunctions: functions.length,
       totalCalls: result.calls.length,
       imports,
       exports,
+      module: extractModuleSummary(ast),
     };
 
   } catch (error) {
-    const parseError: ParseError = {
-      type: 'syntax',
-      message: 'Failed to parse TypeScript code with all fallback strategies',
-    };
+    result.errors.push(createSyntaxError(error));
+  }
 
-    if (error instanceof Error) {
-      // Clean up the error message for better readability
-      let cleanMessage = error.message;
-      
-      // Handle common JSX/TSX parsing errors
-      if (cleanMessage.includes('Unexpected token')) {
-        if (cleanMessage.includes('<')) {
-          cleanMessage = 'JSX/TSX syntax detected but parsing failed. The file may contain invalid JSX syntax or unsupported React patterns.';
-        } else {
-          cleanMessage = `Syntax error: ${cleanMessage}`;
-        }
-      }
-      
-      parseError.message = cleanMessage;
-      
-      // Extract line/column info from Babel parse errors
-      const match = error.message.match(/\((\d+):(\d+)\)/);
-      if (match) {
-        parseError.line = parseInt(match[1], 10);
-        parseError.column = parseInt(match[2], 10);
-      }
+  return result;
+}
+
+/**
+ * Parses source code into a Babel AST, retrying with progressively
+ * simpler parser configurations when the full configuration fails.
+ * When a filename is given its extension decides whether JSX is enabled:
+ * `.tsx` files always parse with JSX, `.ts` files never do (so `<T>value`
+ * type assertions are not mistaken for JSX). Errors Babel can recover from
+ * (e.g. redeclarations) are kept in `errors` of the AST; a configuration
+ * that parses without any is preferred.
+ * @param code - TypeScript source code string
+ * @param filename - Optional file name used to pick TS or TSX parsing
+ * @returns Babel AST
+ * @throws The error from the last parse attempt
+ */
+export function parseAST(code: string, filename?: string): t.File {
+  const fullConfig = PARSER_CONFIG;
+  const noJsxConfig = {
+    ...PARSER_CONFIG,
+    plugins: PARSER_CONFIG.plugins.filter(p => p !== 'jsx'),
+  };
+  const minimalConfig = {
+    sourceType: 'module',
+    plugins: ['typescript'],
+    strictMode: false,
+    allowImportExportEverywhere: true,
+    allowReturnOutsideFunction: true,
+    allowUndeclaredExports: true,
+  };
+
+  const extension = filename?.toLowerCase().match(/\.tsx?$/)?.[0];
+  const attempts = extension === '.tsx'
+    ? [fullConfig]
+    : extension === '.ts'
+      ? [noJsxConfig, minimalConfig]
+      // First attempt: Full TypeScript + JSX, then TypeScript only, then minimal
+      : [fullConfig, noJsxConfig, minimalConfig];
+
+  let lastError: unknown;
+  let recovered: t.File | undefined;
+  for (const config of attempts) {
+    try {
+      const ast = parse(code, config as any);
+      if (!ast.errors?.length) return ast;
+      recovered ??= ast;
+    } catch (error) {
+      lastError = error;
     }
+  }
+
+  if (recovered) return recovered;
+  throw lastError;
+}
 
-    result.errors.push(parseError);
+/**
+ * Parses source code that may be broken. Errors Babel recovers from are
+ * reported; on a fatal error the offending line is blanked and parsing is
+ * retried, so the rest of the file still yields functions and calls. Line
+ * and column positions are unchanged, so the AST matches the original source.
+ * @param code - TypeScript source code string
+ * @param filename - Optional file name used to pick TS or TSX parsing
+ * @returns AST and the syntax errors found, sorted by position
+ * @throws The first fatal parse error when the file cannot be recovered
+ */
+export function parseASTWithRecovery(code: string, filename?: string): RecoveredAST {
+  const skipped: ParseError[] = [];
+  let source = code;
+  let firstError: unknown;
+
+  for (let attempt = 0; attempt <= MAX_SKIPPED_LINES; attempt++) {
+    try {
+      const ast = parseAST(source, filename);
+      // Scope tracking throws on redeclared bindings while traversing, so their lines are skipped too
+      const redeclaration = getBabelErrors(ast).find(error => error.reasonCode === 'VarRedeclaration');
+      if (redeclaration) throw redeclaration;
+
+      const errors = [...skipped, ...getRecoveredErrors(ast)];
+      errors.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+      return { ast, errors };
+    } catch (error) {
+      firstError ??= error;
+      const skip = skipUnparseableLine(source, error);
+      if (!skip) break;
+      const syntaxError = createSyntaxError(error);
+      skipped.push(syntaxError.line === skip.line ? syntaxError : { ...syntaxError, line: skip.line, column: undefined });
+      source = skip.source;
+    }
   }
 
-  return result;
+  throw firstError;
+}
+
+/**
+ * Converts the errors Babel recovered from into syntax ParseErrors
+ * @param ast - AST parsed with `errorRecovery`
+ * @returns Parse errors with line/column information
+ */
+export function getRecoveredErrors(ast: t.File): ParseError[] {
+  return getBabelErrors(ast).map(error => ({
+    type: 'syntax' as const,
+    // The position has its own fields, so drop the "(line:column)" suffix
+    message: error.message.replace(/\s*\(\d+:\d+\)$/, ''),
+    line: error.loc.line,
+    column: error.loc.column,
+  }));
+}
+
+/**
+ * Converts a thrown parser error into a readable syntax ParseError
+ * @param error - Error thrown while parsing
+ * @returns Parse error with line/column information when available
+ */
+export function createSyntaxError(error: unknown): ParseError {
+  const parseError: ParseError = {
+    type: 'syntax',
+    message: 'Failed to parse TypeScript code with all fallback strategies',
+  };
+
+  if (error instanceof Error) {
+    // Clean up the error message for better readability
+    let cleanMessage = error.message;
+    
+    // Handle common JSX/TSX parsing errors
+    if (cleanMessage.includes('Unexpected token')) {
+      if (cleanMessage.includes('<')) {
+        cleanMessage = 'JSX/TSX syntax detected but parsing failed. The file may contain invalid JSX syntax or unsupported React patterns.';
+      } else {
+        cleanMessage = `Syntax error: ${cleanMessage}`;
+      }
+    }
+    
+    parseError.message = cleanMessage;
+    
+    // Extract line/column info from Babel parse errors
+    const match = error.message.match(/\((\d+):(\d+)\)/);
+    if (match) {
+      parseError.line = parseInt(match[1], 10);
+      parseError.column = parseInt(match[2], 10);
+    }
+  }
+
+  return parseError;
 }
 
 /**
@@ -173,6 +313,7 @@ export function extractFunctions(ast: t.Node, sourceCode: string): FunctionData[
           exported: isExported(path),
           documentation: extractJSDoc(path, lines),
           sourceCode: extractSourceCode(sourceCode, node.loc || null),
+          metrics: calculateComplexityMetrics(node, lines),
         }
       );
 
@@ -206,6 +347,7 @@ export function extractFunctions(ast: t.Node, sourceCode: string): FunctionData[
             exported: isExported(path.parent),
             documentation: extractJSDoc(path, lines),
             sourceCode: extractSourceCode(sourceCode, node.loc || null),
+            metrics: calculateComplexityMetrics(functionNode, lines),
           }
         );
 
@@ -231,6 +373,7 @@ export function extractFunctions(ast: t.Node, sourceCode: string): FunctionData[
           exported: isClassExported(path),
           documentation: extractJSDoc(path, lines),
           sourceCode: extractSourceCode(sourceCode, node.loc || null),
+          metrics: calculateComplexityMetrics(node, lines),
         }
       );
 
@@ -255,6 +398,7 @@ export function extractFunctions(ast: t.Node, sourceCode: string): FunctionData[
           exported: false, // Object methods are typically not directly exported
           documentation: extractJSDoc(path, lines),
           sourceCode: extractSourceCode(sourceCode, node.loc || null),
+          metrics: calculateComplexityMetrics(node, lines),
         }
       );
 
@@ -310,6 +454,7 @@ export function extractFunctions(ast: t.Node, sourceCode: string): FunctionData[
               exported: false, // Callback functions are typically not exported
               documentation: extractJSDoc(path, lines),
               sourceCode: extractSourceCode(sourceCode, firstArg.loc || null),
+              metrics: calculateComplexityMetrics(firstArg, lines),
             }
           );
 
@@ -355,6 +500,7 @@ export function extractFunctions(ast: t.Node, sourceCode: string): FunctionData[
             exported: false, // JSX handlers are not exported
             documentation: '', // JSX handlers typically don't have JSDoc
             sourceCode: extractSourceCode(sourceCode, expression.loc || null),
+            metrics: calculateComplexityMetrics(expression, lines),
           }
         );
 
@@ -578,6 +724,147 @@ export function extractFunctionCalls(ast: t.Node, functionNames: string[]): Func
   return calls;
 }
 
+/**
+ * Extracts calls into imported modules: a callee whose name (or the object of
+ * `name.member()`) is bound by an import. Each call is attributed to the
+ * innermost extracted function containing it; calls outside every function
+ * and type-only imports are left out.
+ * @param ast - Babel AST
+ * @param functions - Functions extracted from the same AST
+ * @param imports - Import bindings of the module that count as external
+ * @returns Calls with the module specifier and the called member
+ */
+export function extractExternalCalls(ast: t.Node, functions: FunctionData[], imports: ImportBinding[]): ExternalCall[] {
+  const calls: ExternalCall[] = [];
+  const bindings = new Map(imports.filter(binding => !binding.typeOnly).map(binding => [binding.localName, binding]));
+  if (bindings.size === 0) return calls;
+
+  traverse(ast, {
+    CallExpression(path) {
+      const callee = path.node.callee;
+      let localName: string | undefined;
+      let member: string | undefined;
+
+      if (t.isIdentifier(callee)) {
+        localName = callee.name;
+      } else if (t.isMemberExpression(callee) && t.isIdentifier(callee.object) && t.isIdentifier(callee.property) && !callee.computed) {
+        localName = callee.object.name;
+        member = callee.property.name;
+      }
+
+      // Local declarations may shadow an imported name
+      const binding = localName ? bindings.get(localName) : undefined;
+      if (!binding || path.scope.getBinding(localName!)?.kind !== 'module') return;
+
+      const loc = path.node.loc;
+      const caller = loc ? findEnclosingFunction(functions, loc.start) : undefined;
+      if (!caller) return;
+
+      const importsModule = binding.importedName === '*' || binding.importedName === 'default';
+      calls.push({
+        caller: caller.name,
+        module: binding.source,
+        callee: member
+          ? importsModule ? member : `${binding.importedName}.${member}`
+          : binding.importedName,
+        lineNumber: loc!.start.line,
+        columnNumber: loc!.start.column,
+      });
+    },
+  });
+
+  return calls;
+}
+
+/**
+ * Extracts class and interface declarations with their members and heritage
+ * @param ast - Babel AST
+ * @param sourceCode - Original source code
+ * @returns Array of class and interface data
+ */
+export function extractClasses(ast: t.Node, sourceCode: string): ClassData[] {
+  const classes: ClassData[] = [];
+  const lines = sourceCode.split('\n');
+
+  traverse(ast, {
+    // Classes: class X extends Y implements Z {}
+    Class(path) {
+      const node = path.node;
+      if (!node.id) return;
+
+      const className = node.id.name;
+      const methods: string[] = [];
+      const properties: string[] = [];
+
+      node.body.body.forEach(member => {
+        if ((t.isClassMethod(member) || t.isTSDeclareMethod(member)) && t.isIdentifier(member.key)) {
+          const methodName = `${className}.${member.key.name}`;
+          if (!methods.includes(methodName)) methods.push(methodName);
+        } else if (t.isClassProperty(member) && t.isIdentifier(member.key)) {
+          properties.push(member.key.name);
+        } else if (t.isClassPrivateProperty(member)) {
+          properties.push(`#${member.key.id.name}`);
+        }
+      });
+
+      const superClass = node.superClass ? getEntityName(node.superClass) : null;
+      const exported = isExported(path);
+
+      classes.push({
+        name: className,
+        kind: 'class',
+        extends: superClass ? [{ name: superClass }] : [],
+        implements: (node.implements || [])
+          .map(heritage => t.isTSExpressionWithTypeArguments(heritage) ? getEntityName(heritage.expression) : null)
+          .filter((name): name is string => Boolean(name))
+          .map(name => ({ name })),
+        methods,
+        properties,
+        location: createLocation(node.loc || null),
+        exported,
+        abstract: t.isClassDeclaration(node) && Boolean(node.abstract),
+        documentation: extractJSDoc(exported ? path.parentPath : path, lines),
+      });
+    },
+
+    // Interfaces: interface X extends Y, Z {}
+    TSInterfaceDeclaration(path) {
+      const node = path.node;
+      const interfaceName = node.id.name;
+      const methods: string[] = [];
+      const properties: string[] = [];
+
+      node.body.body.forEach(member => {
+        if (t.isTSMethodSignature(member) && t.isIdentifier(member.key)) {
+          const methodName = `${interfaceName}.${member.key.name}`;
+          if (!methods.includes(methodName)) methods.push(methodName);
+        } else if (t.isTSPropertySignature(member) && t.isIdentifier(member.key)) {
+          properties.push(member.key.name);
+        }
+      });
+
+      const exported = isExported(path);
+
+      classes.push({
+        name: interfaceName,
+        kind: 'interface',
+        extends: (node.extends || [])
+          .map(heritage => getEntityName(heritage.expression))
+          .filter((name): name is string => Boolean(name))
+          .map(name => ({ name })),
+        implements: [],
+        methods,
+        properties,
+        location: createLocation(node.loc || null),
+        exported,
+        documentation: extractJSDoc(exported ? path.parentPath : path, lines),
+      });
+    },
+  });
+
+  return classes;
+}
+
 /**
  * Extracts import and export information from the AST
  * @param ast - Babel AST
@@ -628,6 +915,183 @@ export function extractImportsAndExports(ast: t.Node): { imports: string[]; expo
   return { imports, exports };
 }
 
+/**
+ * Extracts import bindings and export bindings from the AST.
+ * Unlike extractImportsAndExports this keeps the mapping between local and
+ * exported names, which is needed to resolve calls across files.
+ * @param ast - Babel AST
+ * @returns Object with import and export bindings
+ */
+export function extractModuleBindings(ast: t.Node): { imports: ImportBinding[]; exports: ExportBinding[] } {
+  const imports: ImportBinding[] = [];
+  const exports: ExportBinding[] = [];
+
+  traverse(ast, {
+    ImportDeclaration(path) {
+      const source = path.node.source.value;
+      const declarationTypeOnly = path.node.importKind === 'type';
+
+      path.node.specifiers.forEach(spec => {
+        if (t.isImportDefaultSpecifier(spec)) {
+          imports.push({ localName: spec.local.name, importedName: 'default', source, typeOnly: declarationTypeOnly });
+        } else if (t.isImportNamespaceSpecifier(spec)) {
+          imports.push({ localName: spec.local.name, importedName: '*', source, typeOnly: declarationTypeOnly });
+        } else if (t.isImportSpecifier(spec)) {
+          imports.push({
+            localName: spec.local.name,
+            importedName: getModuleExportName(spec.imported),
+            source,
+            typeOnly: declarationTypeOnly || spec.importKind === 'type',
+          });
+        }
+      });
+    },
+
+    ExportNamedDeclaration(path) {
+      const declaration = path.node.declaration;
+      const source = path.node.source?.value;
+
+      if (declaration) {
+        if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+          exports.push({ exportedName: declaration.id.name, localName: declaration.id.name });
+        } else if (t.isTSInterfaceDeclaration(declaration)) {
+          // Interfaces are exported so heritage clauses can be resolved across files
+          exports.push({ exportedName: declaration.id.name, localName: declaration.id.name });
+        } else if (t.isVariableDeclaration(declaration)) {
+          declaration.declarations.forEach(declarator => {
+            if (t.isIdentifier(declarator.id)) {
+              exports.push({ exportedName: declarator.id.name, localName: declarator.id.name });
+            }
+          });
+        }
+      }
+
+      path.node.specifiers.forEach(spec => {
+        if (t.isExportSpecifier(spec)) {
+          exports.push({
+            exportedName: getModuleExportName(spec.exported),
+            localName: spec.local.name,
+            source,
+          });
+        } else if (t.isExportNamespaceSpecifier(spec) && source) {
+          // export * as ns from './module'
+          exports.push({ exportedName: spec.exported.name, localName: '*', source });
+        } else if (t.isExportDefaultSpecifier(spec) && source) {
+          // export foo from './module'
+          exports.push({ exportedName: spec.exported.name, localName: 'default', source });
+        }
+      });
+    },
+
+    ExportAllDeclaration(path) {
+      exports.push({ exportedName: '*', localName: '*', source: path.node.source.value });
+    },
+
+    ExportDefaultDeclaration(path) {
+      const declaration = path.node.declaration;
+      if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+        exports.push({ exportedName: 'default', localName: declaration.id.name });
+      } else if (t.isIdentifier(declaration)) {
+        exports.push({ exportedName: 'default', localName: declaration.name });
+      }
+    },
+  });
+
+  return { imports, exports };
+}
+
+/**
+ * Summarizes the module structure: import declarations with their specifiers,
+ * exports classified by kind, and the top-level declarations of the file.
+ * Only statements at the top level of the program are considered.
+ * @param ast - Babel AST of the file
+ * @returns Typed module summary
+ */
+export function extractModuleSummary(ast: t.File): ModuleSummary {
+  const summary: ModuleSummary = { imports: [], exports: [], declarations: [] };
+  const localKinds = new Map<string, ExportKind>();
+  const localExports: Array<{ name: string; localName: string; typeOnly: boolean }> = [];
+
+  const addDeclarations = (statement: t.Statement | t.Declaration, exported: boolean) => {
+    getTopLevelDeclarations(statement).forEach(({ declaration, kind }) => {
+      summary.declarations.push({ ...declaration, exported });
+      localKinds.set(declaration.name, kind);
+      if (exported) {
+        summary.exports.push({ name: declaration.name, kind, localName: declaration.name });
+      }
+    });
+  };
+
+  ast.program.body.forEach(statement => {
+    if (t.isImportDeclaration(statement)) {
+      const typeOnly = statement.importKind === 'type';
+      summary.imports.push({
+        source: statement.source.value,
+        typeOnly,
+        specifiers: statement.specifiers.map(spec => ({
+          importedName: t.isImportSpecifier(spec)
+            ? getModuleExportName(spec.imported)
+            : t.isImportDefaultSpecifier(spec) ? 'default' : '*',
+          localName: spec.local.name,
+          typeOnly: typeOnly || (t.isImportSpecifier(spec) && spec.importKind === 'type'),
+        })),
+      });
+    } else if (t.isExportNamedDeclaration(statement)) {
+      if (statement.declaration) {
+        addDeclarations(statement.declaration, true);
+      }
+      const source = statement.source?.value;
+      statement.specifiers.forEach(spec => {
+        const name = getModuleExportName(spec.exported);
+        if (source) {
+          const localName = t.isExportSpecifier(spec) ? spec.local.name : t.isExportDefaultSpecifier(spec) ? 'default' : '*';
+          summary.exports.push({ name, kind: 're-export', localName, source });
+        } else if (t.isExportSpecifier(spec)) {
+          const typeOnly = statement.exportKind === 'type' || spec.exportKind === 'type';
+          localExports.push({ name, localName: spec.local.name, typeOnly });
+        }
+      });
+    } else if (t.isExportAllDeclaration(statement)) {
+      summary.exports.push({ name: '*', kind: 're-export', source: statement.source.value });
+    } else if (t.isExportDefaultDeclaration(statement)) {
+      const declaration = statement.declaration;
+      let localName: string | undefined;
+      if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+        addDeclarations(declaration, true);
+        // The declaration is exported as default, not under its own name
+        summary.exports.pop();
+        localName = declaration.id.name;
+      } else if (t.isIdentifier(declaration)) {
+        localName = declaration.name;
+      }
+      summary.exports.push({ name: 'default', kind: 'default', localName });
+    } else {
+      addDeclarations(statement, false);
+    }
+  });
+
+  // `export { a as b }` may come before the declaration, so it is resolved last;
+  // names not declared in the file were imported and are passed through
+  localExports.forEach(({ name, localName, typeOnly }) => {
+    const kind = typeOnly ? 'type' : localKinds.get(localName) ?? 're-export';
+    summary.exports.push({ name, kind, localName });
+    summary.declarations.forEach(declaration => {
+      if (declaration.name === localName) declaration.exported = true;
+    });
+  });
+
+  return summary;
+}
+
+/**
+ * Reads the name of an import/export specifier, which may be a string literal
+ * @param name - Identifier or string literal from the specifier
+ * @returns The name as a string
+ */
+function getModuleExportName(name: t.Identifier | t.StringLiteral): string {
+  return t.isIdentifier(name) ? name.name : name.value;
+}
+
 /**
  * Extracts source code for a function using its location information
  * @param sourceCode - The complete source code
@@ -683,6 +1147,7 @@ function createFunctionData(
     exported?: boolean;
     documentation?: string;
     sourceCode?: string;
+    metrics?: ComplexityMetrics;
   } = {}
 ): FunctionData {
   return {
@@ -699,9 +1164,39 @@ function createFunctionData(
     exported: options.exported || false,
     documentation: options.documentation,
     sourceCode: options.sourceCode,
+    metrics: options.metrics,
   };
 }
 
+/**
+ * Converts a Babel source location into the location shape used by the parser output
+ */
+function createLocation(loc: t.SourceLocation | null): ClassData['location'] {
+  return {
+    startLine: loc?.start.line || 0,
+    endLine: loc?.end.line || 0,
+    startColumn: loc?.start.column || 0,
+    endColumn: loc?.end.column || 0,
+  };
+}
+
+/**
+ * Gets the dotted name of an identifier or qualified name (`React.Component`)
+ * @returns The name, or null for other expressions such as mixin calls
+ */
+function getEntityName(node: t.Node): string | null {
+  if (t.isIdentifier(node)) return node.name;
+  if (t.isTSQualifiedName(node)) {
+    const left = getEntityName(node.left);
+    return left ? `${left}.${node.right.name}` : null;
+  }
+  if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) {
+    const object = getEntityName(node.object);
+    return object ? `${object}.${node.property.name}` : null;
+  }
+  return null;
+}
+
 /**
  * Extracts parameter information from function parameters
  */
@@ -937,4 +1432,97 @@ function generateCodeFromNode(node: t.Node): string {
 
   // Fallback for complex expressions
   return 'unknown';
-}
\ No newline at end of file
+}
+
+/**
+ * Reports a step to the progress callback, then yields to the event loop so
+ * a streaming response can flush the event before the next step runs
+ */
+async function reportProgress(options: ParseOptions, progress: AnalysisProgress): Promise<void> {
+  if (!options.onProgress) return;
+  options.onProgress(progress);
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Blanks the line a fatal parse error points at. When the input ended early
+ * the construct left open is above, so the last non-blank line goes instead.
+ * @returns The patched source and the 1-based line blanked, or null when nothing is left to skip
+ */
+function skipUnparseableLine(source: string, error: unknown): { source: string; line: number } | null {
+  const { loc, pos } = error as { loc?: { line: number }; pos?: number };
+  if (!loc || pos === undefined) return null;
+
+  const lines = source.split('\n');
+  let index = loc.line - 1;
+  if (pos >= source.trimEnd().length) {
+    index = lines.findLastIndex(line => line.trim() !== '');
+  }
+  if (index < 0 || !lines[index]?.trim()) return null;
+
+  lines[index] = lines[index].replace(/[^\r]/g, ' ');
+  return { source: lines.join('\n'), line: index + 1 };
+}
+
+/**
+ * Errors Babel recovered from, attached to the AST in `errorRecovery` mode
+ */
+function getBabelErrors(ast: t.File): BabelParseError[] {
+  return (ast as ParseResult<t.File>).errors ?? [];
+}
+
+/**
+ * Lists the declarations a top-level statement introduces, with the export
+ * kind each would have. Function-valued constants count as functions and
+ * enums as constants.
+ */
+function getTopLevelDeclarations(
+  statement: t.Statement | t.Declaration
+): Array<{ declaration: Omit<ModuleDeclaration, 'exported'>; kind: ExportKind }> {
+  const line = statement.loc?.start.line ?? 0;
+
+  if ((t.isFunctionDeclaration(statement) || t.isTSDeclareFunction(statement)) && statement.id) {
+    return [{ declaration: { name: statement.id.name, kind: 'function', line }, kind: 'function' }];
+  }
+  if (t.isClassDeclaration(statement) && statement.id) {
+    return [{ declaration: { name: statement.id.name, kind: 'class', line }, kind: 'class' }];
+  }
+  if (t.isTSInterfaceDeclaration(statement)) {
+    return [{ declaration: { name: statement.id.name, kind: 'interface', line }, kind: 'type' }];
+  }
+  if (t.isTSTypeAliasDeclaration(statement)) {
+    return [{ declaration: { name: statement.id.name, kind: 'type', line }, kind: 'type' }];
+  }
+  if (t.isTSEnumDeclaration(statement)) {
+    return [{ declaration: { name: statement.id.name, kind: 'enum', line }, kind: 'const' }];
+  }
+  if (t.isVariableDeclaration(statement)) {
+    return statement.declarations.flatMap(declarator => {
+      if (!t.isIdentifier(declarator.id)) return [];
+      const isFunction = t.isArrowFunctionExpression(declarator.init) || t.isFunctionExpression(declarator.init);
+      return [{
+        declaration: { name: declarator.id.name, kind: 'variable' as const, line: declarator.loc?.start.line ?? line },
+        kind: isFunction ? 'function' as const : 'const' as const,
+      }];
+    });
+  }
+  return [];
+}
+
+/**
+ * Finds the innermost function whose source range contains a position
+ */
+function findEnclosingFunction(functions: FunctionData[], position: { line: number; column: number }): FunctionData | undefined {
+  const contains = ({ location }: FunctionData) => {
+    const afterStart = position.line > location.startLine
+      || (position.line === location.startLine && position.column >= location.startColumn);
+    const beforeEnd = position.line < location.endLine
+      || (position.line === location.endLine && position.column <= location.endColumn);
+    return afterStart && beforeEnd;
+  };
+  const span = ({ location }: FunctionData) => location.endLine - location.startLine;
+
+  return functions
+    .filter(contains)
+    .reduce<FunctionData | undefined>((innermost, fn) => (!innermost || span(fn) <= span(innermost) ? fn : innermost), undefined);
+}
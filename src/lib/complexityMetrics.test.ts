@@ -0,0 +1,146 @@
+/**
+ * Tests for Complexity Metrics
+ */
+
+import { parse } from '@babel/parser';
+import * as t from '@babel/types';
+import { calculateComplexityMetrics, countLinesOfCode, isHighComplexity } from './complexityMetrics';
+
+// Measures the first top-level function (or arrow assigned to a const) in the code
+const measure = (code: string) => {
+  const ast = parse(code, { sourceType: 'module', plugins: ['typescript'] });
+  const statement = ast.program.body[0];
+  const fn = t.isVariableDeclaration(statement)
+    ? statement.declarations[0].init
+    : statement;
+  if (!t.isFunction(fn)) throw new Error('No function in fixture');
+  return calculateComplexityMetrics(fn, code.split('\n'));
+};
+
+describe('calculateComplexityMetrics', () => {
+  it('should score straight-line code as 1', () => {
+    const metrics = measure(`function add(a: number, b: number) {
+      const sum = a + b;
+      return sum;
+    }`);
+
+    expect(metrics).toEqual({
+      cyclomatic: 1,
+      cognitive: 0,
+      maxNesting: 0,
+      linesOfCode: 4,
+      returnPoints: 1,
+    });
+  });
+
+  it('should count decision points for cyclomatic complexity', () => {
+    const metrics = measure(`function classify(value: number, flags: string[]) {
+      if (value > 10 && flags.length > 0) {
+        return 'large';
+      } else if (value < 0) {
+        return 'negative';
+      }
+      for (const flag of flags) {
+        switch (flag) {
+          case 'a': break;
+          case 'b': break;
+          default: break;
+        }
+      }
+      try {
+        return value > 5 ? 'medium' : 'small';
+      } catch {
+        return 'error';
+      }
+    }`);
+
+    // 1 + if + && + else if + for + 2 cases + catch + ternary
+    expect(metrics.cyclomatic).toBe(9);
+    expect(metrics.returnPoints).toBe(4);
+  });
+
+  it('should weight cognitive complexity by nesting', () => {
+    const metrics = measure(`function sumOfPrimes(max: number) {
+      let total = 0;
+      outer: for (let i = 1; i <= max; ++i) {
+        for (let j = 2; j < i; ++j) {
+          if (i % j === 0) {
+            continue outer;
+          }
+        }
+        total += i;
+      }
+      return total;
+    }`);
+
+    // for (+1), nested for (+2), nested if (+3), labeled continue (+1)
+    expect(metrics.cognitive).toBe(7);
+    expect(metrics.cyclomatic).toBe(4);
+    expect(metrics.maxNesting).toBe(3);
+  });
+
+  it('should not penalize else-if chains for nesting', () => {
+    const metrics = measure(`function name(code: number) {
+      if (code === 1) {
+        return 'one';
+      } else if (code === 2) {
+        return 'two';
+      } else {
+        return 'many';
+      }
+    }`);
+
+    // if (+1), else if (+1), else (+1)
+    expect(metrics.cognitive).toBe(3);
+    expect(metrics.maxNesting).toBe(1);
+  });
+
+  it('should count each run of logical operators once for cognitive complexity', () => {
+    const metrics = measure('const check = (a: boolean, b: boolean, c: boolean, d: boolean) => a && b && c || d;');
+
+    expect(metrics.cyclomatic).toBe(4);
+    expect(metrics.cognitive).toBe(2);
+    expect(metrics.returnPoints).toBe(1);
+  });
+
+  it('should leave nested functions out of the enclosing function', () => {
+    const metrics = measure(`function outer(items: number[]) {
+      const positive = items.filter(item => {
+        if (item > 0) return true;
+        return false;
+      });
+      return positive;
+    }`);
+
+    expect(metrics.cyclomatic).toBe(1);
+    expect(metrics.cognitive).toBe(0);
+    expect(metrics.returnPoints).toBe(1);
+  });
+});
+
+describe('countLinesOfCode', () => {
+  it('should skip blank and comment-only lines', () => {
+    const lines = [
+      'function f() {',
+      '  // comment',
+      '',
+      '  /* block',
+      '     comment */',
+      '  const x = 1; // trailing',
+      '  /* inline */ return x;',
+      '}',
+    ];
+
+    expect(countLinesOfCode(lines, 1, lines.length)).toBe(4);
+  });
+});
+
+describe('isHighComplexity', () => {
+  it('should flag functions above either threshold', () => {
+    const base = { maxNesting: 0, linesOfCode: 1, returnPoints: 1 };
+
+    expect(isHighComplexity({ ...base, cyclomatic: 10, cognitive: 15 })).toBe(false);
+    expect(isHighComplexity({ ...base, cyclomatic: 11, cognitive: 0 })).toBe(true);
+    expect(isHighComplexity({ ...base, cyclomatic: 1, cognitive: 16 })).toBe(true);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Complexity Metrics Module
+ * Measures the control flow of a single function body from its Babel AST.
+ * Nested functions are measured on their own and do not add to the enclosing function.
+ */
+
+import * as t from '@babel/types';
+import type { ComplexityMetrics } from '../types';
+
+/**
+ * Cyclomatic complexity above which a function is considered complex
+ */
+export const HIGH_CYCLOMATIC_COMPLEXITY = 10;
+
+/**
+ * Cognitive complexity above which a function is considered complex
+ */
+export const HIGH_COGNITIVE_COMPLEXITY = 15;
+
+/**
+ * Running totals while walking a function body
+ */
+interface MetricsState {
+  cyclomatic: number;
+  cognitive: number;
+  maxNesting: number;
+  returnPoints: number;
+}
+
+/**
+ * Calculates complexity metrics for a function
+ * @param node - Function node (declaration, expression, arrow or method)
+ * @param lines - Source code split into lines, used for lines of code
+ * @returns Cyclomatic and cognitive complexity, nesting depth, lines of code and return points
+ */
+export function calculateComplexityMetrics(node: t.Function, lines: string[]): ComplexityMetrics {
+  const state: MetricsState = { cyclomatic: 1, cognitive: 0, maxNesting: 0, returnPoints: 0 };
+
+  if (t.isBlockStatement(node.body)) {
+    visitChildren(node.body, 0, state);
+  } else {
+    // Expression-bodied arrow: the expression is the single return point
+    state.returnPoints = 1;
+    visit(node.body, 0, state);
+  }
+
+  return {
+    cyclomatic: state.cyclomatic,
+    cognitive: state.cognitive,
+    maxNesting: state.maxNesting,
+    linesOfCode: node.loc ? countLinesOfCode(lines, node.loc.start.line, node.loc.end.line) : 0,
+    returnPoints: state.returnPoints,
+  };
+}
+
+/**
+ * Checks whether metrics exceed the cyclomatic or cognitive thresholds
+ * @param metrics - Function metrics
+ * @returns True for functions that should be flagged as complex
+ */
+export function isHighComplexity(metrics: ComplexityMetrics): boolean {
+  return metrics.cyclomatic > HIGH_CYCLOMATIC_COMPLEXITY || metrics.cognitive > HIGH_COGNITIVE_COMPLEXITY;
+}
+
+/**
+ * Counts non-blank lines that are not only comments
+ * @param lines - Source code split into lines
+ * @param startLine - First line (1-based, inclusive)
+ * @param endLine - Last line (1-based, inclusive)
+ * @returns Lines of code
+ */
+export function countLinesOfCode(lines: string[], startLine: number, endLine: number): number {
+  let count = 0;
+  let inBlockComment = false;
+
+  for (let index = startLine - 1; index < Math.min(endLine, lines.length); index++) {
+    let line = lines[index];
+    let code = '';
+
+    // Comment markers inside string literals are rare enough to ignore
+    while (line.length > 0) {
+      if (inBlockComment) {
+        const end = line.indexOf('*/');
+        if (end === -1) break;
+        line = line.slice(end + 2);
+        inBlockComment = false;
+        continue;
+      }
+
+      const blockStart = line.indexOf('/*');
+      const lineComment = line.indexOf('//');
+      if (lineComment !== -1 && (blockStart === -1 || lineComment < blockStart)) {
+        code += line.slice(0, lineComment);
+        break;
+      }
+      if (blockStart === -1) {
+        code += line;
+        break;
+      }
+      code += line.slice(0, blockStart);
+      line = line.slice(blockStart + 2);
+      inBlockComment = true;
+    }
+
+    if (code.trim().length > 0) count++;
+  }
+
+  return count;
+}
+
+/**
+ * Visits a node and adds its contribution to the metrics
+ * @param node - AST node inside the function body
+ * @param nesting - Current nesting level of control-flow structures
+ * @param state - Running totals
+ */
+function visit(node: t.Node | null | undefined, nesting: number, state: MetricsState): void {
+  if (!node || t.isFunction(node)) return;
+
+  switch (node.type) {
+    case 'IfStatement':
+      visitIfStatement(node, nesting, state, false);
+      return;
+
+    case 'ForStatement':
+    case 'ForInStatement':
+    case 'ForOfStatement':
+    case 'WhileStatement':
+    case 'DoWhileStatement':
+    case 'ConditionalExpression':
+      state.cyclomatic++;
+      addNestedStructure(nesting, state);
+      visitChildren(node, nesting + 1, state);
+      return;
+
+    case 'SwitchStatement':
+      // Each case is a path, but the switch reads as a single decision
+      state.cyclomatic += node.cases.filter(switchCase => switchCase.test !== null).length;
+      addNestedStructure(nesting, state);
+      visitChildren(node, nesting + 1, state);
+      return;
+
+    case 'CatchClause':
+      state.cyclomatic++;
+      addNestedStructure(nesting, state);
+      visitChildren(node, nesting + 1, state);
+      return;
+
+    case 'LogicalExpression':
+      visitLogicalExpression(node, nesting, state, null);
+      return;
+
+    case 'AssignmentExpression':
+      // a ||= b, a &&= b and a ??= b branch like their logical counterparts
+      if (node.operator === '||=' || node.operator === '&&=' || node.operator === '??=') {
+        state.cyclomatic++;
+      }
+      break;
+
+    case 'BreakStatement':
+    case 'ContinueStatement':
+      if (node.label) state.cognitive++;
+      break;
+
+    case 'ReturnStatement':
+      state.returnPoints++;
+      break;
+  }
+
+  visitChildren(node, nesting, state);
+}
+
+/**
+ * Visits an if statement and its else-if chain. `else if` and `else` add to
+ * cognitive complexity without a nesting penalty.
+ */
+function visitIfStatement(node: t.IfStatement, nesting: number, state: MetricsState, isElseIf: boolean): void {
+  state.cyclomatic++;
+  if (isElseIf) {
+    state.cognitive++;
+    state.maxNesting = Math.max(state.maxNesting, nesting + 1);
+  } else {
+    addNestedStructure(nesting, state);
+  }
+
+  visit(node.test, nesting, state);
+  visit(node.consequent, nesting + 1, state);
+
+  if (t.isIfStatement(node.alternate)) {
+    visitIfStatement(node.alternate, nesting, state, true);
+  } else if (node.alternate) {
+    state.cognitive++;
+    visit(node.alternate, nesting + 1, state);
+  }
+}
+
+/**
+ * Visits a logical expression. Every operator is a cyclomatic branch, while
+ * cognitive complexity counts each run of the same operator once (`a && b && c` is +1).
+ */
+function visitLogicalExpression(
+  node: t.LogicalExpression,
+  nesting: number,
+  state: MetricsState,
+  parentOperator: t.LogicalExpression['operator'] | null
+): void {
+  state.cyclomatic++;
+  if (node.operator !== parentOperator) state.cognitive++;
+
+  [node.left, node.right].forEach(operand => {
+    if (t.isLogicalExpression(operand)) {
+      visitLogicalExpression(operand, nesting, state, node.operator);
+    } else {
+      visit(operand, nesting, state);
+    }
+  });
+}
+
+/**
+ * Records a structure that increments cognitive complexity by its nesting level
+ */
+function addNestedStructure(nesting: number, state: MetricsState): void {
+  state.cognitive += 1 + nesting;
+  state.maxNesting = Math.max(state.maxNesting, nesting + 1);
+}
+
+/**
+ * Visits every child node listed in Babel's visitor keys
+ */
+function visitChildren(node: t.Node, nesting: number, state: MetricsState): void {
+  const keys = t.VISITOR_KEYS[node.type] || [];
+  const record = node as unknown as Record<string, unknown>;
+
+  keys.forEach(key => {
+    const value = record[key];
+    if (Array.isArray(value)) {
+      value.forEach(child => {
+        if (t.isNode(child)) visit(child, nesting, state);
+      });
+    } else if (t.isNode(value)) {
+      visit(value, nesting, state);
+    }
+  });
+}
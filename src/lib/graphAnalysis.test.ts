@@ -0,0 +1,82 @@
+/**
+ * Tests for Graph Analysis
+ */
+
+import type { Edge, Node } from '@xyflow/react';
+import {
+  findStronglyConnectedComponents,
+  findCallCycles,
+  getCycleEdgeIds,
+  markRecursiveNodes,
+} from './graphAnalysis';
+
+// Builds edges from "a>b" strings
+const createEdges = (...pairs: string[]): Edge[] => pairs.map(pair => {
+  const [source, target] = pair.split('>');
+  return { id: `${source}-${target}`, source, target };
+});
+
+describe('findStronglyConnectedComponents', () => {
+  it('should group nodes that reach each other', () => {
+    const edges = createEdges('a>b', 'b>c', 'c>a', 'c>d', 'd>e', 'e>d', 'f>a');
+
+    const components = findStronglyConnectedComponents(edges).map(component => [...component].sort());
+
+    expect(components).toHaveLength(3);
+    expect(components).toContainEqual(['a', 'b', 'c']);
+    expect(components).toContainEqual(['d', 'e']);
+    expect(components).toContainEqual(['f']);
+  });
+
+  it('should handle long chains without recursion limits', () => {
+    const pairs = Array.from({ length: 20000 }, (_, index) => `n${index}>n${index + 1}`);
+
+    const components = findStronglyConnectedComponents(createEdges(...pairs, 'n20000>n0'));
+
+    expect(components).toHaveLength(1);
+    expect(components[0]).toHaveLength(20001);
+  });
+});
+
+describe('findCallCycles', () => {
+  it('should report mutual recursion, not just direct recursion', () => {
+    const edges = createEdges('main>isEven', 'isEven>isOdd', 'isOdd>isEven', 'walk>walk', 'main>walk');
+
+    expect(findCallCycles(edges)).toEqual([
+      { nodeIds: ['isEven', 'isOdd'], kind: 'mutual' },
+      { nodeIds: ['walk'], kind: 'recursive' },
+    ]);
+  });
+
+  it('should find cycles longer than two calls', () => {
+    const edges = createEdges('parse>parseExpr', 'parseExpr>parseTerm', 'parseTerm>parseFactor', 'parseFactor>parseExpr');
+
+    expect(findCallCycles(edges)).toEqual([
+      { nodeIds: ['parseExpr', 'parseFactor', 'parseTerm'], kind: 'mutual' },
+    ]);
+  });
+
+  it('should return nothing for an acyclic graph', () => {
+    expect(findCallCycles(createEdges('a>b', 'b>c', 'a>c'))).toEqual([]);
+  });
+});
+
+describe('getCycleEdgeIds', () => {
+  it('should keep only edges between cycle members', () => {
+    const edges = createEdges('a>b', 'b>a', 'b>c', 'x>a');
+
+    expect(getCycleEdgeIds(edges, { nodeIds: ['a', 'b'], kind: 'mutual' })).toEqual(['a-b', 'b-a']);
+  });
+});
+
+describe('markRecursiveNodes', () => {
+  it('should prefer mutual over direct recursion', () => {
+    const nodes: Node[] = ['a', 'b', 'c'].map(id => ({ id, position: { x: 0, y: 0 }, data: { label: id } }));
+    const edges = createEdges('a>a', 'a>b', 'b>a', 'b>c');
+
+    const marked = markRecursiveNodes(nodes, edges);
+
+    expect(marked.map(node => node.data.recursion)).toEqual(['mutual', 'mutual', undefined]);
+    expect(marked[2]).toBe(nodes[2]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Graph Analysis Module
+ * Finds call cycles: strongly connected components of the call graph, which
+ * cover direct recursion (a function calling itself) and mutual recursion
+ * (functions calling each other in a loop).
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+
+/**
+ * A set of functions that can reach each other through calls
+ */
+export interface CallCycle {
+  /** Member functions, sorted by node ID */
+  nodeIds: string[];
+  /** 'recursive' for a single function calling itself, 'mutual' for two or more functions */
+  kind: 'recursive' | 'mutual';
+}
+
+/**
+ * Finds the strongly connected components of a directed graph (Tarjan's algorithm).
+ * Iterative, so deep call chains cannot overflow the stack.
+ * @param edges - Directed edges
+ * @returns Components with at least one member, in reverse topological order
+ */
+export function findStronglyConnectedComponents(edges: Edge[]): string[][] {
+  const successors = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (!successors.has(edge.target)) successors.set(edge.target, []);
+    const list = successors.get(edge.source);
+    if (list) {
+      list.push(edge.target);
+    } else {
+      successors.set(edge.source, [edge.target]);
+    }
+  });
+
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  successors.forEach((_, root) => {
+    if (indices.has(root)) return;
+
+    // Each frame is a node and the position of the next successor to visit
+    const frames: Array<{ nodeId: string; next: number }> = [{ nodeId: root, next: 0 }];
+    indices.set(root, nextIndex);
+    lowLinks.set(root, nextIndex++);
+    stack.push(root);
+    onStack.add(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const neighbors = successors.get(frame.nodeId)!;
+
+      if (frame.next < neighbors.length) {
+        const neighbor = neighbors[frame.next++];
+        if (!indices.has(neighbor)) {
+          indices.set(neighbor, nextIndex);
+          lowLinks.set(neighbor, nextIndex++);
+          stack.push(neighbor);
+          onStack.add(neighbor);
+          frames.push({ nodeId: neighbor, next: 0 });
+        } else if (onStack.has(neighbor)) {
+          lowLinks.set(frame.nodeId, Math.min(lowLinks.get(frame.nodeId)!, indices.get(neighbor)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].nodeId;
+        lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.nodeId)!));
+      }
+
+      if (lowLinks.get(frame.nodeId) === indices.get(frame.nodeId)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.nodeId);
+        components.push(component);
+      }
+    }
+  });
+
+  return components;
+}
+
+/**
+ * Lists every call cycle in a call graph
+ * @param edges - Call edges (source calls target)
+ * @returns Cycles, largest first
+ */
+export function findCallCycles(edges: Edge[]): CallCycle[] {
+  const selfCalls = new Set(edges.filter(edge => edge.source === edge.target).map(edge => edge.source));
+
+  return findStronglyConnectedComponents(edges)
+    .filter(component => component.length > 1 || selfCalls.has(component[0]))
+    .map((component): CallCycle => ({
+      nodeIds: [...component].sort(),
+      kind: component.length > 1 ? 'mutual' : 'recursive',
+    }))
+    .sort((a, b) => b.nodeIds.length - a.nodeIds.length || a.nodeIds[0].localeCompare(b.nodeIds[0]));
+}
+
+/**
+ * Collects the edges that stay inside a cycle
+ * @param edges - Call edges
+ * @param cycle - Cycle to highlight
+ * @returns IDs of edges between members of the cycle
+ */
+export function getCycleEdgeIds(edges: Edge[], cycle: CallCycle): string[] {
+  const members = new Set(cycle.nodeIds);
+  return edges
+    .filter(edge => members.has(edge.source) && members.has(edge.target))
+    .map(edge => edge.id);
+}
+
+/**
+ * Marks recursive functions in their node data as `recursion: 'recursive' | 'mutual'`.
+ * Functions in a mutual cycle are marked 'mutual' even if they also call themselves.
+ * @param nodes - Function nodes
+ * @param edges - Call edges between them
+ * @returns Nodes, with recursive ones copied and marked
+ */
+export function markRecursiveNodes(nodes: Node[], edges: Edge[]): Node[] {
+  const recursion = new Map<string, CallCycle['kind']>();
+  findCallCycles(edges).forEach(cycle => {
+    cycle.nodeIds.forEach(nodeId => recursion.set(nodeId, cycle.kind));
+  });
+  if (recursion.size === 0) return nodes;
+
+  return nodes.map(node => {
+    const kind = recursion.get(node.id);
+    return kind ? { ...node, data: { ...node.data, recursion: kind } } : node;
+  });
+}
@@ -4,10 +4,15 @@
 
 import { 
   buildReactFlowGraph, 
+  buildClassHierarchyGraph,
   createFunctionNode, 
   createFunctionEdges,
   filterGraph,
   simplifyGraph,
+  findDeclarationNode,
+  createExternalModuleGraph,
+  getPackageName,
+  withoutExternalModules,
   NODE_TYPES,
   EDGE_TYPES
 } from './graphBuilder';
@@ -126,6 +131,21 @@ describe('createFunctionNode', () => {
     expect(simpleNode.data.complexity).toBeLessThan(complexNode.data.complexity);
     expect(complexNode.data.complexity).toBeGreaterThan(3);
   });
+
+  it('should use parser metrics for complexity when available', () => {
+    const metrics = { cyclomatic: 14, cognitive: 20, maxNesting: 4, linesOfCode: 60, returnPoints: 3 };
+    const node = createFunctionNode({
+      name: 'branchy',
+      parameters: [],
+      returnType: 'void',
+      location: { startLine: 1, endLine: 60, startColumn: 0, endColumn: 1 },
+      metrics,
+    });
+
+    expect(node.data.complexity).toBe(14);
+    expect(node.data.metrics).toEqual(metrics);
+    expect(node.data.isComplex).toBe(true);
+  });
 });
 
 describe('createFunctionEdges', () => {
@@ -257,6 +277,50 @@ describe('buildReactFlowGraph', () => {
     expect(graph.edges).toHaveLength(0);
   });
 
+  it('should mark recursive and mutually recursive functions', () => {
+    const location = { startLine: 1, endLine: 3, startColumn: 0, endColumn: 10 };
+    const parsedData: ParsedCodeResult = {
+      functions: ['walk', 'isEven', 'isOdd', 'main'].map(name => ({ name, parameters: [], returnType: 'void', location })),
+      calls: [
+        { caller: 'walk', callee: 'walk', lineNumber: 2 },
+        { caller: 'isEven', callee: 'isOdd', lineNumber: 2 },
+        { caller: 'isOdd', callee: 'isEven', lineNumber: 2 },
+        { caller: 'main', callee: 'isEven', lineNumber: 2 },
+      ],
+      errors: [],
+    };
+
+    const graph = buildReactFlowGraph(parsedData);
+    const recursionOf = (label: string) => graph.nodes.find(n => n.data.label === label)?.data.recursion;
+
+    expect(recursionOf('walk')).toBe('recursive');
+    expect(recursionOf('isEven')).toBe('mutual');
+    expect(recursionOf('isOdd')).toBe('mutual');
+    expect(recursionOf('main')).toBeUndefined();
+  });
+
+  it('should attach syntax errors to the innermost function containing them', () => {
+    const inner = { type: 'syntax' as const, message: 'Unexpected token', line: 4, column: 2 };
+    const outer = { type: 'syntax' as const, message: 'Missing semicolon', line: 2, column: 8 };
+    const outside = { type: 'syntax' as const, message: 'Unexpected token', line: 20 };
+    const parsedData: ParsedCodeResult = {
+      functions: [
+        { name: 'outer', parameters: [], returnType: 'void', location: { startLine: 1, endLine: 8, startColumn: 0, endColumn: 1 } },
+        { name: 'inner', parameters: [], returnType: 'void', location: { startLine: 3, endLine: 5, startColumn: 2, endColumn: 3 } },
+        { name: 'clean', parameters: [], returnType: 'void', location: { startLine: 10, endLine: 12, startColumn: 0, endColumn: 1 } },
+      ],
+      calls: [],
+      errors: [inner, outer, outside],
+    };
+
+    const graph = buildReactFlowGraph(parsedData);
+    const diagnosticsOf = (label: string) => graph.nodes.find(n => n.data.label === label)?.data.diagnostics;
+
+    expect(diagnosticsOf('inner')).toEqual([inner]);
+    expect(diagnosticsOf('outer')).toEqual([outer]);
+    expect(diagnosticsOf('clean')).toBeUndefined();
+  });
+
   it('should handle empty parsed data', () => {
     const parsedData: ParsedCodeResult = {
       functions: [],
@@ -271,6 +335,75 @@ describe('buildReactFlowGraph', () => {
   });
 });
 
+describe('buildClassHierarchyGraph', () => {
+  const location = { startLine: 1, endLine: 3, startColumn: 0, endColumn: 1 };
+
+  it('should link derived types to their base types', () => {
+    const parsedData: ParsedCodeResult = {
+      functions: [],
+      calls: [],
+      errors: [],
+      classes: [
+        {
+          name: 'Shape', kind: 'interface', extends: [], implements: [],
+          methods: ['Shape.area'], properties: [], location,
+        },
+        {
+          name: 'Circle', kind: 'class', extends: [{ name: 'Base' }], implements: [{ name: 'Shape' }],
+          methods: ['Circle.area'], properties: ['radius'], location,
+        },
+        {
+          name: 'Base', kind: 'class', extends: [{ name: 'React.Component' }], implements: [],
+          methods: [], properties: [], location, abstract: true,
+        },
+      ],
+    };
+
+    const graph = buildClassHierarchyGraph(parsedData);
+
+    expect(graph.nodes.map(node => node.id)).toEqual([
+      'class-Shape',
+      'class-Circle',
+      'class-Base',
+      'class-external-React_Component',
+    ]);
+    expect(graph.nodes.every(node => node.type === NODE_TYPES.CLASS)).toBe(true);
+    expect(graph.nodes[1].data).toMatchObject({ kind: 'class', methods: ['area'], properties: ['radius'] });
+    expect(graph.nodes[3].data).toMatchObject({ label: 'React.Component', isExternal: true });
+
+    expect(graph.edges.map(edge => `${edge.source} ${edge.data?.relationship} ${edge.target}`)).toEqual([
+      `class-Circle ${EDGE_TYPES.EXTENDS} class-Base`,
+      `class-Circle ${EDGE_TYPES.IMPLEMENTS} class-Shape`,
+      `class-Base ${EDGE_TYPES.EXTENDS} class-external-React_Component`,
+    ]);
+
+    // Base types are laid out above the types deriving from them
+    const y = (id: string) => graph.nodes.find(node => node.id === id)!.position.y;
+    expect(y('class-Base')).toBeLessThan(y('class-Circle'));
+  });
+
+  it('should keep same-named classes from different files apart', () => {
+    const graph = buildClassHierarchyGraph({
+      functions: [],
+      calls: [],
+      errors: [],
+      classes: [
+        {
+          name: 'Model', kind: 'class', extends: [{ name: 'Model', filePath: 'b.ts' }], implements: [],
+          methods: [], properties: [], location, filePath: 'a.ts',
+        },
+        {
+          name: 'Model', kind: 'class', extends: [], implements: [],
+          methods: [], properties: [], location, filePath: 'b.ts',
+        },
+      ],
+    });
+
+    expect(graph.nodes.map(node => node.id)).toEqual(['class-a_ts_Model', 'class-b_ts_Model']);
+    expect(graph.edges[0]).toMatchObject({ source: 'class-a_ts_Model', target: 'class-b_ts_Model' });
+  });
+});
+
 describe('filterGraph', () => {
   const sampleGraph = {
     nodes: [
@@ -402,4 +535,84 @@ describe('simplifyGraph', () => {
     expect(simplified.nodes).toHaveLength(0);
     expect(simplified.edges).toHaveLength(0);
   });
-});
\ No newline at end of file
+});
+
+describe('findDeclarationNode', () => {
+  const node = (id: string, label: string, filePath?: string) => ({
+    id,
+    type: 'function',
+    position: { x: 0, y: 0 },
+    data: { label, filePath },
+  });
+  const nodes = [
+    node('a-run', 'run', 'a.ts'),
+    node('b-run', 'run', 'b.ts'),
+    node('b-start', 'Service.start', 'b.ts'),
+  ];
+
+  it('should match the declared name within its file', () => {
+    expect(findDeclarationNode(nodes, 'run', 'b.ts')?.id).toBe('b-run');
+    expect(findDeclarationNode(nodes, 'run', 'c.ts')).toBeUndefined();
+  });
+
+  it('should fall back to the first method of a class', () => {
+    expect(findDeclarationNode(nodes, 'Service', 'b.ts')?.id).toBe('b-start');
+    expect(findDeclarationNode(nodes, 'Serv', 'b.ts')).toBeUndefined();
+  });
+});
+
+describe('createExternalModuleGraph', () => {
+  const functionToNodeId = new Map([['load', 'node-load'], ['save', 'node-save']]);
+
+  it('should group calls into one node per package', () => {
+    const graph = createExternalModuleGraph([
+      { caller: 'load', module: 'axios', callee: 'get', lineNumber: 2 },
+      { caller: 'load', module: 'axios', callee: 'get', lineNumber: 3 },
+      { caller: 'save', module: 'axios', callee: 'post', lineNumber: 6 },
+      { caller: 'save', module: 'react-dom/client', callee: 'createRoot', lineNumber: 7 },
+      { caller: 'missing', module: 'axios', callee: 'put', lineNumber: 9 },
+    ], functionToNodeId);
+
+    expect(graph.nodes.map(node => [node.id, node.type, node.data.label])).toEqual([
+      ['module-axios', NODE_TYPES.MODULE, 'axios'],
+      ['module-react_dom', NODE_TYPES.MODULE, 'react-dom'],
+    ]);
+    expect(graph.nodes[0].data).toMatchObject({ members: ['get', 'post'], callCount: 3 });
+    expect(graph.edges.map(edge => [edge.source, edge.target, edge.data?.callCount])).toEqual([
+      ['node-load', 'module-axios', 2],
+      ['node-save', 'module-axios', 1],
+      ['node-save', 'module-react_dom', 1],
+    ]);
+  });
+
+  it('should be dropped again by withoutExternalModules', () => {
+    const parsedData: ParsedCodeResult = {
+      functions: [{
+        name: 'load',
+        parameters: [],
+        returnType: 'void',
+        location: { startLine: 1, endLine: 3, startColumn: 0, endColumn: 1 },
+      }],
+      calls: [],
+      externalCalls: [{ caller: 'load', module: 'axios', callee: 'get', lineNumber: 2 }],
+      errors: [],
+    };
+
+    const graph = buildReactFlowGraph(parsedData);
+    const callGraph = withoutExternalModules(graph);
+
+    expect(graph.nodes.some(node => node.type === NODE_TYPES.MODULE)).toBe(true);
+    expect(graph.edges).toHaveLength(1);
+    expect(callGraph.nodes.some(node => node.type === NODE_TYPES.MODULE)).toBe(false);
+    expect(callGraph.edges).toHaveLength(0);
+  });
+});
+
+describe('getPackageName', () => {
+  it('should reduce specifiers to their package', () => {
+    expect(getPackageName('react')).toBe('react');
+    expect(getPackageName('lodash/debounce')).toBe('lodash');
+    expect(getPackageName('@tanstack/react-query/devtools')).toBe('@tanstack/react-query');
+    expect(getPackageName('./utils')).toBe('./utils');
+  });
+});
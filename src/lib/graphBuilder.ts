@@ -7,10 +7,17 @@ import type { Node, Edge } from '@xyflow/react';
 import type { 
   FunctionData, 
   FunctionCall, 
+  ExternalCall,
+  ClassData,
+  HeritageReference,
   ParsedCodeResult, 
+  ParseError,
   GraphData 
 } from '../types';
-import { autoLayout } from './layoutEngine';
+import { autoLayout, layoutNodes } from './layoutEngine';
+import { isHighComplexity } from './complexityMetrics';
+import { markRecursiveNodes } from './graphAnalysis';
+import { GROUP_NODE_TYPE } from './nodeGroups';
 
 /**
  * Custom node types for the function graph
@@ -20,6 +27,9 @@ export const NODE_TYPES = {
   CLASS_METHOD: 'classMethodNode',
   EXPORTED: 'exportedFunctionNode',
   ASYNC: 'asyncFunctionNode',
+  CLASS: 'class',
+  MODULE: 'module',
+  GROUP: GROUP_NODE_TYPE,
 } as const;
 
 /**
@@ -29,6 +39,9 @@ export const EDGE_TYPES = {
   FUNCTION_CALL: 'functionCall',
   ASYNC_CALL: 'asyncCall',
   MULTIPLE_CALLS: 'multipleCalls',
+  EXTENDS: 'extends',
+  IMPLEMENTS: 'implements',
+  EXTERNAL_CALL: 'externalCall',
 } as const;
 
 /**
@@ -41,27 +54,44 @@ export function buildReactFlowGraph(parsedData: ParsedCodeResult): GraphData {
   const usedNames = new Map<string, number>();
   const functionToNodeId = new Map<string, string>();
   
+  // Methods of declared classes are placed in a group per class by the grid layout
+  const classKeys = new Set((parsedData.classes ?? [])
+    .filter(classData => classData.kind === 'class')
+    .map(classData => getFunctionKey(classData.name, classData.filePath)));
+
   // Create nodes from functions with unique IDs and track mapping
   const nodes = parsedData.functions.map((functionData, index) => {
     const node = createFunctionNode(functionData, usedNames);
+    const [className] = functionData.name.split('.');
+    if (functionData.name.includes('.') && classKeys.has(getFunctionKey(className, functionData.filePath))) {
+      node.data = { ...node.data, className };
+    }
     
     // Create a unique key for this function occurrence using index
     const functionKey = `${functionData.name}_${index}`;
     functionToNodeId.set(functionKey, node.id);
     
-    // Also map simple name to first occurrence for edge compatibility
-    if (!functionToNodeId.has(functionData.name)) {
-      functionToNodeId.set(functionData.name, node.id);
+    // Also map simple (file-qualified in multi-file mode) name to first occurrence for edge compatibility
+    const qualifiedName = getFunctionKey(functionData.name, functionData.filePath);
+    if (!functionToNodeId.has(qualifiedName)) {
+      functionToNodeId.set(qualifiedName, node.id);
     }
     
     return node;
   });
 
-  // Create edges from function calls
-  const edges = createFunctionEdges(parsedData.calls, functionToNodeId);
+  // Create edges from function calls; a callee without a node (e.g. resolved outside the analyzed code) is left out
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const callEdges = createFunctionEdges(parsedData.calls, functionToNodeId)
+    .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+
+  // Calls into imported modules point at one node per package
+  const external = createExternalModuleGraph(parsedData.externalCalls ?? [], functionToNodeId);
+  const edges = [...callEdges, ...external.edges];
 
-  // Apply automatic layout
-  const layoutedNodes = autoLayout(nodes, edges);
+  // Apply automatic layout, with recursive and syntactically broken functions marked for their badges
+  const markedNodes = markDiagnosticNodes(markRecursiveNodes(nodes, callEdges), parsedData.errors);
+  const layoutedNodes = autoLayout([...markedNodes, ...external.nodes], edges);
 
   return {
     nodes: layoutedNodes,
@@ -69,6 +99,184 @@ export function buildReactFlowGraph(parsedData: ParsedCodeResult): GraphData {
   };
 }
 
+/**
+ * Attaches parse errors (e.g. syntax errors the parser recovered from) to the
+ * innermost function node whose lines contain them, as `diagnostics` in the
+ * node data. Errors without a line or outside every function are left out.
+ * @param nodes - Function nodes
+ * @param errors - Parse errors, with file paths in multi-file results
+ * @returns Nodes, with affected ones copied and marked
+ */
+export function markDiagnosticNodes(nodes: Node[], errors: ParseError[]): Node[] {
+  const diagnostics = new Map<string, ParseError[]>();
+
+  errors.forEach(error => {
+    if (error.line === undefined) return;
+    const line = error.line;
+
+    let innermost: { id: string; span: number } | undefined;
+    nodes.forEach(node => {
+      const { location, filePath } = node.data as Pick<FunctionData, 'location' | 'filePath'>;
+      if (!location || filePath !== error.filePath) return;
+      if (line < location.startLine || line > location.endLine) return;
+      const span = location.endLine - location.startLine;
+      if (!innermost || span < innermost.span) innermost = { id: node.id, span };
+    });
+
+    if (innermost) {
+      diagnostics.set(innermost.id, [...(diagnostics.get(innermost.id) ?? []), error]);
+    }
+  });
+  if (diagnostics.size === 0) return nodes;
+
+  return nodes.map(node => {
+    const nodeDiagnostics = diagnostics.get(node.id);
+    return nodeDiagnostics ? { ...node, data: { ...node.data, diagnostics: nodeDiagnostics } } : node;
+  });
+}
+
+/**
+ * Finds the function node declaring a top-level name, e.g. to link an export
+ * to the graph. A class has no node of its own in the call graph, so its
+ * first method stands in for it.
+ * @param nodes - Function nodes
+ * @param name - Declared (local) name
+ * @param filePath - File declaring the name, in multi-file results
+ * @returns The matching node, if any
+ */
+export function findDeclarationNode(nodes: Node[], name: string, filePath?: string): Node | undefined {
+  const candidates = nodes.filter(node => node.type === 'function' && (node.data as Pick<FunctionData, 'filePath'>).filePath === filePath);
+  const labelOf = (node: Node) => String((node.data as { label?: string }).label);
+  return candidates.find(node => labelOf(node) === name)
+    ?? candidates.find(node => labelOf(node).startsWith(`${name}.`));
+}
+
+/**
+ * Builds a class hierarchy graph: one node per class or interface listing its
+ * members, with `extends` and `implements` edges pointing at the base type.
+ * Base types that were not analyzed (e.g. `React.Component`) become external nodes.
+ * @param parsedData - Result from code parsing
+ * @returns Graph data with base types laid out above derived types
+ */
+export function buildClassHierarchyGraph(parsedData: ParsedCodeResult): GraphData {
+  const classes = parsedData.classes || [];
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+  const classToNodeId = new Map<string, string>();
+  const usedIds = new Set<string>();
+
+  classes.forEach(classData => {
+    const key = getFunctionKey(classData.name, classData.filePath);
+    const node = createClassNode(classData, usedIds);
+    // The first declaration wins when a name is declared twice (e.g. merged interfaces)
+    if (!classToNodeId.has(key)) {
+      classToNodeId.set(key, node.id);
+    }
+    nodes.push(node);
+  });
+
+  const addEdge = (
+    sourceId: string,
+    ref: HeritageReference,
+    relationship: typeof EDGE_TYPES.EXTENDS | typeof EDGE_TYPES.IMPLEMENTS,
+    baseKind: ClassData['kind']
+  ) => {
+    const key = getFunctionKey(ref.name, ref.filePath);
+    let targetId = classToNodeId.get(key);
+
+    if (!targetId) {
+      targetId = `class-external-${ref.name.replace(/[^a-zA-Z0-9]/g, '_')}`;
+      classToNodeId.set(key, targetId);
+      nodes.push(createExternalClassNode(targetId, ref.name, baseKind));
+    }
+
+    edges.push({
+      id: `edge-${sourceId}-${relationship}-${targetId}`,
+      source: sourceId,
+      target: targetId,
+      type: 'smoothstep',
+      label: relationship,
+      style: relationship === EDGE_TYPES.EXTENDS
+        ? { stroke: '#2563eb', strokeWidth: 2 }
+        : { stroke: '#0d9488', strokeWidth: 2, strokeDasharray: '6,4' },
+      data: { relationship },
+    });
+  };
+
+  classes.forEach((classData, index) => {
+    const sourceId = nodes[index].id;
+    classData.extends.forEach(ref => addEdge(sourceId, ref, EDGE_TYPES.EXTENDS, classData.kind));
+    classData.implements.forEach(ref => addEdge(sourceId, ref, EDGE_TYPES.IMPLEMENTS, 'interface'));
+  });
+
+  // Edges point from derived to base type, so bottom-to-top puts bases on top
+  return {
+    nodes: layoutNodes(nodes, edges, { direction: 'BT' }),
+    edges,
+  };
+}
+
+/**
+ * Creates a React Flow node for a class or interface
+ * @param classData - Class information from parser
+ * @param usedIds - Node IDs already taken, to keep IDs unique
+ * @returns React Flow compatible node
+ */
+export function createClassNode(classData: ClassData, usedIds?: Set<string>): Node {
+  const baseId = `class-${getFunctionKey(classData.name, classData.filePath).replace(/[^a-zA-Z0-9]/g, '_')}`;
+  let nodeId = baseId;
+  for (let counter = 1; usedIds?.has(nodeId); counter++) {
+    nodeId = `${baseId}_${counter}`;
+  }
+  usedIds?.add(nodeId);
+
+  const memberPrefix = `${classData.name}.`;
+
+  return {
+    id: nodeId,
+    type: NODE_TYPES.CLASS,
+    position: { x: 0, y: 0 }, // Will be set by layout engine
+    data: {
+      label: classData.name,
+      kind: classData.kind,
+      methods: classData.methods.map(method =>
+        method.startsWith(memberPrefix) ? method.slice(memberPrefix.length) : method
+      ),
+      properties: classData.properties,
+      isExported: classData.exported || false,
+      isAbstract: classData.abstract || false,
+      isExternal: false,
+      documentation: classData.documentation,
+      location: classData.location,
+      filePath: classData.filePath,
+    },
+  };
+}
+
+/**
+ * Creates a placeholder node for a base type that was not analyzed
+ * @param nodeId - Node identifier
+ * @param name - Name as written in the heritage clause
+ * @param kind - Inferred declaration kind
+ * @returns React Flow compatible node
+ */
+function createExternalClassNode(nodeId: string, name: string, kind: ClassData['kind']): Node {
+  return {
+    id: nodeId,
+    type: NODE_TYPES.CLASS,
+    position: { x: 0, y: 0 },
+    data: {
+      label: name,
+      kind,
+      methods: [],
+      properties: [],
+      isExported: false,
+      isAbstract: false,
+      isExternal: true,
+    },
+  };
+}
+
 /**
  * Creates a React Flow node from function data
  * @param functionData - Function information from parser
@@ -91,11 +299,14 @@ export function createFunctionNode(functionData: FunctionData, usedNames?: Map<s
     isExported: functionData.exported || false,
     documentation: functionData.documentation,
     location: functionData.location,
+    filePath: functionData.filePath,
     sourceCode: generateSourcePreview(functionData),
     codePreview: functionData.sourceCode, // Actual source code for preview
     
     // Additional metadata for styling and interaction
     complexity: calculateComplexity(functionData),
+    metrics: functionData.metrics,
+    isComplex: functionData.metrics ? isHighComplexity(functionData.metrics) : calculateComplexity(functionData) > 3,
     category: categorizeFunction(functionData),
   };
 
@@ -151,6 +362,96 @@ export function createFunctionEdges(calls: FunctionCall[], functionToNodeId?: Ma
   });
 }
 
+/**
+ * Creates one node per imported package (or unanalyzed relative module) and an
+ * edge from every function calling into it. The node lists the members used.
+ * @param externalCalls - Calls into imported modules
+ * @param functionToNodeId - Mapping from (file-qualified) function names to node IDs
+ * @returns Module nodes and the edges pointing at them
+ */
+export function createExternalModuleGraph(
+  externalCalls: ExternalCall[],
+  functionToNodeId: Map<string, string>
+): GraphData {
+  const modules = new Map<string, { node: Node; members: Set<string>; callCount: number }>();
+  const edgeCalls = new Map<string, { source: string; target: string; calls: ExternalCall[] }>();
+
+  externalCalls.forEach(call => {
+    const sourceId = functionToNodeId.get(getFunctionKey(call.caller, call.callerFile));
+    if (!sourceId) return;
+
+    const packageName = getPackageName(call.module);
+    const nodeId = `module-${packageName.replace(/[^a-zA-Z0-9]/g, '_')}`;
+    if (!modules.has(nodeId)) {
+      modules.set(nodeId, {
+        node: {
+          id: nodeId,
+          type: NODE_TYPES.MODULE,
+          position: { x: 0, y: 0 }, // Will be set by layout engine
+          data: { label: packageName, isExternal: true, isRelative: packageName.startsWith('.') },
+        },
+        members: new Set(),
+        callCount: 0,
+      });
+    }
+    const moduleEntry = modules.get(nodeId)!;
+    moduleEntry.members.add(call.callee);
+    moduleEntry.callCount++;
+
+    const edgeId = `edge-${sourceId}-${EDGE_TYPES.EXTERNAL_CALL}-${nodeId}`;
+    if (!edgeCalls.has(edgeId)) {
+      edgeCalls.set(edgeId, { source: sourceId, target: nodeId, calls: [] });
+    }
+    edgeCalls.get(edgeId)!.calls.push(call);
+  });
+
+  const nodes = Array.from(modules.values()).map(({ node, members, callCount }) => ({
+    ...node,
+    data: { ...node.data, members: Array.from(members).sort(), callCount },
+  }));
+
+  const edges: Edge[] = Array.from(edgeCalls.entries()).map(([id, { source, target, calls }]) => ({
+    id,
+    source,
+    target,
+    type: 'smoothstep',
+    style: { stroke: '#9ca3af', strokeWidth: 1.5, strokeDasharray: '4,4' },
+    label: calls.length > 1 ? `${calls.length}x` : undefined,
+    data: { relationship: EDGE_TYPES.EXTERNAL_CALL, calls, callCount: calls.length },
+  }));
+
+  return { nodes, edges };
+}
+
+/**
+ * Reduces a module specifier to the package it belongs to: `react-dom/client`
+ * to `react-dom`, `@scope/pkg/sub` to `@scope/pkg`. Relative specifiers are
+ * kept as written.
+ * @param source - Module specifier
+ * @returns Package name
+ */
+export function getPackageName(source: string): string {
+  if (source.startsWith('.') || source.startsWith('/')) return source;
+  const segments = source.split('/');
+  return source.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+}
+
+/**
+ * Drops external module nodes and the edges into them, leaving the call graph
+ * between analyzed functions, e.g. for statistics and version diffs
+ * @param graph - Graph built by `buildReactFlowGraph`
+ * @returns Graph without external modules
+ */
+export function withoutExternalModules(graph: GraphData): GraphData {
+  const moduleIds = new Set(graph.nodes.filter(node => node.type === NODE_TYPES.MODULE).map(node => node.id));
+  if (moduleIds.size === 0) return graph;
+
+  return {
+    nodes: graph.nodes.filter(node => !moduleIds.has(node.id)),
+    edges: graph.edges.filter(edge => !moduleIds.has(edge.target)),
+  };
+}
+
 /**
  * Groups function calls by caller-callee relationship
  * @param calls - Array of function calls
@@ -160,7 +461,7 @@ function groupCallsByRelationship(calls: FunctionCall[]): Map<string, FunctionCa
   const groups = new Map<string, FunctionCall[]>();
   
   calls.forEach(call => {
-    const key = `${call.caller} -> ${call.callee}`;
+    const key = `${getFunctionKey(call.caller, call.callerFile)} -> ${getFunctionKey(call.callee, call.calleeFile)}`;
     if (!groups.has(key)) {
       groups.set(key, []);
     }
@@ -170,6 +471,17 @@ function groupCallsByRelationship(calls: FunctionCall[]): Map<string, FunctionCa
   return groups;
 }
 
+/**
+ * Builds the lookup key for a function. Functions from multi-file analysis
+ * are qualified with their file path so same-named functions stay distinct.
+ * @param name - Function name
+ * @param filePath - Declaring file, if known
+ * @returns Function key
+ */
+export function getFunctionKey(name: string, filePath?: string): string {
+  return filePath ? `${filePath}#${name}` : name;
+}
+
 /**
  * Creates a unique node ID with counter for duplicates
  * @param functionData - Function data containing name and location
@@ -177,7 +489,7 @@ function groupCallsByRelationship(calls: FunctionCall[]): Map<string, FunctionCa
  * @returns Unique node identifier
  */
 function createUniqueNodeId(functionData: FunctionData, usedNames?: Map<string, number>): string {
-  const cleanName = functionData.name.replace(/[^a-zA-Z0-9]/g, '_');
+  const cleanName = getFunctionKey(functionData.name, functionData.filePath).replace(/[^a-zA-Z0-9]/g, '_');
   
   if (!usedNames) {
     return `node-${cleanName}`;
@@ -244,11 +556,16 @@ function generateSourcePreview(functionData: FunctionData): string {
 }
 
 /**
- * Calculates complexity score for a function
+ * Calculates complexity score for a function: its cyclomatic complexity when
+ * parser metrics are available, otherwise an estimate from the signature
  * @param functionData - Function data
- * @returns Complexity score (0-10)
+ * @returns Complexity score (estimates are capped at 10)
  */
 function calculateComplexity(functionData: FunctionData): number {
+  if (functionData.metrics) {
+    return functionData.metrics.cyclomatic;
+  }
+
   let complexity = 1; // Base complexity
   
   // Add complexity for parameters
@@ -0,0 +1,98 @@
+/**
+ * Tests for Graph Diff
+ */
+
+import { diffGraphs, getFunctionChanges } from './graphDiff';
+import { buildReactFlowGraph } from './graphBuilder';
+import type { FunctionData, FunctionCall, ParsedCodeResult } from '../types';
+
+const fn = (name: string, overrides: Partial<FunctionData> = {}): FunctionData => ({
+  name,
+  parameters: [],
+  returnType: 'void',
+  location: { startLine: 1, endLine: 3, startColumn: 0, endColumn: 1 },
+  sourceCode: `function ${name}() {\n  return;\n}`,
+  ...overrides,
+});
+
+const call = (caller: string, callee: string): FunctionCall => ({ caller, callee, lineNumber: 2 });
+
+const graphOf = (functions: FunctionData[], calls: FunctionCall[]) => {
+  const parsed: ParsedCodeResult = { functions, calls, errors: [] };
+  return buildReactFlowGraph(parsed);
+};
+
+describe('diffGraphs', () => {
+  it('should mark added, removed, changed and unchanged functions and calls', () => {
+    const base = graphOf(
+      [fn('main'), fn('load'), fn('legacy'), fn('render')],
+      [call('main', 'load'), call('main', 'legacy')]
+    );
+    const head = graphOf(
+      [
+        fn('main'),
+        fn('load', { parameters: [{ name: 'id', type: 'string' }] }),
+        fn('render', { location: { startLine: 40, endLine: 42, startColumn: 0, endColumn: 1 } }),
+        fn('cache'),
+      ],
+      [call('main', 'load'), call('load', 'cache')]
+    );
+
+    const { graph, summary } = diffGraphs(base, head);
+    const statusOf = (label: string) => graph.nodes.find(node => node.data.label === label)?.data.diffStatus;
+
+    expect(statusOf('main')).toBe('unchanged');
+    expect(statusOf('load')).toBe('changed');
+    expect(statusOf('cache')).toBe('added');
+    expect(statusOf('legacy')).toBe('removed');
+    // Moving a function is not a change
+    expect(statusOf('render')).toBe('unchanged');
+    expect(graph.nodes.find(node => node.data.label === 'load')?.data.diffChanges).toEqual(['signature']);
+
+    expect(summary).toEqual({
+      functions: { added: 1, removed: 1, changed: 1, unchanged: 2 },
+      calls: { added: 1, removed: 1, unchanged: 1 },
+    });
+    expect(graph.edges.map(edge => edge.data?.diffStatus).sort()).toEqual(['added', 'removed', 'unchanged']);
+  });
+
+  it('should style added and removed calls', () => {
+    const { graph } = diffGraphs(
+      graphOf([fn('a'), fn('b')], [call('a', 'b')]),
+      graphOf([fn('a'), fn('b')], [call('b', 'a')])
+    );
+
+    const removed = graph.edges.find(edge => edge.data?.diffStatus === 'removed');
+    const added = graph.edges.find(edge => edge.data?.diffStatus === 'added');
+    expect(removed?.style?.strokeDasharray).toBe('6 4');
+    expect(added?.style?.stroke).toBe('#16a34a');
+  });
+});
+
+describe('getFunctionChanges', () => {
+  it('should detect body and complexity changes', () => {
+    const base = {
+      codePreview: 'function a() {\n  return 1;\n}',
+      metrics: { cyclomatic: 1, cognitive: 0, maxNesting: 0 },
+    };
+
+    expect(getFunctionChanges(base, {
+      codePreview: 'function a() {\n  if (x) return 2;\n  return 1;\n}',
+      metrics: { cyclomatic: 2, cognitive: 1, maxNesting: 1 },
+    })).toEqual(['complexity', 'body']);
+  });
+
+  it('should ignore reindentation and blank lines', () => {
+    expect(getFunctionChanges(
+      { codePreview: 'function a() {\n  return 1;\n}' },
+      { codePreview: '    function a() {\n\n        return 1;\n    }\n' }
+    )).toEqual([]);
+  });
+
+  it('should compare line spans when the source is not available', () => {
+    expect(getFunctionChanges(
+      { location: { startLine: 1, endLine: 5 } },
+      { location: { startLine: 10, endLine: 20 } }
+    )).toEqual(['body']);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Graph Diff Module
+ * Compares the call graphs of two versions of the same code (e.g. a PR base and
+ * head) and merges them into one graph whose functions and calls are marked as
+ * added, removed, changed or unchanged.
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import type { FunctionParameter, GraphData } from '../types';
+import { autoLayout } from './layoutEngine';
+import { flattenGroups } from './nodeGroups';
+
+/**
+ * What changed in a function present in both versions
+ */
+export type FunctionChange = 'signature' | 'complexity' | 'body';
+
+/**
+ * Counts of added, removed and changed functions and calls
+ */
+export interface GraphDiffSummary {
+  functions: { added: number; removed: number; changed: number; unchanged: number };
+  calls: { added: number; removed: number; unchanged: number };
+}
+
+/**
+ * Combined graph and change counts
+ */
+export interface GraphDiffResult {
+  /**
+   * Functions and calls of both versions. Nodes carry `diffStatus` and, when
+   * changed, `diffChanges` in their data; edges carry `diffStatus` in their data.
+   */
+  graph: GraphData;
+  summary: GraphDiffSummary;
+}
+
+/**
+ * Colors for each diff status, shared by the nodes, edges and legend
+ */
+export const DIFF_COLORS = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  changed: '#d97706',
+} as const;
+
+interface DiffableNodeData {
+  parameters?: FunctionParameter[];
+  returnType?: string;
+  isAsync?: boolean;
+  isExported?: boolean;
+  metrics?: { cyclomatic: number; cognitive: number; maxNesting: number };
+  codePreview?: string;
+  location?: { startLine: number; endLine: number };
+}
+
+/**
+ * Diffs two call graphs built by `buildReactFlowGraph`. Functions are matched by
+ * node ID, which is derived from the function name (and file in multi-file
+ * graphs), so a function keeps its identity when it moves within the file.
+ * @param base - Graph of the old version
+ * @param head - Graph of the new version
+ * @returns Combined graph with head positions laid out afresh, and change counts
+ */
+export function diffGraphs(base: GraphData, head: GraphData): GraphDiffResult {
+  const summary: GraphDiffSummary = {
+    functions: { added: 0, removed: 0, changed: 0, unchanged: 0 },
+    calls: { added: 0, removed: 0, unchanged: 0 },
+  };
+
+  // Groups and section headers come from the layout and are recreated for the combined graph
+  const baseFunctions = flattenGroups(base.nodes).filter(node => node.type !== 'sectionHeader');
+  const headFunctions = flattenGroups(head.nodes).filter(node => node.type !== 'sectionHeader');
+  const baseNodes = new Map(baseFunctions.map(node => [node.id, node]));
+  const headNodeIds = new Set(headFunctions.map(node => node.id));
+
+  const nodes: Node[] = headFunctions.map(node => {
+    const baseNode = baseNodes.get(node.id);
+    if (!baseNode) {
+      summary.functions.added++;
+      return markNode(node, 'added');
+    }
+    const changes = getFunctionChanges(baseNode.data as DiffableNodeData, node.data as DiffableNodeData);
+    if (changes.length === 0) {
+      summary.functions.unchanged++;
+      return markNode(node, 'unchanged');
+    }
+    summary.functions.changed++;
+    return markNode(node, 'changed', changes);
+  });
+
+  baseFunctions.forEach(node => {
+    if (headNodeIds.has(node.id)) return;
+    summary.functions.removed++;
+    nodes.push(markNode(node, 'removed'));
+  });
+
+  const edgeKey = (edge: Edge) => `${edge.source}\u0000${edge.target}`;
+  const baseEdgeKeys = new Set(base.edges.map(edgeKey));
+  const headEdgeKeys = new Set(head.edges.map(edgeKey));
+
+  const edges: Edge[] = head.edges.map(edge => {
+    if (baseEdgeKeys.has(edgeKey(edge))) {
+      summary.calls.unchanged++;
+      return markEdge(edge, 'unchanged');
+    }
+    summary.calls.added++;
+    return markEdge(edge, 'added');
+  });
+
+  base.edges.forEach(edge => {
+    if (headEdgeKeys.has(edgeKey(edge))) return;
+    summary.calls.removed++;
+    edges.push(markEdge(edge, 'removed'));
+  });
+
+  return {
+    graph: { nodes: autoLayout(nodes, edges), edges },
+    summary,
+  };
+}
+
+/**
+ * Lists what differs between two versions of a function
+ * @param base - Node data of the old version
+ * @param head - Node data of the new version
+ * @returns Changed aspects, empty when the function is unchanged
+ */
+export function getFunctionChanges(base: DiffableNodeData, head: DiffableNodeData): FunctionChange[] {
+  const changes: FunctionChange[] = [];
+
+  if (getSignature(base) !== getSignature(head)) {
+    changes.push('signature');
+  }
+
+  // Without parser metrics the complexity is estimated from the signature, which is compared above
+  if (base.metrics && head.metrics && (
+    base.metrics.cyclomatic !== head.metrics.cyclomatic ||
+    base.metrics.cognitive !== head.metrics.cognitive ||
+    base.metrics.maxNesting !== head.metrics.maxNesting
+  )) {
+    changes.push('complexity');
+  }
+
+  // Source text decides when both versions have it; otherwise the line span stands in
+  const body = (data: DiffableNodeData) => data.codePreview !== undefined
+    ? normalizeSource(data.codePreview)
+    : data.location ? String(data.location.endLine - data.location.startLine) : '';
+  const comparableBodies = (base.codePreview === undefined) === (head.codePreview === undefined);
+  if (comparableBodies && body(base) !== body(head)) {
+    changes.push('body');
+  }
+
+  return changes;
+}
+
+/**
+ * Serializes the parts of a function that callers depend on
+ */
+function getSignature(data: DiffableNodeData): string {
+  return JSON.stringify({
+    parameters: (data.parameters || []).map(param => [param.name, param.type, Boolean(param.optional), param.defaultValue ?? null]),
+    returnType: data.returnType ?? null,
+    isAsync: Boolean(data.isAsync),
+    isExported: Boolean(data.isExported),
+  });
+}
+
+/**
+ * Drops indentation, trailing spaces and blank lines so reformatting alone is not a change
+ */
+function normalizeSource(source: string): string {
+  return source
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+function markNode(node: Node, diffStatus: 'added' | 'removed' | 'changed' | 'unchanged', diffChanges?: FunctionChange[]): Node {
+  return {
+    ...node,
+    data: { ...node.data, diffStatus, ...(diffChanges && { diffChanges }) },
+  };
+}
+
+function markEdge(edge: Edge, diffStatus: 'added' | 'removed' | 'unchanged'): Edge {
+  if (diffStatus === 'unchanged') {
+    return { ...edge, data: { ...edge.data, diffStatus } };
+  }
+  return {
+    ...edge,
+    data: { ...edge.data, diffStatus },
+    style: {
+      ...edge.style,
+      stroke: DIFF_COLORS[diffStatus],
+      strokeWidth: 2.5,
+      ...(diffStatus === 'removed' && { strokeDasharray: '6 4' }),
+    },
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for Graph Export
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import {
+  exportGraphToMermaid,
+  exportGraphToDot,
+  exportGraphAsDiagram,
+  isDiagramFormat,
+} from './graphExport';
+import type { GraphData } from '../types';
+
+const node = (id: string, data: Record<string, unknown> = {}): Node => ({
+  id,
+  type: 'function',
+  position: { x: 0, y: 0 },
+  data: { label: id.replace(/^node-/, ''), ...data },
+});
+
+const callEdge = (source: string, target: string, callCount: number, isAsync = false): Edge => ({
+  id: `edge-${source}-${target}`,
+  source,
+  target,
+  label: callCount > 1 ? `${callCount}x` : undefined,
+  data: { calls: [], callCount, isAsync },
+});
+
+const graph: GraphData = {
+  nodes: [
+    node('node-main', { isExported: true }),
+    node('node-load', { isAsync: true }),
+    node('node-helper'),
+  ],
+  edges: [
+    callEdge('node-main', 'node-load', 1, true),
+    callEdge('node-main', 'node-helper', 3),
+    callEdge('node-load', 'node-helper', 1),
+  ],
+};
+
+describe('exportGraphToMermaid', () => {
+  it('should emit a flowchart with tagged nodes and styled edges', () => {
+    const mermaid = exportGraphToMermaid(graph, { title: 'app.ts' });
+
+    expect(mermaid).toBe([
+      '%% app.ts',
+      'flowchart TD',
+      '  node_main["main<br/><small>export</small>"]',
+      '  node_load["load<br/><small>async</small>"]',
+      '  node_helper["helper"]',
+      '  node_main -.-> node_load',
+      '  node_main ==>|"3x"| node_helper',
+      '  node_load --> node_helper',
+      '  classDef exported fill:#f0fdf4,stroke:#16a34a,color:#14532d',
+      '  class node_main exported',
+      '  classDef async fill:#faf5ff,stroke:#7c3aed,color:#581c87',
+      '  class node_load async',
+      '',
+    ].join('\n'));
+  });
+
+  it('should make node IDs valid and unique and escape labels', () => {
+    const mermaid = exportGraphToMermaid({
+      nodes: [node('node-a.b', { label: 'compare<"T">' }), node('node-a_b'), node('2nd')],
+      edges: [],
+    }, { direction: 'LR' });
+
+    expect(mermaid).toContain('flowchart LR');
+    expect(mermaid).toContain('  node_a_b["compare#lt;#quot;T#quot;#gt;"]');
+    expect(mermaid).toContain('  node_a_b_2["a_b"]');
+    expect(mermaid).toContain('  n2nd["2nd"]');
+  });
+
+  it('should leave out section headers, hidden nodes and their edges', () => {
+    const mermaid = exportGraphToMermaid({
+      nodes: [
+        { id: 'header-0', type: 'sectionHeader', position: { x: 0, y: 0 }, data: { label: 'Exported' } },
+        node('node-a'),
+        { ...node('node-b'), hidden: true },
+      ],
+      edges: [callEdge('node-a', 'node-b', 1)],
+    });
+
+    expect(mermaid).toBe('flowchart TD\n  node_a["a"]\n');
+  });
+});
+
+describe('exportGraphToDot', () => {
+  it('should emit a digraph with tagged nodes and styled edges', () => {
+    const dot = exportGraphToDot(graph, { title: 'app "main".ts' });
+
+    expect(dot).toMatch(/^digraph CallGraph \{\n {2}label="app \\"main\\"\.ts";/);
+    expect(dot).toContain('  rankdir=TB;');
+    expect(dot).toContain('  "node-main" [label="main\\n[export]", fillcolor="#f0fdf4", color="#16a34a"];');
+    expect(dot).toContain('  "node-load" [label="load\\n[async]", fillcolor="#faf5ff", color="#7c3aed"];');
+    expect(dot).toContain('  "node-helper" [label="helper"];');
+    expect(dot).toContain('  "node-main" -> "node-load" [style=dashed, color="#8b5cf6"];');
+    expect(dot).toContain('  "node-main" -> "node-helper" [label="3x", style=bold, color="#f59e0b", penwidth=2];');
+    expect(dot).toContain('  "node-load" -> "node-helper";');
+    expect(dot.trimEnd().endsWith('}')).toBe(true);
+  });
+
+  it('should keep relationship labels of class hierarchy edges', () => {
+    const dot = exportGraphToDot({
+      nodes: [
+        node('class-Circle', { label: 'Circle', kind: 'class' }),
+        node('class-external-Shape', { label: 'Shape', kind: 'interface', isExternal: true }),
+      ],
+      edges: [{ id: 'e', source: 'class-Circle', target: 'class-external-Shape', label: 'implements' }],
+    }, { direction: 'BT' });
+
+    expect(dot).toContain('  rankdir=BT;');
+    expect(dot).toContain('"class-external-Shape" [label="Shape\\n[external, interface]", style="rounded,dashed"];');
+    expect(dot).toContain('"class-Circle" -> "class-external-Shape" [label="implements"];');
+  });
+});
+
+describe('exportGraphAsDiagram', () => {
+  it('should dispatch on the format', () => {
+    expect(exportGraphAsDiagram(graph, 'mermaid')).toBe(exportGraphToMermaid(graph));
+    expect(exportGraphAsDiagram(graph, 'dot')).toBe(exportGraphToDot(graph));
+  });
+
+  it('should recognize supported formats', () => {
+    expect(isDiagramFormat('mermaid')).toBe(true);
+    expect(isDiagramFormat('dot')).toBe(true);
+    expect(isDiagramFormat('json')).toBe(false);
+    expect(isDiagramFormat('toString')).toBe(false);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Graph Export Module
+ * Converts graph data into text diagram formats (Mermaid flowcharts and
+ * Graphviz DOT) that can be pasted into Markdown docs and ADRs.
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import type { GraphData } from '../types';
+import { flattenGroups } from './nodeGroups';
+
+/**
+ * Text diagram formats the graph can be exported to
+ */
+export type DiagramFormat = 'mermaid' | 'dot';
+
+/**
+ * Options for diagram export
+ */
+export interface DiagramExportOptions {
+  /** Layout direction, as in the layout engine */
+  direction: 'TB' | 'LR' | 'BT' | 'RL';
+  /** Diagram title (a Mermaid comment, the DOT graph label) */
+  title?: string;
+}
+
+export const DEFAULT_DIAGRAM_EXPORT_OPTIONS: DiagramExportOptions = {
+  direction: 'TB',
+};
+
+/**
+ * File extension and content type per diagram format
+ */
+export const DIAGRAM_FORMATS: Record<DiagramFormat, { extension: string; mimeType: string }> = {
+  mermaid: { extension: 'mmd', mimeType: 'text/vnd.mermaid' },
+  dot: { extension: 'dot', mimeType: 'text/vnd.graphviz' },
+};
+
+/**
+ * Checks whether a value names a supported diagram format
+ */
+export function isDiagramFormat(value: unknown): value is DiagramFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DIAGRAM_FORMATS, value);
+}
+
+/**
+ * Kind of call an edge represents, which picks its styling
+ */
+type EdgeKind = 'async' | 'multiple' | 'single';
+
+/**
+ * Exports graph data in the given diagram format
+ * @param graph - Nodes and edges to export
+ * @param format - Diagram format
+ * @param options - Direction and title
+ * @returns Diagram source
+ */
+export function exportGraphAsDiagram(
+  graph: GraphData,
+  format: DiagramFormat,
+  options: Partial<DiagramExportOptions> = {}
+): string {
+  return format === 'dot' ? exportGraphToDot(graph, options) : exportGraphToMermaid(graph, options);
+}
+
+/**
+ * Exports graph data as a Mermaid flowchart.
+ * Async calls are dotted, repeated calls are thick and labeled with their count,
+ * and exported/async functions are tagged in their label and styled with a class.
+ * @param graph - Nodes and edges to export
+ * @param options - Direction and title
+ * @returns Mermaid source
+ */
+export function exportGraphToMermaid(graph: GraphData, options: Partial<DiagramExportOptions> = {}): string {
+  const settings = { ...DEFAULT_DIAGRAM_EXPORT_OPTIONS, ...options };
+  const { nodes, edges } = getDiagramContent(graph);
+  const ids = createDiagramIds(nodes);
+  const lines: string[] = [];
+
+  if (settings.title) {
+    lines.push(`%% ${settings.title.replace(/[\r\n]+/g, ' ')}`);
+  }
+  // Mermaid spells top-to-bottom as TD
+  lines.push(`flowchart ${settings.direction === 'TB' ? 'TD' : settings.direction}`);
+
+  const exportedIds: string[] = [];
+  const asyncIds: string[] = [];
+  nodes.forEach(node => {
+    const id = ids.get(node.id)!;
+    const tags = getNodeTags(node);
+    const label = escapeMermaid(getNodeLabel(node)) +
+      (tags.length > 0 ? `<br/><small>${tags.join(', ')}</small>` : '');
+    lines.push(`  ${id}["${label}"]`);
+
+    const data = getNodeData(node);
+    if (data.isAsync) asyncIds.push(id);
+    else if (data.isExported) exportedIds.push(id);
+  });
+
+  edges.forEach(edge => {
+    const source = ids.get(edge.source)!;
+    const target = ids.get(edge.target)!;
+    const label = getEdgeLabel(edge);
+    const arrow = {
+      async: '-.->',
+      multiple: '==>',
+      single: '-->',
+    }[getEdgeKind(edge)];
+    lines.push(`  ${source} ${arrow}${label ? `|"${escapeMermaid(label)}"|` : ''} ${target}`);
+  });
+
+  if (exportedIds.length > 0) {
+    lines.push('  classDef exported fill:#f0fdf4,stroke:#16a34a,color:#14532d');
+    lines.push(`  class ${exportedIds.join(',')} exported`);
+  }
+  if (asyncIds.length > 0) {
+    lines.push('  classDef async fill:#faf5ff,stroke:#7c3aed,color:#581c87');
+    lines.push(`  class ${asyncIds.join(',')} async`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Exports graph data as a Graphviz DOT digraph.
+ * Async calls are dashed and purple, repeated calls are bold, amber and labeled
+ * with their count, and exported/async functions are tagged and filled.
+ * @param graph - Nodes and edges to export
+ * @param options - Direction and title
+ * @returns DOT source
+ */
+export function exportGraphToDot(graph: GraphData, options: Partial<DiagramExportOptions> = {}): string {
+  const settings = { ...DEFAULT_DIAGRAM_EXPORT_OPTIONS, ...options };
+  const { nodes, edges } = getDiagramContent(graph);
+  const lines: string[] = ['digraph CallGraph {'];
+
+  if (settings.title) {
+    lines.push(`  label=${quoteDot(settings.title)};`, '  labelloc=t;');
+  }
+  lines.push(
+    `  rankdir=${settings.direction};`,
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=11, fillcolor="#f9fafb", color="#9ca3af"];',
+    '  edge [fontname="Helvetica", fontsize=10, color="#6b7280"];'
+  );
+
+  nodes.forEach(node => {
+    const data = getNodeData(node);
+    const tags = getNodeTags(node);
+    const attributes = [`label=${quoteDot([getNodeLabel(node), ...(tags.length > 0 ? [`[${tags.join(', ')}]`] : [])].join('\n'))}`];
+
+    if (data.isAsync) {
+      attributes.push('fillcolor="#faf5ff"', 'color="#7c3aed"');
+    } else if (data.isExported) {
+      attributes.push('fillcolor="#f0fdf4"', 'color="#16a34a"');
+    }
+    if (data.isExternal) {
+      attributes.push('style="rounded,dashed"');
+    }
+
+    lines.push(`  ${quoteDot(node.id)} [${attributes.join(', ')}];`);
+  });
+
+  edges.forEach(edge => {
+    const attributes: string[] = [];
+    const label = getEdgeLabel(edge);
+    if (label) attributes.push(`label=${quoteDot(label)}`);
+
+    switch (getEdgeKind(edge)) {
+      case 'async':
+        attributes.push('style=dashed', 'color="#8b5cf6"');
+        break;
+      case 'multiple':
+        attributes.push('style=bold', 'color="#f59e0b"');
+        break;
+    }
+
+    const callCount = getCallCount(edge);
+    if (callCount > 1) attributes.push(`penwidth=${Math.min(1 + (callCount - 1) * 0.5, 4)}`);
+
+    const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+    lines.push(`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)}${suffix};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Keeps the visible graph nodes (section headers and groups are layout
+ * decoration) and the edges between them
+ */
+function getDiagramContent(graph: GraphData): GraphData {
+  const nodes = flattenGroups(graph.nodes).filter(node => !node.hidden && node.type !== 'sectionHeader');
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const edges = graph.edges.filter(edge => !edge.hidden && nodeIds.has(edge.source) && nodeIds.has(edge.target));
+  return { nodes, edges };
+}
+
+/**
+ * Maps node IDs to unique identifiers that are valid Mermaid node names
+ */
+function createDiagramIds(nodes: Node[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+
+  nodes.forEach(node => {
+    const base = node.id.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^(?=\d)/, 'n') || 'node';
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix++) {
+      id = `${base}_${suffix}`;
+    }
+    used.add(id);
+    ids.set(node.id, id);
+  });
+
+  return ids;
+}
+
+/**
+ * Gets a node's data as a plain record
+ */
+function getNodeData(node: Node): Record<string, unknown> {
+  return (node.data || {}) as Record<string, unknown>;
+}
+
+/**
+ * Gets the name shown for a node
+ */
+function getNodeLabel(node: Node): string {
+  return String(getNodeData(node).label ?? node.id);
+}
+
+/**
+ * Tags shown under a node's name: export and async for functions,
+ * abstract/interface/external for class hierarchy nodes
+ */
+function getNodeTags(node: Node): string[] {
+  const data = getNodeData(node);
+  const tags: string[] = [];
+  if (data.isExternal) tags.push('external');
+  if (data.kind === 'interface') tags.push('interface');
+  if (data.isAbstract) tags.push('abstract');
+  if (data.isExported) tags.push('export');
+  if (data.isAsync) tags.push('async');
+  return tags;
+}
+
+/**
+ * Gets how many calls an edge groups (1 for non-call edges)
+ */
+function getCallCount(edge: Edge): number {
+  const callCount = (edge.data as { callCount?: number } | undefined)?.callCount;
+  return typeof callCount === 'number' ? callCount : 1;
+}
+
+/**
+ * Classifies an edge from the call data attached by the graph builder
+ */
+function getEdgeKind(edge: Edge): EdgeKind {
+  if ((edge.data as { isAsync?: boolean } | undefined)?.isAsync) return 'async';
+  return getCallCount(edge) > 1 ? 'multiple' : 'single';
+}
+
+/**
+ * Gets an edge's label: the call count badge ("3x") or a relationship name
+ */
+function getEdgeLabel(edge: Edge): string | null {
+  if (typeof edge.label === 'string' && edge.label.length > 0) return edge.label;
+  const callCount = getCallCount(edge);
+  return callCount > 1 ? `${callCount}x` : null;
+}
+
+/**
+ * Escapes text for a quoted Mermaid label using Mermaid entity codes
+ */
+function escapeMermaid(text: string): string {
+  return text
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Quotes a DOT identifier or label
+ */
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
@@ -0,0 +1,56 @@
+/**
+ * Tests for Graph Statistics
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import { computeGraphStats } from './graphStats';
+
+const node = (id: string, data: Record<string, unknown> = {}): Node => ({
+  id,
+  type: 'function',
+  position: { x: 0, y: 0 },
+  data: { label: id, parameters: [], ...data },
+});
+
+const edge = (source: string, target: string): Edge => ({ id: `${source}-${target}`, source, target });
+
+describe('computeGraphStats', () => {
+  it('should count function kinds and connections', () => {
+    const stats = computeGraphStats(
+      [
+        node('main', { isExported: true }),
+        node('load', { isAsync: true, metrics: { cyclomatic: 4, cognitive: 3, maxNesting: 1 } }),
+        node('save', { isAsync: true, metrics: { cyclomatic: 2, cognitive: 1, maxNesting: 0 } }),
+        node('unusedHelperFunction'),
+      ],
+      [edge('main', 'load'), edge('main', 'save')]
+    );
+
+    expect(stats).toMatchObject({
+      totalFunctions: 4,
+      totalCalls: 2,
+      exported: 1,
+      async: 2,
+      isolated: 1,
+      avgCyclomatic: 3,
+      avgCognitive: 2,
+      hasMetrics: true,
+      maxCallDepth: 1,
+      mostConnected: { nodeId: 'main', total: 2 },
+      potentialDeadCode: 1,
+    });
+  });
+
+  it('should separate recursion from circular dependencies', () => {
+    const recursive = computeGraphStats([node('walk')], [edge('walk', 'walk')]);
+    expect(recursive.cycles).toEqual([{ nodeIds: ['walk'], kind: 'recursive' }]);
+    expect(recursive.hasCircularDeps).toBe(false);
+
+    const mutual = computeGraphStats([node('a'), node('b')], [edge('a', 'b'), edge('b', 'a')]);
+    expect(mutual.hasCircularDeps).toBe(true);
+  });
+
+  it('should score an empty graph as fully efficient', () => {
+    expect(computeGraphStats([], []).efficiencyScore).toBe(100);
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Graph Statistics Module
+ * Computes the function, connection and code-efficiency statistics shown in the
+ * stats panel, so they can also be produced outside the browser (e.g. by the CLI).
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import { findCallCycles } from './graphAnalysis';
+import type { CallCycle } from './graphAnalysis';
+import type { ComplexityMetrics, FunctionParameter } from '../types';
+
+/**
+ * Node data fields the statistics read
+ */
+interface StatsNodeData {
+  label?: string;
+  parameters?: FunctionParameter[];
+  isExported?: boolean;
+  isAsync?: boolean;
+  category?: string;
+  isComplex?: boolean;
+  complexity?: number;
+  metrics?: ComplexityMetrics;
+}
+
+/**
+ * Statistics for a call graph
+ */
+export interface GraphStats {
+  totalFunctions: number;
+  totalCalls: number;
+  exported: number;
+  async: number;
+  methods: number;
+  complex: number;
+  isolated: number;
+  avgParams: number;
+  /** Averages of the parser metrics, 0 when no function has metrics */
+  avgCyclomatic: number;
+  avgCognitive: number;
+  hasMetrics: boolean;
+  mostConnected: { nodeId: string; total: number; inbound: number; outbound: number };
+  /** Recursive functions and mutually recursive groups, largest first */
+  cycles: CallCycle[];
+  /** True when a cycle spans more than one function */
+  hasCircularDeps: boolean;
+  maxCallDepth: number;
+  duplicateNames: Array<{ name: string; count: number; nodes: Node[] }>;
+  longParameterFunctions: number;
+  deeplyNestedFunctions: number;
+  syncInAsyncContext: number;
+  possibleMemoryLeaks: number;
+  similarFunctions: number;
+  potentialDeadCode: number;
+  /** 0-100, lower when isolated, complex, duplicate or dead functions are common */
+  efficiencyScore: number;
+}
+
+const dataOf = (node: Node) => node.data as StatsNodeData;
+
+// Functions nesting control flow deeper than this are flagged as deeply nested
+export const MAX_NESTING_DEPTH = 3;
+
+// Helper functions for advanced analysis
+const findDuplicateNames = (nodes: Node[]) => {
+  const nameCount: Record<string, Node[]> = {};
+  nodes.forEach(node => {
+    const name = dataOf(node).label || '';
+    const cleanName = name.split('(')[0].trim(); // Remove parameters from name
+    if (!nameCount[cleanName]) nameCount[cleanName] = [];
+    nameCount[cleanName].push(node);
+  });
+  
+  return Object.entries(nameCount)
+    .filter(([, nodesList]) => nodesList.length > 1)
+    .map(([name, nodesList]) => ({ name, count: nodesList.length, nodes: nodesList }));
+};
+
+const findSimilarFunctions = (nodes: Node[]) => {
+  const similarGroups: Array<{ similarity: number; nodes: Node[] }> = [];
+  
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const node1 = nodes[i];
+      const node2 = nodes[j];
+      
+      const params1 = dataOf(node1).parameters || [];
+      const params2 = dataOf(node2).parameters || [];
+      const name1 = dataOf(node1).label || '';
+      const name2 = dataOf(node2).label || '';
+      
+      // Check parameter similarity
+      const paramSimilarity = calculateParameterSimilarity(params1, params2);
+      const nameSimilarity = calculateNameSimilarity(name1, name2);
+      
+      const overallSimilarity = (paramSimilarity + nameSimilarity) / 2;
+      
+      if (overallSimilarity > 0.7) {
+        similarGroups.push({ similarity: overallSimilarity, nodes: [node1, node2] });
+      }
+    }
+  }
+  
+  return similarGroups;
+};
+
+const calculateParameterSimilarity = (params1: FunctionParameter[], params2: FunctionParameter[]) => {
+  if (params1.length === 0 && params2.length === 0) return 1;
+  if (params1.length === 0 || params2.length === 0) return 0;
+  
+  const maxLength = Math.max(params1.length, params2.length);
+  const minLength = Math.min(params1.length, params2.length);
+  
+  // Basic similarity based on parameter count and types
+  const lengthSimilarity = minLength / maxLength;
+  
+  let typeSimilarity = 0;
+  for (let i = 0; i < minLength; i++) {
+    if (params1[i]?.type === params2[i]?.type) {
+      typeSimilarity += 1;
+    }
+  }
+  typeSimilarity /= minLength;
+  
+  return (lengthSimilarity + typeSimilarity) / 2;
+};
+
+const calculateNameSimilarity = (name1: string, name2: string) => {
+  // Simple string similarity using longest common subsequence
+  const lcs = (s1: string, s2: string): number => {
+    const dp: number[][] = Array(s1.length + 1).fill(null).map(() => Array(s2.length + 1).fill(0));
+    
+    for (let i = 1; i <= s1.length; i++) {
+      for (let j = 1; j <= s2.length; j++) {
+        if (s1[i - 1] === s2[j - 1]) {
+          dp[i][j] = dp[i - 1][j - 1] + 1;
+        } else {
+          dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+        }
+      }
+    }
+    return dp[s1.length][s2.length];
+  };
+  
+  const maxLength = Math.max(name1.length, name2.length);
+  return maxLength > 0 ? lcs(name1, name2) / maxLength : 0;
+};
+
+const calculateEfficiencyScore = (metrics: {
+  totalFunctions: number;
+  isolated: number;
+  complex: number;
+  duplicates: number;
+  longParams: number;
+  deepNested: number;
+  deadCode: number;
+}) => {
+  if (metrics.totalFunctions === 0) return 100;
+  
+  let score = 100;
+  
+  // Deduct points for various issues
+  score -= (metrics.isolated / metrics.totalFunctions) * 20; // Isolated functions
+  score -= (metrics.complex / metrics.totalFunctions) * 15; // Complex functions
+  score -= (metrics.duplicates / metrics.totalFunctions) * 25; // Duplicate names
+  score -= (metrics.longParams / metrics.totalFunctions) * 10; // Long parameter lists
+  score -= (metrics.deepNested / metrics.totalFunctions) * 15; // Deeply nested functions
+  score -= (metrics.deadCode / metrics.totalFunctions) * 30; // Dead code
+  
+  return Math.max(0, Math.round(score));
+};
+
+/**
+ * Computes statistics for a call graph
+ * @param nodes - Function nodes (section headers should be left out)
+ * @param edges - Call edges
+ * @returns Graph statistics
+ */
+export function computeGraphStats(nodes: Node[], edges: Edge[]): GraphStats {
+  const totalFunctions = nodes.length;
+  const totalCalls = edges.length;
+  
+  // Function type breakdown
+  const exported = nodes.filter(node => dataOf(node).isExported).length;
+  const async = nodes.filter(node => dataOf(node).isAsync).length;
+  const methods = nodes.filter(node => dataOf(node).category === 'method').length;
+  const complex = nodes.filter(node => dataOf(node).isComplex).length;
+
+  // Parser metrics (cyclomatic/cognitive complexity, nesting) when available
+  const measured = nodes
+    .map(node => dataOf(node).metrics)
+    .filter((metrics): metrics is ComplexityMetrics => Boolean(metrics));
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : 0;
+  const avgCyclomatic = average(measured.map(metrics => metrics.cyclomatic));
+  const avgCognitive = average(measured.map(metrics => metrics.cognitive));
+  
+  // Connection analysis
+  const connectionCounts = nodes.map(node => {
+    const inbound = edges.filter(edge => edge.target === node.id).length;
+    const outbound = edges.filter(edge => edge.source === node.id).length;
+    return { nodeId: node.id, total: inbound + outbound, inbound, outbound };
+  });
+  
+  const isolated = connectionCounts.filter(c => c.total === 0).length;
+  const mostConnected = connectionCounts.reduce(
+    (max, current) => current.total > max.total ? current : max,
+    { nodeId: '', total: 0, inbound: 0, outbound: 0 }
+  );
+  
+  // Calculate average parameters per function
+  const avgParams = totalFunctions > 0 
+    ? nodes.reduce((sum, node) => sum + (dataOf(node).parameters?.length || 0), 0) / totalFunctions
+    : 0;
+  
+  // Call cycles (strongly connected components); direct recursion alone is not a circular dependency
+  const cycles = findCallCycles(edges);
+  const hasCircularDeps = cycles.some(cycle => cycle.kind === 'mutual');
+  
+  // Calculate call chain depth (simplified BFS)
+  const calculateMaxDepth = () => {
+    if (totalFunctions === 0) return 0;
+    
+    let maxDepth = 0;
+    nodes.forEach(startNode => {
+      const visited = new Set<string>();
+      const queue: Array<{ nodeId: string; depth: number }> = [{ nodeId: startNode.id, depth: 0 }];
+      
+      while (queue.length > 0) {
+        const { nodeId, depth } = queue.shift()!;
+        
+        if (visited.has(nodeId)) continue;
+        visited.add(nodeId);
+        
+        maxDepth = Math.max(maxDepth, depth);
+        
+        // Add connected nodes to queue
+        edges
+          .filter(edge => edge.source === nodeId)
+          .forEach(edge => {
+            if (!visited.has(edge.target)) {
+              queue.push({ nodeId: edge.target, depth: depth + 1 });
+            }
+          });
+      }
+    });
+    
+    return maxDepth;
+  };
+  
+  const maxCallDepth = calculateMaxDepth();
+  
+  // Advanced efficiency analysis
+  const duplicateNames = findDuplicateNames(nodes);
+  const longParameterFunctions = nodes.filter(node => (dataOf(node).parameters?.length || 0) > 5);
+  const deeplyNestedFunctions = nodes.filter(node => {
+    const metrics = dataOf(node).metrics;
+    return metrics ? metrics.maxNesting > MAX_NESTING_DEPTH : (dataOf(node).complexity || 0) > 5;
+  });
+  
+  // Performance analysis
+  const syncInAsyncContext = nodes.filter(node => {
+    const label = dataOf(node).label || '';
+    const isAsync = dataOf(node).isAsync;
+    // Check for potential sync operations in async functions
+    return isAsync && (label.includes('sync') || label.includes('Sync'));
+  });
+  
+  // Memory efficiency analysis
+  const possibleMemoryLeaks = edges.filter(edge => {
+    const sourceNode = nodes.find(n => n.id === edge.source);
+    const targetNode = nodes.find(n => n.id === edge.target);
+    // Look for event listeners that might not be cleaned up
+    const sourceLabel = (sourceNode && dataOf(sourceNode).label) || '';
+    const targetLabel = (targetNode && dataOf(targetNode).label) || '';
+    return sourceLabel.includes('addEventListener') && !targetLabel.includes('removeEventListener');
+  });
+  
+  // Code reuse opportunities
+  const similarFunctions = findSimilarFunctions(nodes);
+  
+  // Improved dead code detection with better heuristics
+  const potentialDeadCode = nodes.filter(node => {
+    const isIsolated = connectionCounts.find(c => c.nodeId === node.id)?.total === 0;
+    const isExported = dataOf(node).isExported;
+    const label = dataOf(node).label || '';
+    const functionName = label.split('(')[0].trim();
+    
+    // Skip if exported
+    if (isExported) return false;
+    
+    // Skip entry points
+    const isEntryPoint = /^(main|index|App|_app|_document)$/i.test(functionName) ||
+                        label.includes('main') || 
+                        label.includes('index') ||
+                        label.includes('App');
+    if (isEntryPoint) return false;
+    
+    // Skip React hooks (they are used by React internally)
+    const isReactHook = /^use[A-Z]/.test(functionName) ||
+                       label.includes('(useCallback)') ||
+                       label.includes('(useEffect)') ||
+                       label.includes('(useMemo)') ||
+                       label.includes('(useState)') ||
+                       label.includes('(useReducer)') ||
+                       label.includes('(useContext)') ||
+                       label.includes('(useRef)');
+    if (isReactHook) return false;
+    
+    // Skip event handlers (commonly passed as props/callbacks)
+    const isEventHandler = /^(on[A-Z]|handle[A-Z])/.test(functionName) ||
+                          functionName.includes('Handler') ||
+                          functionName.includes('Callback') ||
+                          functionName.includes('onClick') ||
+                          functionName.includes('onChange') ||
+                          functionName.includes('onSubmit') ||
+                          functionName.includes('onLoad');
+    if (isEventHandler) return false;
+    
+    // Skip render functions and component helpers
+    const isRenderFunction = /^(render[A-Z]|get[A-Z]|create[A-Z])/.test(functionName) ||
+                            functionName.includes('Component') ||
+                            functionName.includes('Element') ||
+                            label.includes('JSX');
+    if (isRenderFunction) return false;
+    
+    // Skip utility functions commonly used in JSX or as callbacks
+    const isUtilityFunction = /^(format|parse|validate|transform|convert|map|filter|reduce)/.test(functionName.toLowerCase());
+    if (isUtilityFunction) return false;
+    
+    // Skip functions that look like they might be used as callbacks
+    // (functions with common callback patterns)
+    const isLikelyCallback = functionName.length <= 20 && // Short functions often callbacks
+                            (/^[a-z]/.test(functionName) || // camelCase functions
+                             functionName.includes('_') ||  // snake_case functions
+                             /[A-Z]$/.test(functionName));  // functions ending in caps
+    if (isLikelyCallback && functionName.length <= 15) return false;
+    
+    // Skip lifecycle methods and setup functions
+    const isLifecycleOrSetup = /^(init|setup|mount|unmount|destroy|cleanup|dispose)/.test(functionName.toLowerCase()) ||
+                              functionName.includes('componentDidMount') ||
+                              functionName.includes('componentWillUnmount');
+    if (isLifecycleOrSetup) return false;
+    
+    // Skip test functions
+    const isTestFunction = /^(test|describe|it|expect|before|after)/.test(functionName.toLowerCase()) ||
+                          functionName.includes('Test') ||
+                          functionName.includes('Spec');
+    if (isTestFunction) return false;
+    
+    // Skip configuration or constant functions
+    const isConfigFunction = /^(config|constant|default|initial)/.test(functionName.toLowerCase()) ||
+                            functionName.includes('Config') ||
+                            functionName.includes('Constant') ||
+                            functionName.includes('Default');
+    if (isConfigFunction) return false;
+    
+    // Only flag as potential dead code if it's truly isolated AND doesn't match common patterns
+    return isIsolated;
+  });
+  
+  return {
+    totalFunctions,
+    totalCalls,
+    exported,
+    async,
+    methods,
+    complex,
+    isolated,
+    avgParams: Math.round(avgParams * 10) / 10,
+    avgCyclomatic,
+    avgCognitive,
+    hasMetrics: measured.length > 0,
+    mostConnected,
+    cycles,
+    hasCircularDeps,
+    maxCallDepth,
+    // Efficiency metrics
+    duplicateNames,
+    longParameterFunctions: longParameterFunctions.length,
+    deeplyNestedFunctions: deeplyNestedFunctions.length,
+    syncInAsyncContext: syncInAsyncContext.length,
+    possibleMemoryLeaks: possibleMemoryLeaks.length,
+    similarFunctions: similarFunctions.length,
+    potentialDeadCode: potentialDeadCode.length,
+    // Efficiency score (0-100)
+    efficiencyScore: calculateEfficiencyScore({
+      totalFunctions,
+      isolated,
+      complex,
+      duplicates: duplicateNames.length,
+      longParams: longParameterFunctions.length,
+      deepNested: deeplyNestedFunctions.length,
+      deadCode: potentialDeadCode.length
+    })
+  };
+}
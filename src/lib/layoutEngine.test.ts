@@ -7,6 +7,10 @@ import {
   createHierarchicalLayout,
   createHorizontalLayout,
   createCircularLayout,
+  createRadialLayout,
+  createForceLayout,
+  createMatrixLayout,
+  applyLayout,
   autoLayout,
   calculateGraphBounds,
   centerGraph,
@@ -14,6 +18,26 @@ import {
 } from './layoutEngine';
 import type { Node, Edge } from '@xyflow/react';
 
+// Nodes with distinct labels, all at the origin
+const createNodes = (count: number): Node[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `n${index}`,
+    position: { x: 0, y: 0 },
+    data: { label: `function${index}` },
+  }));
+
+// True when any two laid out node boxes intersect
+const overlaps = (nodes: Node[]) => {
+  const boxes = nodes.map(node => ({
+    x: node.position.x,
+    y: node.position.y,
+    width: Number(node.style!.width),
+    height: Number(node.style!.height),
+  }));
+  return boxes.some((a, i) => boxes.slice(i + 1).some(b =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height));
+};
+
 describe('layoutNodes', () => {
   const sampleNodes: Node[] = [
     {
@@ -187,18 +211,198 @@ describe('Layout variants', () => {
     expect(layoutedNodes[0].position).toEqual({ x: 0, y: 0 });
   });
 
-  it('should fall back to hierarchical for large graphs in circular layout', () => {
-    const manyNodes = Array.from({ length: 10 }, (_, i) => ({
-      id: String(i + 1),
-      position: { x: 0, y: 0 },
-      data: { label: `Node ${i + 1}` },
+  it('should arrange large graphs on a circle without overlaps', () => {
+    const manyNodes = createNodes(40);
+    const chain: Edge[] = manyNodes.slice(1).map((node, index) => ({
+      id: `e${index}`,
+      source: manyNodes[index].id,
+      target: node.id,
+    }));
+
+    const layoutedNodes = createCircularLayout(manyNodes, chain);
+    const centers = layoutedNodes.map(node => ({
+      x: node.position.x + Number(node.style!.width) / 2,
+      y: node.position.y + Number(node.style!.height) / 2,
+    }));
+    const middle = {
+      x: centers.reduce((sum, c) => sum + c.x, 0) / centers.length,
+      y: centers.reduce((sum, c) => sum + c.y, 0) / centers.length,
+    };
+    const radii = centers.map(c => Math.hypot(c.x - middle.x, c.y - middle.y));
+
+    expect(layoutedNodes).toHaveLength(40);
+    expect(Math.max(...radii) - Math.min(...radii)).toBeLessThan(1);
+    expect(overlaps(layoutedNodes)).toBe(false);
+  });
+});
+
+describe('createRadialLayout', () => {
+  // n0 -> n1 -> n2, n3 -> n0, n4 isolated
+  const nodes = createNodes(5);
+  const edges: Edge[] = [
+    { id: 'e1', source: 'n0', target: 'n1' },
+    { id: 'e2', source: 'n1', target: 'n2' },
+    { id: 'e3', source: 'n3', target: 'n0' },
+  ];
+
+  const distancesFrom = (layouted: Node[], centerId: string) => {
+    const centerOf = (node: Node) => ({
+      x: node.position.x + Number(node.style!.width) / 2,
+      y: node.position.y + Number(node.style!.height) / 2,
+    });
+    const center = centerOf(layouted.find(node => node.id === centerId)!);
+    return Object.fromEntries(layouted.map(node => {
+      const point = centerOf(node);
+      return [node.id, Math.round(Math.hypot(point.x - center.x, point.y - center.y))];
+    }));
+  };
+
+  it('should place callers and callees on rings by call distance', () => {
+    const layouted = createRadialLayout(nodes, edges, 'n1');
+    const distance = distancesFrom(layouted, 'n1');
+
+    expect(distance.n1).toBe(0);
+    // Caller n0 and callee n2 share the first ring
+    expect(distance.n0).toBe(distance.n2);
+    expect(distance.n3).toBeGreaterThan(distance.n0);
+    // Unreachable functions go on the outermost ring
+    expect(distance.n4).toBeGreaterThan(distance.n3);
+    expect(overlaps(layouted)).toBe(false);
+  });
+
+  it('should center the most connected node when no focus is given', () => {
+    const layouted = createRadialLayout(nodes, edges);
+    const distance = distancesFrom(layouted, 'n0');
+
+    expect(distance.n0).toBe(0);
+    expect(distance.n1).toBe(distance.n3);
+  });
+
+  it('should handle empty graphs and a single node', () => {
+    expect(createRadialLayout([], [])).toEqual([]);
+    expect(createRadialLayout(createNodes(1), [], 'n0')[0].position).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('createForceLayout', () => {
+  it('should be deterministic for a given seed', () => {
+    const nodes = createNodes(8);
+    const edges: Edge[] = [
+      { id: 'e1', source: 'n0', target: 'n1' },
+      { id: 'e2', source: 'n1', target: 'n2' },
+    ];
+
+    const first = createForceLayout(nodes, edges, { seed: 42 });
+    const second = createForceLayout(nodes, edges, { seed: 42 });
+    const other = createForceLayout(nodes, edges, { seed: 7 });
+
+    expect(first.map(node => node.position)).toEqual(second.map(node => node.position));
+    expect(first.map(node => node.position)).not.toEqual(other.map(node => node.position));
+  });
+
+  it('should size nodes like the Dagre layout and avoid overlaps', () => {
+    const nodes = createNodes(30);
+    const edges: Edge[] = nodes.slice(1).map((node, index) => ({
+      id: `e${index}`,
+      source: `n${Math.floor(index / 3)}`,
+      target: node.id,
     }));
 
-    const layoutedNodes = createCircularLayout(manyNodes, []);
+    const layouted = createForceLayout(nodes, edges);
+    const dagreSizes = layoutNodes(nodes, edges).map(node => node.style);
+
+    expect(layouted.map(node => node.style)).toEqual(dagreSizes);
+    expect(overlaps(layouted)).toBe(false);
+    expect(Math.min(...layouted.map(node => node.position.x))).toBe(0);
+    expect(Math.min(...layouted.map(node => node.position.y))).toBe(0);
+  });
+
+  it('should place connected nodes closer than unconnected ones', () => {
+    const nodes = createNodes(6);
+    const edges: Edge[] = [
+      { id: 'e1', source: 'n0', target: 'n1' },
+      { id: 'e2', source: 'n1', target: 'n2' },
+      { id: 'e3', source: 'n3', target: 'n4' },
+      { id: 'e4', source: 'n4', target: 'n5' },
+    ];
+
+    const layouted = createForceLayout(nodes, edges);
+    const distance = (a: number, b: number) => Math.hypot(
+      layouted[a].position.x - layouted[b].position.x,
+      layouted[a].position.y - layouted[b].position.y
+    );
+
+    expect(distance(0, 1)).toBeLessThan(distance(0, 5));
+    expect(distance(3, 4)).toBeLessThan(distance(2, 4));
+  });
+
+  it('should lay out a few hundred nodes quickly', () => {
+    const nodes = createNodes(300);
+    const edges: Edge[] = nodes.slice(1).map((node, index) => ({
+      id: `e${index}`,
+      source: `n${index % 50}`,
+      target: node.id,
+    }));
+
+    const start = Date.now();
+    const layouted = createForceLayout(nodes, edges);
+
+    expect(Date.now() - start).toBeLessThan(5000);
+    expect(overlaps(layouted)).toBe(false);
+  });
+
+  it('should handle empty graphs and a single node', () => {
+    expect(createForceLayout([], [])).toEqual([]);
+    expect(createForceLayout(createNodes(1), [])[0].position).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('createMatrixLayout', () => {
+  it('should nest class methods in a class group inside their file group', () => {
+    const nodes: Node[] = [
+      { id: 'a', position: { x: 0, y: 0 }, data: { label: 'main', filePath: 'src/main.ts' } },
+      { id: 'b', position: { x: 0, y: 0 }, data: { label: 'Api.get', filePath: 'src/api.ts', className: 'Api' } },
+      { id: 'c', position: { x: 0, y: 0 }, data: { label: 'Api.post', filePath: 'src/api.ts', className: 'Api' } },
+    ];
+
+    const result = createMatrixLayout(nodes, [], 4);
+    const byId = new Map(result.map(node => [node.id, node]));
+    const classGroup = result.find(node => node.type === 'functionGroup' && node.data.kind === 'class')!;
+
+    expect(classGroup.data).toMatchObject({ label: 'Api', count: 2 });
+    expect(byId.get('b')!.parentId).toBe(classGroup.id);
+    expect(byId.get('c')!.extent).toBe('parent');
+    expect(byId.get(classGroup.parentId!)!.data).toMatchObject({ label: 'src/api.ts', kind: 'file', count: 2 });
+    expect(byId.get('a')!.parentId).not.toBe(classGroup.parentId);
+    // React Flow needs parents before their members
+    result.forEach((node, index) => {
+      if (node.parentId) expect(result.findIndex(entry => entry.id === node.parentId)).toBeLessThan(index);
+    });
+  });
+
+  it('should not group functions without a file or class', () => {
+    const result = createMatrixLayout(createNodes(3), [], 4);
+
+    expect(result).toHaveLength(3);
+    expect(result.every(node => !node.parentId)).toBe(true);
+  });
+});
+
+describe('applyLayout', () => {
+  const spacing = { nodeSpacing: 200, rankSeparation: 150, edgeSeparation: 10 };
+
+  it('should ungroup nodes for layouts other than the grid', () => {
+    const nodes: Node[] = [
+      { id: 'a', position: { x: 0, y: 0 }, data: { label: 'main', filePath: 'main.ts' } },
+      { id: 'b', position: { x: 0, y: 0 }, data: { label: 'util', filePath: 'util.ts' } },
+    ];
+
+    const grid = applyLayout(nodes, [], { layoutType: 'grid', layoutDirection: 'TB', spacing });
+    const circular = applyLayout(grid, [], { layoutType: 'circular', layoutDirection: 'TB', spacing });
 
-    expect(layoutedNodes).toHaveLength(10);
-    // Should use hierarchical layout for many nodes
-    // (exact test would need to verify specific positioning patterns)
+    expect(grid.some(node => node.parentId)).toBe(true);
+    expect(circular.map(node => node.id)).toEqual(['a', 'b']);
+    expect(circular.every(node => !node.parentId)).toBe(true);
   });
 });
 
@@ -5,6 +5,9 @@
 
 import dagre from 'dagre';
 import type { Node, Edge } from '@xyflow/react';
+import { flattenGroups, GROUP_NODE_TYPE } from './nodeGroups';
+import type { GroupNodeData } from './nodeGroups';
+import type { ViewState } from '../types';
 
 export type LayoutDirection = 'TB' | 'BT' | 'LR' | 'RL';
 
@@ -149,7 +152,7 @@ function calculateNodeSize(node: Node, options: LayoutOptions): { width: number;
   if ((data as any).isExported) {
     badgeWidth += 100; // Space for "export" badge  
   }
-  if ((data as any).complexity && (data as any).complexity > 3) {
+  if ((data as any).isComplex) {
     badgeWidth += 100; // Space for "complex" badge
   }
   width += badgeWidth;
@@ -195,12 +198,15 @@ export function createHorizontalLayout(nodes: Node[], edges: Edge[]): Node[] {
 }
 
 /**
- * Creates a circular-like layout for small graphs
+ * Creates a circular layout for graphs of any size. Nodes are ordered by a
+ * depth-first walk so callers and callees sit next to each other, and the
+ * radius grows until neighbouring nodes no longer overlap.
  * @param nodes - Array of React Flow nodes
  * @param edges - Array of React Flow edges
+ * @param nodeSpacing - Minimum gap between neighbouring nodes
  * @returns Positioned nodes in circular arrangement
  */
-export function createCircularLayout(nodes: Node[], edges: Edge[]): Node[] {
+export function createCircularLayout(nodes: Node[], edges: Edge[], nodeSpacing: number = 60): Node[] {
   if (nodes.length <= 1) {
     return nodes.map(node => ({
       ...node,
@@ -208,126 +214,605 @@ export function createCircularLayout(nodes: Node[], edges: Edge[]): Node[] {
     }));
   }
 
-  if (nodes.length <= 6) {
-    // Small number of nodes - arrange in circle
-    const centerX = 200;
-    const centerY = 200;
-    const radius = Math.max(100, nodes.length * 30);
+  const sizes = nodes.map(node => calculateNodeSize(node, DEFAULT_LAYOUT_OPTIONS));
+  const order = orderByConnectivity(nodes, edges);
+  const { radius, angles } = fitRing(order.map(index => nodeExtent(sizes[index]) + nodeSpacing));
 
-    return nodes.map((node, index) => {
-      const angle = (2 * Math.PI * index) / nodes.length;
-      const x = centerX + radius * Math.cos(angle) - 125; // Offset for node width
-      const y = centerY + radius * Math.sin(angle) - 50;  // Offset for node height
+  const centers = new Map<number, { x: number; y: number }>();
+  order.forEach((index, position) => {
+    centers.set(index, {
+      x: radius * Math.cos(angles[position]),
+      y: radius * Math.sin(angles[position]),
+    });
+  });
 
-      return {
-        ...node,
-        position: { x, y },
-      };
+  return positionByCenters(nodes, sizes, centers);
+}
+
+/**
+ * Creates a radial "ego" layout: the focused function sits in the middle and
+ * every other function is placed on a concentric ring by its call distance
+ * (following calls in either direction). Functions that cannot be reached
+ * share the outermost ring.
+ * @param nodes - Array of React Flow nodes
+ * @param edges - Array of React Flow edges
+ * @param centerId - Node to center; defaults to the most connected node
+ * @param nodeSpacing - Minimum gap between nodes and between rings
+ * @returns Positioned nodes on concentric rings
+ */
+export function createRadialLayout(
+  nodes: Node[],
+  edges: Edge[],
+  centerId?: string,
+  nodeSpacing: number = 60
+): Node[] {
+  if (nodes.length === 0) return [];
+
+  const adjacency = buildAdjacency(nodes, edges);
+  const center = centerId && adjacency.has(centerId)
+    ? centerId
+    : nodes.reduce((best, node) =>
+      adjacency.get(node.id)!.length > adjacency.get(best.id)!.length ? node : best
+    ).id;
+
+  // Breadth-first search assigns each reachable node its call distance and parent
+  const distance = new Map<string, number>([[center, 0]]);
+  const parent = new Map<string, string>();
+  const queue = [center];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    adjacency.get(current)!.forEach(neighbor => {
+      if (!distance.has(neighbor)) {
+        distance.set(neighbor, distance.get(current)! + 1);
+        parent.set(neighbor, current);
+        queue.push(neighbor);
+      }
     });
   }
 
-  // Fall back to hierarchical for larger graphs
-  return createHierarchicalLayout(nodes, edges);
+  const maxDistance = Math.max(...distance.values());
+  const rings: number[][] = Array.from({ length: maxDistance + 2 }, () => []);
+  nodes.forEach((node, index) => {
+    rings[distance.get(node.id) ?? maxDistance + 1].push(index);
+  });
+
+  const sizes = nodes.map(node => calculateNodeSize(node, DEFAULT_LAYOUT_OPTIONS));
+  const idToIndex = new Map(nodes.map((node, index) => [node.id, index]));
+  const angleOf = new Map<number, number>();
+  const centers = new Map<number, { x: number; y: number }>();
+  const centerIndex = idToIndex.get(center)!;
+  centers.set(centerIndex, { x: 0, y: 0 });
+  angleOf.set(centerIndex, 0);
+
+  let previousRadius = 0;
+  let previousExtent = nodeExtent(sizes[centerIndex]);
+
+  rings.slice(1).forEach(ring => {
+    if (ring.length === 0) return;
+
+    // Keep children near their parent's angle to reduce edge crossings
+    const parentAngle = (index: number) => {
+      const parentId = parent.get(nodes[index].id);
+      return parentId !== undefined ? angleOf.get(idToIndex.get(parentId)!) ?? 0 : 0;
+    };
+    const ordered = [...ring].sort((a, b) => parentAngle(a) - parentAngle(b) || a - b);
+
+    const ringExtent = Math.max(...ordered.map(index => nodeExtent(sizes[index])));
+    const { radius: fittedRadius, angles } = fitRing(ordered.map(index => nodeExtent(sizes[index]) + nodeSpacing));
+    const radius = Math.max(
+      fittedRadius,
+      previousRadius + (previousExtent + ringExtent) / 2 + nodeSpacing
+    );
+
+    ordered.forEach((index, position) => {
+      angleOf.set(index, angles[position]);
+      centers.set(index, {
+        x: radius * Math.cos(angles[position]),
+        y: radius * Math.sin(angles[position]),
+      });
+    });
+
+    previousRadius = radius;
+    previousExtent = ringExtent;
+  });
+
+  return positionByCenters(nodes, sizes, centers);
+}
+
+/**
+ * Distributes items around a ring with angles proportional to their arc
+ * lengths and finds the smallest radius at which neighbours do not overlap
+ * @param arcs - Space each item needs along the ring, in ring order
+ * @returns Ring radius and the angle of each item's center
+ */
+function fitRing(arcs: number[]): { radius: number; angles: number[] } {
+  if (arcs.length === 1) {
+    return { radius: 0, angles: [-Math.PI / 2] };
+  }
+
+  const total = arcs.reduce((sum, arc) => sum + arc, 0);
+  const angles: number[] = [];
+  let angle = -Math.PI / 2; // start at the top
+  arcs.forEach((arc, index) => {
+    const span = (2 * Math.PI * arc) / total;
+    if (index > 0) angle += span / 2;
+    angles.push(angle);
+    angle += span / 2;
+  });
+
+  // Chord between neighbouring centers must cover half of each item plus the gap
+  let radius = 0;
+  arcs.forEach((arc, index) => {
+    const next = (index + 1) % arcs.length;
+    const gap = (arcs[index] + arcs[next]) / 2;
+    const between = ((2 * Math.PI) * gap) / total;
+    radius = Math.max(radius, gap / (2 * Math.sin(Math.min(between, Math.PI) / 2)));
+  });
+
+  return { radius, angles };
+}
+
+/**
+ * Orders nodes by a depth-first walk over calls in both directions, starting
+ * each connected group at its most connected node
+ * @param nodes - Array of React Flow nodes
+ * @param edges - Array of React Flow edges
+ * @returns Node indices in walk order
+ */
+function orderByConnectivity(nodes: Node[], edges: Edge[]): number[] {
+  const adjacency = buildAdjacency(nodes, edges);
+  const idToIndex = new Map(nodes.map((node, index) => [node.id, index]));
+  const byDegree = nodes
+    .map((node, index) => index)
+    .sort((a, b) => adjacency.get(nodes[b].id)!.length - adjacency.get(nodes[a].id)!.length || a - b);
+
+  const visited = new Set<string>();
+  const order: number[] = [];
+
+  byDegree.forEach(start => {
+    const stack = [nodes[start].id];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      order.push(idToIndex.get(current)!);
+      // Reverse so the first neighbour is visited first
+      [...adjacency.get(current)!].reverse().forEach(neighbor => {
+        if (!visited.has(neighbor)) stack.push(neighbor);
+      });
+    }
+  });
+
+  return order;
+}
+
+/**
+ * Builds an undirected adjacency list, ignoring edges to unknown nodes and self-loops
+ */
+function buildAdjacency(nodes: Node[], edges: Edge[]): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    const sourceNeighbors = adjacency.get(edge.source);
+    const targetNeighbors = adjacency.get(edge.target);
+    if (!sourceNeighbors || !targetNeighbors) return;
+    if (!sourceNeighbors.includes(edge.target)) sourceNeighbors.push(edge.target);
+    if (!targetNeighbors.includes(edge.source)) targetNeighbors.push(edge.source);
+  });
+  return adjacency;
+}
+
+/**
+ * Space a node needs in any direction: the diagonal of its box
+ */
+function nodeExtent(size: { width: number; height: number }): number {
+  return Math.hypot(size.width, size.height);
+}
+
+/**
+ * Converts node centers into top-left positions, shifted so the layout starts at the origin
+ * @param nodes - Array of React Flow nodes
+ * @param sizes - Node sizes by index
+ * @param centers - Node centers by index
+ * @returns Positioned nodes with their computed sizes
+ */
+function positionByCenters(
+  nodes: Node[],
+  sizes: Array<{ width: number; height: number }>,
+  centers: Map<number, { x: number; y: number }>
+): Node[] {
+  const topLeft = nodes.map((_, index) => ({
+    x: centers.get(index)!.x - sizes[index].width / 2,
+    y: centers.get(index)!.y - sizes[index].height / 2,
+  }));
+  const minX = Math.min(...topLeft.map(point => point.x));
+  const minY = Math.min(...topLeft.map(point => point.y));
+
+  return nodes.map((node, index) => ({
+    ...node,
+    position: { x: topLeft[index].x - minX, y: topLeft[index].y - minY },
+    style: {
+      ...node.style,
+      width: sizes[index].width,
+      height: sizes[index].height,
+    },
+  }));
+}
+
+/**
+ * Options for the force-directed layout
+ */
+export interface ForceLayoutOptions {
+  /** Seed for the initial placement; the same seed always yields the same layout */
+  seed: number;
+  /** Number of simulation steps */
+  iterations: number;
+  /** Minimum gap between node boxes */
+  nodeSpacing: number;
+}
+
+export const DEFAULT_FORCE_LAYOUT_OPTIONS: ForceLayoutOptions = {
+  seed: 1,
+  iterations: 300,
+  nodeSpacing: 60,
+};
+
+/**
+ * Creates a force-directed layout (Fruchterman-Reingold): connected nodes
+ * attract, all nodes repel, and a final pass separates overlapping boxes.
+ * Node sizes come from the same calculation as the Dagre layout.
+ * @param nodes - Array of React Flow nodes
+ * @param edges - Array of React Flow edges
+ * @param options - Seed, iteration count and spacing
+ * @returns Positioned nodes with their computed sizes
+ */
+export function createForceLayout(
+  nodes: Node[],
+  edges: Edge[],
+  options: Partial<ForceLayoutOptions> = {}
+): Node[] {
+  const { seed, iterations, nodeSpacing } = { ...DEFAULT_FORCE_LAYOUT_OPTIONS, ...options };
+  if (nodes.length === 0) return [];
+
+  const random = createSeededRandom(seed);
+  const sizes = nodes.map(node => calculateNodeSize(node, DEFAULT_LAYOUT_OPTIONS));
+  const radii = sizes.map(size => Math.hypot(size.width, size.height) / 2);
+
+  // Ideal distance between connected centers: two average nodes plus the gap
+  const averageRadius = radii.reduce((sum, radius) => sum + radius, 0) / nodes.length;
+  const idealLength = 2 * averageRadius + nodeSpacing;
+  // Repulsion is ignored beyond this distance (grid variant of the algorithm)
+  const cutoff = 2 * idealLength + 2 * Math.max(...radii);
+
+  // Random start inside a square that fits every node at the ideal distance
+  const side = idealLength * Math.ceil(Math.sqrt(nodes.length));
+  const x = nodes.map(() => random() * side);
+  const y = nodes.map(() => random() * side);
+
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  const links = edges
+    .map(edge => [indexById.get(edge.source), indexById.get(edge.target)])
+    .filter((link): link is [number, number] =>
+      link[0] !== undefined && link[1] !== undefined && link[0] !== link[1]);
+
+  const dx = new Float64Array(nodes.length);
+  const dy = new Float64Array(nodes.length);
+  const initialTemperature = side / 4;
+
+  for (let step = 0; step < iterations; step++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    // Repulsion between nearby pairs, measured between the node borders.
+    // Nodes are bucketed into cells so only neighbouring cells are compared.
+    const grid = new Map<string, number[]>();
+    for (let i = 0; i < nodes.length; i++) {
+      const key = `${Math.floor(x[i] / cutoff)}:${Math.floor(y[i] / cutoff)}`;
+      const bucket = grid.get(key);
+      if (bucket) bucket.push(i);
+      else grid.set(key, [i]);
+    }
+
+    for (let i = 0; i < nodes.length; i++) {
+      const cellX = Math.floor(x[i] / cutoff);
+      const cellY = Math.floor(y[i] / cutoff);
+      for (let offsetX = -1; offsetX <= 1; offsetX++) {
+        for (let offsetY = -1; offsetY <= 1; offsetY++) {
+          const bucket = grid.get(`${cellX + offsetX}:${cellY + offsetY}`);
+          if (!bucket) continue;
+
+          for (const j of bucket) {
+            if (j <= i) continue;
+            let deltaX = x[i] - x[j];
+            let deltaY = y[i] - y[j];
+            let distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
+            if (distance > cutoff) continue;
+            if (distance < 0.01) {
+              // Coincident nodes: separate them in a seeded direction
+              const angle = random() * 2 * Math.PI;
+              deltaX = Math.cos(angle);
+              deltaY = Math.sin(angle);
+              distance = 1;
+            }
+            const gap = Math.max(distance - radii[i] - radii[j], 1);
+            const force = (idealLength * idealLength) / gap;
+            dx[i] += (deltaX / distance) * force;
+            dy[i] += (deltaY / distance) * force;
+            dx[j] -= (deltaX / distance) * force;
+            dy[j] -= (deltaY / distance) * force;
+          }
+        }
+      }
+    }
+
+    // Attraction along edges
+    links.forEach(([source, target]) => {
+      const deltaX = x[source] - x[target];
+      const deltaY = y[source] - y[target];
+      const distance = Math.max(Math.sqrt(deltaX * deltaX + deltaY * deltaY), 0.01);
+      const force = (distance * distance) / idealLength;
+      dx[source] -= (deltaX / distance) * force;
+      dy[source] -= (deltaY / distance) * force;
+      dx[target] += (deltaX / distance) * force;
+      dy[target] += (deltaY / distance) * force;
+    });
+
+    // Weak gravity keeps disconnected components from drifting apart
+    const centerX = side / 2;
+    const centerY = side / 2;
+    for (let i = 0; i < nodes.length; i++) {
+      dx[i] += (centerX - x[i]) * 0.05;
+      dy[i] += (centerY - y[i]) * 0.05;
+    }
+
+    // Move each node at most by the current temperature, cooling linearly
+    const temperature = initialTemperature * (1 - step / iterations);
+    for (let i = 0; i < nodes.length; i++) {
+      const displacement = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      if (displacement > 0) {
+        const limited = Math.min(displacement, temperature);
+        x[i] += (dx[i] / displacement) * limited;
+        y[i] += (dy[i] / displacement) * limited;
+      }
+    }
+  }
+
+  removeOverlaps(x, y, sizes, nodeSpacing);
+
+  // Shift so the top-left node box starts at the origin
+  const minX = Math.min(...nodes.map((_, i) => x[i] - sizes[i].width / 2));
+  const minY = Math.min(...nodes.map((_, i) => y[i] - sizes[i].height / 2));
+
+  return nodes.map((node, i) => ({
+    ...node,
+    position: {
+      x: x[i] - sizes[i].width / 2 - minX,
+      y: y[i] - sizes[i].height / 2 - minY,
+    },
+    style: {
+      ...node.style,
+      width: sizes[i].width,
+      height: sizes[i].height,
+    },
+  }));
+}
+
+/**
+ * Pushes overlapping node boxes apart along the axis of least overlap
+ * @param x - Center x coordinates, updated in place
+ * @param y - Center y coordinates, updated in place
+ * @param sizes - Node sizes
+ * @param gap - Minimum gap between boxes
+ */
+function removeOverlaps(
+  x: number[],
+  y: number[],
+  sizes: Array<{ width: number; height: number }>,
+  gap: number
+): void {
+  const maxPasses = 100;
+  const maxWidth = Math.max(...sizes.map(size => size.width));
+  const order = x.map((_, index) => index);
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let moved = false;
+
+    // Sweep in x order: only boxes within the widest box width can overlap
+    order.sort((a, b) => x[a] - x[b] || a - b);
+    for (let a = 0; a < order.length; a++) {
+      const i = order[a];
+      for (let b = a + 1; b < order.length; b++) {
+        const j = order[b];
+        if (x[j] - x[i] >= maxWidth + gap) break;
+
+        const overlapX = (sizes[i].width + sizes[j].width) / 2 + gap - Math.abs(x[i] - x[j]);
+        const overlapY = (sizes[i].height + sizes[j].height) / 2 + gap - Math.abs(y[i] - y[j]);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        moved = true;
+        if (overlapX < overlapY) {
+          // i sorts before j, so i moves left
+          x[i] -= overlapX / 2;
+          x[j] += overlapX / 2;
+        } else {
+          const shift = overlapY / 2 * (y[i] <= y[j] ? -1 : 1);
+          y[i] += shift;
+          y[j] -= shift;
+        }
+      }
+    }
+
+    if (!moved) return;
+  }
+}
+
+/**
+ * Creates a deterministic pseudo-random generator (mulberry32)
+ * @param seed - Integer seed
+ * @returns Function returning numbers in [0, 1)
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Tree of class and file groups with the nodes placed directly inside each
+ */
+interface GroupTree {
+  id: string;
+  label: string;
+  kind: GroupNodeData['kind'];
+  nodes: Node[];
+  groups: GroupTree[];
 }
 
 /**
- * Creates a matrix/grid layout with functions organized by type
+ * Creates a matrix/grid layout. Methods are placed inside a group node per
+ * class and, in multi-file graphs, everything inside a group node per file
+ * (React Flow sub-flows); functions outside any group are ordered by type.
  * @param nodes - Array of React Flow nodes
  * @param edges - Array of React Flow edges (not used for positioning but needed for consistency)
  * @param columnsPerRow - Number of columns per row (default: 5)
- * @returns Positioned nodes in organized matrix layout
+ * @returns Positioned nodes, each group before its members
  */
 export function createMatrixLayout(nodes: Node[], edges: Edge[], columnsPerRow: number = 5): Node[] {
-  if (nodes.length === 0) return nodes;
+  // Groups (and section headers of other layouts) from an earlier run are rebuilt
+  const flatNodes = flattenGroups(nodes).filter(node => node.type !== 'sectionHeader');
+  if (flatNodes.length === 0) return flatNodes;
+
+  const root = buildGroupTree(flatNodes);
+  return layoutGroupContents(root, columnsPerRow, { x: 50, y: 50 }).nodes;
+}
+
+/**
+ * Sorts function nodes into class groups and, when they carry file paths, file groups
+ * @param nodes - Ungrouped nodes
+ * @returns Root of the group tree
+ */
+function buildGroupTree(nodes: Node[]): GroupTree {
+  const root: GroupTree = { id: 'root', label: '', kind: 'file', nodes: [], groups: [] };
+  const groups = new Map<string, GroupTree>();
+
+  const getGroup = (parent: GroupTree, id: string, label: string, kind: GroupTree['kind']) => {
+    let group = groups.get(id);
+    if (!group) {
+      group = { id, label, kind, nodes: [], groups: [] };
+      groups.set(id, group);
+      parent.groups.push(group);
+    }
+    return group;
+  };
+
+  nodes.forEach(node => {
+    const { filePath, className } = node.data as { filePath?: string; className?: string };
+    let container = root;
+    if (filePath && node.type !== 'module') {
+      container = getGroup(root, `group-file-${toIdPart(filePath)}`, filePath, 'file');
+    }
+    if (className) {
+      const classKey = filePath ? `${filePath}#${className}` : className;
+      container = getGroup(container, `group-class-${toIdPart(classKey)}`, className, 'class');
+    }
+    container.nodes.push(node);
+  });
 
+  return root;
+}
+
+/**
+ * Lays out the contents of a group: its own nodes in a grid, ordered by type,
+ * then its nested groups stacked below
+ * @param group - Group to lay out
+ * @param columnsPerRow - Grid columns
+ * @param origin - Top-left of the contents, relative to the group
+ * @returns Positioned nodes (groups before their members) and the extent they cover
+ */
+function layoutGroupContents(
+  group: GroupTree,
+  columnsPerRow: number,
+  origin: { x: number; y: number }
+): { nodes: Node[]; width: number; height: number; count: number } {
   const nodeWidth = 500; // Much larger width for clean appearance
   const nodeHeight = 350; // Much larger height for clean appearance with code preview
   const horizontalSpacing = 850; // Much larger spacing to prevent async function overlap
   const verticalSpacing = 450; // More generous spacing between rows to accommodate taller nodes
-  const startX = 50; // Starting X position
-  const startY = 50; // Starting Y position
-  const groupSpacing = 100; // Extra space between different function groups
-
-  // Generate a unique run ID for this layout execution
-  const layoutId = Math.random().toString(36).substr(2, 9);
+  const groupSpacing = 100; // Extra space between groups
+  const groupPadding = 40;
+  const groupHeaderHeight = 60;
 
-  // Organize nodes by function type with priority order
-  const organizedGroups = organizeNodesByType(nodes);
-  
-  let currentY = startY;
   const positionedNodes: Node[] = [];
+  let width = 0;
+  let height = 0;
+  const isRoot = group.id === 'root';
+
+  orderNodesByType(group.nodes).forEach((node, index) => {
+    const x = origin.x + (index % columnsPerRow) * horizontalSpacing;
+    const y = origin.y + Math.floor(index / columnsPerRow) * verticalSpacing;
+
+    // Calculate individual node size (especially important for async functions)
+    const size = calculateNodeSize(node, {
+      direction: 'TB',
+      nodeWidth,
+      nodeHeight,
+      rankSep: 150,
+      nodeSep: 80,
+    });
 
-  // Position each group with section headers
-  organizedGroups.forEach((group, groupIndex) => {
-    if (groupIndex > 0) {
-      currentY += groupSpacing; // Add extra space between groups
-    }
-
-    // Add a visual section header node (invisible but helps with organization)
-    if (group.nodes.length > 0) {
-      const headerNode: Node = {
-        id: `section-header-${group.type}-${groupIndex}-${layoutId}`, // Make unique with layout ID
-        type: 'sectionHeader',
-        position: { x: startX, y: currentY - 50 },
-        data: {
-          label: group.title,
-          type: group.type,
-          count: group.nodes.length,
-          isHeader: true
-        },
-        style: {
-          width: columnsPerRow * horizontalSpacing - 50,
-          height: 40,
-          background: 'transparent',
-          border: 'none',
-        },
-        draggable: false,
-        selectable: false,
-      };
-      positionedNodes.push(headerNode);
-    }
-
-    group.nodes.forEach((node, index) => {
-      const row = Math.floor(index / columnsPerRow);
-      const col = index % columnsPerRow;
-      
-      const x = startX + col * horizontalSpacing;
-      const y = currentY + row * verticalSpacing;
+    positionedNodes.push({
+      ...node,
+      position: { x, y },
+      ...(!isRoot && { parentId: group.id, extent: 'parent' as const }),
+      style: {
+        ...node.style,
+        width: size.width,
+        height: size.height,
+      },
+    });
+    width = Math.max(width, x + size.width);
+    height = Math.max(height, y + size.height);
+  });
 
-      // Calculate individual node size (especially important for async functions)
-      const { width: calculatedWidth, height: calculatedHeight } = calculateNodeSize(node, {
-        direction: 'TB',
-        nodeWidth,
-        nodeHeight,
-        rankSep: 150,
-        nodeSep: 80,
-      });
+  let count = group.nodes.filter(node => node.type !== 'module').length;
+  let nextY = group.nodes.length > 0 ? height + groupSpacing : origin.y;
 
-      positionedNodes.push({
-        ...node,
-        position: { x, y },
-        style: {
-          ...node.style,
-          width: calculatedWidth,
-          height: calculatedHeight,
-        },
-      });
-    });
+  group.groups.forEach(child => {
+    const contents = layoutGroupContents(child, columnsPerRow, { x: groupPadding, y: groupHeaderHeight });
+    const groupNode: Node<GroupNodeData> = {
+      id: child.id,
+      type: GROUP_NODE_TYPE,
+      position: { x: origin.x, y: nextY },
+      ...(!isRoot && { parentId: group.id, extent: 'parent' as const }),
+      style: {
+        width: contents.width + groupPadding,
+        height: contents.height + groupPadding,
+      },
+      data: { label: child.label, kind: child.kind, count: contents.count },
+    };
 
-    // Update currentY for next group (account for rows used by this group)
-    const rowsUsed = Math.ceil(group.nodes.length / columnsPerRow);
-    currentY += rowsUsed * verticalSpacing;
+    positionedNodes.push(groupNode, ...contents.nodes);
+    width = Math.max(width, origin.x + contents.width + groupPadding);
+    height = nextY + contents.height + groupPadding;
+    nextY = height + groupSpacing;
+    count += contents.count;
   });
 
-  return positionedNodes;
+  return { nodes: positionedNodes, width, height, count };
 }
 
 /**
- * Organizes nodes by function type with logical grouping
+ * Orders nodes by function type: exported functions first, external modules last,
+ * alphabetically within each type
  * @param nodes - Array of React Flow nodes
- * @returns Array of organized groups with metadata
+ * @returns Ordered nodes
  */
-function organizeNodesByType(nodes: Node[]): Array<{ type: string; title: string; nodes: Node[] }> {
+function orderNodesByType(nodes: Node[]): Node[] {
   // Define the priority order for function types
   const typeOrder = [
     'exported',     // Exported functions (public API)
@@ -339,79 +824,38 @@ function organizeNodesByType(nodes: Node[]): Array<{ type: string; title: string
     'jsxHandler',   // JSX event handlers
     'method',       // Class methods (moved to end as requested)
     'function',     // Regular functions
-    'other'         // Everything else
+    'other',        // Everything else
+    'module'        // Imported packages and modules
   ];
 
-  // Group nodes by their primary type
-  const groups: { [key: string]: Node[] } = {};
-  
-  nodes.forEach(node => {
+  const typeOf = (node: Node): string => {
     const data = node.data as any;
-    let primaryType = 'other';
 
     // Determine primary type based on function characteristics
-    if (data.isExported) {
-      primaryType = 'exported';
-    } else if (data.isAsync) {
-      primaryType = 'async';
-    } else if (data.category === 'method' || (data.label && data.label.includes('.'))) {
-      primaryType = 'method';
-    } else if (data.label && data.label.includes('(useCallback)')) {
-      primaryType = 'useCallback';
-    } else if (data.label && data.label.includes('(useEffect)')) {
-      primaryType = 'useEffect';
-    } else if (data.label && data.label.includes('(useMemo)')) {
-      primaryType = 'useMemo';
-    } else if (data.label && data.label.includes('(useState)')) {
-      primaryType = 'useState';
-    } else if (data.label && (data.label.includes('.onClick') || data.label.includes('handler') || data.label.includes('Handler'))) {
-      primaryType = 'jsxHandler';
-    } else if (data.category === 'function' || !data.category) {
-      primaryType = 'function';
-    }
-
-    if (!groups[primaryType]) {
-      groups[primaryType] = [];
-    }
-    groups[primaryType].push(node);
-  });
-
-  // Sort nodes within each group alphabetically
-  Object.keys(groups).forEach(type => {
-    groups[type].sort((a, b) => {
-      const labelA = (a.data as any).label || '';
-      const labelB = (b.data as any).label || '';
-      return labelA.localeCompare(labelB);
-    });
-  });
-
-  // Create organized result with titles and preserve order
-  const organizedGroups: Array<{ type: string; title: string; nodes: Node[] }> = [];
-  
-  const typeTitles: { [key: string]: string } = {
-    'exported': '📤 Exported Functions',
-    'async': '⚡ Async Functions', 
-    'method': '🏗️ Class Methods',
-    'useCallback': '🔄 useCallback Hooks',
-    'useEffect': '🎯 useEffect Hooks',
-    'useMemo': '💾 useMemo Hooks',
-    'useState': '📊 useState Hooks',
-    'jsxHandler': '🖱️ JSX Event Handlers',
-    'function': '⚙️ Regular Functions',
-    'other': '📂 Other Functions'
+    if (node.type === 'module') return 'module';
+    if (data.isExported) return 'exported';
+    if (data.isAsync) return 'async';
+    if (data.category === 'method' || (data.label && data.label.includes('.'))) return 'method';
+    if (data.label && data.label.includes('(useCallback)')) return 'useCallback';
+    if (data.label && data.label.includes('(useEffect)')) return 'useEffect';
+    if (data.label && data.label.includes('(useMemo)')) return 'useMemo';
+    if (data.label && data.label.includes('(useState)')) return 'useState';
+    if (data.label && (data.label.includes('.onClick') || data.label.includes('handler') || data.label.includes('Handler'))) return 'jsxHandler';
+    if (data.category === 'function' || !data.category) return 'function';
+    return 'other';
   };
 
-  typeOrder.forEach(type => {
-    if (groups[type] && groups[type].length > 0) {
-      organizedGroups.push({
-        type,
-        title: typeTitles[type] || '📂 Other Functions',
-        nodes: groups[type]
-      });
-    }
-  });
+  return nodes
+    .map(node => ({ node, rank: typeOrder.indexOf(typeOf(node)) }))
+    .sort((a, b) => a.rank - b.rank || String((a.node.data as any).label || '').localeCompare(String((b.node.data as any).label || '')))
+    .map(({ node }) => node);
+}
 
-  return organizedGroups;
+/**
+ * Turns a name or path into a string safe for node IDs
+ */
+function toIdPart(value: string): string {
+  return value.replace(/[^a-zA-Z0-9]/g, '_');
 }
 
 /**
@@ -603,6 +1047,56 @@ export function autoLayout(nodes: Node[], edges: Edge[]): Node[] {
   return createMatrixLayout(nodes, edges, 5);
 }
 
+/**
+ * Layout chosen in the layout controls
+ */
+export interface LayoutSettings {
+  layoutType: ViewState['layoutType'];
+  /** Dagre direction, or 'CONNECTED' to group connected functions */
+  layoutDirection: ViewState['layoutDirection'];
+  spacing: ViewState['spacing'];
+  /** Function at the center of the radial layout */
+  focusNodeId?: string;
+}
+
+/**
+ * Applies the layout chosen in the layout controls
+ * @param nodes - Nodes to position, possibly grouped
+ * @param edges - Edges between them
+ * @param settings - Layout type, direction and spacing
+ * @returns Positioned nodes
+ */
+export function applyLayout(nodes: Node[], edges: Edge[], settings: LayoutSettings): Node[] {
+  const { layoutType, layoutDirection, spacing, focusNodeId } = settings;
+  // Only the grid layout groups functions by class and file; the others place them freely
+  const flatNodes = flattenGroups(nodes);
+
+  // Handle connected layout specially
+  if (layoutDirection === 'CONNECTED') {
+    return createConnectedLayout(flatNodes, edges);
+  }
+
+  switch (layoutType) {
+    case 'grid':
+      return createMatrixLayout(flatNodes, edges, 4); // 4 columns per row to accommodate wider async functions
+    case 'force':
+      return createForceLayout(flatNodes, edges, { nodeSpacing: spacing.nodeSpacing });
+    case 'circular':
+      return createCircularLayout(flatNodes, edges, spacing.nodeSpacing);
+    case 'radial':
+      return createRadialLayout(flatNodes, edges, focusNodeId, spacing.nodeSpacing);
+    case 'dagre':
+    default:
+      return layoutNodes(flatNodes, edges, {
+        direction: layoutDirection,
+        nodeWidth: spacing.nodeSpacing,
+        nodeHeight: 80,
+        rankSep: spacing.rankSeparation,
+        nodeSep: spacing.nodeSpacing,
+      });
+  }
+}
+
 /**
  * Calculates the bounds of the laid out graph
  * @param nodes - Array of positioned nodes
@@ -0,0 +1,72 @@
+/**
+ * Tests for Node Groups
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import { collapseGroups, flattenGroups, getAbsolutePosition, COLLAPSED_GROUP_HEIGHT } from './nodeGroups';
+
+// file group > class group > two methods, plus a function outside any group
+const nodes: Node[] = [
+  { id: 'file', type: 'functionGroup', position: { x: 100, y: 100 }, data: { label: 'api.ts', kind: 'file', count: 2 }, style: { width: 900, height: 600 } },
+  { id: 'class', type: 'functionGroup', parentId: 'file', extent: 'parent', position: { x: 40, y: 60 }, data: { label: 'Api', kind: 'class', count: 2 }, style: { width: 800, height: 500 } },
+  { id: 'get', type: 'function', parentId: 'class', extent: 'parent', position: { x: 40, y: 60 }, data: { label: 'Api.get' } },
+  { id: 'post', type: 'function', parentId: 'class', extent: 'parent', position: { x: 40, y: 300 }, data: { label: 'Api.post' } },
+  { id: 'main', type: 'function', position: { x: 0, y: 0 }, data: { label: 'main' } },
+];
+
+const edges: Edge[] = [
+  { id: 'main-get', source: 'main', target: 'get', data: { callCount: 2 } },
+  { id: 'main-post', source: 'main', target: 'post', data: { callCount: 1 } },
+  { id: 'post-get', source: 'post', target: 'get', data: { callCount: 1 } },
+];
+
+describe('getAbsolutePosition', () => {
+  it('should add up the positions of all parent groups', () => {
+    expect(getAbsolutePosition(nodes[2], nodes)).toEqual({ x: 180, y: 220 });
+    expect(getAbsolutePosition(nodes[4], nodes)).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('flattenGroups', () => {
+  it('should drop groups and move members to absolute positions', () => {
+    const result = flattenGroups(nodes);
+
+    expect(result.map(node => node.id)).toEqual(['get', 'post', 'main']);
+    expect(result[1].position).toEqual({ x: 180, y: 460 });
+    expect(result[1]).not.toHaveProperty('parentId');
+    expect(result[1]).not.toHaveProperty('extent');
+  });
+
+  it('should return ungrouped nodes unchanged', () => {
+    const ungrouped = [nodes[4]];
+
+    expect(flattenGroups(ungrouped)).toBe(ungrouped);
+  });
+});
+
+describe('collapseGroups', () => {
+  it('should leave the graph unchanged when nothing is collapsed', () => {
+    const result = collapseGroups(nodes, edges, new Set());
+
+    expect(result).toEqual({ nodes, edges });
+  });
+
+  it('should hide members and merge their edges into the collapsed group', () => {
+    const result = collapseGroups(nodes, edges, new Set(['class']));
+
+    expect(result.nodes.map(node => node.id)).toEqual(['file', 'class', 'main']);
+    expect(result.nodes[1].data.collapsed).toBe(true);
+    expect(result.nodes[1].style?.height).toBe(COLLAPSED_GROUP_HEIGHT);
+    // The call between two members is internal to the group
+    expect(result.edges).toEqual([
+      expect.objectContaining({ id: 'edge-main-collapsed-class', source: 'main', target: 'class', label: '3x', data: { callCount: 3 } }),
+    ]);
+  });
+
+  it('should route edges to the outermost collapsed group', () => {
+    const result = collapseGroups(nodes, edges, new Set(['class', 'file']));
+
+    expect(result.nodes.map(node => node.id)).toEqual(['file', 'main']);
+    expect(result.edges.map(edge => [edge.source, edge.target])).toEqual([['main', 'file']]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Node Groups Module
+ * Helpers for the React Flow sub-flows the grid layout builds: class and file
+ * group nodes whose member nodes are positioned relative to them. Groups can
+ * be collapsed into a single summary node with their edges re-routed to it.
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+
+/**
+ * Node type of class and file groups
+ */
+export const GROUP_NODE_TYPE = 'functionGroup';
+
+/**
+ * Height of a collapsed group's summary node
+ */
+export const COLLAPSED_GROUP_HEIGHT = 72;
+
+/**
+ * Data carried by a group node
+ */
+export interface GroupNodeData extends Record<string, unknown> {
+  label: string;
+  kind: 'class' | 'file';
+  /** Number of functions inside the group, including nested groups */
+  count: number;
+  collapsed?: boolean;
+}
+
+/**
+ * Whether a node is a class or file group
+ */
+export function isGroupNode(node: Node): boolean {
+  return node.type === GROUP_NODE_TYPE;
+}
+
+/**
+ * Resolves a node's position in graph coordinates by adding up the positions
+ * of its parent groups
+ * @param node - Node, possibly inside a group
+ * @param nodes - All nodes, to look up parents
+ * @returns Absolute position
+ */
+export function getAbsolutePosition(node: Node, nodes: Node[]): { x: number; y: number } {
+  const byId = new Map(nodes.map(entry => [entry.id, entry]));
+  let { x, y } = node.position;
+  for (let parent = node.parentId ? byId.get(node.parentId) : undefined; parent; parent = parent.parentId ? byId.get(parent.parentId) : undefined) {
+    x += parent.position.x;
+    y += parent.position.y;
+  }
+  return { x, y };
+}
+
+/**
+ * Removes group nodes and moves their members to absolute positions, so
+ * layouts that do not know about groups can place them freely
+ * @param nodes - Nodes, possibly grouped
+ * @returns Ungrouped nodes
+ */
+export function flattenGroups(nodes: Node[]): Node[] {
+  if (!nodes.some(isGroupNode)) return nodes;
+
+  return nodes
+    .filter(node => !isGroupNode(node))
+    .map(node => {
+      if (!node.parentId) return node;
+      const flatNode: Node = { ...node, position: getAbsolutePosition(node, nodes) };
+      delete flatNode.parentId;
+      delete flatNode.extent;
+      return flatNode;
+    });
+}
+
+/**
+ * Replaces collapsed groups by summary nodes: their members are removed and
+ * edges to or from members end at the group instead. Edges inside a group
+ * disappear; parallel edges are merged and their call counts added up.
+ * @param nodes - Grouped nodes, parents before their members
+ * @param edges - Edges between member nodes
+ * @param collapsedIds - IDs of the collapsed groups
+ * @returns Nodes and edges to display
+ */
+export function collapseGroups(nodes: Node[], edges: Edge[], collapsedIds: Set<string>): { nodes: Node[]; edges: Edge[] } {
+  if (collapsedIds.size === 0) return { nodes, edges };
+
+  // Every node inside a collapsed group is represented by its outermost collapsed ancestor
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const representative = new Map<string, string>();
+  nodes.forEach(node => {
+    let outermost: string | undefined;
+    for (let parentId = node.parentId; parentId; parentId = byId.get(parentId)?.parentId) {
+      if (collapsedIds.has(parentId)) outermost = parentId;
+    }
+    if (outermost) representative.set(node.id, outermost);
+  });
+
+  const visibleNodes = nodes
+    .filter(node => !representative.has(node.id))
+    .map(node => (collapsedIds.has(node.id) && isGroupNode(node)
+      ? { ...node, data: { ...node.data, collapsed: true }, style: { ...node.style, height: COLLAPSED_GROUP_HEIGHT } }
+      : node));
+
+  const merged = new Map<string, Edge>();
+  edges.forEach(edge => {
+    const source = representative.get(edge.source) ?? edge.source;
+    const target = representative.get(edge.target) ?? edge.target;
+    if (source === edge.source && target === edge.target) {
+      merged.set(edge.id, edge);
+      return;
+    }
+    if (source === target) return;
+
+    const id = `edge-${source}-collapsed-${target}`;
+    const existing = merged.get(id);
+    const callCount = Number(existing?.data?.callCount ?? 0) + Number(edge.data?.callCount ?? 1);
+    merged.set(id, {
+      ...(existing ?? edge),
+      id,
+      source,
+      target,
+      label: callCount > 1 ? `${callCount}x` : undefined,
+      data: { ...(existing ?? edge).data, callCount },
+    });
+  });
+
+  return { nodes: visibleNodes, edges: Array.from(merged.values()) };
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for Permalinks
+ */
+
+import { createPermalink, parsePermalink, sanitizeViewState } from './permalink';
+import type { ViewState } from '../types';
+
+const view: ViewState = {
+  layoutType: 'radial',
+  layoutDirection: 'LR',
+  spacing: { nodeSpacing: 120, rankSeparation: 150, edgeSeparation: 20 },
+  filters: {
+    showExported: true,
+    showAsync: false,
+    showMethods: false,
+    hideIsolated: true,
+    minComplexity: 2,
+    maxComplexity: 8,
+    functionTypes: {
+      exported: true,
+      async: true,
+      methods: false,
+      useCallback: true,
+      useEffect: true,
+      jsxHandlers: true,
+      regular: true,
+    },
+  },
+  searchQuery: 'parse & build',
+  viewMode: 'calls',
+  selectedNodeId: 'node-parseTypeScriptCode',
+  highlightedNodes: ['node-parseTypeScriptCode', 'node-extractFunctions'],
+  focus: { nodeId: 'node-parseTypeScriptCode', direction: 'downstream', depth: 2 },
+  viewport: { x: -120.5, y: 48, zoom: 0.75 },
+};
+
+describe('createPermalink', () => {
+  it('should round-trip the source URL, analyzer and view state', () => {
+    const link = createPermalink('/', {
+      url: 'https://github.com/acme/app/blob/main/src/index.ts',
+      analyzer: 'typescript',
+      view,
+    });
+
+    expect(link.startsWith('/?url=https%3A%2F%2Fgithub.com')).toBe(true);
+    expect(parsePermalink(link.slice(link.indexOf('?')))).toEqual({
+      url: 'https://github.com/acme/app/blob/main/src/index.ts',
+      analyzer: 'typescript',
+      view,
+    });
+  });
+
+  it('should leave out the default analyzer and an empty view', () => {
+    const link = createPermalink('https://example.com/', {
+      url: 'https://example.com/a.ts',
+      analyzer: 'babel',
+      view: {},
+    });
+
+    expect(link).toBe('https://example.com/?url=https%3A%2F%2Fexample.com%2Fa.ts');
+  });
+});
+
+describe('parsePermalink', () => {
+  it('should return null without a source URL', () => {
+    expect(parsePermalink('')).toBeNull();
+    expect(parsePermalink('?view=%7B%7D')).toBeNull();
+    expect(parsePermalink('?url=%20')).toBeNull();
+  });
+
+  it('should keep the source when the view is not valid JSON', () => {
+    expect(parsePermalink('?url=https%3A%2F%2Fexample.com%2Fa.ts&analyzer=other&view=%7Bbroken')).toEqual({
+      url: 'https://example.com/a.ts',
+      analyzer: 'babel',
+      view: {},
+    });
+  });
+});
+
+describe('sanitizeViewState', () => {
+  it('should drop malformed fields and keep valid ones', () => {
+    expect(sanitizeViewState({
+      layoutType: 'spiral',
+      layoutDirection: 'TB',
+      spacing: { nodeSpacing: '100' },
+      searchQuery: 42,
+      viewMode: 'hierarchy',
+      highlightedNodes: ['node-a', 7, null],
+      viewport: { x: 0, y: 0, zoom: 0 },
+      focus: { nodeId: 'node-a', direction: 'sideways', depth: 1 },
+      extra: true,
+    })).toEqual({
+      layoutDirection: 'TB',
+      viewMode: 'hierarchy',
+      highlightedNodes: ['node-a'],
+    });
+  });
+
+  it('should drop incomplete filters', () => {
+    const { functionTypes, ...withoutTypes } = view.filters;
+
+    expect(sanitizeViewState({ filters: withoutTypes })).toEqual({});
+    expect(sanitizeViewState({ filters: { ...view.filters, functionTypes: { ...functionTypes, regular: 'yes' } } })).toEqual({});
+    expect(sanitizeViewState({ filters: view.filters })).toEqual({ filters: view.filters });
+  });
+
+  it('should ignore values that are not objects', () => {
+    expect(sanitizeViewState(null)).toEqual({});
+    expect(sanitizeViewState(['grid'])).toEqual({});
+    expect(sanitizeViewState('grid')).toEqual({});
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Permalink Module
+ * Encodes an analyzed source URL and the visualizer view state into a
+ * shareable link, and decodes such links back. Opening a permalink re-runs
+ * the analysis and restores the view.
+ */
+
+import type { AnalyzerBackend, FilterOptions, FocusOptions, ViewState } from '../types';
+
+/**
+ * Everything a permalink carries
+ */
+export interface Permalink {
+  /** URL of the analyzed file, repository or directory */
+  url: string;
+  analyzer: AnalyzerBackend;
+  /** View state to restore; fields missing from the link keep their defaults */
+  view: Partial<ViewState>;
+}
+
+const LAYOUT_TYPES: ViewState['layoutType'][] = ['dagre', 'force', 'circular', 'radial', 'grid'];
+const LAYOUT_DIRECTIONS: ViewState['layoutDirection'][] = ['TB', 'LR', 'BT', 'RL', 'CONNECTED'];
+const VIEW_MODES: ViewState['viewMode'][] = ['calls', 'hierarchy'];
+const FOCUS_DIRECTIONS: FocusOptions['direction'][] = ['upstream', 'downstream', 'both'];
+
+/**
+ * Creates a permalink for an analyzed URL and view
+ * @param baseUrl - Page the link opens, e.g. `window.location.pathname` or a full origin + path
+ * @param permalink - Source URL, analyzer and view state
+ * @returns Link with the state in its query string
+ */
+export function createPermalink(baseUrl: string, permalink: Permalink): string {
+  const params = new URLSearchParams({ url: permalink.url });
+  if (permalink.analyzer !== 'babel') {
+    params.set('analyzer', permalink.analyzer);
+  }
+  if (Object.keys(permalink.view).length > 0) {
+    params.set('view', JSON.stringify(permalink.view));
+  }
+  return `${baseUrl}?${params.toString()}`;
+}
+
+/**
+ * Reads a permalink from a query string
+ * @param search - Query string, with or without the leading `?`
+ * @returns The permalink, or null when the query string carries no source URL.
+ *   Malformed or unknown view fields are dropped rather than failing the link.
+ */
+export function parsePermalink(search: string): Permalink | null {
+  const params = new URLSearchParams(search);
+  const url = params.get('url')?.trim();
+  if (!url) return null;
+
+  let view: Partial<ViewState> = {};
+  const rawView = params.get('view');
+  if (rawView) {
+    try {
+      view = sanitizeViewState(JSON.parse(rawView));
+    } catch {
+      view = {};
+    }
+  }
+
+  return {
+    url,
+    analyzer: params.get('analyzer') === 'typescript' ? 'typescript' : 'babel',
+    view,
+  };
+}
+
+/**
+ * Keeps only the well-formed fields of a decoded view state.
+ * Links are user input, so every field is checked before it reaches the visualizer.
+ * @param value - Decoded JSON
+ * @returns Valid view state fields
+ */
+export function sanitizeViewState(value: unknown): Partial<ViewState> {
+  if (!isRecord(value)) return {};
+  const view: Partial<ViewState> = {};
+
+  if (LAYOUT_TYPES.includes(value.layoutType as ViewState['layoutType'])) {
+    view.layoutType = value.layoutType as ViewState['layoutType'];
+  }
+  if (LAYOUT_DIRECTIONS.includes(value.layoutDirection as ViewState['layoutDirection'])) {
+    view.layoutDirection = value.layoutDirection as ViewState['layoutDirection'];
+  }
+  if (VIEW_MODES.includes(value.viewMode as ViewState['viewMode'])) {
+    view.viewMode = value.viewMode as ViewState['viewMode'];
+  }
+
+  const spacing = value.spacing;
+  if (isRecord(spacing) && isFiniteNumber(spacing.nodeSpacing) && isFiniteNumber(spacing.rankSeparation) && isFiniteNumber(spacing.edgeSeparation)) {
+    view.spacing = {
+      nodeSpacing: spacing.nodeSpacing,
+      rankSeparation: spacing.rankSeparation,
+      edgeSeparation: spacing.edgeSeparation,
+    };
+  }
+
+  const filters = sanitizeFilters(value.filters);
+  if (filters) view.filters = filters;
+
+  if (typeof value.searchQuery === 'string') {
+    view.searchQuery = value.searchQuery;
+  }
+  if (typeof value.selectedNodeId === 'string') {
+    view.selectedNodeId = value.selectedNodeId;
+  }
+  if (Array.isArray(value.highlightedNodes)) {
+    view.highlightedNodes = value.highlightedNodes.filter((id): id is string => typeof id === 'string');
+  }
+  if (Array.isArray(value.highlightedEdges)) {
+    view.highlightedEdges = value.highlightedEdges.filter((id): id is string => typeof id === 'string');
+  }
+
+  const focus = value.focus;
+  if (
+    isRecord(focus) &&
+    typeof focus.nodeId === 'string' &&
+    FOCUS_DIRECTIONS.includes(focus.direction as FocusOptions['direction']) &&
+    isFiniteNumber(focus.depth) && focus.depth >= 0
+  ) {
+    view.focus = { nodeId: focus.nodeId, direction: focus.direction as FocusOptions['direction'], depth: Math.floor(focus.depth) };
+  }
+
+  const viewport = value.viewport;
+  if (isRecord(viewport) && isFiniteNumber(viewport.x) && isFiniteNumber(viewport.y) && isFiniteNumber(viewport.zoom) && viewport.zoom > 0) {
+    view.viewport = { x: viewport.x, y: viewport.y, zoom: viewport.zoom };
+  }
+
+  return view;
+}
+
+/**
+ * Validates decoded filters; a link with partial filters is treated as having none
+ */
+function sanitizeFilters(value: unknown): FilterOptions | null {
+  if (!isRecord(value) || !isRecord(value.functionTypes)) return null;
+  const types = value.functionTypes;
+
+  const flags = [value.showExported, value.showAsync, value.showMethods, value.hideIsolated];
+  const typeFlags = [types.exported, types.async, types.methods, types.useCallback, types.useEffect, types.jsxHandlers, types.regular];
+  if (![...flags, ...typeFlags].every(flag => typeof flag === 'boolean')) return null;
+  if (!isFiniteNumber(value.minComplexity) || !isFiniteNumber(value.maxComplexity)) return null;
+
+  return {
+    showExported: value.showExported as boolean,
+    showAsync: value.showAsync as boolean,
+    showMethods: value.showMethods as boolean,
+    hideIsolated: value.hideIsolated as boolean,
+    // Added later, so links made before it are still accepted
+    ...(typeof value.hideExternal === 'boolean' && { hideExternal: value.hideExternal }),
+    minComplexity: value.minComplexity,
+    maxComplexity: value.maxComplexity,
+    functionTypes: {
+      exported: types.exported as boolean,
+      async: types.async as boolean,
+      methods: types.methods as boolean,
+      useCallback: types.useCallback as boolean,
+      useEffect: types.useEffect as boolean,
+      jsxHandlers: types.jsxHandlers as boolean,
+      regular: types.regular as boolean,
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
@@ -0,0 +1,303 @@
+/**
+ * Tests for Project Analyzer
+ */
+
+import { parseTypeScriptProject, resolveModulePath, normalizePath } from './projectAnalyzer';
+import { buildReactFlowGraph } from './graphBuilder';
+import type { ProjectFile } from '../types';
+
+describe('parseTypeScriptProject', () => {
+  it('should resolve calls to functions imported from another file', async () => {
+    const files: ProjectFile[] = [
+      {
+        path: 'src/main.ts',
+        content: `
+          import { formatDate } from './utils';
+          export function main() {
+            return formatDate(new Date());
+          }
+        `,
+      },
+      {
+        path: 'src/utils.ts',
+        content: `
+          export function formatDate(date: Date): string {
+            return pad(date.getDate());
+          }
+          function pad(value: number): string {
+            return String(value).padStart(2, '0');
+          }
+        `,
+      },
+    ];
+
+    const result = await parseTypeScriptProject(files);
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.files).toEqual(['src/main.ts', 'src/utils.ts']);
+    expect(result.functions.map(fn => [fn.filePath, fn.name])).toEqual([
+      ['src/main.ts', 'main'],
+      ['src/utils.ts', 'formatDate'],
+      ['src/utils.ts', 'pad'],
+    ]);
+    expect(result.calls).toEqual(expect.arrayContaining([
+      expect.objectContaining({
+        caller: 'main',
+        callee: 'formatDate',
+        callerFile: 'src/main.ts',
+        calleeFile: 'src/utils.ts',
+      }),
+      expect.objectContaining({
+        caller: 'formatDate',
+        callee: 'pad',
+        callerFile: 'src/utils.ts',
+        calleeFile: 'src/utils.ts',
+      }),
+    ]));
+    expect(result).toHaveProperty('metadata.imports', ['./utils']);
+    expect(result).toHaveProperty('metadata.exports', ['src/main.ts:main', 'src/utils.ts:formatDate']);
+    expect(result.metadata?.module.exports).toContainEqual(
+      { name: 'formatDate', kind: 'function', localName: 'formatDate', filePath: 'src/utils.ts' }
+    );
+  });
+
+  it('should resolve aliased, default and namespace imports', async () => {
+    const files: ProjectFile[] = [
+      {
+        path: 'app.ts',
+        content: `
+          import run, { helper as assist } from './lib/tasks';
+          import * as math from './lib/math';
+          function start() {
+            run();
+            assist();
+            math.sum(1, 2);
+          }
+        `,
+      },
+      {
+        path: 'lib/tasks.ts',
+        content: `
+          export default function runTasks() {}
+          export function helper() {}
+        `,
+      },
+      {
+        path: 'lib/math.ts',
+        content: `
+          export const sum = (a: number, b: number) => a + b;
+        `,
+      },
+    ];
+
+    const result = await parseTypeScriptProject(files);
+    const callees = result.calls.map(call => `${call.calleeFile}#${call.callee}`);
+
+    expect(callees).toEqual(expect.arrayContaining([
+      'lib/tasks.ts#runTasks',
+      'lib/tasks.ts#helper',
+      'lib/math.ts#sum',
+    ]));
+  });
+
+  it('should follow re-exports through barrel files', async () => {
+    const files: ProjectFile[] = [
+      {
+        path: 'src/index.ts',
+        content: `
+          import { validate, transform } from './services';
+          export function handle() {
+            validate();
+            transform();
+          }
+        `,
+      },
+      {
+        path: 'src/services/index.ts',
+        content: `
+          export { validate } from './validation';
+          export * from './transform';
+        `,
+      },
+      { path: 'src/services/validation.ts', content: 'export function validate() {}' },
+      { path: 'src/services/transform.ts', content: 'export function transform() {}' },
+    ];
+
+    const result = await parseTypeScriptProject(files);
+
+    expect(result.calls).toHaveLength(2);
+    expect(result.calls.map(call => call.calleeFile)).toEqual([
+      'src/services/validation.ts',
+      'src/services/transform.ts',
+    ]);
+  });
+
+  it('should resolve static methods of imported classes', async () => {
+    const files: ProjectFile[] = [
+      {
+        path: 'client.ts',
+        content: `
+          import { Api } from './api';
+          function load() {
+            return Api.fetchAll();
+          }
+        `,
+      },
+      {
+        path: 'api.ts',
+        content: `
+          export class Api {
+            static fetchAll() { return []; }
+          }
+        `,
+      },
+    ];
+
+    const result = await parseTypeScriptProject(files);
+
+    expect(result.calls).toEqual([
+      expect.objectContaining({ caller: 'load', callee: 'Api.fetchAll', calleeFile: 'api.ts' }),
+    ]);
+  });
+
+  it('should ignore calls into external packages and stop on re-export cycles', async () => {
+    const files: ProjectFile[] = [
+      {
+        path: 'a.ts',
+        content: `
+          import axios from 'axios';
+          import { missing } from './b';
+          export * from './b';
+          function go() {
+            axios.get('/');
+            missing();
+          }
+        `,
+      },
+      { path: 'b.ts', content: `export * from './a';` },
+    ];
+
+    const result = await parseTypeScriptProject(files);
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.calls).toHaveLength(0);
+    expect(result.externalCalls).toEqual([
+      expect.objectContaining({ caller: 'go', module: 'axios', callee: 'get', callerFile: 'a.ts' }),
+    ]);
+  });
+
+  it('should report syntax errors per file and keep analyzing the others', async () => {
+    const files: ProjectFile[] = [
+      { path: 'broken.ts', content: 'function broken( {' },
+      { path: 'ok.ts', content: 'function ok() {}' },
+    ];
+
+    const result = await parseTypeScriptProject(files);
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ type: 'syntax', filePath: 'broken.ts' });
+    expect(result.functions.map(fn => fn.name)).toEqual(['ok']);
+  });
+
+  it('should keep the parseable functions of a broken file', async () => {
+    const files: ProjectFile[] = [
+      { path: 'partly.ts', content: 'export function kept() {}\nfunction broken( {\n}\n' },
+    ];
+
+    const result = await parseTypeScriptProject(files);
+
+    expect(result.functions.map(fn => fn.name)).toEqual(['kept']);
+    expect(result.errors[0]).toMatchObject({ type: 'syntax', filePath: 'partly.ts', line: 2 });
+  });
+
+  it('should return a validation error when no files are provided', async () => {
+    const result = await parseTypeScriptProject([]);
+
+    expect(result.errors).toEqual([
+      { type: 'validation', message: 'No files provided for analysis' },
+    ]);
+  });
+
+  it('should resolve base classes and interfaces across files', async () => {
+    const files: ProjectFile[] = [
+      { path: 'src/base.ts', content: 'export class Base {}\nexport interface Shape { area(): number; }' },
+      { path: 'src/index.ts', content: "export { Base as Entity } from './base';" },
+      {
+        path: 'src/circle.ts',
+        content: `
+          import { Entity } from './index';
+          import * as shapes from './base';
+          class Local {}
+          export class Circle extends Entity implements shapes.Shape {}
+          export class Ring extends Local implements Missing {}
+        `,
+      },
+    ];
+
+    const result = await parseTypeScriptProject(files);
+    const byName = new Map(result.classes!.map(c => [c.name, c]));
+
+    expect(byName.get('Base')).toMatchObject({ kind: 'class', filePath: 'src/base.ts' });
+    expect(byName.get('Circle')!.extends).toEqual([{ name: 'Base', filePath: 'src/base.ts' }]);
+    expect(byName.get('Circle')!.implements).toEqual([{ name: 'Shape', filePath: 'src/base.ts' }]);
+    expect(byName.get('Ring')!.extends).toEqual([{ name: 'Local', filePath: 'src/circle.ts' }]);
+    expect(byName.get('Ring')!.implements).toEqual([{ name: 'Missing' }]);
+  });
+
+  it('should build a graph with distinct nodes for same-named functions', async () => {
+    const files: ProjectFile[] = [
+      {
+        path: 'a.ts',
+        content: `
+          import { init as initB } from './b';
+          export function init() { initB(); }
+        `,
+      },
+      { path: 'b.ts', content: 'export function init() {}' },
+    ];
+
+    const result = await parseTypeScriptProject(files);
+    const graph = buildReactFlowGraph(result);
+    const functionNodes = graph.nodes.filter(node => node.type === 'function');
+
+    expect(functionNodes.map(node => node.id)).toEqual(['node-a_ts_init', 'node-b_ts_init']);
+    expect(graph.edges).toHaveLength(1);
+    expect(graph.edges[0]).toMatchObject({
+      source: 'node-a_ts_init',
+      target: 'node-b_ts_init',
+    });
+  });
+});
+
+describe('resolveModulePath', () => {
+  const known = new Set([
+    'src/utils.ts',
+    'src/components/Button.tsx',
+    'src/lib/index.ts',
+    'src/types.d.ts',
+  ]);
+
+  it('should resolve relative specifiers with TypeScript extensions', () => {
+    expect(resolveModulePath('src/main.ts', './utils', known)).toBe('src/utils.ts');
+    expect(resolveModulePath('src/lib/index.ts', '../components/Button', known)).toBe('src/components/Button.tsx');
+    expect(resolveModulePath('src/main.ts', './types', known)).toBe('src/types.d.ts');
+  });
+
+  it('should resolve directory index files and .js specifiers', () => {
+    expect(resolveModulePath('src/main.ts', './lib', known)).toBe('src/lib/index.ts');
+    expect(resolveModulePath('src/main.ts', './utils.js', known)).toBe('src/utils.ts');
+  });
+
+  it('should not resolve package or unknown specifiers', () => {
+    expect(resolveModulePath('src/main.ts', 'react', known)).toBeNull();
+    expect(resolveModulePath('src/main.ts', './missing', known)).toBeNull();
+  });
+});
+
+describe('normalizePath', () => {
+  it('should normalize separators and relative segments', () => {
+    expect(normalizePath('./src/../lib/utils.ts')).toBe('lib/utils.ts');
+    expect(normalizePath('src\\components\\App.tsx')).toBe('src/components/App.tsx');
+    expect(normalizePath('/project/index.ts')).toBe('project/index.ts');
+  });
+});
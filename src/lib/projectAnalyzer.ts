@@ -0,0 +1,469 @@
+/**
+ * Project Analyzer Module
+ * Parses several TypeScript files together and resolves calls that cross
+ * file boundaries through imports, re-exports and namespace imports
+ */
+
+import type * as t from '@babel/types';
+import {
+  parseASTWithRecovery,
+  createSyntaxError,
+  extractFunctions,
+  extractFunctionCalls,
+  extractModuleBindings,
+  extractModuleSummary,
+  extractExternalCalls,
+  extractClasses,
+} from './codeParser';
+import type {
+  FunctionData,
+  FunctionCall,
+  ParsedCodeResult,
+  ProjectFile,
+  ImportBinding,
+  ExportBinding,
+  ClassData,
+  HeritageReference,
+  ModuleSummary,
+} from '../types';
+
+/**
+ * Extensions tried, in order, when resolving an extensionless specifier
+ */
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts'];
+
+/**
+ * Index files tried when a specifier points at a directory
+ */
+const INDEX_FILES = ['index.ts', 'index.tsx'];
+
+/**
+ * Per-file analysis state used while resolving cross-file calls
+ */
+interface ModuleInfo {
+  path: string;
+  ast: t.File;
+  functions: FunctionData[];
+  functionNames: Set<string>;
+  classes: ClassData[];
+  imports: ImportBinding[];
+  exports: ExportBinding[];
+  summary: ModuleSummary;
+}
+
+/**
+ * A resolved declaration: a name declared in a specific file.
+ * A name of '*' stands for the module namespace itself.
+ */
+interface ResolvedBinding {
+  filePath: string;
+  name: string;
+}
+
+/**
+ * Parses a set of TypeScript files and links calls between them
+ * @param files - Files to analyze, with project-relative paths
+ * @returns Combined parsed result; functions and calls carry file paths
+ */
+export async function parseTypeScriptProject(files: ProjectFile[]): Promise<ParsedCodeResult> {
+  const result: ParsedCodeResult = {
+    functions: [],
+    calls: [],
+    errors: [],
+    classes: [],
+    files: [],
+  };
+
+  if (!files || files.length === 0) {
+    result.errors.push({
+      type: 'validation',
+      message: 'No files provided for analysis',
+    });
+    return result;
+  }
+
+  const modules = new Map<string, ModuleInfo>();
+
+  // Pass 1: parse every file and collect declarations and bindings
+  for (const file of files) {
+    const filePath = normalizePath(file.path);
+    result.files!.push(filePath);
+
+    if (!file.content || typeof file.content !== 'string') {
+      result.errors.push({ type: 'validation', message: 'File is empty', filePath });
+      continue;
+    }
+
+    if (file.content.length > 500 * 1024) { // 500KB limit
+      result.errors.push({ type: 'validation', message: 'File too large for parsing (max 500KB)', filePath });
+      continue;
+    }
+
+    try {
+      const { ast, errors } = parseASTWithRecovery(file.content, filePath);
+      result.errors.push(...errors.map(error => ({ ...error, filePath })));
+      const functions = extractFunctions(ast, file.content).map(fn => ({ ...fn, filePath }));
+      const classes = extractClasses(ast, file.content).map(classData => ({ ...classData, filePath }));
+      const { imports, exports } = extractModuleBindings(ast);
+
+      modules.set(filePath, {
+        path: filePath,
+        ast,
+        functions,
+        functionNames: new Set(functions.map(fn => fn.name)),
+        classes,
+        imports,
+        exports,
+        summary: extractModuleSummary(ast),
+      });
+      result.functions.push(...functions);
+      result.classes!.push(...classes);
+    } catch (error) {
+      result.errors.push({ ...createSyntaxError(error), filePath });
+    }
+  }
+
+  const knownPaths = new Set(modules.keys());
+
+  // Pass 2: extract calls, resolving imported callees to their declaring file;
+  // calls into packages and files outside the project become external calls
+  result.externalCalls = [];
+  for (const moduleInfo of modules.values()) {
+    try {
+      result.calls.push(...extractModuleCalls(moduleInfo, modules, knownPaths));
+      const externalImports = moduleInfo.imports.filter(binding => !resolveModulePath(moduleInfo.path, binding.source, knownPaths));
+      result.externalCalls.push(...extractExternalCalls(moduleInfo.ast, moduleInfo.functions, externalImports)
+        .map(call => ({ ...call, callerFile: moduleInfo.path })));
+    } catch (error) {
+      result.errors.push({
+        type: 'analysis',
+        message: error instanceof Error ? error.message : 'Failed to analyze function calls',
+        filePath: moduleInfo.path,
+      });
+    }
+  }
+
+  // Pass 3: link base classes and interfaces to the file that declares them
+  for (const moduleInfo of modules.values()) {
+    for (const classData of moduleInfo.classes) {
+      classData.extends = classData.extends.map(ref => resolveHeritage(moduleInfo, ref, modules, knownPaths));
+      classData.implements = classData.implements.map(ref => resolveHeritage(moduleInfo, ref, modules, knownPaths));
+    }
+  }
+
+  // Add metadata, matching the single-file parser; the module summary is tagged per file
+  const moduleInfos = Array.from(modules.values());
+  result.metadata = {
+    totalFunctions: result.functions.length,
+    totalCalls: result.calls.length,
+    imports: Array.from(new Set(
+      moduleInfos.flatMap(moduleInfo => moduleInfo.imports.map(binding => binding.source))
+    )),
+    exports: moduleInfos.flatMap(moduleInfo =>
+      moduleInfo.exports
+        .filter(binding => binding.exportedName !== '*')
+        .map(binding => `${moduleInfo.path}:${binding.exportedName}`)
+    ),
+    module: {
+      imports: moduleInfos.flatMap(({ path, summary }) => summary.imports.map(entry => ({ ...entry, filePath: path }))),
+      exports: moduleInfos.flatMap(({ path, summary }) => summary.exports.map(entry => ({ ...entry, filePath: path }))),
+      declarations: moduleInfos.flatMap(({ path, summary }) =>
+        summary.declarations.map(entry => ({ ...entry, filePath: path }))
+      ),
+    },
+  };
+
+  return result;
+}
+
+/**
+ * Extracts the calls made inside one module, qualifying each with the file
+ * that declares the callee
+ * @param moduleInfo - Module to extract calls from
+ * @param modules - All parsed modules keyed by path
+ * @param knownPaths - Set of all parsed file paths
+ * @returns Calls with callerFile and calleeFile set
+ */
+function extractModuleCalls(
+  moduleInfo: ModuleInfo,
+  modules: Map<string, ModuleInfo>,
+  knownPaths: Set<string>
+): FunctionCall[] {
+  // Map every callable name visible in this file to its declaration
+  const callTargets = new Map<string, ResolvedBinding>();
+
+  for (const name of moduleInfo.functionNames) {
+    callTargets.set(name, { filePath: moduleInfo.path, name });
+  }
+
+  for (const binding of moduleInfo.imports) {
+    if (binding.typeOnly || callTargets.has(binding.localName)) continue;
+
+    const resolved = resolveImport(moduleInfo.path, binding, modules, knownPaths);
+    if (!resolved) continue;
+
+    const target = modules.get(resolved.filePath);
+    if (!target) continue;
+
+    if (resolved.name === '*') {
+      // import * as ns from './module' -> ns.fn()
+      for (const exported of collectExportNames(target, modules, knownPaths, new Set())) {
+        const member = resolveExport(target.path, exported, modules, knownPaths, new Set());
+        if (member && member.name !== '*' && modules.get(member.filePath)?.functionNames.has(member.name)) {
+          callTargets.set(`${binding.localName}.${exported}`, member);
+        }
+      }
+      continue;
+    }
+
+    if (target.functionNames.has(resolved.name)) {
+      callTargets.set(binding.localName, resolved);
+    }
+
+    // Members of imported classes and objects: Service.create(), api.get()
+    const prefix = `${resolved.name}.`;
+    for (const name of target.functionNames) {
+      if (name.startsWith(prefix)) {
+        callTargets.set(`${binding.localName}.${name.slice(prefix.length)}`, {
+          filePath: target.path,
+          name,
+        });
+      }
+    }
+  }
+
+  const calls = extractFunctionCalls(moduleInfo.ast, Array.from(callTargets.keys()));
+
+  return calls.map(call => {
+    const target = callTargets.get(call.callee)!;
+    return {
+      ...call,
+      callee: target.name,
+      callerFile: moduleInfo.path,
+      calleeFile: target.filePath,
+    };
+  });
+}
+
+/**
+ * Resolves a heritage clause reference to an analyzed class or interface
+ * @param moduleInfo - Module containing the heritage clause
+ * @param ref - Reference as written, e.g. `Base` or `models.Base`
+ * @param modules - All parsed modules keyed by path
+ * @param knownPaths - Set of all parsed file paths
+ * @returns Reference with the declared name and file, or the input when unresolved
+ */
+function resolveHeritage(
+  moduleInfo: ModuleInfo,
+  ref: HeritageReference,
+  modules: Map<string, ModuleInfo>,
+  knownPaths: Set<string>
+): HeritageReference {
+  const [head, ...members] = ref.name.split('.');
+
+  if (members.length === 0 && moduleInfo.classes.some(classData => classData.name === head)) {
+    return { name: head, filePath: moduleInfo.path };
+  }
+
+  const binding = moduleInfo.imports.find(imp => imp.localName === head);
+  let resolved = binding ? resolveImport(moduleInfo.path, binding, modules, knownPaths) : null;
+
+  // import * as models from './models' -> extends models.Base
+  if (resolved && resolved.name === '*' && members.length === 1) {
+    resolved = resolveExport(resolved.filePath, members[0], modules, knownPaths, new Set());
+  } else if (members.length > 0) {
+    return ref;
+  }
+
+  const declared = resolved && modules.get(resolved.filePath)?.classes.some(classData => classData.name === resolved!.name);
+  return declared ? { name: resolved!.name, filePath: resolved!.filePath } : ref;
+}
+
+/**
+ * Resolves an import binding to the file and name that declare it
+ * @param fromPath - Path of the importing file
+ * @param binding - Import binding to resolve
+ * @param modules - All parsed modules keyed by path
+ * @param knownPaths - Set of all parsed file paths
+ * @returns Resolved declaration, or null for external/unresolvable imports
+ */
+function resolveImport(
+  fromPath: string,
+  binding: ImportBinding,
+  modules: Map<string, ModuleInfo>,
+  knownPaths: Set<string>
+): ResolvedBinding | null {
+  const targetPath = resolveModulePath(fromPath, binding.source, knownPaths);
+  if (!targetPath) return null;
+
+  if (binding.importedName === '*') {
+    return { filePath: targetPath, name: '*' };
+  }
+
+  return resolveExport(targetPath, binding.importedName, modules, knownPaths, new Set());
+}
+
+/**
+ * Follows an exported name through local exports, imports and re-exports
+ * until it reaches the declaring file
+ * @param filePath - File to look the export up in
+ * @param exportedName - Name exported by the file
+ * @param modules - All parsed modules keyed by path
+ * @param knownPaths - Set of all parsed file paths
+ * @param visited - Export lookups already in progress, to stop re-export cycles
+ * @returns Resolved declaration, or null when the export cannot be found
+ */
+function resolveExport(
+  filePath: string,
+  exportedName: string,
+  modules: Map<string, ModuleInfo>,
+  knownPaths: Set<string>,
+  visited: Set<string>
+): ResolvedBinding | null {
+  const visitKey = `${filePath}#${exportedName}`;
+  if (visited.has(visitKey)) return null;
+  visited.add(visitKey);
+
+  const moduleInfo = modules.get(filePath);
+  if (!moduleInfo) return null;
+
+  for (const binding of moduleInfo.exports) {
+    if (binding.exportedName !== exportedName || exportedName === '*') continue;
+
+    if (binding.source) {
+      // export { foo } from './module' / export * as ns from './module'
+      const targetPath = resolveModulePath(filePath, binding.source, knownPaths);
+      if (!targetPath) return null;
+      if (binding.localName === '*') return { filePath: targetPath, name: '*' };
+      return resolveExport(targetPath, binding.localName, modules, knownPaths, visited);
+    }
+
+    if (moduleInfo.functionNames.has(binding.localName)) {
+      return { filePath, name: binding.localName };
+    }
+
+    // import { foo } from './a'; export { foo };
+    const importBinding = moduleInfo.imports.find(imp => imp.localName === binding.localName);
+    if (importBinding) {
+      const targetPath = resolveModulePath(filePath, importBinding.source, knownPaths);
+      if (!targetPath) return null;
+      if (importBinding.importedName === '*') return { filePath: targetPath, name: '*' };
+      return resolveExport(targetPath, importBinding.importedName, modules, knownPaths, visited);
+    }
+
+    // Classes and objects: their members are resolved by the caller
+    return { filePath, name: binding.localName };
+  }
+
+  // export * from './module' never re-exports a default
+  if (exportedName === 'default') return null;
+
+  for (const binding of moduleInfo.exports) {
+    if (binding.exportedName !== '*' || !binding.source) continue;
+
+    const targetPath = resolveModulePath(filePath, binding.source, knownPaths);
+    if (!targetPath) continue;
+
+    const resolved = resolveExport(targetPath, exportedName, modules, knownPaths, visited);
+    if (resolved) return resolved;
+  }
+
+  return null;
+}
+
+/**
+ * Lists every name a module exports, including names pulled in by `export *`
+ * @param moduleInfo - Module to list exports for
+ * @param modules - All parsed modules keyed by path
+ * @param knownPaths - Set of all parsed file paths
+ * @param visited - Modules already listed, to stop re-export cycles
+ * @returns Exported names
+ */
+function collectExportNames(
+  moduleInfo: ModuleInfo,
+  modules: Map<string, ModuleInfo>,
+  knownPaths: Set<string>,
+  visited: Set<string>
+): Set<string> {
+  const names = new Set<string>();
+  if (visited.has(moduleInfo.path)) return names;
+  visited.add(moduleInfo.path);
+
+  for (const binding of moduleInfo.exports) {
+    if (binding.exportedName !== '*') {
+      names.add(binding.exportedName);
+      continue;
+    }
+
+    const targetPath = binding.source && resolveModulePath(moduleInfo.path, binding.source, knownPaths);
+    const target = targetPath ? modules.get(targetPath) : undefined;
+    if (!target) continue;
+
+    for (const name of collectExportNames(target, modules, knownPaths, visited)) {
+      if (name !== 'default') names.add(name);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Resolves a relative module specifier to one of the known project files.
+ * Bare specifiers (packages) are not resolved.
+ * @param fromPath - Path of the importing file
+ * @param specifier - Module specifier, e.g. `./utils` or `../lib/index.js`
+ * @param knownPaths - Set of all project file paths
+ * @returns Matching project file path, or null
+ */
+export function resolveModulePath(
+  fromPath: string,
+  specifier: string,
+  knownPaths: Set<string>
+): string | null {
+  if (!specifier.startsWith('.')) return null;
+
+  const base = normalizePath(`${dirname(fromPath)}/${specifier}`);
+  const candidates = [base];
+
+  // ESM-style imports of compiled output: './utils.js' -> './utils.ts'
+  const jsMatch = base.match(/^(.*)\.(m?js|jsx)$/);
+  if (jsMatch) {
+    candidates.push(`${jsMatch[1]}.ts`, `${jsMatch[1]}.tsx`);
+  }
+
+  candidates.push(...RESOLVE_EXTENSIONS.map(ext => `${base}${ext}`));
+  candidates.push(...INDEX_FILES.map(index => (base ? `${base}/${index}` : index)));
+
+  return candidates.find(candidate => knownPaths.has(candidate)) || null;
+}
+
+/**
+ * Normalizes a file path: forward slashes, no leading `./` or `/`,
+ * and `.`/`..` segments collapsed
+ * @param filePath - Path to normalize
+ * @returns Normalized project-relative path
+ */
+export function normalizePath(filePath: string): string {
+  const segments: string[] = [];
+
+  for (const segment of filePath.replace(/\\/g, '/').split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Returns the directory portion of a normalized path
+ * @param filePath - File path
+ * @returns Directory path ('' for top-level files)
+ */
+function dirname(filePath: string): string {
+  const index = filePath.lastIndexOf('/');
+  return index === -1 ? '' : filePath.slice(0, index);
+}
@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for Rate Limit
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  checkRateLimit,
+  createFileRateLimitStore,
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getRateLimitHeaders,
+} from './rateLimit';
+import type { RateLimitStore } from './rateLimit';
+
+describe('checkRateLimit', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should allow a burst up to the limit and then block', async () => {
+    const limiter = createRateLimiter({ limit: 3, window: 60_000 });
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await checkRateLimit('10.0.0.1', limiter));
+    }
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map(result => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].retryAfter).toBe(20);
+    expect(results[3].reset).toBe(60);
+  });
+
+  it('should refill evenly over the window', async () => {
+    const limiter = createRateLimiter({ limit: 3, window: 60_000 });
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimit('10.0.0.2', limiter);
+    }
+
+    now += 20_000;
+    expect((await checkRateLimit('10.0.0.2', limiter)).allowed).toBe(true);
+    expect((await checkRateLimit('10.0.0.2', limiter)).allowed).toBe(false);
+  });
+
+  it('should track clients separately', async () => {
+    const limiter = createRateLimiter({ limit: 1, window: 60_000 });
+
+    expect((await checkRateLimit('10.0.0.3', limiter)).allowed).toBe(true);
+    expect((await checkRateLimit('10.0.0.4', limiter)).allowed).toBe(true);
+    expect((await checkRateLimit('10.0.0.3', limiter)).allowed).toBe(false);
+  });
+
+  it('should let requests through when the store fails', async () => {
+    const failingStore: RateLimitStore = {
+      get: async () => { throw new Error('disk full'); },
+      set: async () => { throw new Error('disk full'); },
+    };
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await checkRateLimit('10.0.0.5', createRateLimiter({ limit: 1 }, failingStore));
+
+    expect(result.allowed).toBe(true);
+  });
+});
+
+describe('createMemoryRateLimitStore', () => {
+  it('should drop refilled buckets and the least recently seen clients', async () => {
+    const store = createMemoryRateLimitStore(2);
+    await store.set('expired', { tokens: 0, updatedAt: 0 }, -1);
+    expect(await store.get('expired')).toBeUndefined();
+
+    await store.set('a', { tokens: 1, updatedAt: 0 }, 60_000);
+    await store.set('b', { tokens: 1, updatedAt: 0 }, 60_000);
+    await store.set('c', { tokens: 1, updatedAt: 0 }, 60_000);
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('c')).toEqual({ tokens: 1, updatedAt: 0 });
+  });
+});
+
+describe('createFileRateLimitStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'rate-limit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should share buckets between store instances', async () => {
+    const limiter = createRateLimiter({ limit: 1, window: 60_000 }, createFileRateLimitStore(directory));
+    await checkRateLimit('10.0.0.6', limiter);
+
+    const restarted = createRateLimiter({ limit: 1, window: 60_000 }, createFileRateLimitStore(directory));
+    expect((await checkRateLimit('10.0.0.6', restarted)).allowed).toBe(false);
+  });
+
+  it('should sweep refilled buckets', async () => {
+    const store = createFileRateLimitStore(directory);
+    await store.set('old', { tokens: 0, updatedAt: 0 }, -1);
+    expect(await store.get('old')).toBeUndefined();
+
+    await createFileRateLimitStore(directory).set('new', { tokens: 0, updatedAt: 0 }, 60_000);
+    expect(await fs.readdir(directory)).toHaveLength(1);
+  });
+});
+
+describe('getRateLimitHeaders', () => {
+  it('should describe the budget and when to retry', () => {
+    expect(getRateLimitHeaders({ allowed: false, limit: 10, remaining: 0, reset: 60, retryAfter: 6, window: 60 })).toEqual({
+      'RateLimit-Policy': '10;w=60',
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '60',
+      'Retry-After': '6',
+    });
+  });
+});
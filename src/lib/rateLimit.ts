@@ -0,0 +1,293 @@
+/**
+ * Rate Limit Module
+ * Per-client request limiting shared by the API routes, so every endpoint
+ * draws on the same budget. Each client gets a token bucket that holds `limit`
+ * requests and refills evenly over `window`, so bursts are allowed but the
+ * sustained rate is `limit` per `window`. Buckets live in a pluggable store:
+ * in memory by default, or a directory on disk shared by server instances.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Bucket size and refill period
+ */
+export interface RateLimitOptions {
+  /** Requests allowed per window (the bucket capacity) */
+  limit: number;
+  /** Milliseconds for an empty bucket to refill */
+  window: number;
+}
+
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+  limit: 10, // 10 requests
+  window: 60 * 1000, // per minute
+};
+
+/**
+ * Token bucket of one client
+ */
+export interface RateLimitState {
+  tokens: number;
+  /** Epoch milliseconds of the last refill */
+  updatedAt: number;
+}
+
+/**
+ * Pluggable bucket storage. `ttl` is how long a bucket matters: once it has
+ * refilled completely it is equivalent to a missing one and may be dropped.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitState | undefined>;
+  set(key: string, state: RateLimitState, ttl: number): Promise<void>;
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Requests left right now */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  reset: number;
+  /** Seconds until the next request is allowed, set when blocked */
+  retryAfter?: number;
+  /** Window in seconds, for the policy header */
+  window: number;
+}
+
+/**
+ * A rate limiter with its settings and store
+ */
+export interface RateLimiter {
+  options: RateLimitOptions;
+  store: RateLimitStore;
+}
+
+/**
+ * Most clients the in-memory store tracks before dropping the least recently seen
+ */
+const DEFAULT_MAX_CLIENTS = 10000;
+
+/**
+ * Limiter shared by the API routes, created from the environment on first use
+ */
+let sharedLimiter: RateLimiter | undefined;
+
+/**
+ * Creates an in-memory store. Buckets are dropped once they have refilled,
+ * and the least recently seen clients are dropped beyond `maxClients`.
+ * @param maxClients - Most buckets kept
+ * @returns Memory-backed store
+ */
+export function createMemoryRateLimitStore(maxClients: number = DEFAULT_MAX_CLIENTS): RateLimitStore {
+  // Map iteration follows insertion order, so re-inserting on write keeps the least recently seen first
+  const buckets = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const bucket = buckets.get(key);
+      if (!bucket) return undefined;
+      if (bucket.expiresAt <= Date.now()) {
+        buckets.delete(key);
+        return undefined;
+      }
+      return { ...bucket.state };
+    },
+
+    async set(key, state, ttl) {
+      const now = Date.now();
+      buckets.delete(key);
+      buckets.set(key, { state: { ...state }, expiresAt: now + ttl });
+
+      if (buckets.size > maxClients) {
+        for (const [bucketKey, bucket] of buckets) {
+          if (bucket.expiresAt <= now) buckets.delete(bucketKey);
+        }
+        for (const bucketKey of buckets.keys()) {
+          if (buckets.size <= maxClients) break;
+          buckets.delete(bucketKey);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Creates a store that keeps one JSON file per client in a directory, so limits
+ * survive restarts and are shared by server instances on one host. Concurrent
+ * requests from one client may race, which makes the limit approximate.
+ * @param directory - Bucket directory, created when missing
+ * @returns File-system-backed store
+ */
+export function createFileRateLimitStore(directory: string): RateLimitStore {
+  const fileFor = (key: string) => path.join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  let nextSweep = 0;
+
+  const read = async (filePath: string): Promise<{ state: RateLimitState; expiresAt: number } | undefined> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Drops refilled buckets, at most once per bucket lifetime
+  const sweep = async (ttl: number) => {
+    const now = Date.now();
+    if (now < nextSweep) return;
+    nextSweep = now + ttl;
+
+    const names = (await fs.readdir(directory)).filter(name => name.endsWith('.json'));
+    await Promise.all(names.map(async name => {
+      const filePath = path.join(directory, name);
+      const bucket = await read(filePath);
+      if (!bucket || bucket.expiresAt <= now) {
+        await fs.rm(filePath, { force: true });
+      }
+    }));
+  };
+
+  return {
+    async get(key) {
+      const bucket = await read(fileFor(key));
+      return bucket && bucket.expiresAt > Date.now() ? bucket.state : undefined;
+    },
+
+    async set(key, state, ttl) {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(fileFor(key), JSON.stringify({ state, expiresAt: Date.now() + ttl }), 'utf8');
+      await sweep(ttl);
+    },
+  };
+}
+
+/**
+ * Creates a rate limiter
+ * @param options - Bucket size and refill period
+ * @param store - Bucket storage, in memory by default
+ * @returns Rate limiter
+ */
+export function createRateLimiter(
+  options: Partial<RateLimitOptions> = {},
+  store: RateLimitStore = createMemoryRateLimitStore()
+): RateLimiter {
+  return { options: { ...DEFAULT_RATE_LIMIT_OPTIONS, ...options }, store };
+}
+
+/**
+ * Returns the limiter shared by the API routes, configured by environment variables:
+ * - `RATE_LIMIT_MAX`: requests per window (default 10)
+ * - `RATE_LIMIT_WINDOW`: window in seconds (default 60)
+ * - `RATE_LIMIT_STORE`: `memory` (default) or `fs`
+ * - `RATE_LIMIT_DIR`: directory of the `fs` store (defaults to the OS temp directory)
+ * @returns Shared rate limiter
+ */
+export function getRateLimiter(): RateLimiter {
+  if (sharedLimiter) return sharedLimiter;
+
+  const limit = Number(process.env.RATE_LIMIT_MAX);
+  const windowSeconds = Number(process.env.RATE_LIMIT_WINDOW);
+
+  sharedLimiter = createRateLimiter(
+    {
+      ...(limit > 0 && { limit: Math.floor(limit) }),
+      ...(windowSeconds > 0 && { window: windowSeconds * 1000 }),
+    },
+    process.env.RATE_LIMIT_STORE === 'fs'
+      ? createFileRateLimitStore(process.env.RATE_LIMIT_DIR || path.join(os.tmpdir(), 'code-visualizer-rate-limit'))
+      : createMemoryRateLimitStore()
+  );
+  return sharedLimiter;
+}
+
+/**
+ * Gets client IP address for rate limiting
+ */
+export function getClientIP(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const realIP = request.headers.get('x-real-ip');
+
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+
+  if (realIP) {
+    return realIP;
+  }
+
+  // Fallback for development
+  return 'unknown';
+}
+
+/**
+ * Takes one request from a client's bucket. A failing store lets the request
+ * through rather than failing it.
+ * @param clientIP - Client identifier
+ * @param limiter - Rate limiter, the shared one by default
+ * @returns Whether the request is allowed and the client's remaining budget
+ */
+export async function checkRateLimit(clientIP: string, limiter: RateLimiter = getRateLimiter()): Promise<RateLimitResult> {
+  const { limit, window } = limiter.options;
+  const refillPerMs = limit / window;
+  const now = Date.now();
+
+  let state: RateLimitState | undefined;
+  try {
+    state = await limiter.store.get(clientIP);
+  } catch (error) {
+    console.warn('Rate limit store read failed:', error);
+  }
+
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state ? Math.min(limit, state.tokens + elapsed * refillPerMs) : limit;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  try {
+    await limiter.store.set(clientIP, { tokens, updatedAt: now }, Math.ceil((limit - tokens) / refillPerMs));
+  } catch (error) {
+    console.warn('Rate limit store write failed:', error);
+  }
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.floor(tokens),
+    reset: Math.ceil((limit - tokens) / refillPerMs / 1000),
+    ...(!allowed && { retryAfter: Math.ceil((1 - tokens) / refillPerMs / 1000) }),
+    window: Math.round(window / 1000),
+  };
+}
+
+/**
+ * Builds the `RateLimit-*` headers (IETF draft) and `Retry-After` for a check
+ * @param result - Rate limit check result
+ * @returns Response headers
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Policy': `${result.limit};w=${result.window}`,
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+    ...(result.retryAfter !== undefined && { 'Retry-After': String(result.retryAfter) }),
+  };
+}
+
+/**
+ * Adds the rate limit headers to a response
+ * @param response - Route response
+ * @param result - Rate limit check result
+ * @returns The same response
+ */
+export function withRateLimitHeaders<T extends NextResponse>(response: T, result: RateLimitResult): T {
+  Object.entries(getRateLimitHeaders(result)).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
@@ -0,0 +1,162 @@
+/**
+ * Tests for Repository Fetcher
+ */
+
+import { fetchRepositoryFiles, type HttpFetcher } from './repoFetcher';
+
+const API = 'http://fixtures.local/api';
+const RAW = 'http://fixtures.local/raw';
+
+// In-memory fixture server: maps URLs to responses
+const createFixtureFetcher = (routes: Record<string, { status?: number; body: unknown }>) => {
+  const requested: string[] = [];
+  const fetcher: HttpFetcher = {
+    async get(url) {
+      requested.push(url);
+      const route = routes[url];
+      if (!route) return { status: 404, data: 'Not Found' };
+      return {
+        status: route.status ?? 200,
+        data: typeof route.body === 'string' ? route.body : JSON.stringify(route.body),
+      };
+    },
+  };
+  return { fetcher, requested };
+};
+
+const tree = {
+  tree: [
+    { path: 'README.md', type: 'blob', size: 10 },
+    { path: 'src', type: 'tree' },
+    { path: 'src/index.ts', type: 'blob', size: 40 },
+    { path: 'src/utils.ts', type: 'blob', size: 40 },
+    { path: 'src/App.tsx', type: 'blob', size: 40 },
+    { path: 'src/utils.test.ts', type: 'blob', size: 40 },
+    { path: 'src/types.d.ts', type: 'blob', size: 40 },
+    { path: 'src/huge.ts', type: 'blob', size: 600 * 1024 },
+    { path: 'node_modules/lib/index.ts', type: 'blob', size: 40 },
+    { path: 'scripts/build.ts', type: 'blob', size: 40 },
+  ],
+};
+
+const routes = {
+  [`${API}/repos/acme/app`]: { body: { default_branch: 'main' } },
+  [`${API}/repos/acme/app/git/trees/main?recursive=1`]: { body: tree },
+  [`${RAW}/acme/app/main/src/index.ts`]: { body: 'export function main() {}' },
+  [`${RAW}/acme/app/main/src/utils.ts`]: { body: 'export function util() {}' },
+  [`${RAW}/acme/app/main/src/App.tsx`]: { body: 'export const App = () => null;' },
+  [`${RAW}/acme/app/main/src/utils.test.ts`]: { body: 'test()' },
+  [`${RAW}/acme/app/main/scripts/build.ts`]: { body: 'function build() {}' },
+};
+
+const baseOptions = { apiBaseUrl: API, rawBaseUrl: RAW };
+
+describe('fetchRepositoryFiles', () => {
+  it('should expand a repository URL using the default branch', async () => {
+    const { fetcher } = createFixtureFetcher(routes);
+
+    const result = await fetchRepositoryFiles('https://github.com/acme/app', { ...baseOptions, fetcher });
+
+    expect(result.success).toBe(true);
+    expect(result.ref).toBe('main');
+    expect(result.files!.map(file => file.path)).toEqual([
+      'scripts/build.ts',
+      'src/App.tsx',
+      'src/index.ts',
+      'src/utils.test.ts',
+      'src/utils.ts',
+    ]);
+    expect(result.files![2].content).toBe('export function main() {}');
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should restrict a tree URL to its directory and apply globs', async () => {
+    const { fetcher, requested } = createFixtureFetcher(routes);
+
+    const result = await fetchRepositoryFiles('https://github.com/acme/app/tree/main/src', {
+      ...baseOptions,
+      fetcher,
+      include: ['**/*.ts'],
+      exclude: ['*.test.ts', '*.d.ts'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.files!.map(file => file.path)).toEqual(['src/index.ts', 'src/utils.ts']);
+    // The ref is in the URL, so the repository lookup is skipped
+    expect(requested).not.toContain(`${API}/repos/acme/app`);
+  });
+
+  it('should cap the number of fetched files', async () => {
+    const { fetcher } = createFixtureFetcher(routes);
+
+    const result = await fetchRepositoryFiles('https://github.com/acme/app/tree/main/src', {
+      ...baseOptions,
+      fetcher,
+      maxFiles: 2,
+    });
+
+    expect(result.files).toHaveLength(2);
+    expect(result.totalMatched).toBe(4);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should report missing repositories and branches', async () => {
+    const { fetcher } = createFixtureFetcher(routes);
+
+    const missingRepo = await fetchRepositoryFiles('https://github.com/acme/other', { ...baseOptions, fetcher });
+    const missingRef = await fetchRepositoryFiles('https://github.com/acme/app/tree/dev', { ...baseOptions, fetcher });
+
+    expect(missingRepo).toMatchObject({ success: false, error: 'Repository not found (404)' });
+    expect(missingRef).toMatchObject({ success: false, error: 'Branch or commit not found (404)' });
+  });
+
+  it('should report rate limiting', async () => {
+    const { fetcher } = createFixtureFetcher({
+      [`${API}/repos/acme/app`]: { status: 403, body: 'rate limited' },
+    });
+
+    const result = await fetchRepositoryFiles('https://github.com/acme/app', { ...baseOptions, fetcher });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('rate limit');
+  });
+
+  it('should fail when a directory has no TypeScript files', async () => {
+    const { fetcher } = createFixtureFetcher(routes);
+
+    const result = await fetchRepositoryFiles('https://github.com/acme/app/tree/main/docs', { ...baseOptions, fetcher });
+
+    expect(result).toMatchObject({ success: false, error: 'No TypeScript files found in docs' });
+  });
+
+  it('should send the token to the GitHub API', async () => {
+    const get = jest.fn().mockResolvedValue({ status: 401, data: '' });
+
+    await fetchRepositoryFiles('https://github.com/acme/app', { ...baseOptions, fetcher: { get }, token: 'secret' });
+
+    expect(get).toHaveBeenCalledWith(`${API}/repos/acme/app`, expect.objectContaining({
+      Authorization: 'Bearer secret',
+    }), undefined);
+  });
+
+  it('should pass the cancellation signal to every request', async () => {
+    const { fetcher } = createFixtureFetcher(routes);
+    const get = jest.spyOn(fetcher, 'get');
+    const { signal } = new AbortController();
+
+    await fetchRepositoryFiles('https://github.com/acme/app', { ...baseOptions, fetcher, signal });
+
+    expect(get.mock.calls.length).toBeGreaterThan(2);
+    expect(get.mock.calls.every(call => call[2] === signal)).toBe(true);
+  });
+
+  it('should reject non-directory URLs', async () => {
+    const result = await fetchRepositoryFiles('https://example.com/file.ts');
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Not a GitHub repository or directory URL',
+      url: 'https://example.com/file.ts',
+    });
+  });
+});
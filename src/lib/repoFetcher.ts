@@ -0,0 +1,251 @@
+/**
+ * Repository Fetcher Module
+ * Expands GitHub repository and directory URLs into their TypeScript files.
+ * The HTTP layer and base URLs are injectable so tests can serve fixtures.
+ */
+
+import axios from 'axios';
+import { parseGitHubDirectoryURL, isSupportedFile, matchGlob } from './utils';
+import type { ProjectFile, RepositoryFetchResult } from '../types';
+
+/**
+ * Minimal HTTP response used by the fetcher
+ */
+export interface HttpResponse {
+  status: number;
+  data: string;
+}
+
+/**
+ * Pluggable HTTP client. Implementations must resolve (not reject) for
+ * HTTP error statuses and reject only for network failures.
+ */
+export interface HttpFetcher {
+  get(url: string, headers?: Record<string, string>, signal?: AbortSignal): Promise<HttpResponse>;
+}
+
+/**
+ * Options for expanding a repository into files
+ */
+export interface RepositoryFetchOptions {
+  /** Globs a file path (relative to the requested directory) must match */
+  include?: string[];
+  /** Globs that exclude a file path (relative to the requested directory) */
+  exclude?: string[];
+  /** Maximum number of files to fetch */
+  maxFiles?: number;
+  /** HTTP client, defaults to axios */
+  fetcher?: HttpFetcher;
+  /** GitHub REST API base URL */
+  apiBaseUrl?: string;
+  /** Base URL serving raw file contents */
+  rawBaseUrl?: string;
+  /** Optional GitHub token for higher API rate limits and private repositories */
+  token?: string;
+  /** Number of files fetched in parallel */
+  concurrency?: number;
+  /** Cancels the remaining requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Default repository fetch settings
+ */
+export const DEFAULT_REPOSITORY_OPTIONS = {
+  include: ['**/*.ts', '**/*.tsx'],
+  exclude: ['**/node_modules/**', '**/*.d.ts', '**/dist/**', '**/build/**'],
+  maxFiles: 100,
+  apiBaseUrl: 'https://api.github.com',
+  rawBaseUrl: 'https://raw.githubusercontent.com',
+  concurrency: 6,
+};
+
+/**
+ * Maximum size of a single file (500KB, same as single-file fetching)
+ */
+const MAX_FILE_SIZE = 500 * 1024;
+
+/**
+ * Entry of the GitHub git trees API response
+ */
+interface GitTreeEntry {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  size?: number;
+}
+
+/**
+ * Default HTTP client backed by axios
+ */
+export const axiosFetcher: HttpFetcher = {
+  async get(url, headers, signal) {
+    const response = await axios.get(url, {
+      headers,
+      signal,
+      timeout: 10000,
+      responseType: 'text',
+      transformResponse: data => data, // keep the raw text
+      validateStatus: () => true,
+    });
+    return { status: response.status, data: response.data };
+  },
+};
+
+/**
+ * Fetches all TypeScript files below a GitHub repository or directory URL
+ * @param url - github.com/owner/repo or github.com/owner/repo/tree/ref/path
+ * @param options - Filters, file cap and pluggable HTTP settings
+ * @returns Fetch result with project files keyed by repository path
+ */
+export async function fetchRepositoryFiles(
+  url: string,
+  options: RepositoryFetchOptions = {}
+): Promise<RepositoryFetchResult> {
+  const directory = parseGitHubDirectoryURL(url);
+  if (!directory) {
+    return { success: false, error: 'Not a GitHub repository or directory URL', url };
+  }
+
+  const settings = { ...DEFAULT_REPOSITORY_OPTIONS, ...removeUndefined(options) };
+  const fetcher = options.fetcher || axiosFetcher;
+  const apiHeaders: Record<string, string> = { Accept: 'application/vnd.github+json' };
+  if (options.token) {
+    apiHeaders.Authorization = `Bearer ${options.token}`;
+  }
+
+  const { owner, repo, path } = directory;
+  const repoApiUrl = `${settings.apiBaseUrl}/repos/${owner}/${repo}`;
+
+  try {
+    // Resolve the default branch when the URL does not name one
+    let ref = directory.ref;
+    if (!ref) {
+      const repoResponse = await fetcher.get(repoApiUrl, apiHeaders, options.signal);
+      if (repoResponse.status !== 200) {
+        return { success: false, error: describeStatus(repoResponse.status, 'Repository'), url };
+      }
+      ref = (JSON.parse(repoResponse.data) as { default_branch: string }).default_branch;
+    }
+
+    // List every file in the repository in one request
+    const treeResponse = await fetcher.get(
+      `${repoApiUrl}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+      apiHeaders,
+      options.signal
+    );
+    if (treeResponse.status !== 200) {
+      return { success: false, error: describeStatus(treeResponse.status, 'Branch or commit'), url, ref };
+    }
+
+    const tree = JSON.parse(treeResponse.data) as { tree: GitTreeEntry[] };
+    const prefix = path ? `${path}/` : '';
+
+    const matched = tree.tree
+      .filter(entry => entry.type === 'blob' && entry.path.startsWith(prefix))
+      .filter(entry => isSupportedFile(entry.path))
+      .filter(entry => (entry.size ?? 0) <= MAX_FILE_SIZE)
+      .filter(entry => {
+        const relativePath = entry.path.slice(prefix.length);
+        return settings.include.some(pattern => matchGlob(relativePath, pattern))
+          && !settings.exclude.some(pattern => matchGlob(relativePath, pattern));
+      })
+      .map(entry => entry.path)
+      .sort();
+
+    if (matched.length === 0) {
+      return {
+        success: false,
+        error: path
+          ? `No TypeScript files found in ${path}`
+          : 'No TypeScript files found in the repository',
+        url,
+        ref,
+        totalMatched: 0,
+      };
+    }
+
+    const selected = matched.slice(0, settings.maxFiles);
+    const rawBase = `${settings.rawBaseUrl}/${owner}/${repo}/${ref}`;
+
+    const files = await mapWithConcurrency(selected, settings.concurrency, async (filePath): Promise<ProjectFile> => {
+      const response = await fetcher.get(`${rawBase}/${filePath.split('/').map(encodeURIComponent).join('/')}`, undefined, options.signal);
+      if (response.status !== 200) {
+        throw new Error(`Failed to fetch ${filePath}: ${describeStatus(response.status, 'File')}`);
+      }
+      return { path: filePath, content: response.data };
+    });
+
+    return {
+      success: true,
+      files,
+      url,
+      ref,
+      totalMatched: matched.length,
+      truncated: matched.length > selected.length,
+      size: files.reduce((sum, file) => sum + file.content.length, 0),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch repository',
+      url,
+    };
+  }
+}
+
+/**
+ * Builds an error message for a failed GitHub response
+ * @param status - HTTP status code
+ * @param subject - What was being fetched
+ * @returns Human readable message
+ */
+function describeStatus(status: number, subject: string): string {
+  switch (status) {
+    case 401:
+      return 'Authentication required (401)';
+    case 403:
+    case 429:
+      return `GitHub API rate limit exceeded or access forbidden (${status})`;
+    case 404:
+      return `${subject} not found (404)`;
+    default:
+      return `GitHub request failed (${status})`;
+  }
+}
+
+/**
+ * Maps items through an async function with a bounded number in flight
+ * @param items - Items to process
+ * @param concurrency - Maximum parallel operations
+ * @param fn - Async mapper
+ * @returns Results in input order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Drops undefined properties so they do not override defaults when spreading
+ * @param options - Options object
+ * @returns Copy without undefined values
+ */
+function removeUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
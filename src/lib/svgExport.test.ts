@@ -0,0 +1,105 @@
+/**
+ * Tests for SVG Export
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import { exportGraphToSVG, escapeXml } from './svgExport';
+
+const functionNode = (id: string, x: number, y: number, data: Record<string, unknown> = {}): Node => ({
+  id,
+  type: 'function',
+  position: { x, y },
+  data: { label: id, ...data },
+  style: { width: 200, height: 100 },
+});
+
+// Parses the markup and fails on XML errors
+const parseSvg = (svg: string) => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc.documentElement;
+};
+
+describe('exportGraphToSVG', () => {
+  it('should size the document from node positions rather than the viewport', () => {
+    const nodes = [functionNode('a', 100, 50), functionNode('b', 400, 300)];
+    const root = parseSvg(exportGraphToSVG(nodes, [], { padding: 20 }));
+
+    // x: 100..600 (+40 self-loop room) plus padding, y: 50..400 plus padding
+    expect(root.getAttribute('viewBox')).toBe('0 0 580 390');
+    expect(root.getAttribute('width')).toBe('580');
+    expect(root.querySelectorAll('g.node')).toHaveLength(2);
+  });
+
+  it('should escape labels and titles', () => {
+    const nodes = [functionNode('a', 0, 0, { label: 'compare<T>' })];
+    const svg = exportGraphToSVG(nodes, [], { title: 'a & b.ts' });
+    const root = parseSvg(svg);
+
+    expect(svg).toContain('compare&lt;T&gt;');
+    expect(root.querySelector('title')?.textContent).toBe('a & b.ts');
+  });
+
+  it('should draw edges with their call-count label and a matching arrow marker', () => {
+    const nodes = [functionNode('a', 0, 0), functionNode('b', 0, 300)];
+    const edges: Edge[] = [
+      { id: 'a-b', source: 'a', target: 'b', label: '3x', style: { stroke: '#2563eb', strokeWidth: 3 } },
+    ];
+    const root = parseSvg(exportGraphToSVG(nodes, edges));
+
+    const edge = root.querySelector('g.edge');
+    expect(edge?.querySelector('path')?.getAttribute('marker-end')).toBe('url(#arrow-0)');
+    expect(edge?.querySelector('path')?.getAttribute('stroke')).toBe('#2563eb');
+    expect(edge?.querySelector('text')?.textContent).toBe('3x');
+    expect(root.querySelector('marker#arrow-0 path')?.getAttribute('fill')).toBe('#2563eb');
+  });
+
+  it('should skip hidden nodes and edges to nodes that are not drawn', () => {
+    const nodes = [functionNode('a', 0, 0), { ...functionNode('b', 300, 0), hidden: true }];
+    const edges: Edge[] = [
+      { id: 'a-b', source: 'a', target: 'b' },
+      { id: 'a-missing', source: 'a', target: 'missing' },
+    ];
+    const root = parseSvg(exportGraphToSVG(nodes, edges));
+
+    expect(root.querySelectorAll('g.node')).toHaveLength(1);
+    expect(root.querySelectorAll('g.edge')).toHaveLength(0);
+  });
+
+  it('should draw recursive calls as a loop on the node', () => {
+    const nodes = [functionNode('a', 0, 0)];
+    const edges: Edge[] = [{ id: 'a-a', source: 'a', target: 'a' }];
+    const root = parseSvg(exportGraphToSVG(nodes, edges, { padding: 0 }));
+
+    // Starts and ends on the right side of the node
+    const path = root.querySelector('g.edge path')?.getAttribute('d');
+    expect(path).toMatch(/^M 200 35 C 240 35, 240 65, 200 65$/);
+  });
+
+  it('should list class members and flag badges', () => {
+    const nodes: Node[] = [{
+      id: 'class:Shape',
+      type: 'class',
+      position: { x: 0, y: 0 },
+      data: { label: 'Shape', kind: 'class', isAbstract: true, isExported: true, properties: ['name'], methods: ['area'] },
+      style: { width: 240, height: 160 },
+    }];
+    const root = parseSvg(exportGraphToSVG(nodes, []));
+    const texts = Array.from(root.querySelectorAll('g.node text')).map(text => text.textContent);
+
+    expect(texts).toEqual(expect.arrayContaining(['Shape', 'abstract', 'export', 'name', 'area()']));
+  });
+
+  it('should produce an empty but valid document for an empty graph', () => {
+    const root = parseSvg(exportGraphToSVG([], [], { background: 'transparent' }));
+
+    expect(root.getAttribute('viewBox')).toBe('0 0 80 80');
+    expect(root.querySelector('rect')).toBeNull();
+  });
+});
+
+describe('escapeXml', () => {
+  it('should escape markup and quote characters', () => {
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+  });
+});
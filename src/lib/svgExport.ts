@@ -0,0 +1,373 @@
+/**
+ * SVG Export Module
+ * Renders a laid out graph as a standalone vector SVG document.
+ * Works from node and edge data only, so the output does not depend on the
+ * DOM, the current viewport or zoom level.
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import { DEFAULT_LAYOUT_OPTIONS } from './layoutEngine';
+import { getAbsolutePosition, isGroupNode } from './nodeGroups';
+
+/**
+ * Options for SVG export
+ */
+export interface SvgExportOptions {
+  /** Space around the graph in pixels */
+  padding: number;
+  /** Background fill, or 'transparent' */
+  background: string;
+  /** Document title embedded in the SVG */
+  title?: string;
+}
+
+export const DEFAULT_SVG_EXPORT_OPTIONS: SvgExportOptions = {
+  padding: 40,
+  background: '#ffffff',
+};
+
+/**
+ * Axis-aligned box of a node in graph coordinates
+ */
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Colors for a node, matching the on-screen palette
+ */
+interface NodePalette {
+  fill: string;
+  stroke: string;
+  text: string;
+}
+
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif';
+const MONO_FONT_FAMILY = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+const DEFAULT_EDGE_COLOR = '#6b7280';
+const MAX_LISTED_MEMBERS = 8;
+
+/**
+ * Renders nodes and edges as an SVG document
+ * @param nodes - Positioned React Flow nodes (hidden nodes are skipped)
+ * @param edges - React Flow edges; edges to missing nodes are skipped
+ * @param options - Padding, background and title
+ * @returns SVG markup
+ */
+export function exportGraphToSVG(
+  nodes: Node[],
+  edges: Edge[],
+  options: Partial<SvgExportOptions> = {}
+): string {
+  const settings = { ...DEFAULT_SVG_EXPORT_OPTIONS, ...options };
+  const visibleNodes = nodes.filter(node => !node.hidden);
+  const boxes = new Map(visibleNodes.map(node => [node.id, getNodeBox(node, nodes)]));
+  const visibleEdges = edges.filter(edge => !edge.hidden && boxes.has(edge.source) && boxes.has(edge.target));
+
+  // Bounds of every node box, including room for self-loops on the right
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  boxes.forEach(box => {
+    minX = Math.min(minX, box.x);
+    minY = Math.min(minY, box.y);
+    maxX = Math.max(maxX, box.x + box.width + 40);
+    maxY = Math.max(maxY, box.y + box.height);
+  });
+  if (boxes.size === 0) {
+    minX = minY = maxX = maxY = 0;
+  }
+
+  const width = Math.ceil(maxX - minX + settings.padding * 2);
+  const height = Math.ceil(maxY - minY + settings.padding * 2);
+  const offsetX = settings.padding - minX;
+  const offsetY = settings.padding - minY;
+
+  // One arrow marker per edge color so arrowheads match their edge
+  const edgeColors = Array.from(new Set(visibleEdges.map(getEdgeColor)));
+  const markerIds = new Map(edgeColors.map((color, index) => [color, `arrow-${index}`]));
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+  ];
+  if (settings.title) {
+    parts.push(`<title>${escapeXml(settings.title)}</title>`);
+  }
+  parts.push('<defs>');
+  edgeColors.forEach(color => {
+    parts.push(
+      `<marker id="${markerIds.get(color)}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">` +
+      `<path d="M 0 0 L 10 5 L 0 10 z" fill="${escapeXml(color)}"/></marker>`
+    );
+  });
+  parts.push('</defs>');
+
+  if (settings.background !== 'transparent') {
+    parts.push(`<rect width="100%" height="100%" fill="${escapeXml(settings.background)}"/>`);
+  }
+
+  parts.push(`<g transform="translate(${round(offsetX)} ${round(offsetY)})">`);
+
+  // Edges first so nodes are drawn on top of them
+  parts.push('<g class="edges">');
+  visibleEdges.forEach(edge => {
+    parts.push(renderEdge(edge, boxes.get(edge.source)!, boxes.get(edge.target)!, markerIds.get(getEdgeColor(edge))!));
+  });
+  parts.push('</g>');
+
+  parts.push('<g class="nodes">');
+  visibleNodes.forEach(node => {
+    parts.push(renderNode(node, boxes.get(node.id)!));
+  });
+  parts.push('</g>');
+
+  parts.push('</g>', '</svg>');
+  return parts.join('\n');
+}
+
+/**
+ * Gets a node's box, preferring the size React Flow measured on screen
+ * @param node - React Flow node
+ * @param nodes - All nodes, to resolve positions inside groups
+ * @returns Box in graph coordinates
+ */
+function getNodeBox(node: Node, nodes: Node[]): Box {
+  const width = node.measured?.width ?? node.width ?? Number(node.style?.width);
+  const height = node.measured?.height ?? node.height ?? Number(node.style?.height);
+  const { x, y } = getAbsolutePosition(node, nodes);
+  return {
+    x,
+    y,
+    width: width || DEFAULT_LAYOUT_OPTIONS.nodeWidth,
+    height: height || (node.type === 'sectionHeader' ? 40 : 120),
+  };
+}
+
+/**
+ * Renders an edge as a curve between the facing sides of two nodes
+ */
+function renderEdge(edge: Edge, source: Box, target: Box, markerId: string): string {
+  const color = getEdgeColor(edge);
+  const strokeWidth = Number(edge.style?.strokeWidth) || 2;
+  const dash = edge.style?.strokeDasharray ? ` stroke-dasharray="${escapeXml(String(edge.style.strokeDasharray))}"` : '';
+
+  let path: string;
+  let labelPoint: { x: number; y: number };
+
+  if (edge.source === edge.target) {
+    // Recursive call: loop on the right side of the node
+    const x = source.x + source.width;
+    const top = source.y + source.height * 0.35;
+    const bottom = source.y + source.height * 0.65;
+    path = `M ${round(x)} ${round(top)} C ${round(x + 40)} ${round(top)}, ${round(x + 40)} ${round(bottom)}, ${round(x)} ${round(bottom)}`;
+    labelPoint = { x: x + 30, y: (top + bottom) / 2 };
+  } else {
+    const { start, end, vertical } = getAnchors(source, target);
+    const bend = vertical ? Math.abs(end.y - start.y) / 2 : Math.abs(end.x - start.x) / 2;
+    const control1 = vertical
+      ? { x: start.x, y: start.y + Math.sign(end.y - start.y) * bend }
+      : { x: start.x + Math.sign(end.x - start.x) * bend, y: start.y };
+    const control2 = vertical
+      ? { x: end.x, y: end.y - Math.sign(end.y - start.y) * bend }
+      : { x: end.x - Math.sign(end.x - start.x) * bend, y: end.y };
+    path = `M ${round(start.x)} ${round(start.y)} C ${round(control1.x)} ${round(control1.y)}, ${round(control2.x)} ${round(control2.y)}, ${round(end.x)} ${round(end.y)}`;
+    labelPoint = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  }
+
+  const parts = [
+    `<path d="${path}" fill="none" stroke="${escapeXml(color)}" stroke-width="${strokeWidth}"${dash} marker-end="url(#${markerId})"/>`,
+  ];
+
+  // Call-count badges ("3x") and relationship labels sit on the middle of the edge
+  if (typeof edge.label === 'string' && edge.label.length > 0) {
+    const labelWidth = edge.label.length * 7 + 12;
+    parts.push(
+      `<rect x="${round(labelPoint.x - labelWidth / 2)}" y="${round(labelPoint.y - 10)}" width="${labelWidth}" height="20" rx="10" fill="#ffffff" stroke="${escapeXml(color)}"/>`,
+      `<text x="${round(labelPoint.x)}" y="${round(labelPoint.y + 4)}" text-anchor="middle" font-size="11" fill="${escapeXml(color)}">${escapeXml(edge.label)}</text>`
+    );
+  }
+
+  return `<g class="edge" data-id="${escapeXml(edge.id)}">${parts.join('')}</g>`;
+}
+
+/**
+ * Picks the facing sides of two boxes: top/bottom when they are mostly
+ * stacked, left/right when they are mostly side by side
+ */
+function getAnchors(source: Box, target: Box): {
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  vertical: boolean;
+} {
+  const sourceCenter = { x: source.x + source.width / 2, y: source.y + source.height / 2 };
+  const targetCenter = { x: target.x + target.width / 2, y: target.y + target.height / 2 };
+  const gapY = Math.max(target.y - (source.y + source.height), source.y - (target.y + target.height));
+  const gapX = Math.max(target.x - (source.x + source.width), source.x - (target.x + target.width));
+
+  if (gapY >= gapX) {
+    const downward = targetCenter.y >= sourceCenter.y;
+    return {
+      start: { x: sourceCenter.x, y: downward ? source.y + source.height : source.y },
+      end: { x: targetCenter.x, y: downward ? target.y : target.y + target.height },
+      vertical: true,
+    };
+  }
+
+  const rightward = targetCenter.x >= sourceCenter.x;
+  return {
+    start: { x: rightward ? source.x + source.width : source.x, y: sourceCenter.y },
+    end: { x: rightward ? target.x : target.x + target.width, y: targetCenter.y },
+    vertical: false,
+  };
+}
+
+/**
+ * Renders a node box with its label, subtitle, badges and (for classes) members
+ */
+function renderNode(node: Node, box: Box): string {
+  const data = (node.data || {}) as Record<string, unknown>;
+  const label = String(data.label ?? node.id);
+  const maxChars = Math.max(8, Math.floor((box.width - 24) / 8));
+
+  // Groups are drawn before their members, as a frame with the class or file name
+  if (isGroupNode(node)) {
+    return `<g class="group"><rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="12" fill="#f9fafb" stroke="#d1d5db" stroke-width="2" stroke-dasharray="8,4"/>` +
+      `<text x="${round(box.x + 16)}" y="${round(box.y + 32)}" font-size="16" font-weight="700" fill="#374151">${escapeXml(truncate(label, maxChars))}</text></g>`;
+  }
+
+  if (node.type === 'sectionHeader') {
+    return `<g class="section-header"><text x="${round(box.x)}" y="${round(box.y + 24)}" font-size="18" font-weight="700" fill="#1f2937">${escapeXml(truncate(label, maxChars))}</text>` +
+      `<line x1="${round(box.x)}" y1="${round(box.y + box.height)}" x2="${round(box.x + box.width)}" y2="${round(box.y + box.height)}" stroke="#d1d5db" stroke-width="2"/></g>`;
+  }
+
+  const palette = getNodePalette(node);
+  const isExternal = Boolean(data.isExternal);
+  const parts = [
+    `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="8" fill="${palette.fill}" stroke="${palette.stroke}" stroke-width="2"${isExternal ? ' stroke-dasharray="6,4"' : ''}/>`,
+    `<text x="${round(box.x + 12)}" y="${round(box.y + 24)}" font-size="14" font-weight="600" fill="${palette.text}">${escapeXml(truncate(label, maxChars))}</text>`,
+  ];
+
+  const subtitle = getSubtitle(node);
+  if (subtitle) {
+    parts.push(`<text x="${round(box.x + 12)}" y="${round(box.y + 44)}" font-size="11" fill="#4b5563">${escapeXml(truncate(subtitle, maxChars + 4))}</text>`);
+  }
+
+  // Badges along the bottom edge, left to right
+  let badgeX = box.x + 12;
+  getBadges(data).forEach(badge => {
+    const badgeWidth = badge.text.length * 7 + 12;
+    parts.push(
+      `<rect x="${round(badgeX)}" y="${round(box.y + box.height - 28)}" width="${badgeWidth}" height="18" rx="4" fill="${badge.color}"/>`,
+      `<text x="${round(badgeX + badgeWidth / 2)}" y="${round(box.y + box.height - 15)}" text-anchor="middle" font-size="11" fill="#ffffff">${escapeXml(badge.text)}</text>`
+    );
+    badgeX += badgeWidth + 6;
+  });
+
+  // Class and interface members
+  if (node.type === 'class' && !isExternal) {
+    const members = [
+      ...((data.properties as string[] | undefined) || []),
+      ...((data.methods as string[] | undefined) || []).map(method => `${method}()`),
+    ];
+    const lineHeight = 16;
+    const available = Math.max(0, Math.floor((box.height - 90) / lineHeight));
+    const listed = members.slice(0, Math.min(MAX_LISTED_MEMBERS, available));
+    listed.forEach((member, index) => {
+      parts.push(`<text x="${round(box.x + 12)}" y="${round(box.y + 66 + index * lineHeight)}" font-size="11" font-family="${MONO_FONT_FAMILY}" fill="${palette.text}">${escapeXml(truncate(member, maxChars + 4))}</text>`);
+    });
+    if (members.length > listed.length && listed.length > 0) {
+      parts.push(`<text x="${round(box.x + 12)}" y="${round(box.y + 66 + listed.length * lineHeight)}" font-size="11" fill="#6b7280">+${members.length - listed.length} more</text>`);
+    }
+  }
+
+  return `<g class="node" data-id="${escapeXml(node.id)}">${parts.join('')}</g>`;
+}
+
+/**
+ * Builds the second line of a node: its location or, for classes, its kind
+ */
+function getSubtitle(node: Node): string | null {
+  const data = (node.data || {}) as Record<string, unknown>;
+  if (data.isExternal) return 'external';
+
+  const location = data.location as { startLine?: number } | undefined;
+  const filePath = data.filePath as string | undefined;
+  const line = location?.startLine ? `line ${location.startLine}` : null;
+
+  if (filePath) return line ? `${filePath}:${location!.startLine}` : filePath;
+  if (node.type === 'class') return [String(data.kind ?? 'class'), line].filter(Boolean).join(' · ');
+
+  const parameters = data.parameters as Array<{ name: string }> | undefined;
+  const signature = parameters ? `(${parameters.map(param => param.name).join(', ')})` : null;
+  return [signature, line].filter(Boolean).join(' · ') || null;
+}
+
+/**
+ * Collects the badges shown on screen for a node
+ */
+function getBadges(data: Record<string, unknown>): Array<{ text: string; color: string }> {
+  const badges: Array<{ text: string; color: string }> = [];
+  if (data.isAbstract) badges.push({ text: 'abstract', color: '#6b7280' });
+  if (data.isAsync) badges.push({ text: 'async', color: '#7c3aed' });
+  if (data.isExported) badges.push({ text: data.isDefaultExport ? 'default' : 'export', color: '#16a34a' });
+  if (data.isComplex) badges.push({ text: 'complex', color: '#ea580c' });
+  if (data.recursion) badges.push({ text: data.recursion === 'mutual' ? 'cycle' : 'recursive', color: '#e11d48' });
+  return badges;
+}
+
+/**
+ * Picks node colors from its kind and flags, mirroring the node components
+ */
+function getNodePalette(node: Node): NodePalette {
+  const data = (node.data || {}) as Record<string, unknown>;
+
+  if (data.isExternal) return { fill: '#f9fafb', stroke: '#9ca3af', text: '#6b7280' };
+  if (node.type === 'class') {
+    return data.kind === 'interface'
+      ? { fill: '#f0fdfa', stroke: '#5eead4', text: '#134e4a' }
+      : { fill: '#eff6ff', stroke: '#93c5fd', text: '#1e3a8a' };
+  }
+  if (data.isAsync) return { fill: '#faf5ff', stroke: '#e9d5ff', text: '#581c87' };
+  if (data.isExported) return { fill: '#f0fdf4', stroke: '#bbf7d0', text: '#14532d' };
+  if (data.category === 'method') return { fill: '#ffffff', stroke: '#d1d5db', text: '#000000' };
+  return { fill: '#f9fafb', stroke: '#e5e7eb', text: '#111827' };
+}
+
+/**
+ * Gets an edge's stroke color
+ */
+function getEdgeColor(edge: Edge): string {
+  return typeof edge.style?.stroke === 'string' ? edge.style.stroke : DEFAULT_EDGE_COLOR;
+}
+
+/**
+ * Shortens text to a maximum number of characters with an ellipsis
+ */
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, Math.max(1, maxChars - 1))}…` : text;
+}
+
+/**
+ * Rounds coordinates to two decimals to keep the markup compact
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Escapes text for use in XML content and attribute values
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
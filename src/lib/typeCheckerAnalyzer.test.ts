@@ -0,0 +1,170 @@
+/**
+ * Tests for Type Checker Analyzer
+ */
+
+import { analyzeWithTypeChecker, analyzeSourceWithTypeChecker } from './typeCheckerAnalyzer';
+import { parseTypeScriptProject } from './projectAnalyzer';
+import type { FunctionCall, ProjectFile } from '../types';
+
+const edges = (calls: FunctionCall[]) =>
+  calls.map(call => `${call.callerFile}#${call.caller} -> ${call.calleeFile}#${call.callee}`).sort();
+
+describe('analyzeWithTypeChecker', () => {
+  it('should resolve method calls on typed receivers', async () => {
+    const files: ProjectFile[] = [
+      {
+        path: 'src/store.ts',
+        content: `
+          export class Store {
+            save(value: string) {
+              return this.validate(value);
+            }
+            validate(value: string) {
+              return value.length > 0;
+            }
+          }
+        `,
+      },
+      {
+        path: 'src/main.ts',
+        content: `
+          import { Store } from './store';
+          export function run(store: Store) {
+            const target = store;
+            return target.save('x');
+          }
+        `,
+      },
+    ];
+
+    const result = await analyzeWithTypeChecker(files);
+
+    expect(result.errors).toHaveLength(0);
+    expect(edges(result.calls)).toEqual([
+      'src/main.ts#run -> src/store.ts#Store.save',
+      'src/store.ts#Store.save -> src/store.ts#Store.validate',
+    ]);
+
+    // The text-based resolver cannot follow the renamed receiver
+    const babel = await parseTypeScriptProject(files);
+    expect(edges(babel.calls)).not.toContain('src/main.ts#run -> src/store.ts#Store.save');
+  });
+
+  it('should resolve aliased imports and re-exports', async () => {
+    const result = await analyzeWithTypeChecker([
+      { path: 'src/math.ts', content: 'export function add(a: number, b: number) { return a + b; }' },
+      { path: 'src/index.ts', content: "export { add as sum } from './math';" },
+      {
+        path: 'src/app.ts',
+        content: `
+          import { sum as plus } from './index';
+          export const total = (values: number[]) => values.reduce((acc, v) => plus(acc, v), 0);
+        `,
+      },
+    ]);
+
+    expect(result.calls).toEqual(expect.arrayContaining([
+      expect.objectContaining({
+        callee: 'add',
+        callerFile: 'src/app.ts',
+        calleeFile: 'src/math.ts',
+      }),
+    ]));
+  });
+
+  it('should link overloaded functions to their implementation', async () => {
+    const result = await analyzeWithTypeChecker([
+      {
+        path: 'format.ts',
+        content: `
+          function format(value: string): string;
+          function format(value: number): string;
+          function format(value: string | number): string {
+            return String(value);
+          }
+          function show() {
+            return format(1) + format('a');
+          }
+        `,
+      },
+    ]);
+
+    expect(result.calls.filter(call => call.caller === 'show')).toHaveLength(2);
+    expect(result.calls.every(call => call.callee === 'format')).toBe(true);
+  });
+
+  it('should link interface method calls to every implementation', async () => {
+    const result = await analyzeWithTypeChecker([
+      {
+        path: 'shapes.ts',
+        content: `
+          export interface Shape {
+            area(): number;
+          }
+          export class Circle implements Shape {
+            area() { return 3; }
+          }
+          export class Square implements Shape {
+            area() { return 4; }
+          }
+          export class Unrelated {
+            area() { return 0; }
+          }
+          export function totalArea(shapes: Shape[]) {
+            let sum = 0;
+            for (const shape of shapes) {
+              sum += shape.area();
+            }
+            return sum;
+          }
+        `,
+      },
+    ]);
+
+    expect(edges(result.calls)).toEqual([
+      'shapes.ts#totalArea -> shapes.ts#Circle.area',
+      'shapes.ts#totalArea -> shapes.ts#Square.area',
+    ]);
+    expect(result).toHaveProperty('metadata.totalCalls', 2);
+  });
+
+  it('should keep the functions and errors of the Babel backend', async () => {
+    const files: ProjectFile[] = [
+      { path: 'ok.ts', content: 'export function ok() { return 1; }' },
+      { path: 'broken.ts', content: 'function broken( {' },
+    ];
+
+    const result = await analyzeWithTypeChecker(files);
+    const babel = await parseTypeScriptProject(files);
+
+    expect(result.functions).toEqual(babel.functions);
+    expect(result.errors).toEqual(babel.errors);
+  });
+});
+
+describe('analyzeSourceWithTypeChecker', () => {
+  it('should resolve calls in a single source without file paths', async () => {
+    const result = await analyzeSourceWithTypeChecker(`
+      class Greeter {
+        greet(name: string) {
+          return this.format(name);
+        }
+        format(name: string) {
+          return 'Hello ' + name;
+        }
+      }
+      export function main() {
+        const greeter = new Greeter();
+        return greeter.greet('world');
+      }
+    `);
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.functions.every(fn => fn.filePath === undefined)).toBe(true);
+    expect(result.calls.map(call => `${call.caller} -> ${call.callee}`).sort()).toEqual([
+      'Greeter.greet -> Greeter.format',
+      'main -> Greeter.greet',
+    ]);
+    expect(result.calls[0]).not.toHaveProperty('callerFile');
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * Type Checker Analyzer Module
+ * Optional analysis backend that resolves call expressions with the
+ * TypeScript compiler API instead of matching identifier text.
+ * Functions are still extracted by the Babel parser so both backends
+ * produce the same nodes; only the call edges differ.
+ */
+
+import * as ts from 'typescript';
+import { parseTypeScriptCode, type ParseOptions } from './codeParser';
+import { parseTypeScriptProject, normalizePath } from './projectAnalyzer';
+import type { FunctionData, FunctionCall, ParsedCodeResult, ProjectFile } from '../types';
+
+/**
+ * Virtual directory the in-memory program is rooted at
+ */
+const VIRTUAL_ROOT = '/project/';
+
+/**
+ * File name used for single sources analyzed without a file name
+ */
+const SINGLE_FILE_NAME = 'source.ts';
+
+/**
+ * Compiler options for the in-memory program
+ */
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  noEmit: true,
+  types: [],
+  lib: ['lib.es2022.d.ts'],
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  allowImportingTsExtensions: true,
+};
+
+/**
+ * Standard library declarations parsed once and shared between analyses
+ */
+const libFileCache = new Map<string, ts.SourceFile>();
+
+/**
+ * Looks up the Babel-extracted functions of one file by source position
+ */
+interface FunctionIndex {
+  byStart: Map<string, FunctionData>;
+  byLineRange: Map<string, FunctionData[]>;
+}
+
+/**
+ * Parses a set of TypeScript files and resolves calls with the type checker.
+ * Method calls on typed receivers, aliased imports and overloads resolve to
+ * their declaration; calls through an interface or abstract method link to
+ * every implementation in the analyzed files.
+ * @param files - Files to analyze, with project-relative paths
+ * @returns Combined parsed result; functions and calls carry file paths
+ */
+export async function analyzeWithTypeChecker(files: ProjectFile[]): Promise<ParsedCodeResult> {
+  const result = await parseTypeScriptProject(files);
+  if (result.functions.length === 0) {
+    return result;
+  }
+
+  const sources = files
+    .filter(file => file.content && typeof file.content === 'string')
+    .map(file => ({ path: normalizePath(file.path), content: file.content }));
+
+  return applyResolvedCalls(result, sources);
+}
+
+/**
+ * Parses a single TypeScript source and resolves its calls with the type checker
+ * @param code - TypeScript source code string
+ * @param options - Parsing options
+ * @returns Parsed code result shaped like the Babel single-file result
+ */
+export async function analyzeSourceWithTypeChecker(code: string, options: ParseOptions = {}): Promise<ParsedCodeResult> {
+  const result = await parseTypeScriptCode(code, options);
+  if (result.functions.length === 0) {
+    return result;
+  }
+
+  const filePath = options.filename || SINGLE_FILE_NAME;
+  const tagged = { ...result, functions: result.functions.map(fn => ({ ...fn, filePath })) };
+  const resolved = applyResolvedCalls(tagged, [{ path: filePath, content: code }]);
+
+  // Single-file results carry no file paths; errors and metadata are shared with the copy
+  result.calls = resolved.calls.map(({ caller, callee, lineNumber, columnNumber }) => ({
+    caller,
+    callee,
+    lineNumber,
+    columnNumber,
+  }));
+  return result;
+}
+
+/**
+ * Replaces the calls of a parsed result with calls resolved by the type checker
+ * @param result - Parsed result whose functions carry file paths
+ * @param files - Sources the functions were extracted from
+ * @returns The same result with resolved calls and updated metadata
+ */
+function applyResolvedCalls(result: ParsedCodeResult, files: ProjectFile[]): ParsedCodeResult {
+  const sources = new Map(files.map(file => [toVirtualPath(file.path), file.content]));
+
+  const indexes = new Map<string, FunctionIndex>();
+  for (const fn of result.functions) {
+    const filePath = fn.filePath!;
+    if (!indexes.has(filePath)) {
+      indexes.set(filePath, { byStart: new Map(), byLineRange: new Map() });
+    }
+    const index = indexes.get(filePath)!;
+    index.byStart.set(`${fn.location.startLine}:${fn.location.startColumn}`, fn);
+    const rangeKey = `${fn.location.startLine}-${fn.location.endLine}`;
+    index.byLineRange.set(rangeKey, [...(index.byLineRange.get(rangeKey) || []), fn]);
+  }
+
+  try {
+    const program = ts.createProgram({
+      rootNames: Array.from(sources.keys()),
+      options: COMPILER_OPTIONS,
+      host: createInMemoryHost(sources),
+    });
+    const checker = program.getTypeChecker();
+    const sourceFiles = program.getSourceFiles().filter(sourceFile => sources.has(sourceFile.fileName));
+    const classes = sourceFiles.flatMap(collectClasses);
+
+    result.calls = sourceFiles.flatMap(sourceFile =>
+      extractResolvedCalls(sourceFile, checker, classes, indexes)
+    );
+  } catch (error) {
+    result.errors.push({
+      type: 'analysis',
+      message: error instanceof Error ? error.message : 'Type checker analysis failed',
+    });
+  }
+
+  if (result.metadata) {
+    result.metadata.totalCalls = result.calls.length;
+  }
+
+  return result;
+}
+
+/**
+ * Extracts every call in a source file whose caller and callee are known functions
+ * @param sourceFile - File to scan
+ * @param checker - Type checker of the program
+ * @param classes - All classes in the analyzed files
+ * @param indexes - Function indexes keyed by project-relative path
+ * @returns Resolved calls with callerFile and calleeFile set
+ */
+function extractResolvedCalls(
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+  classes: ts.ClassLikeDeclaration[],
+  indexes: Map<string, FunctionIndex>
+): FunctionCall[] {
+  const calls: FunctionCall[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const caller = findEnclosingFunction(node, indexes);
+      if (caller) {
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        const seen = new Set<FunctionData>();
+
+        for (const declaration of resolveCallDeclarations(node, checker, classes)) {
+          const callee = lookupFunction(declaration, indexes);
+          if (!callee || seen.has(callee)) continue;
+          seen.add(callee);
+
+          calls.push({
+            caller: caller.name,
+            callee: callee.name,
+            lineNumber: line + 1,
+            columnNumber: character,
+            callerFile: caller.filePath,
+            calleeFile: callee.filePath,
+          });
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return calls;
+}
+
+/**
+ * Resolves the function-like declarations a call expression may invoke
+ * @param call - Call expression
+ * @param checker - Type checker of the program
+ * @param classes - All classes in the analyzed files
+ * @returns Candidate declarations with bodies
+ */
+function resolveCallDeclarations(
+  call: ts.CallExpression,
+  checker: ts.TypeChecker,
+  classes: ts.ClassLikeDeclaration[]
+): ts.Node[] {
+  const target = ts.isPropertyAccessExpression(call.expression) ? call.expression.name : call.expression;
+
+  let symbol = checker.getSymbolAtLocation(target);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+
+  let declarations: ts.Node[] = symbol?.declarations ? [...symbol.declarations] : [];
+  if (declarations.length === 0) {
+    const declaration = checker.getResolvedSignature(call)?.declaration;
+    if (declaration) declarations = [declaration];
+  }
+
+  return declarations.flatMap(declaration => {
+    // const fn = () => {} / const fn = function () {}
+    if (ts.isVariableDeclaration(declaration) || ts.isPropertyAssignment(declaration) || ts.isPropertyDeclaration(declaration)) {
+      const initializer = declaration.initializer;
+      return initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+        ? [initializer]
+        : [];
+    }
+
+    // Interface members and abstract methods dispatch to their implementations
+    if (ts.isMethodSignature(declaration) || ts.isPropertySignature(declaration)
+      || (ts.isMethodDeclaration(declaration) && !declaration.body)) {
+      return findImplementations(declaration, checker, classes);
+    }
+
+    // Overload signatures have no body; the implementation is another declaration
+    if (ts.isFunctionLike(declaration)) {
+      return 'body' in declaration && declaration.body ? [declaration] : [];
+    }
+
+    return [];
+  });
+}
+
+/**
+ * Finds class members implementing an interface member or abstract method
+ * @param member - Member declared without a body
+ * @param checker - Type checker of the program
+ * @param classes - All classes in the analyzed files
+ * @returns Implementing method declarations and function initializers
+ */
+function findImplementations(
+  member: ts.MethodSignature | ts.PropertySignature | ts.MethodDeclaration,
+  checker: ts.TypeChecker,
+  classes: ts.ClassLikeDeclaration[]
+): ts.Node[] {
+  const container = member.parent;
+  if (!(ts.isInterfaceDeclaration(container) || ts.isClassLike(container)) || !container.name) {
+    return [];
+  }
+
+  const containerSymbol = checker.getSymbolAtLocation(container.name);
+  const memberName = getMemberName(member.name);
+  if (!containerSymbol || !memberName) return [];
+
+  return classes
+    .filter(classNode => classNode !== container && inheritsFrom(classNode, containerSymbol, checker, new Set()))
+    .flatMap(classNode => classNode.members.flatMap((classMember): ts.Node[] => {
+      if (getMemberName(classMember.name) !== memberName) return [];
+      if (ts.isMethodDeclaration(classMember) && classMember.body) return [classMember];
+      if (ts.isPropertyDeclaration(classMember) && classMember.initializer
+        && (ts.isArrowFunction(classMember.initializer) || ts.isFunctionExpression(classMember.initializer))) {
+        return [classMember.initializer];
+      }
+      return [];
+    }));
+}
+
+/**
+ * Checks whether a class or interface extends or implements a type, directly or transitively
+ * @param declaration - Class or interface declaration
+ * @param target - Symbol of the base type
+ * @param checker - Type checker of the program
+ * @param visited - Declarations already checked (guards against cycles)
+ * @returns True if the declaration derives from the target
+ */
+function inheritsFrom(
+  declaration: ts.ClassLikeDeclaration | ts.InterfaceDeclaration,
+  target: ts.Symbol,
+  checker: ts.TypeChecker,
+  visited: Set<ts.Node>
+): boolean {
+  if (visited.has(declaration)) return false;
+  visited.add(declaration);
+
+  for (const clause of declaration.heritageClauses || []) {
+    for (const type of clause.types) {
+      let symbol = checker.getSymbolAtLocation(type.expression);
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+        symbol = checker.getAliasedSymbol(symbol);
+      }
+      if (!symbol) continue;
+      if (symbol === target) return true;
+
+      const inherited = (symbol.declarations || []).some(base =>
+        (ts.isClassLike(base) || ts.isInterfaceDeclaration(base))
+        && inheritsFrom(base, target, checker, visited)
+      );
+      if (inherited) return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Finds the innermost known function containing a node
+ * @param node - Node inside a function body
+ * @param indexes - Function indexes keyed by project-relative path
+ * @returns The enclosing function, or null at module level
+ */
+function findEnclosingFunction(node: ts.Node, indexes: Map<string, FunctionIndex>): FunctionData | null {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isFunctionLike(current)) {
+      const fn = lookupFunction(current, indexes);
+      if (fn) return fn;
+    }
+  }
+  return null;
+}
+
+/**
+ * Maps a TypeScript function-like node to the Babel-extracted function at the
+ * same position. Babel records variable-bound functions at the declarator and
+ * exported declarations after the `export` keyword, so a unique match on the
+ * line range is accepted when the start column differs.
+ * @param node - Function-like node
+ * @param indexes - Function indexes keyed by project-relative path
+ * @returns Matching function, or null if the node was not extracted
+ */
+function lookupFunction(node: ts.Node, indexes: Map<string, FunctionIndex>): FunctionData | null {
+  const sourceFile = node.getSourceFile();
+  const index = indexes.get(fromVirtualPath(sourceFile.fileName));
+  if (!index) return null;
+
+  const anchor = ts.isVariableDeclaration(node.parent) && node.parent.initializer === node ? node.parent : node;
+  const start = sourceFile.getLineAndCharacterOfPosition(anchor.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(anchor.getEnd());
+
+  const exact = index.byStart.get(`${start.line + 1}:${start.character}`);
+  if (exact && exact.location.endLine === end.line + 1) return exact;
+
+  const candidates = index.byLineRange.get(`${start.line + 1}-${end.line + 1}`) || [];
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Collects class declarations and expressions in a source file
+ * @param sourceFile - File to scan
+ * @returns Classes in document order
+ */
+function collectClasses(sourceFile: ts.SourceFile): ts.ClassLikeDeclaration[] {
+  const classes: ts.ClassLikeDeclaration[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isClassLike(node)) classes.push(node);
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return classes;
+}
+
+/**
+ * Gets the text of a member name that is an identifier or string literal
+ */
+function getMemberName(name: ts.PropertyName | undefined): string | null {
+  if (!name) return null;
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isPrivateIdentifier(name)) {
+    return name.text;
+  }
+  return null;
+}
+
+/**
+ * Creates a compiler host serving the analyzed files from memory. The
+ * standard library is read from the typescript package when a file system is
+ * available (Node); in the browser the program is built without it, so calls
+ * through built-in types such as array callbacks are not resolved.
+ * @param sources - File contents keyed by virtual path
+ * @returns Compiler host that only reads library declarations from disk
+ */
+function createInMemoryHost(sources: Map<string, string>): ts.CompilerHost {
+  const defaultLibPath = ts.sys ? ts.getDefaultLibFilePath(COMPILER_OPTIONS) : null;
+  const libDirectory = defaultLibPath ? defaultLibPath.slice(0, defaultLibPath.lastIndexOf('/')) : null;
+  const isLibFile = (fileName: string) => libDirectory !== null && fileName.startsWith(`${libDirectory}/`);
+
+  return {
+    getSourceFile: (fileName, languageVersion) => {
+      const text = sources.get(fileName);
+      if (text !== undefined) {
+        return ts.createSourceFile(fileName, text, languageVersion, true);
+      }
+      if (!isLibFile(fileName)) return undefined;
+
+      if (!libFileCache.has(fileName)) {
+        const libText = ts.sys.readFile(fileName);
+        if (libText === undefined) return undefined;
+        libFileCache.set(fileName, ts.createSourceFile(fileName, libText, languageVersion, true));
+      }
+      return libFileCache.get(fileName);
+    },
+    getDefaultLibFileName: options => libDirectory
+      ? ts.getDefaultLibFilePath(options)
+      : `${VIRTUAL_ROOT}lib.d.ts`,
+    getDefaultLibLocation: () => libDirectory || VIRTUAL_ROOT,
+    writeFile: () => undefined,
+    getCurrentDirectory: () => VIRTUAL_ROOT,
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => sources.has(fileName) || (isLibFile(fileName) && ts.sys.fileExists(fileName)),
+    readFile: fileName => sources.get(fileName) ?? (isLibFile(fileName) ? ts.sys.readFile(fileName) : undefined),
+    directoryExists: directory => {
+      const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+      return Array.from(sources.keys()).some(fileName => fileName.startsWith(prefix));
+    },
+    getDirectories: () => [],
+  };
+}
+
+/**
+ * Maps a project-relative path into the virtual root
+ */
+function toVirtualPath(filePath: string): string {
+  return `${VIRTUAL_ROOT}${filePath}`;
+}
+
+/**
+ * Maps a virtual path back to its project-relative path
+ */
+function fromVirtualPath(fileName: string): string {
+  return fileName.startsWith(VIRTUAL_ROOT) ? fileName.slice(VIRTUAL_ROOT.length) : fileName;
+}
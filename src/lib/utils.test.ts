@@ -8,7 +8,11 @@ import {
   fetchCodeFromURL, 
   getFilenameFromURL, 
   isGitHubURL, 
-  isGistURL 
+  isGistURL,
+  isSupportedFile,
+  validateSourceCode,
+  parseGitHubDirectoryURL,
+  matchGlob
 } from './utils';
 
 // Mock axios
@@ -153,6 +157,37 @@ describe('fetchCodeFromURL', () => {
     });
   });
 
+  it('should revalidate a cached copy with its ETag', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      status: 304,
+      data: '',
+      headers: { etag: '"abc"' }
+    });
+
+    const result = await fetchCodeFromURL('https://example.com/test.ts', { etag: '"abc"' });
+
+    expect(mockedAxios.get.mock.calls[0][1]?.headers).toMatchObject({ 'If-None-Match': '"abc"' });
+    expect(result).toEqual({
+      success: true,
+      notModified: true,
+      url: 'https://example.com/test.ts',
+      etag: '"abc"'
+    });
+  });
+
+  it('should report download progress', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      data: 'const a = 1;',
+      headers: { 'content-type': 'text/plain' }
+    });
+    const onDownloadProgress = jest.fn();
+
+    await fetchCodeFromURL('https://example.com/test.ts', { onDownloadProgress });
+    mockedAxios.get.mock.calls[0][1]?.onDownloadProgress?.({ loaded: 6, total: 12, bytes: 6, lengthComputable: true });
+
+    expect(onDownloadProgress).toHaveBeenCalledWith(6, 12);
+  });
+
   it('should handle invalid URLs', async () => {
     const result = await fetchCodeFromURL('invalid-url');
 
@@ -359,4 +394,93 @@ describe('Axios Mock Setup', () => {
   it('should properly mock axios for testing', () => {
     expect(jest.isMockFunction(mockedAxios.get)).toBe(true);
   });
-});
\ No newline at end of file
+});
+describe('isSupportedFile', () => {
+  it('should accept TypeScript file names', () => {
+    expect(isSupportedFile('utils.ts')).toBe(true);
+    expect(isSupportedFile('src/components/Button.TSX')).toBe(true);
+  });
+
+  it('should reject other file names', () => {
+    expect(isSupportedFile('script.js')).toBe(false);
+    expect(isSupportedFile('README.md')).toBe(false);
+  });
+});
+
+describe('validateSourceCode', () => {
+  it('should accept code with or without a supported filename', () => {
+    expect(validateSourceCode('function a() {}')).toEqual({ isValid: true });
+    expect(validateSourceCode('const A = () => <div />;', 'A.tsx')).toEqual({ isValid: true });
+  });
+
+  it('should reject empty code', () => {
+    expect(validateSourceCode('   ')).toEqual({ isValid: false, error: 'Source code is required' });
+  });
+
+  it('should reject unsupported filenames', () => {
+    expect(validateSourceCode('function a() {}', 'a.js')).toEqual({
+      isValid: false,
+      error: 'Unsupported file type. Supported types: .ts, .tsx',
+    });
+  });
+
+  it('should reject code over the size limit', () => {
+    const result = validateSourceCode('x'.repeat(500 * 1024 + 1));
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('Source code too large');
+  });
+});
+
+describe('GitHub directory URLs', () => {
+  it('should accept repository and tree URLs as directories', () => {
+    expect(validateURL('https://github.com/user/repo')).toEqual({
+      isValid: true,
+      normalizedUrl: 'https://github.com/user/repo',
+      isDirectory: true
+    });
+    expect(validateURL('https://github.com/user/repo/tree/main/src/')).toEqual({
+      isValid: true,
+      normalizedUrl: 'https://github.com/user/repo/tree/main/src',
+      isDirectory: true
+    });
+  });
+
+  it('should parse repository locations', () => {
+    expect(parseGitHubDirectoryURL('https://github.com/user/repo.git')).toEqual({
+      owner: 'user', repo: 'repo', path: ''
+    });
+    expect(parseGitHubDirectoryURL('https://github.com/user/repo/tree/v1.2/src/lib')).toEqual({
+      owner: 'user', repo: 'repo', ref: 'v1.2', path: 'src/lib'
+    });
+    expect(parseGitHubDirectoryURL('https://github.com/user/repo/blob/main/file.ts')).toBeNull();
+    expect(parseGitHubDirectoryURL('https://example.com/user/repo')).toBeNull();
+  });
+
+  it('should not fetch directory URLs as single files', async () => {
+    const result = await fetchCodeFromURL('https://github.com/user/repo');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('directory');
+  });
+});
+
+describe('matchGlob', () => {
+  it('should match directory wildcards', () => {
+    expect(matchGlob('src/lib/utils.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchGlob('src/utils.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchGlob('test/utils.ts', 'src/**/*.ts')).toBe(false);
+    expect(matchGlob('packages/a/node_modules/x/index.ts', '**/node_modules/**')).toBe(true);
+  });
+
+  it('should match single segment wildcards and alternatives', () => {
+    expect(matchGlob('src/App.tsx', 'src/*.{ts,tsx}')).toBe(true);
+    expect(matchGlob('src/nested/App.tsx', 'src/*.{ts,tsx}')).toBe(false);
+    expect(matchGlob('src/a.ts', 'src/?.ts')).toBe(true);
+  });
+
+  it('should match patterns without a slash against the file name', () => {
+    expect(matchGlob('src/lib/utils.test.ts', '*.test.ts')).toBe(true);
+    expect(matchGlob('src/lib/utils.ts', '*.test.ts')).toBe(false);
+  });
+});
@@ -2,8 +2,8 @@
  * Utility functions for URL validation and code fetching
  */
 
-import axios from 'axios';
-import { URLValidationResult, CodeFetchResult, SupportedFileType } from '../types';
+import axios, { AxiosProgressEvent } from 'axios';
+import { URLValidationResult, CodeFetchResult, CodeFetchOptions, SupportedFileType, GitHubDirectory } from '../types';
 
 /**
  * Maximum allowed file size (500KB)
@@ -47,6 +47,15 @@ export function validateURL(url: string): URLValidationResult {
       return { isValid: false, error: 'Only HTTP and HTTPS URLs are supported' };
     }
 
+    // GitHub repository and directory URLs are expanded into their files later
+    if (parseGitHubDirectoryURL(trimmedUrl)) {
+      return {
+        isValid: true,
+        normalizedUrl: trimmedUrl.replace(/\/+$/, ''),
+        isDirectory: true
+      };
+    }
+
     // Check if it's a supported file type
     const pathname = parsedUrl.pathname.toLowerCase();
     const hasValidExtension = SUPPORTED_EXTENSIONS.some(ext => pathname.endsWith(ext));
@@ -94,12 +103,139 @@ export function validateURL(url: string): URLValidationResult {
   }
 }
 
+/**
+ * Parses a GitHub repository or directory URL
+ * (github.com/owner/repo or github.com/owner/repo/tree/ref/path)
+ * @param url - The URL to parse
+ * @returns Repository location, or null if the URL is not a GitHub directory
+ */
+export function parseGitHubDirectoryURL(url: string): GitHubDirectory | null {
+  try {
+    const parsedUrl = new URL(url.trim());
+    if (parsedUrl.hostname !== 'github.com' && parsedUrl.hostname !== 'www.github.com') {
+      return null;
+    }
+
+    const [owner, repo, kind, ref, ...pathParts] = parsedUrl.pathname.split('/').filter(Boolean);
+    if (!owner || !repo) return null;
+
+    const repoName = repo.replace(/\.git$/, '');
+
+    if (!kind) {
+      return { owner, repo: repoName, path: '' };
+    }
+
+    if (kind === 'tree' && ref) {
+      return { owner, repo: repoName, ref, path: pathParts.join('/') };
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Matches a path against a glob pattern.
+ * Supports `**` (any number of directories), `*`, `?` and `{a,b}` alternatives.
+ * Patterns without a `/` are matched against the file name only.
+ * @param path - Forward-slash separated path
+ * @param pattern - Glob pattern, e.g. `src/**` or `*.test.ts`
+ * @returns True if the path matches
+ */
+export function matchGlob(path: string, pattern: string): boolean {
+  const target = pattern.includes('/') ? path : path.split('/').pop() || path;
+  return globToRegExp(pattern).test(target);
+}
+
+/**
+ * Converts a glob pattern into an anchored regular expression
+ * @param pattern - Glob pattern
+ * @returns Regular expression matching the whole path
+ */
+function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (pattern[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      regex += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      regex += ')';
+    } else if (char === ',' && inGroup) {
+      regex += '|';
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Checks whether a file name has a supported TypeScript extension
+ * @param filename - File name or path to check
+ * @returns True for .ts and .tsx files
+ */
+export function isSupportedFile(filename: string): boolean {
+  const lowerName = filename.toLowerCase();
+  return SUPPORTED_EXTENSIONS.some(ext => lowerName.endsWith(ext));
+}
+
+/**
+ * Validates source code supplied directly (pasted or uploaded) rather than fetched
+ * @param code - Source code text
+ * @param filename - Optional file name used to pick TS or TSX parsing
+ * @returns Validation result with an error message if invalid
+ */
+export function validateSourceCode(code: string, filename?: string): { isValid: boolean; error?: string } {
+  if (typeof code !== 'string' || code.trim().length === 0) {
+    return { isValid: false, error: 'Source code is required' };
+  }
+
+  if (code.length > MAX_FILE_SIZE) {
+    return {
+      isValid: false,
+      error: `Source code too large (${formatBytes(code.length)}). Maximum size is ${formatBytes(MAX_FILE_SIZE)}`,
+    };
+  }
+
+  if (filename !== undefined && (typeof filename !== 'string' || !isSupportedFile(filename))) {
+    return {
+      isValid: false,
+      error: `Unsupported file type. Supported types: ${SUPPORTED_EXTENSIONS.join(', ')}`,
+    };
+  }
+
+  return { isValid: true };
+}
+
 /**
  * Fetches code content from a URL with proper error handling
  * @param url - The URL to fetch code from
+ * @param options - ETag of a cached copy for a conditional request, download progress callback
  * @returns Promise with fetch result
  */
-export async function fetchCodeFromURL(url: string): Promise<CodeFetchResult> {
+export async function fetchCodeFromURL(url: string, options: CodeFetchOptions = {}): Promise<CodeFetchResult> {
   try {
     // Validate URL first
     const validation = validateURL(url);
@@ -111,6 +247,14 @@ export async function fetchCodeFromURL(url: string): Promise<CodeFetchResult> {
       };
     }
 
+    if (validation.isDirectory) {
+      return {
+        success: false,
+        error: 'URL points to a directory, not a single file',
+        url
+      };
+    }
+
     const targetUrl = validation.normalizedUrl || url;
 
     // Set up axios with timeout and headers
@@ -118,13 +262,30 @@ export async function fetchCodeFromURL(url: string): Promise<CodeFetchResult> {
       timeout: 10000, // 10 second timeout
       headers: {
         'Accept': 'text/plain, text/typescript, application/typescript, */*',
-        'User-Agent': 'TypeScript-Function-Visualizer/1.0'
+        'User-Agent': 'TypeScript-Function-Visualizer/1.0',
+        ...(options.etag && { 'If-None-Match': options.etag })
       },
       responseType: 'text',
       maxContentLength: MAX_FILE_SIZE,
-      validateStatus: (status) => status >= 200 && status < 400
+      validateStatus: (status) => status >= 200 && status < 400,
+      signal: options.signal,
+      ...(options.onDownloadProgress && {
+        onDownloadProgress: (event: AxiosProgressEvent) => options.onDownloadProgress!(event.loaded, event.total)
+      })
     });
 
+    const etag = typeof response.headers['etag'] === 'string' ? response.headers['etag'] : undefined;
+
+    // The cached copy is still current
+    if (response.status === 304 && options.etag) {
+      return {
+        success: true,
+        notModified: true,
+        url: targetUrl,
+        etag: etag || options.etag
+      };
+    }
+
     // Check content type if available
     const contentType = response.headers['content-type'];
     if (contentType && !isTextContent(contentType)) {
@@ -172,7 +333,8 @@ export async function fetchCodeFromURL(url: string): Promise<CodeFetchResult> {
       success: true,
       content,
       url: targetUrl,
-      size
+      size,
+      etag
     };
 
   } catch (error) {
@@ -283,7 +445,7 @@ function isLikelyTypeScriptContent(content: string): boolean {
  * @param decimals - Number of decimal places (default: 1)
  * @returns Formatted string (e.g., "1.5 KB")
  */
-function formatBytes(bytes: number, decimals: number = 1): string {
+export function formatBytes(bytes: number, decimals: number = 1): string {
   if (bytes === 0) return '0 Bytes';
 
   const k = 1024;
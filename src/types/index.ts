@@ -39,6 +39,27 @@ export interface FunctionData {
   documentation?: string;
   /** Original source code of the function */
   sourceCode?: string;
+  /** Project-relative path of the file that declares the function (multi-file analysis) */
+  filePath?: string;
+  /** Control-flow metrics of the function body */
+  metrics?: ComplexityMetrics;
+}
+
+/**
+ * Complexity metrics of a single function body.
+ * Nested functions are measured separately and do not count towards their parent.
+ */
+export interface ComplexityMetrics {
+  /** McCabe cyclomatic complexity: 1 plus the number of decision points */
+  cyclomatic: number;
+  /** Cognitive complexity: decision points weighted by how deeply they are nested */
+  cognitive: number;
+  /** Deepest nesting of control-flow structures (0 for straight-line code) */
+  maxNesting: number;
+  /** Non-blank lines that are not only comments */
+  linesOfCode: number;
+  /** Number of return statements (an expression-bodied arrow counts as one) */
+  returnPoints: number;
 }
 
 /**
@@ -53,6 +74,178 @@ export interface FunctionCall {
   lineNumber: number;
   /** Column number where the call occurs */
   columnNumber?: number;
+  /** File declaring the caller (multi-file analysis) */
+  callerFile?: string;
+  /** File declaring the callee (multi-file analysis) */
+  calleeFile?: string;
+}
+
+/**
+ * A call from an analyzed function into an imported module that was not analyzed,
+ * e.g. a package like `react` or a relative file outside the analyzed set
+ */
+export interface ExternalCall {
+  /** Name of the function making the call */
+  caller: string;
+  /** Module specifier of the import the callee comes from */
+  module: string;
+  /** Called member: the imported name, or the accessed member of a default or namespace import */
+  callee: string;
+  /** Line number where the call occurs */
+  lineNumber: number;
+  /** Column number where the call occurs */
+  columnNumber?: number;
+  /** File declaring the caller (multi-file analysis) */
+  callerFile?: string;
+}
+
+/**
+ * A base class or interface named in an `extends` or `implements` clause
+ */
+export interface HeritageReference {
+  /** Name as written in the source, e.g. `Base` or `React.Component` */
+  name: string;
+  /** Declaring file when the reference resolves to an analyzed declaration (multi-file analysis) */
+  filePath?: string;
+}
+
+/**
+ * Represents a class or interface found in the TypeScript code
+ */
+export interface ClassData {
+  /** Class or interface name */
+  name: string;
+  /** Declaration kind */
+  kind: 'class' | 'interface';
+  /** Base class of a class, or base interfaces of an interface */
+  extends: HeritageReference[];
+  /** Interfaces implemented by a class */
+  implements: HeritageReference[];
+  /** Member methods in `Name.method` form (matching FunctionData names for class methods) */
+  methods: string[];
+  /** Member property names */
+  properties: string[];
+  /** Location in the source file */
+  location: {
+    startLine: number;
+    endLine: number;
+    startColumn: number;
+    endColumn: number;
+  };
+  /** Whether the declaration is exported */
+  exported?: boolean;
+  /** Whether this is an abstract class */
+  abstract?: boolean;
+  /** JSDoc comment if present */
+  documentation?: string;
+  /** Project-relative path of the declaring file (multi-file analysis) */
+  filePath?: string;
+}
+
+/**
+ * A single binding introduced by an import declaration
+ */
+export interface ImportBinding {
+  /** Name the binding is known by inside the importing file */
+  localName: string;
+  /** Name exported by the source module ('default' or '*' for namespace imports) */
+  importedName: string;
+  /** Module specifier as written in the import */
+  source: string;
+  /** Whether this is a type-only import */
+  typeOnly: boolean;
+}
+
+/**
+ * A single name made available by an export declaration
+ */
+export interface ExportBinding {
+  /** Name visible to importers ('*' for `export * from`) */
+  exportedName: string;
+  /** Local (or re-exported) name the export refers to ('*' for namespace re-exports) */
+  localName: string;
+  /** Module specifier for re-exports */
+  source?: string;
+}
+
+/**
+ * Kind of symbol an export makes available
+ */
+export type ExportKind = 'function' | 'class' | 'type' | 'const' | 'default' | 're-export';
+
+/**
+ * One import declaration with the specifiers it brings in
+ */
+export interface ModuleImport {
+  /** Module specifier as written in the import */
+  source: string;
+  /** Imported names ('default' or '*' for namespace imports) */
+  specifiers: Array<{ importedName: string; localName: string; typeOnly: boolean }>;
+  /** Whether the whole declaration is `import type` */
+  typeOnly: boolean;
+  /** File containing the import (multi-file analysis) */
+  filePath?: string;
+}
+
+/**
+ * One name exported by a module
+ */
+export interface ModuleExport {
+  /** Name visible to importers ('default', or '*' for `export * from`) */
+  name: string;
+  kind: ExportKind;
+  /** Local declaration the export refers to, when it has one */
+  localName?: string;
+  /** Module specifier for re-exports */
+  source?: string;
+  /** File containing the export (multi-file analysis) */
+  filePath?: string;
+}
+
+/**
+ * A top-level declaration of a module
+ */
+export interface ModuleDeclaration {
+  name: string;
+  kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+  /** Line number where the declaration starts */
+  line: number;
+  exported: boolean;
+  /** File containing the declaration (multi-file analysis) */
+  filePath?: string;
+}
+
+/**
+ * Imports, exports and top-level declarations of the analyzed code
+ */
+export interface ModuleSummary {
+  imports: ModuleImport[];
+  exports: ModuleExport[];
+  declarations: ModuleDeclaration[];
+}
+
+/**
+ * Summary figures attached to a parse result
+ */
+export interface ParseMetadata {
+  totalFunctions: number;
+  totalCalls: number;
+  /** Imported module specifiers */
+  imports: string[];
+  /** Exported names (`path:name` in multi-file analysis) */
+  exports: string[];
+  /** Typed imports, exports and declarations */
+  module: ModuleSummary;
+}
+
+/**
+ * A source file taking part in a multi-file analysis
+ */
+export interface ProjectFile {
+  /** Project-relative path, e.g. `src/lib/utils.ts` */
+  path: string;
+  /** File contents */
+  content: string;
 }
 
 /**
@@ -73,6 +266,8 @@ export interface ParseError {
   line?: number;
   column?: number;
   type: 'syntax' | 'analysis' | 'network' | 'validation';
+  /** File the error belongs to (multi-file analysis) */
+  filePath?: string;
 }
 
 /**
@@ -83,12 +278,20 @@ export interface ParsedCodeResult {
   functions: FunctionData[];
   /** Function call relationships */
   calls: FunctionCall[];
+  /** Calls into imported modules that were not analyzed */
+  externalCalls?: ExternalCall[];
+  /** Classes and interfaces */
+  classes?: ClassData[];
   /** Any errors that occurred during parsing */
   errors: ParseError[];
   /** Source file URL */
   sourceUrl?: string;
   /** Original source code */
   sourceCode?: string;
+  /** Analyzed file paths (multi-file analysis) */
+  files?: string[];
+  /** Counts and module summary, set once the code has been analyzed */
+  metadata?: ParseMetadata;
 }
 
 /**
@@ -98,6 +301,8 @@ export interface URLValidationResult {
   isValid: boolean;
   error?: string;
   normalizedUrl?: string;
+  /** True for repository or directory URLs that expand to many files */
+  isDirectory?: boolean;
 }
 
 /**
@@ -109,6 +314,52 @@ export interface CodeFetchResult {
   error?: string;
   url: string;
   size?: number;
+  /** ETag response header, used to revalidate cached content */
+  etag?: string;
+  /** True when a conditional request found the cached content current (HTTP 304); `content` is not set */
+  notModified?: boolean;
+}
+
+/**
+ * Options for fetching code from a URL
+ */
+export interface CodeFetchOptions {
+  /** ETag of a cached copy; a matching server answers 304 Not Modified */
+  etag?: string;
+  /** Called as the response body arrives, with the expected size when known */
+  onDownloadProgress?: (bytes: number, totalBytes?: number) => void;
+  /** Cancels the download */
+  signal?: AbortSignal;
+}
+
+/**
+ * Location of a GitHub repository or directory
+ */
+export interface GitHubDirectory {
+  owner: string;
+  repo: string;
+  /** Branch, tag or commit; undefined means the default branch */
+  ref?: string;
+  /** Directory path inside the repository ('' for the root) */
+  path: string;
+}
+
+/**
+ * Fetch response for a repository or directory expanded into files
+ */
+export interface RepositoryFetchResult {
+  success: boolean;
+  files?: ProjectFile[];
+  error?: string;
+  url: string;
+  /** Resolved branch, tag or commit */
+  ref?: string;
+  /** Number of TypeScript files matching the filters before the file cap */
+  totalMatched?: number;
+  /** Whether files were left out because of the file cap */
+  truncated?: boolean;
+  /** Combined size of the fetched files in bytes */
+  size?: number;
 }
 
 /**
@@ -121,6 +372,91 @@ export type SupportedFileType = '.ts' | '.tsx';
  */
 export type AnalysisStatus = 'idle' | 'validating' | 'fetching' | 'parsing' | 'complete' | 'error';
 
+/**
+ * Step of a server-side analysis reported while it runs
+ */
+export type AnalysisStage = 'validating' | 'fetching' | 'parsing' | 'functions' | 'calls' | 'layout';
+
+/**
+ * Progress of a running analysis with the counts known so far
+ */
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  /** Bytes of source received so far (fetching) */
+  bytes?: number;
+  /** Expected source size in bytes, when the server sent one (fetching) */
+  totalBytes?: number;
+  /** Files fetched or being parsed (repository/directory URLs) */
+  files?: number;
+  /** Functions extracted so far */
+  functions?: number;
+  /** Calls extracted so far */
+  calls?: number;
+}
+
+/**
+ * Call resolution backend: identifier matching on the Babel AST, or the
+ * TypeScript type checker
+ */
+export type AnalyzerBackend = 'babel' | 'typescript';
+
+/**
+ * Function filters applied by the visualizer
+ */
+export interface FilterOptions {
+  showExported: boolean;
+  showAsync: boolean;
+  showMethods: boolean;
+  hideIsolated: boolean;
+  /** Hides the nodes of imported packages and modules */
+  hideExternal?: boolean;
+  minComplexity: number;
+  maxComplexity: number;
+  // Function type visibility filters
+  functionTypes: {
+    exported: boolean;
+    async: boolean;
+    methods: boolean;
+    useCallback: boolean;
+    useEffect: boolean;
+    jsxHandlers: boolean;
+    regular: boolean;
+  };
+}
+
+/**
+ * Focus mode: shows only the transitive callers and/or callees of one function
+ */
+export interface FocusOptions {
+  nodeId: string;
+  /** 'upstream' follows callers, 'downstream' follows callees */
+  direction: 'upstream' | 'downstream' | 'both';
+  /** Maximum number of calls away from the focused function; 0 means no limit */
+  depth: number;
+}
+
+/**
+ * Visualizer state that a permalink restores: layout, filters, search,
+ * selection and the viewport
+ */
+export interface ViewState {
+  layoutType: 'dagre' | 'force' | 'circular' | 'radial' | 'grid';
+  layoutDirection: 'TB' | 'LR' | 'BT' | 'RL' | 'CONNECTED';
+  spacing: { nodeSpacing: number; rankSeparation: number; edgeSeparation: number };
+  filters: FilterOptions;
+  searchQuery: string;
+  viewMode: 'calls' | 'hierarchy';
+  /** Node shown in the details panel */
+  selectedNodeId?: string;
+  highlightedNodes: string[];
+  /** Edges emphasized by the path finder; when empty, edges touching highlighted nodes are shown */
+  highlightedEdges?: string[];
+  /** Focus mode; the whole graph is shown when absent */
+  focus?: FocusOptions;
+  /** Pan and zoom; the graph is fitted to the screen when absent */
+  viewport?: { x: number; y: number; zoom: number };
+}
+
 /**
  * Type guards for runtime type checking
  */